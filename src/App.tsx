@@ -12,8 +12,19 @@ import CreateInvoice from "./pages/CreateInvoice";
 import EditInvoice from "./pages/EditInvoice";
 import ManageClients from "./pages/ManageClients";
 import ManageCompanies from "./pages/ManageCompanies";
+import ManageItems from "./pages/ManageItems";
 import ViewInvoice from "./pages/ViewInvoice";
 import InvoiceLedger from "./pages/InvoiceLedger";
+import Gstr1Report from "./pages/Gstr1Report";
+import Gstr3bReport from "./pages/Gstr3bReport";
+import CreateNote from "./pages/CreateNote";
+import RecurringInvoices from "./pages/RecurringInvoices";
+import RecurringInvoiceForm from "./pages/RecurringInvoiceForm";
+import Quotations from "./pages/Quotations";
+import QuotationForm from "./pages/QuotationForm";
+import ViewQuotation from "./pages/ViewQuotation";
+import InvoiceTemplates from "./pages/InvoiceTemplates";
+import TemplateEditor from "./pages/TemplateEditor";
 import ProtectedRoute from "./components/ProtectedRoute";
 
 const queryClient = new QueryClient();
@@ -68,6 +79,14 @@ const App = () => (
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/manage-items" 
+              element={
+                <ProtectedRoute>
+                  <ManageItems />
+                </ProtectedRoute>
+              } 
+            />
             <Route 
               path="/view-invoice/:id" 
               element={
@@ -84,6 +103,110 @@ const App = () => (
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/gstr-1" 
+              element={
+                <ProtectedRoute>
+                  <Gstr1Report />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/gstr-3b" 
+              element={
+                <ProtectedRoute>
+                  <Gstr3bReport />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/create-note/:invoiceId" 
+              element={
+                <ProtectedRoute>
+                  <CreateNote />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/recurring-invoices" 
+              element={
+                <ProtectedRoute>
+                  <RecurringInvoices />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/recurring-invoices/new" 
+              element={
+                <ProtectedRoute>
+                  <RecurringInvoiceForm />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/recurring-invoices/:id/edit" 
+              element={
+                <ProtectedRoute>
+                  <RecurringInvoiceForm />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/quotations" 
+              element={
+                <ProtectedRoute>
+                  <Quotations />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/quotations/new" 
+              element={
+                <ProtectedRoute>
+                  <QuotationForm />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/quotations/:id/edit" 
+              element={
+                <ProtectedRoute>
+                  <QuotationForm />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/view-quotation/:id" 
+              element={
+                <ProtectedRoute>
+                  <ViewQuotation />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/templates" 
+              element={
+                <ProtectedRoute>
+                  <InvoiceTemplates />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/templates/new" 
+              element={
+                <ProtectedRoute>
+                  <TemplateEditor />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/templates/:id/edit" 
+              element={
+                <ProtectedRoute>
+                  <TemplateEditor />
+                </ProtectedRoute>
+              } 
+            />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -0,0 +1,60 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { PackageSearch } from "lucide-react";
+import { CatalogItem } from "@/utils/catalog";
+
+interface CatalogItemPickerProps {
+  items: CatalogItem[];
+  onSelect: (item: CatalogItem) => void;
+}
+
+// Searches the company's catalogue by name, description or HSN/SAC code
+const CatalogItemPicker = ({ items, onSelect }: CatalogItemPickerProps) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="icon" className="shrink-0" title="Pick from catalogue">
+          <PackageSearch className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search items..." />
+          <CommandList>
+            <CommandEmpty>No matching items.</CommandEmpty>
+            <CommandGroup>
+              {items.map((item) => (
+                <CommandItem
+                  key={item.id}
+                  value={`${item.name} ${item.description || ""} ${item.hsn_sac_code || ""} ${item.id}`}
+                  onSelect={() => {
+                    onSelect(item);
+                    setOpen(false);
+                  }}
+                >
+                  <div className="flex w-full justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="truncate">{item.name}</p>
+                      {item.hsn_sac_code && (
+                        <p className="text-xs text-muted-foreground">HSN/SAC {item.hsn_sac_code}</p>
+                      )}
+                    </div>
+                    <span className="text-sm text-muted-foreground whitespace-nowrap">
+                      ₹{Number(item.rate).toFixed(2)}/{item.unit}
+                    </span>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default CatalogItemPicker;
@@ -19,8 +19,40 @@ import {
   Eye,
   Trash2,
   Edit,
-  BookOpen
+  BookOpen,
+  Repeat,
+  FileSignature,
+  Palette,
+  Package,
+  Landmark,
+  Scale
 } from "lucide-react";
+import { STATUS_LABELS } from "@/utils/payments";
+import { getDocumentSign } from "@/utils/notes";
+import { checkCompanyProfile } from "@/utils/companyProfile";
+import { loadInvoiceDocument } from "@/utils/invoiceDocument";
+import { formatCurrency, toInr } from "@/utils/currency";
+import { isBillable } from "@/utils/conversion";
+import { sumMoney } from "@/utils/money";
+
+interface MonthlyInvoice {
+  created_at: string;
+  status: string | null;
+  invoice_type: string;
+  total_amount: number;
+  currency?: string | null;
+  exchange_rate?: number | null;
+}
+
+// Billed this month in rupees, net of credit notes, the same way the ledger adds up
+const getThisMonthTotal = (invoices: MonthlyInvoice[]) => {
+  const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM format
+  return sumMoney(
+    invoices
+      .filter((invoice) => invoice.created_at.startsWith(currentMonth) && isBillable(invoice))
+      .map((invoice) => getDocumentSign(invoice.invoice_type) * toInr(invoice.total_amount, invoice))
+  );
+};
 
 const Dashboard = () => {
   const { user, signOut } = useAuth();
@@ -66,8 +98,8 @@ const Dashboard = () => {
           .from("invoices")
           .select(`
             *,
-            companies!invoices_company_id_fkey(name),
-            clients!invoices_client_id_fkey(name)
+            companies!invoices_company_id_fkey(name, address, phone, email, gst_number, bank_name, account_number, ifsc_code, branch, pan_number, logo_url, lut_number),
+            clients!invoices_client_id_fkey(name, company_name, address, phone, email, gst_number, pan_number, cin_number)
           `)
           .eq("user_id", user.id)
           .order("created_at", { ascending: false });
@@ -90,11 +122,7 @@ const Dashboard = () => {
 
         if (companiesError) throw companiesError;
 
-        // Calculate this month's total
-        const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM format
-        const thisMonthTotal = (invoices || [])
-          .filter(invoice => invoice.created_at.startsWith(currentMonth))
-          .reduce((total, invoice) => total + parseFloat(invoice.total_amount.toString()), 0);
+        const thisMonthTotal = getThisMonthTotal(invoices || []);
 
         // Update stats
         setStats([
@@ -136,11 +164,25 @@ const Dashboard = () => {
   }, [user]);
 
   const generatePDF = async (invoice: any) => {
+    const profile = checkCompanyProfile(invoice.companies);
+    if (profile.error) {
+      toast.error(profile.error);
+      return;
+    }
+    if (profile.warning) toast.warning(profile.warning);
+
     try {
       // Dynamic import to avoid SSR issues
       const { generateInvoicePDF } = await import('@/utils/pdfGenerator');
-      const doc = generateInvoicePDF(invoice);
-      doc.save(`invoice-${invoice.invoice_number}.pdf`);
+      // Notes quote the invoice they adjust, which the list does not load
+      const { data: originalInvoice } = invoice.original_invoice_id
+        ? await supabase
+            .from("invoices")
+            .select("invoice_number, invoice_date")
+            .eq("id", invoice.original_invoice_id)
+            .maybeSingle()
+        : { data: null };
+      await generateInvoicePDF(await loadInvoiceDocument({ ...invoice, original_invoice: originalInvoice }));
       toast.success("PDF downloaded successfully!");
     } catch (error) {
       toast.error("Failed to generate PDF");
@@ -165,11 +207,8 @@ const Dashboard = () => {
       setRecentInvoices(prev => prev.filter(invoice => invoice.id !== invoiceId));
       
       // Refresh stats
-      const currentMonth = new Date().toISOString().slice(0, 7);
       const updatedInvoices = recentInvoices.filter(invoice => invoice.id !== invoiceId);
-      const thisMonthTotal = updatedInvoices
-        .filter(invoice => invoice.created_at.startsWith(currentMonth))
-        .reduce((total, invoice) => total + parseFloat(invoice.total_amount.toString()), 0);
+      const thisMonthTotal = getThisMonthTotal(updatedInvoices);
 
       setStats(prev => prev.map(stat => {
         if (stat.title === "Total Invoices") {
@@ -237,7 +276,7 @@ const Dashboard = () => {
         </div>
 
         {/* Quick Actions */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
           <Card className="cursor-pointer hover:shadow-lg transition-shadow" onClick={() => navigate("/create-invoice")}>
             <CardContent className="p-6 text-center">
               <div className="bg-blue-100 p-3 rounded-full w-fit mx-auto mb-4">
@@ -268,6 +307,16 @@ const Dashboard = () => {
             </CardContent>
           </Card>
 
+          <Card className="cursor-pointer hover:shadow-lg transition-shadow" onClick={() => navigate("/manage-items")}>
+            <CardContent className="p-6 text-center">
+              <div className="bg-amber-100 p-3 rounded-full w-fit mx-auto mb-4">
+                <Package className="h-8 w-8 text-amber-600" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">Items Catalogue</h3>
+              <p className="text-gray-600 text-sm">Keep products and services ready to bill</p>
+            </CardContent>
+          </Card>
+
           <Card className="cursor-pointer hover:shadow-lg transition-shadow" onClick={() => navigate("/invoice-ledger")}>
             <CardContent className="p-6 text-center">
               <div className="bg-purple-100 p-3 rounded-full w-fit mx-auto mb-4">
@@ -277,6 +326,56 @@ const Dashboard = () => {
               <p className="text-gray-600 text-sm">Track all invoices and payment status</p>
             </CardContent>
           </Card>
+
+          <Card className="cursor-pointer hover:shadow-lg transition-shadow" onClick={() => navigate("/gstr-1")}>
+            <CardContent className="p-6 text-center">
+              <div className="bg-red-100 p-3 rounded-full w-fit mx-auto mb-4">
+                <Landmark className="h-8 w-8 text-red-600" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">GSTR-1</h3>
+              <p className="text-gray-600 text-sm">Prepare the outward supplies return for a month</p>
+            </CardContent>
+          </Card>
+
+          <Card className="cursor-pointer hover:shadow-lg transition-shadow" onClick={() => navigate("/gstr-3b")}>
+            <CardContent className="p-6 text-center">
+              <div className="bg-cyan-100 p-3 rounded-full w-fit mx-auto mb-4">
+                <Scale className="h-8 w-8 text-cyan-600" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">GSTR-3B</h3>
+              <p className="text-gray-600 text-sm">See the month's outward tax liability</p>
+            </CardContent>
+          </Card>
+
+          <Card className="cursor-pointer hover:shadow-lg transition-shadow" onClick={() => navigate("/recurring-invoices")}>
+            <CardContent className="p-6 text-center">
+              <div className="bg-teal-100 p-3 rounded-full w-fit mx-auto mb-4">
+                <Repeat className="h-8 w-8 text-teal-600" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">Recurring Invoices</h3>
+              <p className="text-gray-600 text-sm">Bill retainers automatically every period</p>
+            </CardContent>
+          </Card>
+
+          <Card className="cursor-pointer hover:shadow-lg transition-shadow" onClick={() => navigate("/quotations")}>
+            <CardContent className="p-6 text-center">
+              <div className="bg-pink-100 p-3 rounded-full w-fit mx-auto mb-4">
+                <FileSignature className="h-8 w-8 text-pink-600" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">Quotations</h3>
+              <p className="text-gray-600 text-sm">Send quotes and invoice them once accepted</p>
+            </CardContent>
+          </Card>
+
+          <Card className="cursor-pointer hover:shadow-lg transition-shadow" onClick={() => navigate("/templates")}>
+            <CardContent className="p-6 text-center">
+              <div className="bg-indigo-100 p-3 rounded-full w-fit mx-auto mb-4">
+                <Palette className="h-8 w-8 text-indigo-600" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">Invoice Templates</h3>
+              <p className="text-gray-600 text-sm">Choose the layout, colours and terms of your PDFs</p>
+            </CardContent>
+          </Card>
         </div>
 
         {/* Recent Invoices */}
@@ -321,14 +420,14 @@ const Dashboard = () => {
                         <div>
                           <h4 className="font-medium">{invoice.invoice_number}</h4>
                           <p className="text-sm text-muted-foreground">
-                            {invoice.clients?.name} • ₹{invoice.total_amount}
+                            {invoice.clients?.name} • {formatCurrency(invoice.total_amount, invoice.currency)}
                           </p>
                         </div>
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
                       <Badge variant={invoice.status === 'paid' ? 'default' : 'secondary'}>
-                        {invoice.status}
+                        {STATUS_LABELS[invoice.status] || invoice.status}
                       </Badge>
                       <Button
                         variant="outline"
@@ -0,0 +1,206 @@
+import { useEffect, useMemo, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Download } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { EInvoiceSource, downloadEInvoiceJson, isValidIrn, prepareEInvoice } from "@/utils/einvoice";
+
+// Leaving the IRN blank clears the registration; entering one needs the rest of the
+// acknowledgement from the portal
+const registrationSchema = z
+  .object({
+    irn: z.string().refine((irn) => !irn.trim() || isValidIrn(irn), "The IRN is 64 hexadecimal characters"),
+    ackNumber: z.string().regex(/^\d*$/, "The acknowledgement number has only digits"),
+    ackDate: z.string(),
+    signedQr: z.string(),
+  })
+  .superRefine((values, ctx) => {
+    if (!values.irn.trim()) return;
+    if (!values.ackNumber) ctx.addIssue({ code: "custom", message: "Acknowledgement number is required", path: ["ackNumber"] });
+    if (!values.ackDate) ctx.addIssue({ code: "custom", message: "Acknowledgement date is required", path: ["ackDate"] });
+    if (!values.signedQr.trim()) ctx.addIssue({ code: "custom", message: "Signed QR code is required", path: ["signedQr"] });
+  });
+
+interface EInvoiceDialogProps {
+  invoice:
+    | (EInvoiceSource & {
+        id: string;
+        irn: string | null;
+        irn_ack_number: string | null;
+        irn_ack_date: string | null;
+        irn_signed_qr: string | null;
+      })
+    | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const EInvoiceDialog = ({ invoice, onOpenChange, onSaved }: EInvoiceDialogProps) => {
+  const [loading, setLoading] = useState(false);
+  const prepared = useMemo(() => (invoice ? prepareEInvoice(invoice) : null), [invoice]);
+
+  const form = useForm<z.infer<typeof registrationSchema>>({
+    resolver: zodResolver(registrationSchema),
+    defaultValues: { irn: "", ackNumber: "", ackDate: "", signedQr: "" },
+  });
+
+  useEffect(() => {
+    if (!invoice) return;
+    form.reset({
+      irn: invoice.irn || "",
+      ackNumber: invoice.irn_ack_number || "",
+      ackDate: invoice.irn_ack_date ? format(new Date(invoice.irn_ack_date), "yyyy-MM-dd'T'HH:mm") : "",
+      signedQr: invoice.irn_signed_qr || "",
+    });
+  }, [invoice, form]);
+
+  const handleDownload = () => {
+    if (!invoice || !prepared || prepared.errors.length > 0) return;
+    downloadEInvoiceJson([prepared.payload], `EInvoice-${invoice.invoice_number.replace(/[^\w-]+/g, "-")}`);
+  };
+
+  const onSubmit = async (values: z.infer<typeof registrationSchema>) => {
+    if (!invoice) return;
+
+    const registered = !!values.irn.trim();
+    setLoading(true);
+
+    try {
+      const { error } = await supabase
+        .from("invoices")
+        .update({
+          irn: registered ? values.irn.trim().toLowerCase() : null,
+          irn_ack_number: registered ? values.ackNumber : null,
+          irn_ack_date: registered ? new Date(values.ackDate).toISOString() : null,
+          irn_signed_qr: registered ? values.signedQr.trim() : null,
+        })
+        .eq("id", invoice.id);
+
+      if (error) throw error;
+
+      toast.success(registered ? "IRN saved successfully!" : "IRN removed");
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error("Error saving IRN:", error);
+      }
+      toast.error("Failed to save IRN");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!invoice} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>E-Invoice</DialogTitle>
+          <DialogDescription>
+            Upload the JSON for {invoice?.invoice_number} on the e-invoice portal, then record the IRN it returns.
+          </DialogDescription>
+        </DialogHeader>
+
+        {prepared && prepared.errors.length > 0 ? (
+          <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+            <p className="font-medium mb-1">Fix these before exporting:</p>
+            <ul className="list-disc pl-5 space-y-0.5">
+              {prepared.errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between gap-4 rounded-lg border p-3 text-sm">
+            <span className="text-muted-foreground">The document passes the INV-01 schema checks.</span>
+            <Button type="button" variant="outline" onClick={handleDownload}>
+              <Download className="h-4 w-4 mr-2" />
+              Download JSON
+            </Button>
+          </div>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="irn"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>IRN</FormLabel>
+                  <FormControl>
+                    <Input className="font-mono text-xs" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="ackNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ack No.</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="ackDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ack Date</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="signedQr"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Signed QR Code</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} className="font-mono text-xs" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading ? "Saving..." : "Save IRN"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EInvoiceDialog;
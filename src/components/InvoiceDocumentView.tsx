@@ -0,0 +1,234 @@
+import type { CSSProperties, ReactNode } from "react";
+import { fitImage } from "@/utils/storageImages";
+import { TemplateFont, TemplateSection } from "@/utils/invoiceTemplates";
+import { DocumentTable, InvoiceDocument } from "@/utils/invoiceDocument";
+
+const FONT_FAMILIES: Record<TemplateFont, string> = {
+  helvetica: "Helvetica, Arial, sans-serif",
+  times: '"Times New Roman", Times, serif',
+  courier: '"Courier New", Courier, monospace',
+};
+
+interface InvoiceDocumentViewProps {
+  document: InvoiceDocument;
+}
+
+const DocumentTableView = ({ table, accent, className }: { table: DocumentTable; accent: string; className?: string }) => {
+  // Same column shares as the PDF; the zero-width column takes the rest
+  const fixedWidth = table.columns.reduce((sum, column) => sum + column.width, 0);
+  const columnWidth = (width: number) => `${(width === 0 ? 1 - fixedWidth : width) * 100}%`;
+
+  return (
+    <div className="border rounded-lg overflow-hidden">
+      <table className={`w-full table-fixed ${className ?? ""}`}>
+        <thead style={{ backgroundColor: accent }}>
+          <tr>
+            {table.columns.map((column) => (
+              <th
+                key={column.label}
+                className="p-3"
+                style={{ textAlign: column.align, width: columnWidth(column.width) }}
+              >
+                {column.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {table.rows.map((row, rowIndex) => (
+            <tr key={rowIndex} className="border-t">
+              {row.map((value, columnIndex) => (
+                <td key={columnIndex} className="p-3 break-words" style={{ textAlign: table.columns[columnIndex].align }}>
+                  {value}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+// One path of unit squares, with the four-module quiet zone around it
+const QrCodeView = ({ modules }: { modules: boolean[][] }) => {
+  const size = modules.length + 8;
+  const path = modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + 4} ${y + 4}h1v1h-1z` : "")))
+    .join("");
+
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} className="w-36 h-36 shrink-0" shapeRendering="crispEdges" aria-label="E-invoice QR code">
+      <rect width={size} height={size} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+};
+
+// The on-screen and image rendering of an invoice document, section by section in
+// template order like the PDF
+const InvoiceDocumentView = ({ document }: InvoiceDocumentViewProps) => {
+  const { template } = document;
+  const { primary, accent, text } = template.colors;
+  const muted: CSSProperties = { color: "#6b7280" };
+
+  const sections: Record<TemplateSection, () => ReactNode> = {
+    header: () => (
+      <div className="space-y-4">
+        <div className="text-center">
+          {document.logo && (
+            <img
+              src={document.logo.dataUrl}
+              alt={`${document.companyName} logo`}
+              className="mx-auto mb-2"
+              style={fitImage(document.logo, 200, 80)}
+            />
+          )}
+          <div className="text-xl font-semibold mb-1" style={{ color: primary }}>
+            {document.companyName}
+          </div>
+          <div className="text-3xl font-bold">{document.title}</div>
+        </div>
+        <div className="flex justify-between gap-6">
+          <div className="space-y-1 min-w-0">
+            {document.details.map(({ label, value }) => (
+              <div key={label} className="flex gap-2 text-sm">
+                <p style={muted}>{label}:</p>
+                <p className="font-medium break-all">{value}</p>
+              </div>
+            ))}
+          </div>
+          {document.qrCode && <QrCodeView modules={document.qrCode} />}
+        </div>
+      </div>
+    ),
+    parties: () => (
+      <div className="grid grid-cols-2 gap-6">
+        {[
+          { heading: "From:", party: document.from },
+          { heading: "To:", party: document.to },
+        ].map(({ heading, party }) => (
+          <div key={heading}>
+            <h3 className="font-semibold text-lg mb-2">{heading}</h3>
+            {party && (
+              <div className="space-y-1">
+                <p className="font-medium">{party.name}</p>
+                {party.lines.map((line) => (
+                  <p key={line}>{line}</p>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    ),
+    items: () => <DocumentTableView table={document.items} accent={accent} />,
+    totals: () => (
+      <div className="space-y-3">
+        <div className="flex justify-end">
+          <div className="w-64 space-y-2">
+            {document.totals.map(({ label, value }) => (
+              <div key={label} className="flex justify-between">
+                <span>{label}:</span>
+                <span>{value}</span>
+              </div>
+            ))}
+            <div className="flex justify-between font-bold text-lg border-t pt-2" style={{ color: primary }}>
+              <span>{document.total.label}:</span>
+              <span>{document.total.value}</span>
+            </div>
+            {document.inrTotal && (
+              <div className="flex justify-between text-sm">
+                <span>{document.inrTotal.label}:</span>
+                <span>{document.inrTotal.value}</span>
+              </div>
+            )}
+          </div>
+        </div>
+        <p className="text-sm font-semibold">Amount in words: {document.amountInWords}</p>
+        {document.inrTotal && <p className="text-sm font-semibold">In rupees: {document.inrTotal.amountInWords}</p>}
+        {document.declaration && <p className="text-sm">{document.declaration}</p>}
+      </div>
+    ),
+    gst: () =>
+      document.hsnSummary && (
+        <div>
+          <h3 className="font-semibold text-lg mb-2">HSN/SAC Summary:</h3>
+          <DocumentTableView table={document.hsnSummary} accent={accent} className="text-sm" />
+        </div>
+      ),
+    bank: () =>
+      document.bank.length > 0 && (
+        <div>
+          <h3 className="font-semibold text-lg mb-2">Banking Details:</h3>
+          <div className="grid grid-cols-2 gap-4 p-4 rounded-lg" style={{ backgroundColor: accent }}>
+            {document.bank.map(({ label, value }) => (
+              <div key={label}>
+                <p className="text-sm" style={muted}>
+                  {label}
+                </p>
+                <p className="font-medium">{value}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      ),
+    notes: () =>
+      document.notes.trim() && (
+        <div>
+          <h3 className="font-semibold mb-2">Notes:</h3>
+          <p className="whitespace-pre-line" style={muted}>
+            {document.notes}
+          </p>
+        </div>
+      ),
+    terms: () =>
+      document.terms.trim() && (
+        <div>
+          <h3 className="font-semibold mb-2">Terms &amp; Conditions:</h3>
+          <p className="whitespace-pre-line" style={muted}>
+            {document.terms}
+          </p>
+        </div>
+      ),
+    signature: () => (
+      <div className="flex flex-col items-end">
+        <p className="text-sm" style={muted}>
+          {document.signature.forCompany}
+        </p>
+        {document.signature.image ? (
+          <img
+            src={document.signature.image.dataUrl}
+            alt={document.signature.name ? `Signature of ${document.signature.name}` : "Signature"}
+            className="my-2"
+            style={fitImage(document.signature.image, 180, 64)}
+          />
+        ) : (
+          <div className="h-16" />
+        )}
+        {document.signature.name && <p className="font-semibold">{document.signature.name}</p>}
+        <p className="text-sm" style={muted}>
+          {document.signature.designation}
+        </p>
+      </div>
+    ),
+    footer: () =>
+      document.footer.trim() && (
+        <p className="text-center text-xs italic whitespace-pre-line" style={muted}>
+          {document.footer}
+        </p>
+      ),
+  };
+
+  return (
+    <div className="space-y-6 bg-white p-8" style={{ color: text, fontFamily: FONT_FAMILIES[template.font] }}>
+      {template.sections.map((section) => {
+        // Sections with nothing to show leave no gap behind
+        const content = sections[section]();
+        return content ? <div key={section}>{content}</div> : null;
+      })}
+    </div>
+  );
+};
+
+export default InvoiceDocumentView;
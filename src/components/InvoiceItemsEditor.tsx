@@ -0,0 +1,328 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { GST_RATES, SupplyType, calculateInvoiceTotals, getTaxSlabLines } from "@/utils/gst";
+import { DISCOUNT_TYPES, Discount, DiscountType, calculateItemAmount } from "@/utils/discounts";
+import { CatalogItem, fetchCatalogItems, toInvoiceLine } from "@/utils/catalog";
+import CatalogItemPicker from "@/components/CatalogItemPicker";
+import { getCurrencySymbol, isForeignCurrency } from "@/utils/currency";
+
+export interface InvoiceItem {
+  description: string;
+  hsnSacCode: string;
+  quantity: number;
+  rate: number;
+  gstRate: number;
+  // Unit quantity code, when the line came from the catalogue
+  unit?: string;
+  // Items saved before discounts have neither
+  discountType?: DiscountType;
+  discount?: number;
+  amount: number;
+}
+
+interface InvoiceItemsEditorProps {
+  title?: string;
+  items: InvoiceItem[];
+  onChange: (items: InvoiceItem[]) => void;
+  defaultGstRate: number;
+  supplyType: SupplyType;
+  // Whose catalogue the lines can be picked from
+  companyId?: string | null;
+  discount: Discount;
+  onDiscountChange: (discount: Discount) => void;
+  roundOff: boolean;
+  onRoundOffChange: (roundOff: boolean) => void;
+  // Exports under LUT show the rate slabs without tax, in the currency billed
+  zeroRated?: boolean;
+  currency?: string;
+}
+
+const DiscountInput = ({
+  id,
+  discount,
+  onChange,
+}: {
+  id?: string;
+  discount: Discount;
+  onChange: (discount: Discount) => void;
+}) => (
+  <div className="flex gap-1">
+    <Input
+      id={id}
+      type="number"
+      min="0"
+      step="0.01"
+      value={discount.value}
+      onChange={(e) => onChange({ ...discount, value: Math.max(0, parseFloat(e.target.value) || 0) })}
+    />
+    <Select value={discount.type} onValueChange={(type) => onChange({ ...discount, type: type as DiscountType })}>
+      <SelectTrigger className="w-16 shrink-0">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {DISCOUNT_TYPES.map((type) => (
+          <SelectItem key={type.value} value={type.value}>
+            {type.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+const InvoiceItemsEditor = ({
+  title = "Invoice Items",
+  items,
+  onChange,
+  defaultGstRate,
+  supplyType,
+  companyId,
+  discount,
+  onDiscountChange,
+  roundOff,
+  onRoundOffChange,
+  zeroRated = false,
+  currency,
+}: InvoiceItemsEditorProps) => {
+  const [catalogItems, setCatalogItems] = useState<CatalogItem[]>([]);
+
+  useEffect(() => {
+    if (!companyId) {
+      setCatalogItems([]);
+      return;
+    }
+
+    let cancelled = false;
+    fetchCatalogItems(companyId)
+      .then((rows) => {
+        if (!cancelled) setCatalogItems(rows);
+      })
+      .catch((error) => {
+        if (import.meta.env.DEV) console.error("Error loading catalogue items:", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [companyId]);
+
+  const addItem = () => {
+    onChange([
+      ...items,
+      {
+        description: "",
+        hsnSacCode: "",
+        quantity: 1,
+        rate: 0,
+        gstRate: defaultGstRate,
+        discountType: "percent",
+        discount: 0,
+        amount: 0,
+      },
+    ]);
+  };
+
+  const updateItem = (index: number, changes: Partial<InvoiceItem>) => {
+    onChange(items.map((item, i) => {
+      if (i !== index) return item;
+      const updatedItem = { ...item, ...changes };
+      return { ...updatedItem, amount: calculateItemAmount(updatedItem) };
+    }));
+  };
+
+  const removeItem = (index: number) => {
+    onChange(items.filter((_, i) => i !== index));
+  };
+
+  const { itemsTotal, discountAmount, subtotal, slabs, roundOff: roundOffAmount, total } = calculateInvoiceTotals(
+    items,
+    supplyType,
+    { discount, roundOff, zeroRated }
+  );
+  const symbol = getCurrencySymbol(currency);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>{title}</CardTitle>
+          <Button type="button" onClick={addItem} variant="outline" size="sm">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Item
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {items.map((item, index) => (
+            <div key={index} className="grid grid-cols-12 gap-4 items-end p-4 border rounded-lg">
+              <div className="col-span-3">
+                <Label>Description</Label>
+                <div className="flex gap-1">
+                  <Input
+                    placeholder="Item description"
+                    value={item.description}
+                    onChange={(e) => updateItem(index, { description: e.target.value })}
+                  />
+                  {catalogItems.length > 0 && (
+                    <CatalogItemPicker
+                      items={catalogItems}
+                      onSelect={(catalogItem) => updateItem(index, toInvoiceLine(catalogItem))}
+                    />
+                  )}
+                </div>
+              </div>
+              <div className="col-span-1">
+                <Label>HSN/SAC</Label>
+                <Input
+                  placeholder="e.g., 998311"
+                  value={item.hsnSacCode || ""}
+                  onChange={(e) => updateItem(index, { hsnSacCode: e.target.value })}
+                />
+              </div>
+              <div className="col-span-1">
+                <Label>{item.unit ? `Qty (${item.unit})` : "Quantity"}</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={item.quantity}
+                  onChange={(e) => updateItem(index, { quantity: parseInt(e.target.value) || 1 })}
+                />
+              </div>
+              <div className="col-span-1">
+                <Label>Rate</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={item.rate}
+                  onChange={(e) => updateItem(index, { rate: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="col-span-2">
+                <Label>Discount</Label>
+                <DiscountInput
+                  discount={{ type: item.discountType ?? "percent", value: Number(item.discount || 0) }}
+                  onChange={(itemDiscount) =>
+                    updateItem(index, { discountType: itemDiscount.type, discount: itemDiscount.value })
+                  }
+                />
+              </div>
+              <div className="col-span-1">
+                <Label>GST %</Label>
+                <Select
+                  value={String(item.gstRate)}
+                  onValueChange={(value) => updateItem(index, { gstRate: parseFloat(value) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GST_RATES.map((rate) => (
+                      <SelectItem key={rate} value={String(rate)}>
+                        {rate}%
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-2">
+                <Label>Amount</Label>
+                <Input value={item.amount.toFixed(2)} readOnly className="bg-muted" />
+              </div>
+              <div className="col-span-1">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => removeItem(index)}
+                  className="w-full"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          {items.length === 0 && (
+            <div className="text-center py-8 text-muted-foreground">
+              No items added. Click "Add Item" to get started.
+            </div>
+          )}
+        </div>
+
+        {/* Totals */}
+        {items.length > 0 && (
+          <div className="mt-6 space-y-2 text-right">
+            <div className="flex justify-end">
+              <div className="w-64 space-y-2">
+                <div className="flex justify-between">
+                  <span>Subtotal:</span>
+                  <span>{symbol}{itemsTotal.toFixed(2)}</span>
+                </div>
+                {discountAmount > 0 && (
+                  <>
+                    <div className="flex justify-between">
+                      <span>Discount:</span>
+                      <span>-{symbol}{discountAmount.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Taxable Value:</span>
+                      <span>{symbol}{subtotal.toFixed(2)}</span>
+                    </div>
+                  </>
+                )}
+                {getTaxSlabLines(slabs, supplyType).map((line) => (
+                  <div key={line.label} className="flex justify-between">
+                    <span>{line.label}:</span>
+                    <span>{symbol}{line.amount.toFixed(2)}</span>
+                  </div>
+                ))}
+                {zeroRated && (
+                  <div className="flex justify-between">
+                    <span>IGST (LUT):</span>
+                    <span>{symbol}0.00</span>
+                  </div>
+                )}
+                {roundOffAmount !== 0 && (
+                  <div className="flex justify-between">
+                    <span>Round Off:</span>
+                    <span>{roundOffAmount < 0 ? "-" : ""}{symbol}{Math.abs(roundOffAmount).toFixed(2)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-bold text-lg border-t pt-2">
+                  <span>Total:</span>
+                  <span>{symbol}{total.toFixed(2)}</span>
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center justify-end gap-2">
+              <Label htmlFor="invoice-discount" className="font-normal">
+                Discount on the whole invoice
+              </Label>
+              <div className="w-40">
+                <DiscountInput id="invoice-discount" discount={discount} onChange={onDiscountChange} />
+              </div>
+            </div>
+            <div className="flex items-center justify-end gap-2">
+              <Checkbox
+                id="round-off"
+                checked={roundOff}
+                onCheckedChange={(checked) => onRoundOffChange(checked === true)}
+              />
+              <Label htmlFor="round-off" className="font-normal">
+                Round off total to the nearest {isForeignCurrency(currency) ? `whole ${currency}` : "rupee"}
+              </Label>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InvoiceItemsEditor;
@@ -0,0 +1,340 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Edit, Plus, Save, Star, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { InvoiceNumberSeries, formatInvoiceNumber, getFinancialYear } from "@/utils/invoiceNumbering";
+import { DOCUMENT_TYPE_LABELS, DocumentType } from "@/utils/notes";
+
+interface NumberingSeriesDialogProps {
+  company: { id: string; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptySeries = { name: "", prefix: "", separator: "/", padding: 4, document_type: "invoice" as DocumentType };
+
+const NumberingSeriesDialog = ({ company, onOpenChange }: NumberingSeriesDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [series, setSeries] = useState<InvoiceNumberSeries[]>([]);
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [seriesData, setSeriesData] = useState(emptySeries);
+  const [loading, setLoading] = useState(false);
+
+  const fetchSeries = useCallback(async () => {
+    if (!user || !company) return;
+
+    const { data, error } = await supabase
+      .from("invoice_number_series")
+      .select("*")
+      .eq("company_id", company.id)
+      .eq("user_id", user.id)
+      .order("document_type", { ascending: true })
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      if (import.meta.env.DEV) console.error("Error loading numbering series:", error);
+      return;
+    }
+
+    const rows = data || [];
+    setSeries(rows);
+
+    // Next number per series, taking numbers already issued this financial year into account
+    const nextNumbers: Record<string, string> = {};
+    await Promise.all(
+      rows.map(async (row) => {
+        const { data: next } = await supabase.rpc("preview_next_invoice_number", { series_uuid: row.id });
+        if (next) nextNumbers[row.id] = next;
+      })
+    );
+    setPreviews(nextNumbers);
+  }, [user, company]);
+
+  useEffect(() => {
+    setEditingId(null);
+    setSeriesData(emptySeries);
+    fetchSeries();
+  }, [fetchSeries]);
+
+  const startEdit = (row: InvoiceNumberSeries) => {
+    setEditingId(row.id);
+    setSeriesData({
+      name: row.name,
+      prefix: row.prefix,
+      separator: row.separator,
+      padding: row.padding,
+      document_type: row.document_type as DocumentType,
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setSeriesData(emptySeries);
+  };
+
+  const handleSave = async () => {
+    if (!user || !company) return;
+
+    if (!seriesData.name.trim()) {
+      toast({
+        title: "Series name is required",
+        description: "Please enter a name for the series",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const dataToSave = {
+        name: seriesData.name.trim(),
+        prefix: seriesData.prefix.trim(),
+        separator: seriesData.separator,
+        padding: seriesData.padding,
+        document_type: seriesData.document_type,
+      };
+
+      const result = editingId
+        ? await supabase
+            .from("invoice_number_series")
+            .update(dataToSave)
+            .eq("id", editingId)
+            .eq("user_id", user.id)
+        : await supabase.from("invoice_number_series").insert({
+            ...dataToSave,
+            user_id: user.id,
+            company_id: company.id,
+            is_default: !series.some((row) => row.document_type === seriesData.document_type),
+          });
+
+      if (result.error) throw result.error;
+
+      toast({
+        title: "Success",
+        description: editingId ? "Series updated successfully!" : "Series created successfully!",
+      });
+      cancelEdit();
+      fetchSeries();
+    } catch (error) {
+      if (import.meta.env.DEV) console.error("Error saving numbering series:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save numbering series",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMakeDefault = async (row: InvoiceNumberSeries) => {
+    if (!user || !company) return;
+
+    // Clear the old default first, only one default is allowed per company and document type
+    const { error: clearError } = await supabase
+      .from("invoice_number_series")
+      .update({ is_default: false })
+      .eq("company_id", company.id)
+      .eq("user_id", user.id)
+      .eq("document_type", row.document_type)
+      .eq("is_default", true);
+
+    const { error } = clearError
+      ? { error: clearError }
+      : await supabase
+          .from("invoice_number_series")
+          .update({ is_default: true })
+          .eq("id", row.id)
+          .eq("user_id", user.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to change the default series",
+        variant: "destructive",
+      });
+    }
+    fetchSeries();
+  };
+
+  const handleDelete = async (row: InvoiceNumberSeries) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from("invoice_number_series")
+      .delete()
+      .eq("id", row.id)
+      .eq("user_id", user.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete numbering series",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (editingId === row.id) cancelEdit();
+    fetchSeries();
+  };
+
+  const example = formatInvoiceNumber(
+    { prefix: seriesData.prefix.trim(), separator: seriesData.separator, padding: seriesData.padding },
+    getFinancialYear(),
+    1
+  );
+
+  return (
+    <Dialog open={!!company} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Invoice Numbering</DialogTitle>
+          <DialogDescription>
+            Numbering series for {company?.name}. Numbers restart every financial year (April - March).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            {series.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No numbering series yet.</p>
+            ) : (
+              series.map((row) => (
+                <div key={row.id} className="flex items-center justify-between border rounded-lg p-3">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{row.name}</span>
+                      <Badge variant="outline">{DOCUMENT_TYPE_LABELS[row.document_type as DocumentType]}</Badge>
+                      {row.is_default && <Badge variant="secondary">Default</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Next number: {previews[row.id] || formatInvoiceNumber(row, getFinancialYear(), 1)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {!row.is_default && (
+                      <Button variant="outline" size="sm" onClick={() => handleMakeDefault(row)} title="Make default">
+                        <Star className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" onClick={() => startEdit(row)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-destructive"
+                      onClick={() => handleDelete(row)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="space-y-4 border-t pt-4">
+            <h4 className="font-semibold">{editingId ? "Edit Series" : "Add Series"}</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="series_name">Name *</Label>
+                <Input
+                  id="series_name"
+                  value={seriesData.name}
+                  onChange={(e) => setSeriesData((prev) => ({ ...prev, name: e.target.value }))}
+                  placeholder="Tax Invoice"
+                />
+              </div>
+              <div>
+                <Label>Used For</Label>
+                <Select
+                  value={seriesData.document_type}
+                  onValueChange={(value) =>
+                    setSeriesData((prev) => ({ ...prev, document_type: value as DocumentType }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DOCUMENT_TYPE_LABELS) as DocumentType[]).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {DOCUMENT_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="series_prefix">Prefix</Label>
+                <Input
+                  id="series_prefix"
+                  value={seriesData.prefix}
+                  onChange={(e) => setSeriesData((prev) => ({ ...prev, prefix: e.target.value }))}
+                  placeholder="TL"
+                />
+              </div>
+              <div>
+                <Label htmlFor="series_separator">Separator</Label>
+                <Input
+                  id="series_separator"
+                  value={seriesData.separator}
+                  maxLength={1}
+                  onChange={(e) => setSeriesData((prev) => ({ ...prev, separator: e.target.value }))}
+                  placeholder="/"
+                />
+              </div>
+              <div>
+                <Label htmlFor="series_padding">Digits</Label>
+                <Input
+                  id="series_padding"
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={seriesData.padding}
+                  onChange={(e) =>
+                    setSeriesData((prev) => ({
+                      ...prev,
+                      padding: Math.min(10, Math.max(1, parseInt(e.target.value) || 1)),
+                    }))
+                  }
+                />
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">Example: {example}</p>
+            <div className="flex justify-end gap-2">
+              {editingId && (
+                <Button variant="outline" onClick={cancelEdit}>
+                  Cancel
+                </Button>
+              )}
+              <Button onClick={handleSave} disabled={loading}>
+                {loading ? (
+                  "Saving..."
+                ) : (
+                  <>
+                    {editingId ? <Save className="h-4 w-4 mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+                    {editingId ? "Update Series" : "Add Series"}
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NumberingSeriesDialog;
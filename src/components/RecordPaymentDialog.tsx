@@ -0,0 +1,252 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "sonner";
+import { PAYMENT_MODES, PaymentAmounts, getBalanceDue, getTdsDeducted } from "@/utils/payments";
+import { calculateTds } from "@/utils/tds";
+import { formatCurrency, getCurrencySymbol } from "@/utils/currency";
+
+const paymentSchema = z
+  .object({
+    paymentDate: z.string().min(1, "Payment date is required"),
+    amount: z.number().min(0, "Amount cannot be negative"),
+    tdsAmount: z.number().min(0, "TDS cannot be negative"),
+    mode: z.enum(["neft", "rtgs", "imps", "upi", "cheque", "cash", "card", "other"]),
+    reference: z.string().optional(),
+    notes: z.string().optional(),
+  })
+  .refine((values) => values.amount + values.tdsAmount > 0, {
+    message: "Enter the amount received or the TDS deducted",
+    path: ["amount"],
+  });
+
+interface RecordPaymentDialogProps {
+  invoice: {
+    id: string;
+    invoice_number: string;
+    total_amount: number | string;
+    subtotal: number | string;
+    tds_rate?: number | string | null;
+    // Payments are recorded in the currency the invoice was billed in
+    currency?: string | null;
+    payments?: PaymentAmounts[] | null;
+  } | null;
+  onOpenChange: (open: boolean) => void;
+  onRecorded: () => void;
+}
+
+const RecordPaymentDialog = ({ invoice, onOpenChange, onRecorded }: RecordPaymentDialogProps) => {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(false);
+  const balanceDue = invoice ? getBalanceDue(invoice) : 0;
+  // TDS the client is still expected to withhold under the invoice's section
+  const expectedTds = invoice
+    ? Math.min(balanceDue, Math.max(0, calculateTds(invoice) - getTdsDeducted(invoice.payments)))
+    : 0;
+
+  const form = useForm<z.infer<typeof paymentSchema>>({
+    resolver: zodResolver(paymentSchema),
+    defaultValues: {
+      paymentDate: new Date().toISOString().split("T")[0],
+      amount: 0,
+      tdsAmount: 0,
+      mode: "neft",
+      reference: "",
+      notes: "",
+    },
+  });
+
+  // Start every payment from the outstanding balance, net of the TDS still to be deducted
+  useEffect(() => {
+    if (!invoice) return;
+    form.reset({
+      paymentDate: new Date().toISOString().split("T")[0],
+      amount: Number((balanceDue - expectedTds).toFixed(2)),
+      tdsAmount: Number(expectedTds.toFixed(2)),
+      mode: "neft",
+      reference: "",
+      notes: "",
+    });
+  }, [invoice, balanceDue, expectedTds, form]);
+
+  const onSubmit = async (values: z.infer<typeof paymentSchema>) => {
+    if (!user || !invoice) return;
+
+    if (values.amount + values.tdsAmount > balanceDue + 0.005) {
+      form.setError("amount", { message: `Only ${formatCurrency(balanceDue, invoice.currency)} is due on this invoice` });
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const { error } = await supabase.from("payments").insert({
+        user_id: user.id,
+        invoice_id: invoice.id,
+        payment_date: values.paymentDate,
+        amount: values.amount,
+        tds_amount: values.tdsAmount,
+        mode: values.mode,
+        reference: values.reference || null,
+        notes: values.notes || null,
+      });
+
+      if (error) throw error;
+
+      toast.success("Payment recorded successfully!");
+      onOpenChange(false);
+      onRecorded();
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error("Error recording payment:", error);
+      }
+      toast.error("Failed to record payment");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!invoice} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record Payment</DialogTitle>
+          <DialogDescription>
+            Invoice {invoice?.invoice_number}. Balance due {formatCurrency(balanceDue, invoice?.currency)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="paymentDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Payment Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="mode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Mode</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {PAYMENT_MODES.map((mode) => (
+                          <SelectItem key={mode.value} value={mode.value}>
+                            {mode.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount Received ({getCurrencySymbol(invoice?.currency).trim()})</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        {...field}
+                        onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="tdsAmount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>TDS Deducted ({getCurrencySymbol(invoice?.currency).trim()})</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        {...field}
+                        onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="reference"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reference (UTR / Cheque No.)</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Optional" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading ? "Saving..." : "Record Payment"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecordPaymentDialog;
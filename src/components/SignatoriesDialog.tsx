@@ -0,0 +1,360 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Edit, Plus, Save, Star, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Signatory } from "@/utils/signatories";
+import { getSignedSignatureUrl, uploadSignatureImage } from "@/utils/storageImages";
+
+interface SignatoriesDialogProps {
+  company: { id: string; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptySignatory = { name: "", designation: "", signature_url: "" };
+
+const SignatoriesDialog = ({ company, onOpenChange }: SignatoriesDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [signatories, setSignatories] = useState<Signatory[]>([]);
+  const [signatureUrls, setSignatureUrls] = useState<Record<string, string>>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [signatoryData, setSignatoryData] = useState(emptySignatory);
+  const [signatureFile, setSignatureFile] = useState<File | null>(null);
+  const [signaturePreview, setSignaturePreview] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fetchSignatories = useCallback(async () => {
+    if (!user || !company) return;
+
+    const { data, error } = await supabase
+      .from("company_signatories")
+      .select("*")
+      .eq("company_id", company.id)
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      if (import.meta.env.DEV) console.error("Error loading signatories:", error);
+      return;
+    }
+
+    const rows = data || [];
+    setSignatories(rows);
+
+    const urls: Record<string, string> = {};
+    await Promise.all(
+      rows.map(async (row) => {
+        const signedUrl = await getSignedSignatureUrl(row.signature_url);
+        if (signedUrl) urls[row.id] = signedUrl;
+      })
+    );
+    setSignatureUrls(urls);
+  }, [user, company]);
+
+  useEffect(() => {
+    setEditingId(null);
+    setSignatoryData(emptySignatory);
+    setSignatureFile(null);
+    setSignaturePreview(null);
+    fetchSignatories();
+  }, [fetchSignatories]);
+
+  const startEdit = (row: Signatory) => {
+    setEditingId(row.id);
+    setSignatoryData({
+      name: row.name,
+      designation: row.designation || "",
+      signature_url: row.signature_url || "",
+    });
+    setSignatureFile(null);
+    setSignaturePreview(signatureUrls[row.id] || null);
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setSignatoryData(emptySignatory);
+    setSignatureFile(null);
+    setSignaturePreview(null);
+  };
+
+  const handleSignatureChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    if (!file.type.startsWith("image/")) {
+      toast({
+        title: "Invalid file type",
+        description: "Please select an image file",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (file.size > 2 * 1024 * 1024) {
+      toast({
+        title: "File too large",
+        description: "Please select an image smaller than 2MB",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSignatureFile(file);
+    const reader = new FileReader();
+    reader.onload = (e) => setSignaturePreview(e.target?.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const handleRemoveSignature = () => {
+    setSignatureFile(null);
+    setSignaturePreview(null);
+    setSignatoryData((prev) => ({ ...prev, signature_url: "" }));
+  };
+
+  const handleSave = async () => {
+    if (!user || !company) return;
+
+    if (!signatoryData.name.trim()) {
+      toast({
+        title: "Name is required",
+        description: "Please enter the signatory's name",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      let signatureUrl = signatoryData.signature_url || null;
+      if (signatureFile) {
+        signatureUrl = await uploadSignatureImage(user.id, signatureFile);
+        if (!signatureUrl) throw new Error("Signature upload failed");
+      }
+
+      const dataToSave = {
+        name: signatoryData.name.trim(),
+        designation: signatoryData.designation.trim() || null,
+        signature_url: signatureUrl,
+      };
+
+      const result = editingId
+        ? await supabase
+            .from("company_signatories")
+            .update(dataToSave)
+            .eq("id", editingId)
+            .eq("user_id", user.id)
+        : await supabase.from("company_signatories").insert({
+            ...dataToSave,
+            user_id: user.id,
+            company_id: company.id,
+            is_default: signatories.length === 0,
+          });
+
+      if (result.error) throw result.error;
+
+      toast({
+        title: "Success",
+        description: editingId ? "Signatory updated successfully!" : "Signatory added successfully!",
+      });
+      cancelEdit();
+      fetchSignatories();
+    } catch (error) {
+      if (import.meta.env.DEV) console.error("Error saving signatory:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save signatory",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMakeDefault = async (row: Signatory) => {
+    if (!user || !company) return;
+
+    // Clear the old default first, only one default is allowed per company
+    const { error: clearError } = await supabase
+      .from("company_signatories")
+      .update({ is_default: false })
+      .eq("company_id", company.id)
+      .eq("user_id", user.id)
+      .eq("is_default", true);
+
+    const { error } = clearError
+      ? { error: clearError }
+      : await supabase
+          .from("company_signatories")
+          .update({ is_default: true })
+          .eq("id", row.id)
+          .eq("user_id", user.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to change the default signatory",
+        variant: "destructive",
+      });
+    }
+    fetchSignatories();
+  };
+
+  // Invoices that named this signatory fall back to the company default
+  const handleDelete = async (row: Signatory) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from("company_signatories")
+      .delete()
+      .eq("id", row.id)
+      .eq("user_id", user.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete signatory",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (editingId === row.id) cancelEdit();
+    fetchSignatories();
+  };
+
+  return (
+    <Dialog open={!!company} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Authorised Signatories</DialogTitle>
+          <DialogDescription>
+            People who sign invoices for {company?.name}. The default signatory is used unless an invoice names
+            another.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            {signatories.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No signatories yet.</p>
+            ) : (
+              signatories.map((row) => (
+                <div key={row.id} className="flex items-center justify-between border rounded-lg p-3">
+                  <div className="flex items-center gap-4">
+                    {signatureUrls[row.id] && (
+                      <img
+                        src={signatureUrls[row.id]}
+                        alt={`Signature of ${row.name}`}
+                        className="h-10 w-24 object-contain border rounded"
+                      />
+                    )}
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{row.name}</span>
+                        {row.is_default && <Badge variant="secondary">Default</Badge>}
+                      </div>
+                      {row.designation && <p className="text-sm text-muted-foreground">{row.designation}</p>}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {!row.is_default && (
+                      <Button variant="outline" size="sm" onClick={() => handleMakeDefault(row)} title="Make default">
+                        <Star className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" onClick={() => startEdit(row)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-destructive"
+                      onClick={() => handleDelete(row)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="space-y-4 border-t pt-4">
+            <h4 className="font-semibold">{editingId ? "Edit Signatory" : "Add Signatory"}</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="signatory_name">Name *</Label>
+                <Input
+                  id="signatory_name"
+                  value={signatoryData.name}
+                  onChange={(e) => setSignatoryData((prev) => ({ ...prev, name: e.target.value }))}
+                  placeholder="Full name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="signatory_designation">Designation</Label>
+                <Input
+                  id="signatory_designation"
+                  value={signatoryData.designation}
+                  onChange={(e) => setSignatoryData((prev) => ({ ...prev, designation: e.target.value }))}
+                  placeholder="Partner"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <Label htmlFor="signatory_signature">Signature or Stamp</Label>
+                <Input
+                  id="signatory_signature"
+                  type="file"
+                  accept="image/*"
+                  onChange={handleSignatureChange}
+                  className="cursor-pointer"
+                />
+                <p className="text-sm text-muted-foreground mt-1">
+                  Optional. A PNG with a transparent background prints best (max 2MB)
+                </p>
+              </div>
+            </div>
+            {signaturePreview && (
+              <div className="flex items-center gap-4">
+                <img
+                  src={signaturePreview}
+                  alt="Signature preview"
+                  className="h-16 w-40 object-contain border rounded"
+                />
+                <Button variant="ghost" size="sm" onClick={handleRemoveSignature}>
+                  Remove
+                </Button>
+              </div>
+            )}
+            <div className="flex justify-end gap-2">
+              {editingId && (
+                <Button variant="outline" onClick={cancelEdit}>
+                  Cancel
+                </Button>
+              )}
+              <Button onClick={handleSave} disabled={loading}>
+                {loading ? (
+                  "Saving..."
+                ) : (
+                  <>
+                    {editingId ? <Save className="h-4 w-4 mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+                    {editingId ? "Update Signatory" : "Add Signatory"}
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SignatoriesDialog;
@@ -14,6 +14,56 @@ export type Database = {
   }
   public: {
     Tables: {
+      catalog_items: {
+        Row: {
+          company_id: string
+          created_at: string
+          description: string | null
+          gst_rate: number
+          hsn_sac_code: string | null
+          id: string
+          name: string
+          rate: number
+          unit: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          description?: string | null
+          gst_rate?: number
+          hsn_sac_code?: string | null
+          id?: string
+          name: string
+          rate?: number
+          unit?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          description?: string | null
+          gst_rate?: number
+          hsn_sac_code?: string | null
+          id?: string
+          name?: string
+          rate?: number
+          unit?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "catalog_items_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       clients: {
         Row: {
           address: string | null
@@ -26,6 +76,8 @@ export type Database = {
           name: string
           pan_number: string | null
           phone: string | null
+          tds_rate: number
+          tds_section: string | null
           updated_at: string
           user_id: string
         }
@@ -40,6 +92,8 @@ export type Database = {
           name: string
           pan_number?: string | null
           phone?: string | null
+          tds_rate?: number
+          tds_section?: string | null
           updated_at?: string
           user_id: string
         }
@@ -54,6 +108,8 @@ export type Database = {
           name?: string
           pan_number?: string | null
           phone?: string | null
+          tds_rate?: number
+          tds_section?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -71,9 +127,11 @@ export type Database = {
           id: string
           ifsc_code: string | null
           logo_url: string | null
+          lut_number: string | null
           name: string
           pan_number: string | null
           phone: string | null
+          template_id: string | null
           updated_at: string
           user_id: string
         }
@@ -88,9 +146,11 @@ export type Database = {
           id?: string
           ifsc_code?: string | null
           logo_url?: string | null
+          lut_number?: string | null
           name: string
           pan_number?: string | null
           phone?: string | null
+          template_id?: string | null
           updated_at?: string
           user_id: string
         }
@@ -105,13 +165,143 @@ export type Database = {
           id?: string
           ifsc_code?: string | null
           logo_url?: string | null
+          lut_number?: string | null
           name?: string
           pan_number?: string | null
           phone?: string | null
+          template_id?: string | null
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "companies_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      company_signatories: {
+        Row: {
+          company_id: string
+          created_at: string
+          designation: string | null
+          id: string
+          is_default: boolean
+          name: string
+          signature_url: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          designation?: string | null
+          id?: string
+          is_default?: boolean
+          name: string
+          signature_url?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          designation?: string | null
+          id?: string
+          is_default?: boolean
+          name?: string
+          signature_url?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "company_signatories_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_number_counters: {
+        Row: {
+          financial_year: string
+          last_number: number
+          series_id: string
+        }
+        Insert: {
+          financial_year: string
+          last_number?: number
+          series_id: string
+        }
+        Update: {
+          financial_year?: string
+          last_number?: number
+          series_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_number_counters_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_number_series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_number_series: {
+        Row: {
+          company_id: string
+          created_at: string
+          document_type: string
+          id: string
+          is_default: boolean
+          name: string
+          padding: number
+          prefix: string
+          separator: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          document_type?: string
+          id?: string
+          is_default?: boolean
+          name: string
+          padding?: number
+          prefix?: string
+          separator?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          document_type?: string
+          id?: string
+          is_default?: boolean
+          name?: string
+          padding?: number
+          prefix?: string
+          separator?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_number_series_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       invoice_templates: {
         Row: {
@@ -149,8 +339,17 @@ export type Database = {
           cgst_rate: number | null
           client_id: string
           company_id: string
+          converted_from_id: string | null
+          converted_to_id: string | null
           created_at: string
+          currency: string
+          discount_amount: number
+          discount_type: string | null
+          discount_value: number
           due_date: string | null
+          exchange_rate: number
+          export_country: string | null
+          export_port: string | null
           gst_amount: number | null
           gst_rate: number | null
           id: string
@@ -159,12 +358,27 @@ export type Database = {
           invoice_date: string
           invoice_number: string
           invoice_type: string
+          irn: string | null
+          irn_ack_date: string | null
+          irn_ack_number: string | null
+          irn_signed_qr: string | null
+          is_export: boolean
           items: Json
+          note_reason: string | null
           notes: string | null
+          original_invoice_id: string | null
+          place_of_supply: string | null
+          quotation_id: string | null
+          round_off: number
+          series_id: string | null
           sgst_amount: number | null
           sgst_rate: number | null
+          signatory_id: string | null
           status: string | null
           subtotal: number
+          tax_override: boolean
+          tds_rate: number
+          tds_section: string | null
           template_id: string | null
           total_amount: number
           updated_at: string
@@ -175,8 +389,17 @@ export type Database = {
           cgst_rate?: number | null
           client_id: string
           company_id: string
+          converted_from_id?: string | null
+          converted_to_id?: string | null
           created_at?: string
+          currency?: string
+          discount_amount?: number
+          discount_type?: string | null
+          discount_value?: number
           due_date?: string | null
+          exchange_rate?: number
+          export_country?: string | null
+          export_port?: string | null
           gst_amount?: number | null
           gst_rate?: number | null
           id?: string
@@ -185,12 +408,27 @@ export type Database = {
           invoice_date: string
           invoice_number: string
           invoice_type?: string
+          irn?: string | null
+          irn_ack_date?: string | null
+          irn_ack_number?: string | null
+          irn_signed_qr?: string | null
+          is_export?: boolean
           items?: Json
+          note_reason?: string | null
           notes?: string | null
+          original_invoice_id?: string | null
+          place_of_supply?: string | null
+          quotation_id?: string | null
+          round_off?: number
+          series_id?: string | null
           sgst_amount?: number | null
           sgst_rate?: number | null
+          signatory_id?: string | null
           status?: string | null
           subtotal?: number
+          tax_override?: boolean
+          tds_rate?: number
+          tds_section?: string | null
           template_id?: string | null
           total_amount?: number
           updated_at?: string
@@ -201,8 +439,17 @@ export type Database = {
           cgst_rate?: number | null
           client_id?: string
           company_id?: string
+          converted_from_id?: string | null
+          converted_to_id?: string | null
           created_at?: string
+          currency?: string
+          discount_amount?: number
+          discount_type?: string | null
+          discount_value?: number
           due_date?: string | null
+          exchange_rate?: number
+          export_country?: string | null
+          export_port?: string | null
           gst_amount?: number | null
           gst_rate?: number | null
           id?: string
@@ -211,12 +458,27 @@ export type Database = {
           invoice_date?: string
           invoice_number?: string
           invoice_type?: string
+          irn?: string | null
+          irn_ack_date?: string | null
+          irn_ack_number?: string | null
+          irn_signed_qr?: string | null
+          is_export?: boolean
           items?: Json
+          note_reason?: string | null
           notes?: string | null
+          original_invoice_id?: string | null
+          place_of_supply?: string | null
+          quotation_id?: string | null
+          round_off?: number
+          series_id?: string | null
           sgst_amount?: number | null
           sgst_rate?: number | null
+          signatory_id?: string | null
           status?: string | null
           subtotal?: number
+          tax_override?: boolean
+          tds_rate?: number
+          tds_section?: string | null
           template_id?: string | null
           total_amount?: number
           updated_at?: string
@@ -237,6 +499,48 @@ export type Database = {
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "invoices_converted_from_id_fkey"
+            columns: ["converted_from_id"]
+            isOneToOne: true
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_converted_to_id_fkey"
+            columns: ["converted_to_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_original_invoice_id_fkey"
+            columns: ["original_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_quotation_id_fkey"
+            columns: ["quotation_id"]
+            isOneToOne: true
+            referencedRelation: "quotations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_number_series"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_signatory_id_fkey"
+            columns: ["signatory_id"]
+            isOneToOne: false
+            referencedRelation: "company_signatories"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "invoices_template_id_fkey"
             columns: ["template_id"]
@@ -246,14 +550,424 @@ export type Database = {
           },
         ]
       }
+      payments: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          invoice_id: string
+          mode: string
+          notes: string | null
+          payment_date: string
+          reference: string | null
+          tds_amount: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          invoice_id: string
+          mode?: string
+          notes?: string | null
+          payment_date: string
+          reference?: string | null
+          tds_amount?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          invoice_id?: string
+          mode?: string
+          notes?: string | null
+          payment_date?: string
+          reference?: string | null
+          tds_amount?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quotations: {
+        Row: {
+          cgst_amount: number
+          cgst_rate: number | null
+          client_id: string
+          company_id: string
+          created_at: string
+          discount_amount: number
+          discount_type: string | null
+          discount_value: number
+          gst_amount: number
+          gst_rate: number | null
+          id: string
+          igst_amount: number
+          igst_rate: number | null
+          invoice_id: string | null
+          items: Json
+          notes: string | null
+          place_of_supply: string | null
+          quotation_date: string
+          quotation_number: string
+          round_off: number
+          series_id: string | null
+          sgst_amount: number
+          sgst_rate: number | null
+          status: string
+          subtotal: number
+          tax_override: boolean
+          total_amount: number
+          updated_at: string
+          user_id: string
+          valid_until: string
+        }
+        Insert: {
+          cgst_amount?: number
+          cgst_rate?: number | null
+          client_id: string
+          company_id: string
+          created_at?: string
+          discount_amount?: number
+          discount_type?: string | null
+          discount_value?: number
+          gst_amount?: number
+          gst_rate?: number | null
+          id?: string
+          igst_amount?: number
+          igst_rate?: number | null
+          invoice_id?: string | null
+          items?: Json
+          notes?: string | null
+          place_of_supply?: string | null
+          quotation_date?: string
+          quotation_number: string
+          round_off?: number
+          series_id?: string | null
+          sgst_amount?: number
+          sgst_rate?: number | null
+          status?: string
+          subtotal?: number
+          tax_override?: boolean
+          total_amount?: number
+          updated_at?: string
+          user_id: string
+          valid_until: string
+        }
+        Update: {
+          cgst_amount?: number
+          cgst_rate?: number | null
+          client_id?: string
+          company_id?: string
+          created_at?: string
+          discount_amount?: number
+          discount_type?: string | null
+          discount_value?: number
+          gst_amount?: number
+          gst_rate?: number | null
+          id?: string
+          igst_amount?: number
+          igst_rate?: number | null
+          invoice_id?: string | null
+          items?: Json
+          notes?: string | null
+          place_of_supply?: string | null
+          quotation_date?: string
+          quotation_number?: string
+          round_off?: number
+          series_id?: string | null
+          sgst_amount?: number
+          sgst_rate?: number | null
+          status?: string
+          subtotal?: number
+          tax_override?: boolean
+          total_amount?: number
+          updated_at?: string
+          user_id?: string
+          valid_until?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quotations_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotations_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotations_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotations_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_number_series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_invoice_profiles: {
+        Row: {
+          cgst_amount: number
+          cgst_rate: number | null
+          client_id: string
+          company_id: string
+          created_at: string
+          discount_amount: number
+          discount_type: string | null
+          discount_value: number
+          due_days: number | null
+          end_date: string | null
+          frequency: string
+          generated_count: number
+          gst_amount: number
+          gst_rate: number | null
+          id: string
+          igst_amount: number
+          igst_rate: number | null
+          invoice_status: string
+          invoice_type: string
+          is_active: boolean
+          items: Json
+          name: string
+          next_run_date: string
+          notes: string | null
+          occurrences: number | null
+          place_of_supply: string | null
+          round_off: number
+          series_id: string
+          sgst_amount: number
+          sgst_rate: number | null
+          start_date: string
+          subtotal: number
+          tax_override: boolean
+          tds_rate: number
+          tds_section: string | null
+          total_amount: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          cgst_amount?: number
+          cgst_rate?: number | null
+          client_id: string
+          company_id: string
+          created_at?: string
+          discount_amount?: number
+          discount_type?: string | null
+          discount_value?: number
+          due_days?: number | null
+          end_date?: string | null
+          frequency?: string
+          generated_count?: number
+          gst_amount?: number
+          gst_rate?: number | null
+          id?: string
+          igst_amount?: number
+          igst_rate?: number | null
+          invoice_status?: string
+          invoice_type?: string
+          is_active?: boolean
+          items?: Json
+          name: string
+          next_run_date: string
+          notes?: string | null
+          occurrences?: number | null
+          place_of_supply?: string | null
+          round_off?: number
+          series_id: string
+          sgst_amount?: number
+          sgst_rate?: number | null
+          start_date: string
+          subtotal?: number
+          tax_override?: boolean
+          tds_rate?: number
+          tds_section?: string | null
+          total_amount?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          cgst_amount?: number
+          cgst_rate?: number | null
+          client_id?: string
+          company_id?: string
+          created_at?: string
+          discount_amount?: number
+          discount_type?: string | null
+          discount_value?: number
+          due_days?: number | null
+          end_date?: string | null
+          frequency?: string
+          generated_count?: number
+          gst_amount?: number
+          gst_rate?: number | null
+          id?: string
+          igst_amount?: number
+          igst_rate?: number | null
+          invoice_status?: string
+          invoice_type?: string
+          is_active?: boolean
+          items?: Json
+          name?: string
+          next_run_date?: string
+          notes?: string | null
+          occurrences?: number | null
+          place_of_supply?: string | null
+          round_off?: number
+          series_id?: string
+          sgst_amount?: number
+          sgst_rate?: number | null
+          start_date?: string
+          subtotal?: number
+          tax_override?: boolean
+          tds_rate?: number
+          tds_section?: string | null
+          total_amount?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_invoice_profiles_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_invoice_profiles_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_invoice_profiles_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_number_series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_invoice_runs: {
+        Row: {
+          created_at: string
+          error: string | null
+          id: string
+          invoice_id: string | null
+          profile_id: string
+          run_date: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          id?: string
+          invoice_id?: string | null
+          profile_id: string
+          run_date: string
+          status: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          id?: string
+          invoice_id?: string | null
+          profile_id?: string
+          run_date?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_invoice_runs_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_invoice_runs_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_invoice_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      convert_to_tax_invoice: {
+        Args: { for_date?: string; series_uuid?: string; source_uuid: string }
+        Returns: string
+      }
+      convert_quotation_to_invoice: {
+        Args: { for_date?: string; quotation_uuid: string; series_uuid?: string }
+        Returns: string
+      }
+      derive_payment_status: {
+        Args: {
+          current_status: string
+          settled_amount: number
+          total_amount: number
+        }
+        Returns: string
+      }
+      expire_quotations: { Args: never; Returns: number }
+      financial_year_label: { Args: { for_date: string }; Returns: string }
+      format_invoice_number: {
+        Args: {
+          financial_year: string
+          seq: number
+          series: Database["public"]["Tables"]["invoice_number_series"]["Row"]
+        }
+        Returns: string
+      }
+      generate_recurring_invoices: {
+        Args: { run_date?: string }
+        Returns: number
+      }
       get_next_invoice_number:
         | { Args: never; Returns: string }
         | { Args: { user_uuid: string }; Returns: string }
+      invoice_settled_amount: { Args: { invoice_uuid: string }; Returns: number }
+      preview_next_invoice_number: {
+        Args: { for_date?: string; series_uuid: string }
+        Returns: string
+      }
+      recurring_run_date: {
+        Args: { frequency: string; run_index: number; start_date: string }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
@@ -6,14 +6,40 @@ import * as z from "zod";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { ArrowLeft, FileText, Plus, Trash2 } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { ArrowLeft, FileText } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { toast } from "sonner";
+import {
+  EXPORT_PLACE_OF_SUPPLY,
+  GST_RATES,
+  GST_STATES,
+  calculateInvoiceTotals,
+  getStateCodeFromGstin,
+  getSupplyType,
+  getUniformGstRate,
+  splitGstRate,
+} from "@/utils/gst";
+import { Discount, NO_DISCOUNT, fromDiscount } from "@/utils/discounts";
+import {
+  NO_TDS,
+  TDS_SECTIONS,
+  fromTdsSectionValue,
+  getTdsRates,
+  toTdsSectionValue,
+} from "@/utils/tds";
+import { InvoiceNumberSeries } from "@/utils/invoiceNumbering";
+import InvoiceItemsEditor, { InvoiceItem } from "@/components/InvoiceItemsEditor";
+import { DEFAULT_SIGNATORY, Signatory, fromSignatoryValue } from "@/utils/signatories";
+import { COMPANY_TEMPLATE, fromTemplateValue } from "@/utils/invoiceTemplates";
+import { CURRENCIES, DEFAULT_CURRENCY, formatCurrency, isForeignCurrency, toInr } from "@/utils/currency";
+
+// Select value for typing the invoice number by hand instead of using a series
+const MANUAL_NUMBERING = "manual";
 
 const INVOICE_TYPES = [
   "Tax Invoice",
@@ -26,44 +52,62 @@ const invoiceSchema = z.object({
   invoiceType: z.string().min(1, "Invoice type is required"),
   companyId: z.string().min(1, "Company is required"),
   clientId: z.string().min(1, "Client is required"),
+  seriesId: z.string(),
   invoiceNumber: z.string().min(1, "Invoice number is required"),
   invoiceDate: z.string().min(1, "Invoice date is required"),
   dueDate: z.string().optional(),
-  igstRate: z.number().min(0).max(100),
-  sgstRate: z.number().min(0).max(100),
-  cgstRate: z.number().min(0).max(100),
+  gstRate: z.number().min(0).max(100),
+  placeOfSupply: z.string().min(1, "Place of supply is required"),
+  taxOverride: z.boolean(),
+  supplyType: z.enum(["intra_state", "inter_state"]),
+  tdsSection: z.string(),
+  tdsRate: z.number().min(0).max(100),
+  isExport: z.boolean(),
+  currency: z.string().length(3),
+  exchangeRate: z.number().positive("Exchange rate must be more than zero"),
+  exportPort: z.string().optional(),
+  exportCountry: z.string().optional(),
+  signatoryId: z.string(),
+  templateId: z.string(),
   notes: z.string().optional(),
 });
 
-interface InvoiceItem {
-  id: string;
-  description: string;
-  hsnSacCode: string;
-  quantity: number;
-  rate: number;
-  amount: number;
-}
-
 const CreateInvoice = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
   const [companies, setCompanies] = useState<any[]>([]);
   const [clients, setClients] = useState<any[]>([]);
   const [items, setItems] = useState<InvoiceItem[]>([]);
+  const [discount, setDiscount] = useState<Discount>(NO_DISCOUNT);
+  const [roundOff, setRoundOff] = useState(false);
+  const [signatories, setSignatories] = useState<Signatory[]>([]);
+  const [templates, setTemplates] = useState<{ id: string; name: string }[]>([]);
+  const [series, setSeries] = useState<InvoiceNumberSeries[]>([]);
   const [loading, setLoading] = useState(false);
 
   const form = useForm<z.infer<typeof invoiceSchema>>({
     resolver: zodResolver(invoiceSchema),
     defaultValues: {
-      invoiceType: "Invoice",
+      invoiceType: "Tax Invoice",
       companyId: "",
       clientId: "",
+      seriesId: MANUAL_NUMBERING,
       invoiceNumber: "",
       invoiceDate: new Date().toISOString().split('T')[0],
       dueDate: "",
-      igstRate: 0,
-      sgstRate: 0,
-      cgstRate: 0,
+      gstRate: 18,
+      placeOfSupply: "",
+      taxOverride: false,
+      supplyType: "inter_state",
+      tdsSection: NO_TDS,
+      tdsRate: 0,
+      isExport: false,
+      currency: DEFAULT_CURRENCY,
+      exchangeRate: 1,
+      exportPort: "",
+      exportCountry: "",
+      signatoryId: DEFAULT_SIGNATORY,
+      templateId: COMPANY_TEMPLATE,
       notes: "",
     },
   });
@@ -84,79 +128,171 @@ const CreateInvoice = () => {
     fetchData();
   }, [user]);
 
-  const addItem = () => {
-    const newItem: InvoiceItem = {
-      id: Math.random().toString(36).substr(2, 9),
-      description: "",
-      hsnSacCode: "",
-      quantity: 1,
-      rate: 0,
-      amount: 0,
-    };
-    setItems([...items, newItem]);
-  };
-
-  const updateItem = (id: string, field: keyof InvoiceItem, value: any) => {
-    setItems(items.map(item => {
-      if (item.id === id) {
-        const updatedItem = { ...item, [field]: value };
-        if (field === 'quantity' || field === 'rate') {
-          updatedItem.amount = updatedItem.quantity * updatedItem.rate;
+  const companyId = form.watch("companyId");
+  const placeOfSupply = form.watch("placeOfSupply");
+  const gstRate = form.watch("gstRate");
+  const taxOverride = form.watch("taxOverride");
+  const tdsSection = form.watch("tdsSection");
+  const isExport = form.watch("isExport");
+  const currency = form.watch("currency");
+  const exchangeRate = form.watch("exchangeRate");
+  const companyStateCode = getStateCodeFromGstin(companies.find(c => c.id === companyId)?.gst_number);
+  const autoSupplyType = getSupplyType(companyStateCode, placeOfSupply || null);
+  const supplyType = form.watch("supplyType");
+
+  // Signatories of the selected company; a signatory of another company cannot sign
+  useEffect(() => {
+    const fetchSignatories = async () => {
+      if (!user || !companyId) return;
+
+      const { data, error } = await supabase
+        .from("company_signatories")
+        .select("*")
+        .eq("company_id", companyId)
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        if (import.meta.env.DEV) {
+          console.error("Error loading signatories:", error);
         }
-        return updatedItem;
+        return;
+      }
+
+      setSignatories(data || []);
+      const currentSignatory = form.getValues("signatoryId");
+      if (!data?.some((row) => row.id === currentSignatory)) {
+        form.setValue("signatoryId", DEFAULT_SIGNATORY);
       }
-      return item;
-    }));
+    };
+
+    fetchSignatories();
+  }, [user, companyId, form]);
+
+  const defaultSignatory = signatories.find((signatory) => signatory.is_default);
+
+  // Built-in templates and the user's own
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      const { data } = await supabase.from("invoice_templates").select("id, name").order("created_at");
+      setTemplates(data || []);
+    };
+
+    fetchTemplates();
+  }, []);
+
+  // Keep the IGST / CGST + SGST choice on the place of supply unless the user overrides it
+  useEffect(() => {
+    if (taxOverride) return;
+    form.setValue("supplyType", autoSupplyType);
+  }, [form, autoSupplyType, taxOverride]);
+
+  const handleCompanyChange = (id: string) => {
+    form.setValue("companyId", id, { shouldValidate: true });
+    if (!form.getValues("placeOfSupply")) {
+      const stateCode = getStateCodeFromGstin(companies.find(c => c.id === id)?.gst_number);
+      if (stateCode) form.setValue("placeOfSupply", stateCode);
+    }
   };
 
-  const removeItem = (id: string) => {
-    setItems(items.filter(item => item.id !== id));
+  // Place of supply follows the client's GSTIN state, or the supplier's state for unregistered clients
+  const handleClientChange = (id: string) => {
+    form.setValue("clientId", id, { shouldValidate: true });
+    const stateCode =
+      getStateCodeFromGstin(clients.find(c => c.id === id)?.gst_number) || companyStateCode;
+    if (stateCode && !form.getValues("isExport")) form.setValue("placeOfSupply", stateCode, { shouldValidate: true });
+
+    // The client's usual TDS deduction, can still be changed for this invoice
+    const client = clients.find(c => c.id === id);
+    form.setValue("tdsSection", toTdsSectionValue(client?.tds_section));
+    form.setValue("tdsRate", Number(client?.tds_rate || 0));
   };
 
-  const calculateTotals = () => {
-    const subtotal = items.reduce((sum, item) => sum + item.amount, 0);
-    const igstRate = form.watch("igstRate") || 0;
-    const sgstRate = form.watch("sgstRate") || 0;
-    const cgstRate = form.watch("cgstRate") || 0;
-    const igstAmount = (subtotal * igstRate) / 100;
-    const sgstAmount = (subtotal * sgstRate) / 100;
-    const cgstAmount = (subtotal * cgstRate) / 100;
-    const totalTax = igstAmount + sgstAmount + cgstAmount;
-    const total = subtotal + totalTax;
-    return { subtotal, igstAmount, sgstAmount, cgstAmount, totalTax, total };
+  const handleTdsSectionChange = (value: string) => {
+    form.setValue("tdsSection", value);
+    form.setValue("tdsRate", getTdsRates(value)[0]);
   };
 
-  const getNextInvoiceNumber = async () => {
-    if (!user) return "1";
-    
-    try {
-      // Call RPC without user_uuid - function uses auth.uid() internally for security
-      const { data, error } = await supabase.rpc('get_next_invoice_number');
-      
-      if (error) throw error;
-      return data || "1";
-    } catch (error) {
-      if (import.meta.env.DEV) {
-        console.error('Error getting next invoice number:', error);
-      }
-      return "1";
+  // Exports are supplied outside India and zero rated, so IGST applies at no tax. Back in
+  // the domestic mode the place of supply follows the client again.
+  const handleExportChange = (checked: boolean) => {
+    form.setValue("isExport", checked);
+    form.setValue("taxOverride", false);
+    if (checked) {
+      form.setValue("placeOfSupply", EXPORT_PLACE_OF_SUPPLY, { shouldValidate: true });
+      return;
     }
+    form.setValue("currency", DEFAULT_CURRENCY);
+    form.setValue("exchangeRate", 1);
+    const stateCode =
+      getStateCodeFromGstin(clients.find(c => c.id === form.getValues("clientId"))?.gst_number) || companyStateCode;
+    form.setValue("placeOfSupply", stateCode || "");
   };
 
-  // Set auto-incremented invoice number when component mounts (only if field is empty)
+  const handleCurrencyChange = (value: string) => {
+    form.setValue("currency", value);
+    if (!isForeignCurrency(value)) form.setValue("exchangeRate", 1);
+  };
+
+  const calculateTotals = () => calculateInvoiceTotals(items, supplyType, { discount, roundOff, zeroRated: isExport });
+  const lutNumber = companies.find(c => c.id === companyId)?.lut_number;
+
+  const seriesId = form.watch("seriesId");
+  const invoiceDate = form.watch("invoiceDate");
+
+  // Numbering series of the selected company, preselecting its default series
   useEffect(() => {
-    const setInvoiceNumber = async () => {
-      const currentValue = form.getValues('invoiceNumber');
-      if (!currentValue) {
-        const nextNumber = await getNextInvoiceNumber();
-        form.setValue('invoiceNumber', nextNumber);
+    const fetchSeries = async () => {
+      if (!user || !companyId) return;
+
+      const { data, error } = await supabase
+        .from("invoice_number_series")
+        .select("*")
+        .eq("company_id", companyId)
+        .eq("user_id", user.id)
+        .eq("document_type", "invoice")
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        if (import.meta.env.DEV) {
+          console.error("Error loading numbering series:", error);
+        }
+        return;
+      }
+
+      setSeries(data || []);
+      const defaultSeries = data?.find((row) => row.is_default) || data?.[0];
+      form.setValue("seriesId", defaultSeries?.id || MANUAL_NUMBERING);
+    };
+
+    fetchSeries();
+  }, [user, companyId, form]);
+
+  // Preview of the next number; the database assigns the final one when the invoice is saved
+  useEffect(() => {
+    const previewInvoiceNumber = async () => {
+      if (seriesId === MANUAL_NUMBERING) return;
+
+      const { data, error } = await supabase.rpc("preview_next_invoice_number", {
+        series_uuid: seriesId,
+        for_date: invoiceDate || undefined,
+      });
+
+      if (error && import.meta.env.DEV) {
+        console.error("Error previewing invoice number:", error);
       }
+      form.setValue("invoiceNumber", data || "", { shouldValidate: !!data });
     };
-    
+
     if (user) {
-      setInvoiceNumber();
+      previewInvoiceNumber();
     }
-  }, [user, form]);
+  }, [user, seriesId, invoiceDate, form]);
+
+  const handleSeriesChange = (value: string) => {
+    form.setValue("seriesId", value);
+    if (value === MANUAL_NUMBERING) form.setValue("invoiceNumber", "");
+  };
 
   const onSubmit = async (values: z.infer<typeof invoiceSchema>) => {
     if (!user) return;
@@ -168,32 +304,60 @@ const CreateInvoice = () => {
     setLoading(true);
 
     try {
-      const { subtotal, igstAmount, sgstAmount, cgstAmount, total } = calculateTotals();
+      const { subtotal, igstAmount, sgstAmount, cgstAmount, totalTax, discountAmount, roundOff: roundOffAmount, total } = calculateTotals();
+      // Mixed slabs have no single invoice level rate; the split lives on the items
+      const uniformRate = getUniformGstRate(items);
+      const rates = uniformRate === null ? null : splitGstRate(uniformRate, values.supplyType);
+
+      const seriesUuid = values.seriesId === MANUAL_NUMBERING ? null : values.seriesId;
 
-      const { error } = await supabase.from("invoices").insert({
+      const { data: invoice, error } = await supabase.from("invoices").insert({
         user_id: user.id,
         company_id: values.companyId,
         client_id: values.clientId,
         invoice_number: values.invoiceNumber,
+        series_id: seriesUuid,
         invoice_date: values.invoiceDate,
         due_date: values.dueDate || null,
         subtotal,
-        igst_rate: values.igstRate,
+        gst_rate: uniformRate,
+        gst_amount: totalTax,
+        place_of_supply: values.placeOfSupply,
+        tax_override: values.taxOverride,
+        tds_section: fromTdsSectionValue(values.tdsSection),
+        tds_rate: values.tdsSection === NO_TDS ? 0 : values.tdsRate,
+        igst_rate: rates?.igstRate ?? null,
         igst_amount: igstAmount,
-        sgst_rate: values.sgstRate,
+        sgst_rate: rates?.sgstRate ?? null,
         sgst_amount: sgstAmount,
-        cgst_rate: values.cgstRate,
+        cgst_rate: rates?.cgstRate ?? null,
         cgst_amount: cgstAmount,
+        ...fromDiscount(discount, discountAmount),
+        round_off: roundOffAmount,
         total_amount: total,
+        is_export: values.isExport,
+        currency: values.currency,
+        exchange_rate: values.exchangeRate,
+        export_port: values.isExport ? values.exportPort || null : null,
+        export_country: values.isExport ? values.exportCountry || null : null,
         items: JSON.parse(JSON.stringify(items)),
         notes: values.notes || null,
+        signatory_id: fromSignatoryValue(values.signatoryId),
+        template_id: fromTemplateValue(values.templateId),
         status: "draft",
         invoice_type: values.invoiceType,
-      });
+      }).select("invoice_number").single();
 
-      if (error) throw error;
+      if (error) {
+        // 23505: unique_violation on (company_id, invoice_number)
+        if (error.code === "23505") {
+          toast.error("This invoice number is already used for the selected company");
+          return;
+        }
+        throw error;
+      }
 
-      toast.success("Invoice created successfully!");
+      toast.success(`Invoice ${invoice.invoice_number} created successfully!`);
       navigate("/dashboard");
     } catch (error) {
       if (import.meta.env.DEV) {
@@ -205,8 +369,6 @@ const CreateInvoice = () => {
     }
   };
 
-  const { subtotal, igstAmount, sgstAmount, cgstAmount, totalTax, total } = calculateTotals();
-
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -280,7 +442,7 @@ const CreateInvoice = () => {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Company</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <Select onValueChange={handleCompanyChange} defaultValue={field.value}>
                           <FormControl>
                             <SelectTrigger>
                               <SelectValue placeholder="Select company" />
@@ -305,7 +467,7 @@ const CreateInvoice = () => {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Client</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <Select onValueChange={handleClientChange} defaultValue={field.value}>
                           <FormControl>
                             <SelectTrigger>
                               <SelectValue placeholder="Select client" />
@@ -324,6 +486,32 @@ const CreateInvoice = () => {
                     )}
                   />
 
+                  <FormField
+                    control={form.control}
+                    name="seriesId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Numbering Series</FormLabel>
+                        <Select onValueChange={handleSeriesChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select series" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {series.map((row) => (
+                              <SelectItem key={row.id} value={row.id}>
+                                {row.name}
+                              </SelectItem>
+                            ))}
+                            <SelectItem value={MANUAL_NUMBERING}>Enter manually</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
                   <FormField
                     control={form.control}
                     name="invoiceNumber"
@@ -331,8 +519,13 @@ const CreateInvoice = () => {
                       <FormItem>
                         <FormLabel>Invoice Number</FormLabel>
                         <FormControl>
-                          <Input placeholder="INV-001" {...field} />
+                          <Input placeholder="INV-001" readOnly={seriesId !== MANUAL_NUMBERING} {...field} />
                         </FormControl>
+                        {seriesId !== MANUAL_NUMBERING && (
+                          <FormDescription>
+                            Preview. The number is confirmed when the invoice is saved.
+                          </FormDescription>
+                        )}
                         <FormMessage />
                       </FormItem>
                     )}
@@ -368,19 +561,31 @@ const CreateInvoice = () => {
 
                   <FormField
                     control={form.control}
-                    name="igstRate"
+                    name="signatoryId"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>IGST Rate (%)</FormLabel>
-                        <FormControl>
-                          <Input 
-                            type="number" 
-                            step="0.01"
-                            placeholder="0"
-                            {...field}
-                            onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
-                          />
-                        </FormControl>
+                        <FormLabel>Authorised Signatory</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={DEFAULT_SIGNATORY}>
+                              Company default{defaultSignatory ? ` (${defaultSignatory.name})` : ""}
+                            </SelectItem>
+                            {signatories.map((signatory) => (
+                              <SelectItem key={signatory.id} value={signatory.id}>
+                                {signatory.name}
+                                {signatory.designation ? `, ${signatory.designation}` : ""}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {signatories.length === 0 && (
+                          <FormDescription>Add signatories to the company under Manage Companies.</FormDescription>
+                        )}
                         <FormMessage />
                       </FormItem>
                     )}
@@ -388,19 +593,25 @@ const CreateInvoice = () => {
 
                   <FormField
                     control={form.control}
-                    name="sgstRate"
+                    name="templateId"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>SGST Rate (%)</FormLabel>
-                        <FormControl>
-                          <Input 
-                            type="number" 
-                            step="0.01"
-                            placeholder="0"
-                            {...field}
-                            onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
-                          />
-                        </FormControl>
+                        <FormLabel>Template</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={COMPANY_TEMPLATE}>Company template</SelectItem>
+                            {templates.map((template) => (
+                              <SelectItem key={template.id} value={template.id}>
+                                {template.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                         <FormMessage />
                       </FormItem>
                     )}
@@ -408,143 +619,290 @@ const CreateInvoice = () => {
 
                   <FormField
                     control={form.control}
-                    name="cgstRate"
+                    name="gstRate"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>CGST Rate (%)</FormLabel>
-                        <FormControl>
-                          <Input 
-                            type="number" 
-                            step="0.01"
-                            placeholder="0"
-                            {...field}
-                            onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
-                          />
-                        </FormControl>
+                        <FormLabel>Default GST Rate (%)</FormLabel>
+                        <Select
+                          onValueChange={(value) => field.onChange(parseFloat(value))}
+                          defaultValue={String(field.value)}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select GST rate" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {GST_RATES.map((rate) => (
+                              <SelectItem key={rate} value={String(rate)}>
+                                {rate}%
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
-                </div>
-              </CardContent>
-            </Card>
 
-            {/* Items */}
-            <Card>
-              <CardHeader>
-                <div className="flex justify-between items-center">
-                  <CardTitle>Invoice Items</CardTitle>
-                  <Button type="button" onClick={addItem} variant="outline" size="sm">
-                    <Plus className="h-4 w-4 mr-2" />
-                    Add Item
-                  </Button>
-                </div>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  {items.map((item, index) => (
-                    <div key={item.id} className="grid grid-cols-12 gap-4 items-end p-4 border rounded-lg">
-                      <div className="col-span-3">
-                        <Label>Description</Label>
-                        <Input
-                          placeholder="Item description"
-                          value={item.description}
-                          onChange={(e) => updateItem(item.id, 'description', e.target.value)}
-                        />
-                      </div>
-                      <div className="col-span-2">
-                        <Label>HSN/SAC Code</Label>
-                        <Input
-                          placeholder="e.g., 998311"
-                          value={item.hsnSacCode}
-                          onChange={(e) => updateItem(item.id, 'hsnSacCode', e.target.value)}
-                        />
-                      </div>
-                      <div className="col-span-2">
-                        <Label>Quantity</Label>
-                        <Input
-                          type="number"
-                          min="1"
-                          value={item.quantity}
-                          onChange={(e) => updateItem(item.id, 'quantity', parseInt(e.target.value) || 1)}
-                        />
-                      </div>
-                      <div className="col-span-2">
-                        <Label>Rate</Label>
-                        <Input
-                          type="number"
-                          step="0.01"
-                          value={item.rate}
-                          onChange={(e) => updateItem(item.id, 'rate', parseFloat(e.target.value) || 0)}
-                        />
-                      </div>
-                      <div className="col-span-2">
-                        <Label>Amount</Label>
-                        <Input
-                          value={item.amount.toFixed(2)}
-                          readOnly
-                          className="bg-muted"
-                        />
-                      </div>
-                      <div className="col-span-1">
-                        <Button
-                          type="button"
-                          variant="outline"
-                          size="sm"
-                          onClick={() => removeItem(item.id)}
-                          className="w-full"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    </div>
-                  ))}
-
-                  {items.length === 0 && (
-                    <div className="text-center py-8 text-muted-foreground">
-                      No items added. Click "Add Item" to get started.
-                    </div>
-                  )}
-                </div>
+                  <FormField
+                    control={form.control}
+                    name="placeOfSupply"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Place of Supply</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select state" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {GST_STATES.map((state) => (
+                              <SelectItem key={state.code} value={state.code}>
+                                {state.code} - {state.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-sm text-muted-foreground">
+                          {isExport
+                            ? "Export: zero rated, no IGST charged"
+                            : !companyStateCode
+                              ? "Add a GSTIN to the company to detect intra-state supply"
+                              : autoSupplyType === "intra_state"
+                                ? "Intra-state supply: CGST + SGST"
+                                : "Inter-state supply: IGST"}
+                        </p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
 
-                {/* Totals */}
-                {items.length > 0 && (
-                  <div className="mt-6 space-y-2 text-right">
-                    <div className="flex justify-end">
-                      <div className="w-64 space-y-2">
-                        <div className="flex justify-between">
-                          <span>Subtotal:</span>
-                          <span>₹{subtotal.toFixed(2)}</span>
+                  <FormField
+                    control={form.control}
+                    name="isExport"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between rounded-lg border p-3 md:col-span-2">
+                        <div className="space-y-0.5">
+                          <FormLabel>Export invoice</FormLabel>
+                          <p className="text-sm text-muted-foreground">
+                            Supply meant for export under LUT without payment of IGST, billed in the client's currency.
+                          </p>
                         </div>
-                        {igstAmount > 0 && (
-                          <div className="flex justify-between">
-                            <span>IGST ({form.watch("igstRate")}%):</span>
-                            <span>₹{igstAmount.toFixed(2)}</span>
-                          </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={handleExportChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+
+                  {isExport && (
+                    <>
+                      <FormField
+                        control={form.control}
+                        name="currency"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Currency</FormLabel>
+                            <Select onValueChange={handleCurrencyChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {CURRENCIES.map((option) => (
+                                  <SelectItem key={option.code} value={option.code}>
+                                    {option.code} - {option.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            {!lutNumber && (
+                              <FormDescription>
+                                Add the company's LUT number under Manage Companies to quote it on the invoice.
+                              </FormDescription>
+                            )}
+                            <FormMessage />
+                          </FormItem>
                         )}
-                        {sgstAmount > 0 && (
-                          <div className="flex justify-between">
-                            <span>SGST ({form.watch("sgstRate")}%):</span>
-                            <span>₹{sgstAmount.toFixed(2)}</span>
-                          </div>
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="exchangeRate"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Exchange Rate (₹ per {currency})</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min="0"
+                                step="0.0001"
+                                disabled={!isForeignCurrency(currency)}
+                                {...field}
+                                onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                              />
+                            </FormControl>
+                            {isForeignCurrency(currency) && (
+                              <FormDescription>
+                                {formatCurrency(calculateTotals().total, currency)} ={" "}
+                                {formatCurrency(toInr(calculateTotals().total, { currency, exchange_rate: exchangeRate }))}
+                              </FormDescription>
+                            )}
+                            <FormMessage />
+                          </FormItem>
                         )}
-                        {cgstAmount > 0 && (
-                          <div className="flex justify-between">
-                            <span>CGST ({form.watch("cgstRate")}%):</span>
-                            <span>₹{cgstAmount.toFixed(2)}</span>
-                          </div>
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="exportPort"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Port of Destination</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Rotterdam" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
                         )}
-                        <div className="flex justify-between font-bold text-lg border-t pt-2">
-                          <span>Total:</span>
-                          <span>₹{total.toFixed(2)}</span>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="exportCountry"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Country of Destination</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Netherlands" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </>
+                  )}
+
+                  {!isExport && (
+                    <FormField
+                      control={form.control}
+                      name="taxOverride"
+                      render={({ field }) => (
+                        <FormItem className="flex items-center justify-between rounded-lg border p-3 md:col-span-2">
+                          <div className="space-y-0.5">
+                            <FormLabel>Override tax split</FormLabel>
+                            <p className="text-sm text-muted-foreground">
+                              Choose IGST or CGST + SGST manually. The invoice will be flagged as overridden.
+                            </p>
+                          </div>
+                          <FormControl>
+                            <Switch checked={field.value} onCheckedChange={field.onChange} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  {taxOverride && (
+                    <FormField
+                      control={form.control}
+                      name="supplyType"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Tax Type</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="inter_state">IGST</SelectItem>
+                              <SelectItem value="intra_state">CGST + SGST</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  <FormField
+                    control={form.control}
+                    name="tdsSection"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>TDS Section</FormLabel>
+                        <Select onValueChange={handleTdsSectionChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={NO_TDS}>No TDS</SelectItem>
+                            {TDS_SECTIONS.map((section) => (
+                              <SelectItem key={section.code} value={section.code}>
+                                {section.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {tdsSection !== NO_TDS && (
+                    <FormField
+                      control={form.control}
+                      name="tdsRate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>TDS Rate (%)</FormLabel>
+                          <Select
+                            onValueChange={(value) => field.onChange(parseFloat(value))}
+                            value={String(field.value)}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {getTdsRates(tdsSection).map((rate) => (
+                                <SelectItem key={rate} value={String(rate)}>
+                                  {rate}%
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
               </CardContent>
             </Card>
 
+            <InvoiceItemsEditor
+              items={items}
+              onChange={setItems}
+              defaultGstRate={gstRate}
+              supplyType={supplyType}
+              companyId={companyId}
+              discount={discount}
+              onDiscountChange={setDiscount}
+              roundOff={roundOff}
+              onRoundOffChange={setRoundOff}
+              zeroRated={isExport}
+              currency={currency}
+            />
+
             {/* Notes */}
             <Card>
               <CardHeader>
@@ -0,0 +1,509 @@
+import { useState, useEffect } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { ArrowLeft, FileText } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import {
+  SupplyType,
+  calculateInvoiceTotals,
+  getInvoiceSupplyType,
+  getItemGstRate,
+  getUniformGstRate,
+  splitGstRate,
+} from "@/utils/gst";
+import { Discount, NO_DISCOUNT, fromDiscount, toDiscount } from "@/utils/discounts";
+import { CREDIT_NOTE, DEBIT_NOTE, getDocumentType } from "@/utils/notes";
+import { InvoiceNumberSeries } from "@/utils/invoiceNumbering";
+import InvoiceItemsEditor, { InvoiceItem } from "@/components/InvoiceItemsEditor";
+import { formatCurrency } from "@/utils/currency";
+
+// Select value for typing the note number by hand instead of using a series
+const MANUAL_NUMBERING = "manual";
+
+const noteSchema = z.object({
+  noteType: z.enum([CREDIT_NOTE, DEBIT_NOTE]),
+  seriesId: z.string(),
+  noteNumber: z.string().min(1, "Note number is required"),
+  noteDate: z.string().min(1, "Note date is required"),
+  reason: z.string().trim().min(1, "Reason is required"),
+  notes: z.string().optional(),
+});
+
+interface OriginalInvoice {
+  id: string;
+  company_id: string;
+  client_id: string;
+  invoice_number: string;
+  invoice_date: string;
+  total_amount: number;
+  place_of_supply: string | null;
+  tax_override: boolean;
+  tds_section: string | null;
+  tds_rate: number;
+  is_export: boolean;
+  currency: string;
+  exchange_rate: number;
+  export_port: string | null;
+  export_country: string | null;
+  companies: { name: string } | null;
+  clients: { name: string } | null;
+}
+
+const CreateNote = () => {
+  const { invoiceId } = useParams<{ invoiceId: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [original, setOriginal] = useState<OriginalInvoice | null>(null);
+  const [supplyType, setSupplyType] = useState<SupplyType>("inter_state");
+  const [creditedAmount, setCreditedAmount] = useState(0);
+  const [items, setItems] = useState<InvoiceItem[]>([]);
+  const [discount, setDiscount] = useState<Discount>(NO_DISCOUNT);
+  const [roundOff, setRoundOff] = useState(false);
+  const [series, setSeries] = useState<InvoiceNumberSeries[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const form = useForm<z.infer<typeof noteSchema>>({
+    resolver: zodResolver(noteSchema),
+    defaultValues: {
+      noteType: searchParams.get("type") === "debit_note" ? DEBIT_NOTE : CREDIT_NOTE,
+      seriesId: MANUAL_NUMBERING,
+      noteNumber: "",
+      noteDate: new Date().toISOString().split('T')[0],
+      reason: "",
+      notes: "",
+    },
+  });
+
+  // The invoice being adjusted, with the credit already issued against it
+  useEffect(() => {
+    const fetchOriginal = async () => {
+      if (!user || !invoiceId) return;
+
+      try {
+        const [invoiceResult, creditsResult] = await Promise.all([
+          supabase
+            .from("invoices")
+            .select(`
+              *,
+              companies!invoices_company_id_fkey(name),
+              clients!invoices_client_id_fkey(name)
+            `)
+            .eq("id", invoiceId)
+            .eq("user_id", user.id)
+            .single(),
+          supabase
+            .from("invoices")
+            .select("total_amount")
+            .eq("original_invoice_id", invoiceId)
+            .eq("invoice_type", CREDIT_NOTE)
+            .neq("status", "cancelled")
+            .eq("user_id", user.id),
+        ]);
+
+        if (invoiceResult.error) throw invoiceResult.error;
+        if (creditsResult.error) throw creditsResult.error;
+
+        const invoice = invoiceResult.data;
+        if (getDocumentType(invoice.invoice_type) !== "invoice") {
+          toast.error("Notes can only be issued against an invoice");
+          navigate(`/view-invoice/${invoice.id}`);
+          return;
+        }
+
+        setOriginal(invoice);
+        setSupplyType(getInvoiceSupplyType(invoice));
+        setCreditedAmount(
+          (creditsResult.data || []).reduce((sum, note) => sum + Number(note.total_amount || 0), 0)
+        );
+
+        // Start from the original lines; the user trims them down to what is being adjusted
+        const savedItems = Array.isArray(invoice.items) ? (invoice.items as unknown as InvoiceItem[]) : [];
+        setItems(savedItems.map((item) => ({ ...item, gstRate: getItemGstRate(item, invoice) })));
+        setDiscount(toDiscount(invoice));
+        setRoundOff(Number(invoice.round_off) !== 0);
+      } catch (error) {
+        if (import.meta.env.DEV) {
+          console.error("Error loading invoice:", error);
+        }
+        toast.error("Failed to load invoice");
+        navigate("/dashboard");
+      }
+    };
+
+    fetchOriginal();
+  }, [user, invoiceId, navigate]);
+
+  const noteType = form.watch("noteType");
+  const seriesId = form.watch("seriesId");
+  const noteDate = form.watch("noteDate");
+  const companyId = original?.company_id;
+
+  // Notes have their own numbering series per company
+  useEffect(() => {
+    const fetchSeries = async () => {
+      if (!user || !companyId) return;
+
+      const { data, error } = await supabase
+        .from("invoice_number_series")
+        .select("*")
+        .eq("company_id", companyId)
+        .eq("user_id", user.id)
+        .eq("document_type", getDocumentType(noteType))
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        if (import.meta.env.DEV) {
+          console.error("Error loading numbering series:", error);
+        }
+        return;
+      }
+
+      setSeries(data || []);
+      const defaultSeries = data?.find((row) => row.is_default) || data?.[0];
+      form.setValue("seriesId", defaultSeries?.id || MANUAL_NUMBERING);
+    };
+
+    fetchSeries();
+  }, [user, companyId, noteType, form]);
+
+  // Preview of the next number; the database assigns the final one when the note is saved
+  useEffect(() => {
+    const previewNoteNumber = async () => {
+      if (seriesId === MANUAL_NUMBERING) return;
+
+      const { data, error } = await supabase.rpc("preview_next_invoice_number", {
+        series_uuid: seriesId,
+        for_date: noteDate || undefined,
+      });
+
+      if (error && import.meta.env.DEV) {
+        console.error("Error previewing note number:", error);
+      }
+      form.setValue("noteNumber", data || "", { shouldValidate: !!data });
+    };
+
+    if (user) {
+      previewNoteNumber();
+    }
+  }, [user, seriesId, noteDate, form]);
+
+  const handleSeriesChange = (value: string) => {
+    form.setValue("seriesId", value);
+    if (value === MANUAL_NUMBERING) form.setValue("noteNumber", "");
+  };
+
+  const creditableAmount = original ? Number(original.total_amount) - creditedAmount : 0;
+
+  const onSubmit = async (values: z.infer<typeof noteSchema>) => {
+    if (!user || !original) return;
+    if (items.length === 0) {
+      toast.error("Please add at least one item");
+      return;
+    }
+
+    const { subtotal, igstAmount, sgstAmount, cgstAmount, totalTax, discountAmount, roundOff: roundOffAmount, total } =
+      calculateInvoiceTotals(items, supplyType, { discount, roundOff, zeroRated: original.is_export });
+
+    // A credit note cannot reverse more than what is left of the original invoice
+    if (values.noteType === CREDIT_NOTE && total > creditableAmount + 0.005) {
+      toast.error(`Only ${formatCurrency(creditableAmount, original.currency)} of this invoice can still be credited`);
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const uniformRate = getUniformGstRate(items);
+      const rates = uniformRate === null ? null : splitGstRate(uniformRate, supplyType);
+
+      const { data: note, error } = await supabase.from("invoices").insert({
+        user_id: user.id,
+        company_id: original.company_id,
+        client_id: original.client_id,
+        invoice_number: values.noteNumber,
+        series_id: values.seriesId === MANUAL_NUMBERING ? null : values.seriesId,
+        invoice_date: values.noteDate,
+        subtotal,
+        gst_rate: uniformRate,
+        gst_amount: totalTax,
+        // A note follows the tax treatment of the invoice it adjusts
+        place_of_supply: original.place_of_supply,
+        tax_override: original.tax_override,
+        tds_section: original.tds_section,
+        tds_rate: original.tds_rate,
+        is_export: original.is_export,
+        currency: original.currency,
+        exchange_rate: original.exchange_rate,
+        export_port: original.export_port,
+        export_country: original.export_country,
+        igst_rate: rates?.igstRate ?? null,
+        igst_amount: igstAmount,
+        sgst_rate: rates?.sgstRate ?? null,
+        sgst_amount: sgstAmount,
+        cgst_rate: rates?.cgstRate ?? null,
+        cgst_amount: cgstAmount,
+        ...fromDiscount(discount, discountAmount),
+        round_off: roundOffAmount,
+        total_amount: total,
+        items: JSON.parse(JSON.stringify(items)),
+        notes: values.notes || null,
+        status: "draft",
+        invoice_type: values.noteType,
+        original_invoice_id: original.id,
+        note_reason: values.reason,
+      }).select("id, invoice_number").single();
+
+      if (error) {
+        // 23505: unique_violation on (company_id, invoice_number)
+        if (error.code === "23505") {
+          toast.error("This note number is already used for the company");
+          return;
+        }
+        throw error;
+      }
+
+      toast.success(`${values.noteType} ${note.invoice_number} created successfully!`);
+      navigate(`/view-invoice/${note.id}`);
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error("Error creating note:", error);
+      }
+      toast.error("Failed to create note");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!original) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-card shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate(`/view-invoice/${original.id}`)}
+                className="mr-4"
+              >
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Invoice
+              </Button>
+              <FileText className="h-8 w-8 text-primary mr-3" />
+              <h1 className="text-2xl font-bold">Create {noteType}</h1>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6 text-center">
+          <h2 className="text-2xl font-bold text-primary">
+            {original.companies?.name} {noteType}
+          </h2>
+          <p className="text-muted-foreground">
+            Against invoice {original.invoice_number} dated{" "}
+            {format(new Date(original.invoice_date), "dd/MM/yyyy")} for {original.clients?.name}
+          </p>
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+            <Card>
+              <CardHeader>
+                <CardTitle>Note Details</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="noteType"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Note Type</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={CREDIT_NOTE}>Credit Note (reduces the invoice)</SelectItem>
+                            <SelectItem value={DEBIT_NOTE}>Debit Note (adds to the invoice)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        {noteType === CREDIT_NOTE && (
+                          <FormDescription>
+                            Up to {formatCurrency(creditableAmount, original.currency)} can still be credited.
+                          </FormDescription>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="seriesId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Numbering Series</FormLabel>
+                        <Select onValueChange={handleSeriesChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select series" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {series.map((row) => (
+                              <SelectItem key={row.id} value={row.id}>
+                                {row.name}
+                              </SelectItem>
+                            ))}
+                            <SelectItem value={MANUAL_NUMBERING}>Enter manually</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="noteNumber"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Note Number</FormLabel>
+                        <FormControl>
+                          <Input placeholder="CN-001" readOnly={seriesId !== MANUAL_NUMBERING} {...field} />
+                        </FormControl>
+                        {seriesId !== MANUAL_NUMBERING && (
+                          <FormDescription>
+                            Preview. The number is confirmed when the note is saved.
+                          </FormDescription>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="noteDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Note Date</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="reason"
+                    render={({ field }) => (
+                      <FormItem className="md:col-span-2">
+                        <FormLabel>Reason</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., Rate revision, goods returned, deficiency in service" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {original.is_export
+                    ? "Zero rated under LUT without IGST, as on the original export invoice."
+                    : supplyType === "intra_state"
+                      ? "Tax is split as CGST + SGST, as on the original invoice."
+                      : "Tax is charged as IGST, as on the original invoice."}
+                </p>
+              </CardContent>
+            </Card>
+
+            <InvoiceItemsEditor
+              title="Note Items"
+              items={items}
+              onChange={setItems}
+              defaultGstRate={items[0]?.gstRate ?? 18}
+              supplyType={supplyType}
+              companyId={companyId}
+              discount={discount}
+              onDiscountChange={setDiscount}
+              roundOff={roundOff}
+              onRoundOffChange={setRoundOff}
+              zeroRated={original.is_export}
+              currency={original.currency}
+            />
+
+            {/* Notes */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Additional Notes</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <FormField
+                  control={form.control}
+                  name="notes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormControl>
+                        <Textarea
+                          placeholder="Additional notes or terms..."
+                          className="min-h-[100px]"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Actions */}
+            <div className="flex justify-end space-x-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => navigate(`/view-invoice/${original.id}`)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading ? "Creating..." : `Create ${noteType}`}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </div>
+    </div>
+  );
+};
+
+export default CreateNote;
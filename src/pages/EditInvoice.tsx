@@ -7,12 +7,39 @@ import { useNavigate, useParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { ArrowLeft, Plus, Trash2 } from "lucide-react";
+import { ArrowLeft } from "lucide-react";
+import {
+  EXPORT_PLACE_OF_SUPPLY,
+  GST_RATES,
+  GST_STATES,
+  calculateInvoiceTotals,
+  getStateCodeFromGstin,
+  getSupplyType,
+  getUniformGstRate,
+  getInvoiceSupplyType,
+  getItemGstRate,
+  isAutomaticSplit,
+  splitGstRate,
+} from "@/utils/gst";
+import { Discount, NO_DISCOUNT, fromDiscount, toDiscount } from "@/utils/discounts";
+import {
+  NO_TDS,
+  TDS_SECTIONS,
+  fromTdsSectionValue,
+  getTdsRates,
+  toTdsSectionValue,
+} from "@/utils/tds";
+import InvoiceItemsEditor, { InvoiceItem } from "@/components/InvoiceItemsEditor";
+import { DEFAULT_SIGNATORY, Signatory, fromSignatoryValue, toSignatoryValue } from "@/utils/signatories";
+import { COMPANY_TEMPLATE, fromTemplateValue, toTemplateValue } from "@/utils/invoiceTemplates";
+import { isNote } from "@/utils/notes";
+import { CURRENCIES, DEFAULT_CURRENCY, formatCurrency, isForeignCurrency, toInr } from "@/utils/currency";
 
 const INVOICE_TYPES = [
   "Tax Invoice",
@@ -28,20 +55,22 @@ const invoiceSchema = z.object({
   invoiceNumber: z.string().min(1, "Invoice number is required"),
   invoiceDate: z.string().min(1, "Invoice date is required"),
   dueDate: z.string().optional(),
-  igstRate: z.number().min(0).max(100),
-  sgstRate: z.number().min(0).max(100),
-  cgstRate: z.number().min(0).max(100),
+  gstRate: z.number().min(0).max(100),
+  placeOfSupply: z.string().min(1, "Place of supply is required"),
+  taxOverride: z.boolean(),
+  supplyType: z.enum(["intra_state", "inter_state"]),
+  tdsSection: z.string(),
+  tdsRate: z.number().min(0).max(100),
+  isExport: z.boolean(),
+  currency: z.string().length(3),
+  exchangeRate: z.number().positive("Exchange rate must be more than zero"),
+  exportPort: z.string().optional(),
+  exportCountry: z.string().optional(),
+  signatoryId: z.string(),
+  templateId: z.string(),
   notes: z.string().optional(),
 });
 
-interface InvoiceItem {
-  description: string;
-  hsnSacCode?: string;
-  quantity: number;
-  rate: number;
-  amount: number;
-}
-
 const EditInvoice = () => {
   const { id } = useParams<{ id: string }>();
   const { user } = useAuth();
@@ -51,19 +80,33 @@ const EditInvoice = () => {
   const [companies, setCompanies] = useState<any[]>([]);
   const [clients, setClients] = useState<any[]>([]);
   const [items, setItems] = useState<InvoiceItem[]>([]);
+  const [discount, setDiscount] = useState<Discount>(NO_DISCOUNT);
+  const [roundOff, setRoundOff] = useState(false);
+  const [signatories, setSignatories] = useState<Signatory[]>([]);
+  const [templates, setTemplates] = useState<{ id: string; name: string }[]>([]);
 
   const form = useForm<z.infer<typeof invoiceSchema>>({
     resolver: zodResolver(invoiceSchema),
     defaultValues: {
-      invoiceType: "Invoice",
+      invoiceType: "Tax Invoice",
       companyId: "",
       clientId: "",
       invoiceNumber: "",
       invoiceDate: "",
       dueDate: "",
-      igstRate: 0,
-      sgstRate: 0,
-      cgstRate: 0,
+      gstRate: 0,
+      placeOfSupply: "",
+      taxOverride: false,
+      supplyType: "inter_state",
+      tdsSection: NO_TDS,
+      tdsRate: 0,
+      isExport: false,
+      currency: DEFAULT_CURRENCY,
+      exchangeRate: 1,
+      exportPort: "",
+      exportCountry: "",
+      signatoryId: DEFAULT_SIGNATORY,
+      templateId: COMPANY_TEMPLATE,
       notes: "",
     },
   });
@@ -78,8 +121,8 @@ const EditInvoice = () => {
           .from("invoices")
           .select(`
             *,
-            companies!invoices_company_id_fkey(id, name),
-            clients!invoices_client_id_fkey(id, name)
+            companies!invoices_company_id_fkey(id, name, gst_number),
+            clients!invoices_client_id_fkey(id, name, gst_number)
           `)
           .eq("id", id)
           .eq("user_id", user.id)
@@ -87,22 +130,51 @@ const EditInvoice = () => {
 
         if (error) throw error;
 
+        const rates = {
+          igstRate: invoice.igst_rate || 0,
+          sgstRate: invoice.sgst_rate || 0,
+          cgstRate: invoice.cgst_rate || 0,
+        };
+        const companyStateCode = getStateCodeFromGstin(invoice.companies?.gst_number);
+        let { place_of_supply: placeOfSupply, tax_override: taxOverride } = invoice;
+        let gstRate = invoice.gst_rate || 0;
+
+        // Invoices saved before place of supply existed only carry the split rates
+        if (!placeOfSupply) {
+          placeOfSupply = getStateCodeFromGstin(invoice.clients?.gst_number) || companyStateCode || "";
+          gstRate = rates.igstRate + rates.sgstRate + rates.cgstRate;
+          taxOverride = !isAutomaticSplit(rates, gstRate, getSupplyType(companyStateCode, placeOfSupply));
+        }
+
         // Populate form with existing data
         form.reset({
-          invoiceType: invoice.invoice_type || "Invoice",
+          invoiceType: invoice.invoice_type || "Tax Invoice",
           companyId: invoice.company_id,
           clientId: invoice.client_id,
           invoiceNumber: invoice.invoice_number,
           invoiceDate: invoice.invoice_date,
           dueDate: invoice.due_date || "",
-          igstRate: invoice.igst_rate || 0,
-          sgstRate: invoice.sgst_rate || 0,
-          cgstRate: invoice.cgst_rate || 0,
+          gstRate,
+          placeOfSupply,
+          taxOverride,
+          supplyType: getInvoiceSupplyType(invoice),
+          tdsSection: toTdsSectionValue(invoice.tds_section),
+          tdsRate: Number(invoice.tds_rate || 0),
+          isExport: invoice.is_export,
+          currency: invoice.currency,
+          exchangeRate: Number(invoice.exchange_rate),
+          exportPort: invoice.export_port || "",
+          exportCountry: invoice.export_country || "",
+          signatoryId: toSignatoryValue(invoice.signatory_id),
+          templateId: toTemplateValue(invoice.template_id, COMPANY_TEMPLATE),
           notes: invoice.notes || "",
         });
 
         // Set items
-        setItems(Array.isArray(invoice.items) ? (invoice.items as unknown as InvoiceItem[]) : []);
+        const savedItems = Array.isArray(invoice.items) ? (invoice.items as unknown as InvoiceItem[]) : [];
+        setItems(savedItems.map((item) => ({ ...item, gstRate: getItemGstRate(item, invoice) })));
+        setDiscount(toDiscount(invoice));
+        setRoundOff(Number(invoice.round_off) !== 0);
       } catch (error) {
         toast.error("Failed to load invoice");
         navigate("/dashboard");
@@ -138,38 +210,116 @@ const EditInvoice = () => {
     fetchData();
   }, [user]);
 
-  const addItem = () => {
-    setItems([...items, { description: "", hsnSacCode: "", quantity: 1, rate: 0, amount: 0 }]);
-  };
+  const companyId = form.watch("companyId");
+  const placeOfSupply = form.watch("placeOfSupply");
+  const gstRate = form.watch("gstRate");
+  const taxOverride = form.watch("taxOverride");
+  const tdsSection = form.watch("tdsSection");
+  const invoiceType = form.watch("invoiceType");
+  const isExport = form.watch("isExport");
+  const currency = form.watch("currency");
+  const exchangeRate = form.watch("exchangeRate");
+  const companyStateCode = getStateCodeFromGstin(companies.find(c => c.id === companyId)?.gst_number);
+  const autoSupplyType = getSupplyType(companyStateCode, placeOfSupply || null);
+  const supplyType = form.watch("supplyType");
+
+  // Signatories of the selected company; a signatory of another company cannot sign
+  useEffect(() => {
+    const fetchSignatories = async () => {
+      if (!user || !companyId) return;
+
+      const { data, error } = await supabase
+        .from("company_signatories")
+        .select("*")
+        .eq("company_id", companyId)
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        if (import.meta.env.DEV) {
+          console.error("Error loading signatories:", error);
+        }
+        return;
+      }
+
+      setSignatories(data || []);
+      const currentSignatory = form.getValues("signatoryId");
+      if (!data?.some((row) => row.id === currentSignatory)) {
+        form.setValue("signatoryId", DEFAULT_SIGNATORY);
+      }
+    };
+
+    fetchSignatories();
+  }, [user, companyId, form]);
+
+  const defaultSignatory = signatories.find((signatory) => signatory.is_default);
+
+  // Built-in templates and the user's own
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      const { data } = await supabase.from("invoice_templates").select("id, name").order("created_at");
+      setTemplates(data || []);
+    };
+
+    fetchTemplates();
+  }, []);
 
-  const updateItem = (index: number, field: keyof InvoiceItem, value: string | number) => {
-    const newItems = [...items];
-    newItems[index] = { ...newItems[index], [field]: value };
-    
-    if (field === "quantity" || field === "rate") {
-      newItems[index].amount = Number(newItems[index].quantity) * Number(newItems[index].rate);
+  // Keep the IGST / CGST + SGST choice on the place of supply unless the user overrides it
+  useEffect(() => {
+    if (taxOverride || pageLoading) return;
+    form.setValue("supplyType", autoSupplyType);
+  }, [form, autoSupplyType, taxOverride, pageLoading]);
+
+  const handleCompanyChange = (id: string) => {
+    form.setValue("companyId", id, { shouldValidate: true });
+    if (!form.getValues("placeOfSupply")) {
+      const stateCode = getStateCodeFromGstin(companies.find(c => c.id === id)?.gst_number);
+      if (stateCode) form.setValue("placeOfSupply", stateCode);
     }
-    
-    setItems(newItems);
   };
 
-  const removeItem = (index: number) => {
-    setItems(items.filter((_, i) => i !== index));
+  // Place of supply follows the client's GSTIN state, or the supplier's state for unregistered clients
+  const handleClientChange = (id: string) => {
+    form.setValue("clientId", id, { shouldValidate: true });
+    const stateCode =
+      getStateCodeFromGstin(clients.find(c => c.id === id)?.gst_number) || companyStateCode;
+    if (stateCode && !form.getValues("isExport")) form.setValue("placeOfSupply", stateCode, { shouldValidate: true });
+
+    // The client's usual TDS deduction, can still be changed for this invoice
+    const client = clients.find(c => c.id === id);
+    form.setValue("tdsSection", toTdsSectionValue(client?.tds_section));
+    form.setValue("tdsRate", Number(client?.tds_rate || 0));
+  };
+
+  const handleTdsSectionChange = (value: string) => {
+    form.setValue("tdsSection", value);
+    form.setValue("tdsRate", getTdsRates(value)[0]);
+  };
+
+  // Exports are supplied outside India and zero rated, so IGST applies at no tax. Back in
+  // the domestic mode the place of supply follows the client again.
+  const handleExportChange = (checked: boolean) => {
+    form.setValue("isExport", checked);
+    form.setValue("taxOverride", false);
+    if (checked) {
+      form.setValue("placeOfSupply", EXPORT_PLACE_OF_SUPPLY, { shouldValidate: true });
+      return;
+    }
+    form.setValue("currency", DEFAULT_CURRENCY);
+    form.setValue("exchangeRate", 1);
+    const stateCode =
+      getStateCodeFromGstin(clients.find(c => c.id === form.getValues("clientId"))?.gst_number) || companyStateCode;
+    form.setValue("placeOfSupply", stateCode || "");
   };
 
-  const calculateTotals = () => {
-    const subtotal = items.reduce((sum, item) => sum + item.amount, 0);
-    const igstRate = form.watch("igstRate") || 0;
-    const sgstRate = form.watch("sgstRate") || 0;
-    const cgstRate = form.watch("cgstRate") || 0;
-    const igstAmount = (subtotal * igstRate) / 100;
-    const sgstAmount = (subtotal * sgstRate) / 100;
-    const cgstAmount = (subtotal * cgstRate) / 100;
-    const totalTax = igstAmount + sgstAmount + cgstAmount;
-    const total = subtotal + totalTax;
-    return { subtotal, igstAmount, sgstAmount, cgstAmount, totalTax, total };
+  const handleCurrencyChange = (value: string) => {
+    form.setValue("currency", value);
+    if (!isForeignCurrency(value)) form.setValue("exchangeRate", 1);
   };
 
+  const calculateTotals = () => calculateInvoiceTotals(items, supplyType, { discount, roundOff, zeroRated: isExport });
+  const lutNumber = companies.find(c => c.id === companyId)?.lut_number;
+
   const onSubmit = async (values: z.infer<typeof invoiceSchema>) => {
     if (!user || !id) return;
     if (items.length === 0) {
@@ -180,7 +330,10 @@ const EditInvoice = () => {
     setLoading(true);
 
     try {
-      const { subtotal, igstAmount, sgstAmount, cgstAmount, total } = calculateTotals();
+      const { subtotal, igstAmount, sgstAmount, cgstAmount, totalTax, discountAmount, roundOff: roundOffAmount, total } = calculateTotals();
+      // Mixed slabs have no single invoice level rate; the split lives on the items
+      const uniformRate = getUniformGstRate(items);
+      const rates = uniformRate === null ? null : splitGstRate(uniformRate, values.supplyType);
 
       const { error } = await supabase
         .from("invoices")
@@ -191,15 +344,30 @@ const EditInvoice = () => {
           invoice_date: values.invoiceDate,
           due_date: values.dueDate || null,
           subtotal,
-          igst_rate: values.igstRate,
+          gst_rate: uniformRate,
+          gst_amount: totalTax,
+          place_of_supply: values.placeOfSupply,
+          tax_override: values.taxOverride,
+        tds_section: fromTdsSectionValue(values.tdsSection),
+        tds_rate: values.tdsSection === NO_TDS ? 0 : values.tdsRate,
+          igst_rate: rates?.igstRate ?? null,
           igst_amount: igstAmount,
-          sgst_rate: values.sgstRate,
+          sgst_rate: rates?.sgstRate ?? null,
           sgst_amount: sgstAmount,
-          cgst_rate: values.cgstRate,
+          cgst_rate: rates?.cgstRate ?? null,
           cgst_amount: cgstAmount,
+          ...fromDiscount(discount, discountAmount),
+          round_off: roundOffAmount,
           total_amount: total,
+          is_export: values.isExport,
+          currency: values.currency,
+          exchange_rate: values.exchangeRate,
+          export_port: values.isExport ? values.exportPort || null : null,
+          export_country: values.isExport ? values.exportCountry || null : null,
           items: JSON.parse(JSON.stringify(items)),
           notes: values.notes || null,
+          signatory_id: fromSignatoryValue(values.signatoryId),
+          template_id: fromTemplateValue(values.templateId),
           invoice_type: values.invoiceType,
         })
         .eq("id", id)
@@ -224,8 +392,6 @@ const EditInvoice = () => {
     );
   }
 
-  const { subtotal, igstAmount, sgstAmount, cgstAmount, totalTax, total } = calculateTotals();
-
   return (
     <div className="min-h-screen bg-background">
       <div className="max-w-4xl mx-auto p-6">
@@ -255,13 +421,15 @@ const EditInvoice = () => {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Invoice Type</FormLabel>
-                        <Select onValueChange={field.onChange} value={field.value}>
+                        {/* A note stays a note, it is tied to the invoice it adjusts */}
+                        <Select onValueChange={field.onChange} value={field.value} disabled={isNote(field.value)}>
                           <FormControl>
                             <SelectTrigger>
                               <SelectValue placeholder="Select type" />
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
+                            {isNote(field.value) && <SelectItem value={field.value}>{field.value}</SelectItem>}
                             {INVOICE_TYPES.map((type) => (
                               <SelectItem key={type} value={type}>
                                 {type}
@@ -280,7 +448,7 @@ const EditInvoice = () => {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Company</FormLabel>
-                        <Select onValueChange={field.onChange} value={field.value}>
+                        <Select onValueChange={handleCompanyChange} value={field.value}>
                           <FormControl>
                             <SelectTrigger>
                               <SelectValue placeholder="Select a company" />
@@ -305,7 +473,7 @@ const EditInvoice = () => {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Client</FormLabel>
-                        <Select onValueChange={field.onChange} value={field.value}>
+                        <Select onValueChange={handleClientChange} value={field.value}>
                           <FormControl>
                             <SelectTrigger>
                               <SelectValue placeholder="Select a client" />
@@ -340,18 +508,27 @@ const EditInvoice = () => {
 
                   <FormField
                     control={form.control}
-                    name="igstRate"
+                    name="gstRate"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>IGST Rate (%)</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            placeholder="0"
-                            {...field}
-                            onChange={(e) => field.onChange(Number(e.target.value))}
-                          />
-                        </FormControl>
+                        <FormLabel>Default GST Rate (%)</FormLabel>
+                        <Select
+                          onValueChange={(value) => field.onChange(parseFloat(value))}
+                          value={String(field.value)}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select GST rate" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {GST_RATES.map((rate) => (
+                              <SelectItem key={rate} value={String(rate)}>
+                                {rate}%
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                         <FormMessage />
                       </FormItem>
                     )}
@@ -359,18 +536,33 @@ const EditInvoice = () => {
 
                   <FormField
                     control={form.control}
-                    name="sgstRate"
+                    name="placeOfSupply"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>SGST Rate (%)</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            placeholder="0"
-                            {...field}
-                            onChange={(e) => field.onChange(Number(e.target.value))}
-                          />
-                        </FormControl>
+                        <FormLabel>Place of Supply</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select state" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {GST_STATES.map((state) => (
+                              <SelectItem key={state.code} value={state.code}>
+                                {state.code} - {state.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-sm text-muted-foreground">
+                          {isExport
+                            ? "Export: zero rated, no IGST charged"
+                            : !companyStateCode
+                              ? "Add a GSTIN to the company to detect intra-state supply"
+                              : autoSupplyType === "intra_state"
+                                ? "Intra-state supply: CGST + SGST"
+                                : "Inter-state supply: IGST"}
+                        </p>
                         <FormMessage />
                       </FormItem>
                     )}
@@ -378,23 +570,216 @@ const EditInvoice = () => {
 
                   <FormField
                     control={form.control}
-                    name="cgstRate"
+                    name="isExport"
                     render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>CGST Rate (%)</FormLabel>
+                      <FormItem className="flex items-center justify-between rounded-lg border p-3 md:col-span-2">
+                        <div className="space-y-0.5">
+                          <FormLabel>Export invoice</FormLabel>
+                          <p className="text-sm text-muted-foreground">
+                            Supply meant for export under LUT without payment of IGST, billed in the client's currency.
+                          </p>
+                        </div>
                         <FormControl>
-                          <Input
-                            type="number"
-                            placeholder="0"
-                            {...field}
-                            onChange={(e) => field.onChange(Number(e.target.value))}
+                          {/* A note follows the invoice it adjusts */}
+                          <Switch
+                            checked={field.value}
+                            onCheckedChange={handleExportChange}
+                            disabled={isNote(invoiceType)}
                           />
                         </FormControl>
+                      </FormItem>
+                    )}
+                  />
+
+                  {isExport && (
+                    <>
+                      <FormField
+                        control={form.control}
+                        name="currency"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Currency</FormLabel>
+                            <Select onValueChange={handleCurrencyChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {CURRENCIES.map((option) => (
+                                  <SelectItem key={option.code} value={option.code}>
+                                    {option.code} - {option.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            {!lutNumber && (
+                              <FormDescription>
+                                Add the company's LUT number under Manage Companies to quote it on the invoice.
+                              </FormDescription>
+                            )}
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="exchangeRate"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Exchange Rate (₹ per {currency})</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min="0"
+                                step="0.0001"
+                                disabled={!isForeignCurrency(currency)}
+                                {...field}
+                                onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                              />
+                            </FormControl>
+                            {isForeignCurrency(currency) && (
+                              <FormDescription>
+                                {formatCurrency(calculateTotals().total, currency)} ={" "}
+                                {formatCurrency(toInr(calculateTotals().total, { currency, exchange_rate: exchangeRate }))}
+                              </FormDescription>
+                            )}
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="exportPort"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Port of Destination</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Rotterdam" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="exportCountry"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Country of Destination</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Netherlands" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </>
+                  )}
+
+                  {!isExport && (
+                    <FormField
+                      control={form.control}
+                      name="taxOverride"
+                      render={({ field }) => (
+                        <FormItem className="flex items-center justify-between rounded-lg border p-3 md:col-span-2">
+                          <div className="space-y-0.5">
+                            <FormLabel>Override tax split</FormLabel>
+                            <p className="text-sm text-muted-foreground">
+                              Choose IGST or CGST + SGST manually. The invoice will be flagged as overridden.
+                            </p>
+                          </div>
+                          <FormControl>
+                            <Switch checked={field.value} onCheckedChange={field.onChange} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  {taxOverride && (
+                    <FormField
+                      control={form.control}
+                      name="supplyType"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Tax Type</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="inter_state">IGST</SelectItem>
+                              <SelectItem value="intra_state">CGST + SGST</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  <FormField
+                    control={form.control}
+                    name="tdsSection"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>TDS Section</FormLabel>
+                        <Select onValueChange={handleTdsSectionChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={NO_TDS}>No TDS</SelectItem>
+                            {TDS_SECTIONS.map((section) => (
+                              <SelectItem key={section.code} value={section.code}>
+                                {section.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
 
+                  {tdsSection !== NO_TDS && (
+                    <FormField
+                      control={form.control}
+                      name="tdsRate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>TDS Rate (%)</FormLabel>
+                          <Select
+                            onValueChange={(value) => field.onChange(parseFloat(value))}
+                            value={String(field.value)}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {getTdsRates(tdsSection).map((rate) => (
+                                <SelectItem key={rate} value={String(rate)}>
+                                  {rate}%
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
                   <FormField
                     control={form.control}
                     name="invoiceDate"
@@ -422,120 +807,83 @@ const EditInvoice = () => {
                       </FormItem>
                     )}
                   />
-                </div>
-              </CardContent>
-            </Card>
 
-            <Card>
-              <CardHeader>
-                <div className="flex justify-between items-center">
-                  <CardTitle>Line Items</CardTitle>
-                  <Button type="button" onClick={addItem} variant="outline">
-                    <Plus className="h-4 w-4 mr-2" />
-                    Add Item
-                  </Button>
-                </div>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  {items.map((item, index) => (
-                    <div key={index} className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end p-4 border rounded-lg">
-                      <div className="md:col-span-2">
-                        <label className="text-sm font-medium">Description</label>
-                        <Input
-                          placeholder="Item description"
-                          value={item.description}
-                          onChange={(e) => updateItem(index, "description", e.target.value)}
-                        />
-                      </div>
-                      <div>
-                        <label className="text-sm font-medium">HSN/SAC Code</label>
-                        <Input
-                          placeholder="e.g., 998311"
-                          value={item.hsnSacCode || ""}
-                          onChange={(e) => updateItem(index, "hsnSacCode", e.target.value)}
-                        />
-                      </div>
-                      <div>
-                        <label className="text-sm font-medium">Quantity</label>
-                        <Input
-                          type="number"
-                          placeholder="1"
-                          value={item.quantity}
-                          onChange={(e) => updateItem(index, "quantity", Number(e.target.value))}
-                        />
-                      </div>
-                      <div>
-                        <label className="text-sm font-medium">Rate</label>
-                        <Input
-                          type="number"
-                          placeholder="0.00"
-                          value={item.rate}
-                          onChange={(e) => updateItem(index, "rate", Number(e.target.value))}
-                        />
-                      </div>
-                      <div className="flex items-center justify-between">
-                        <div>
-                          <label className="text-sm font-medium">Amount</label>
-                          <div className="text-lg font-semibold">₹{item.amount.toFixed(2)}</div>
-                        </div>
-                        <Button
-                          type="button"
-                          variant="outline"
-                          size="sm"
-                          onClick={() => removeItem(index)}
-                          className="text-red-600 hover:text-red-700"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    </div>
-                  ))}
-                  
-                  {items.length === 0 && (
-                    <div className="text-center py-8 text-muted-foreground">
-                      No items added yet. Click "Add Item" to get started.
-                    </div>
-                  )}
-                </div>
-
-                {items.length > 0 && (
-                  <div className="mt-6 space-y-2 text-right">
-                    <div className="flex justify-end">
-                      <div className="w-64 space-y-2">
-                        <div className="flex justify-between">
-                          <span>Subtotal:</span>
-                          <span>₹{subtotal.toFixed(2)}</span>
-                        </div>
-                        {igstAmount > 0 && (
-                          <div className="flex justify-between">
-                            <span>IGST ({form.watch("igstRate")}%):</span>
-                            <span>₹{igstAmount.toFixed(2)}</span>
-                          </div>
-                        )}
-                        {sgstAmount > 0 && (
-                          <div className="flex justify-between">
-                            <span>SGST ({form.watch("sgstRate")}%):</span>
-                            <span>₹{sgstAmount.toFixed(2)}</span>
-                          </div>
-                        )}
-                        {cgstAmount > 0 && (
-                          <div className="flex justify-between">
-                            <span>CGST ({form.watch("cgstRate")}%):</span>
-                            <span>₹{cgstAmount.toFixed(2)}</span>
-                          </div>
+                  <FormField
+                    control={form.control}
+                    name="signatoryId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Authorised Signatory</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={DEFAULT_SIGNATORY}>
+                              Company default{defaultSignatory ? ` (${defaultSignatory.name})` : ""}
+                            </SelectItem>
+                            {signatories.map((signatory) => (
+                              <SelectItem key={signatory.id} value={signatory.id}>
+                                {signatory.name}
+                                {signatory.designation ? `, ${signatory.designation}` : ""}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {signatories.length === 0 && (
+                          <FormDescription>Add signatories to the company under Manage Companies.</FormDescription>
                         )}
-                        <div className="flex justify-between font-bold text-lg border-t pt-2">
-                          <span>Total:</span>
-                          <span>₹{total.toFixed(2)}</span>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="templateId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Template</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={COMPANY_TEMPLATE}>Company template</SelectItem>
+                            {templates.map((template) => (
+                              <SelectItem key={template.id} value={template.id}>
+                                {template.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
               </CardContent>
             </Card>
 
+            <InvoiceItemsEditor
+              title="Line Items"
+              items={items}
+              onChange={setItems}
+              defaultGstRate={gstRate}
+              supplyType={supplyType}
+              companyId={companyId}
+              discount={discount}
+              onDiscountChange={setDiscount}
+              roundOff={roundOff}
+              onRoundOffChange={setRoundOff}
+              zeroRated={isExport}
+              currency={currency}
+            />
+
             <Card>
               <CardHeader>
                 <CardTitle>Additional Notes</CardTitle>
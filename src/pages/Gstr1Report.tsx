@@ -0,0 +1,315 @@
+import { useState, useEffect, useMemo } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, ArrowLeft, Download, FileSpreadsheet, Landmark } from "lucide-react";
+import { endOfMonth, format, parseISO, subMonths } from "date-fns";
+import * as XLSX from "xlsx";
+import { Gstr1Source, buildGstr1, summarizeGstr1, toFilingPeriod, toGstr1Json, toGstr1Workbook } from "@/utils/gstr1";
+
+interface Company {
+  id: string;
+  name: string;
+  gst_number: string | null;
+}
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const Gstr1Report = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [companyId, setCompanyId] = useState("");
+  // Returns are filed after the month ends, so start from the previous one
+  const [period, setPeriod] = useState(format(subMonths(new Date(), 1), "yyyy-MM"));
+  const [invoices, setInvoices] = useState<Gstr1Source[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fetching, setFetching] = useState(false);
+
+  useEffect(() => {
+    const fetchCompanies = async () => {
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from("companies")
+        .select("id, name, gst_number")
+        .eq("user_id", user.id)
+        .order("name", { ascending: true });
+
+      if (error) {
+        if (import.meta.env.DEV) {
+          console.error("Error fetching companies:", error);
+        }
+        toast({
+          title: "Error",
+          description: "Failed to fetch companies",
+          variant: "destructive"
+        });
+      }
+      setCompanies(data || []);
+      const registered = (data || []).find((company) => company.gst_number);
+      if (registered) setCompanyId(registered.id);
+      setLoading(false);
+    };
+
+    fetchCompanies();
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (!companyId || !period) return;
+    let cancelled = false;
+
+    const fetchInvoices = async () => {
+      setFetching(true);
+      try {
+        const { data, error } = await supabase
+          .from("invoices")
+          .select("*, clients (name, company_name, gst_number)")
+          .eq("company_id", companyId)
+          .gte("invoice_date", `${period}-01`)
+          .lte("invoice_date", format(endOfMonth(parseISO(`${period}-01`)), "yyyy-MM-dd"))
+          .order("invoice_date", { ascending: true })
+          .order("invoice_number", { ascending: true });
+
+        if (error) throw error;
+
+        // Notes are reported by the kind of invoice they adjust, which may be from an earlier period
+        const originalIds = Array.from(
+          new Set((data || []).map((invoice) => invoice.original_invoice_id).filter((id): id is string => !!id))
+        );
+        const { data: originals, error: originalsError } = originalIds.length
+          ? await supabase
+              .from("invoices")
+              .select("id, total_amount, igst_amount, sgst_amount, cgst_amount, currency, exchange_rate")
+              .in("id", originalIds)
+          : { data: [], error: null };
+
+        if (originalsError) throw originalsError;
+
+        const originalsById = new Map((originals || []).map((original) => [original.id, original]));
+        if (!cancelled) {
+          setInvoices(
+            (data || []).map((invoice) => ({
+              ...invoice,
+              original_invoice: invoice.original_invoice_id ? originalsById.get(invoice.original_invoice_id) ?? null : null,
+            }))
+          );
+        }
+      } catch (error) {
+        if (import.meta.env.DEV) {
+          console.error("Error fetching invoices:", error);
+        }
+        toast({
+          title: "Error",
+          description: "Failed to fetch invoices",
+          variant: "destructive"
+        });
+      } finally {
+        if (!cancelled) setFetching(false);
+      }
+    };
+
+    fetchInvoices();
+    return () => {
+      cancelled = true;
+    };
+  }, [companyId, period, toast]);
+
+  const company = companies.find((option) => option.id === companyId);
+  const gstr1 = useMemo(
+    () => (company ? buildGstr1(company.gst_number || "", period, invoices) : null),
+    [company, period, invoices]
+  );
+  const sections = gstr1 ? summarizeGstr1(gstr1) : [];
+  const canExport = !!gstr1 && !fetching && gstr1.issues.length === 0 && sections.some((section) => section.count > 0);
+  const fileName = gstr1 ? `GSTR1_${gstr1.gstin}_${toFilingPeriod(period)}` : "";
+
+  const downloadJson = () => {
+    if (!gstr1) return;
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(
+      new Blob([JSON.stringify(toGstr1Json(gstr1), null, 2)], { type: "application/json" })
+    );
+    link.download = `${fileName}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const downloadWorkbook = () => {
+    if (!gstr1) return;
+    XLSX.writeFile(toGstr1Workbook(gstr1), `${fileName}.xlsx`);
+  };
+
+  if (loading) {
+    return <div className="min-h-screen bg-background flex items-center justify-center">Loading...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-card shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Button variant="ghost" size="sm" onClick={() => navigate("/dashboard")} className="mr-4">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+              <Landmark className="h-8 w-8 text-primary mr-3" />
+              <h1 className="text-2xl font-bold">GSTR-1</h1>
+            </div>
+
+            {gstr1 && (
+              <div className="flex items-center gap-2">
+                <Button variant="outline" onClick={downloadWorkbook} disabled={!canExport}>
+                  <FileSpreadsheet className="h-4 w-4 mr-2" />
+                  Excel Workbook
+                </Button>
+                <Button onClick={downloadJson} disabled={!canExport}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Offline Tool JSON
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Company</Label>
+                <Select value={companyId} onValueChange={setCompanyId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a company" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {companies.map((option) => (
+                      <SelectItem key={option.id} value={option.id} disabled={!option.gst_number}>
+                        {option.name}
+                        {option.gst_number ? ` (${option.gst_number})` : " (no GSTIN)"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Tax Period</Label>
+                <Input type="month" value={period} onChange={(e) => setPeriod(e.target.value)} />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {!company ? (
+          <Card>
+            <CardContent className="text-center py-12 text-muted-foreground">
+              Add a GSTIN to a company to prepare its returns.
+            </CardContent>
+          </Card>
+        ) : (
+          gstr1 && (
+            <>
+              {gstr1.issues.length > 0 && (
+                <Card className="border-amber-200">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-amber-800">
+                      <AlertTriangle className="h-5 w-5" />
+                      Fix these before exporting
+                    </CardTitle>
+                    <CardDescription>
+                      The GST portal rejects returns with these problems. Correct the documents and they drop off this list.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Document</TableHead>
+                          <TableHead>Problem</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {gstr1.issues.map((issue, index) => (
+                          <TableRow key={index}>
+                            <TableCell className="font-medium">
+                              {issue.invoiceId ? (
+                                <button
+                                  type="button"
+                                  className="underline"
+                                  onClick={() => navigate(`/view-invoice/${issue.invoiceId}`)}
+                                >
+                                  {issue.reference}
+                                </button>
+                              ) : (
+                                issue.reference
+                              )}
+                            </TableCell>
+                            <TableCell>{issue.message}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              )}
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Summary</CardTitle>
+                  <CardDescription>
+                    {fetching
+                      ? "Loading invoices..."
+                      : `Tax invoices, credit notes and debit notes dated ${format(parseISO(`${period}-01`), "MMMM yyyy")}, except drafts and cancelled ones. Exports billed in another currency are in rupees at their exchange rate.`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Section</TableHead>
+                        <TableHead className="text-right">Records</TableHead>
+                        <TableHead className="text-right">Taxable Value</TableHead>
+                        <TableHead className="text-right">IGST</TableHead>
+                        <TableHead className="text-right">CGST</TableHead>
+                        <TableHead className="text-right">SGST</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {sections.map((section) => (
+                        <TableRow key={section.section}>
+                          <TableCell>
+                            <p className="font-medium">{section.section}</p>
+                            <p className="text-xs text-muted-foreground">{section.description}</p>
+                          </TableCell>
+                          <TableCell className="text-right">{section.count}</TableCell>
+                          <TableCell className="text-right">₹{formatAmount(section.taxableValue)}</TableCell>
+                          <TableCell className="text-right">₹{formatAmount(section.igstAmount)}</TableCell>
+                          <TableCell className="text-right">₹{formatAmount(section.cgstAmount)}</TableCell>
+                          <TableCell className="text-right">₹{formatAmount(section.sgstAmount)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Gstr1Report;
@@ -0,0 +1,325 @@
+import { useState, useEffect, useMemo } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, ArrowLeft, Download, FileSpreadsheet, Scale } from "lucide-react";
+import { endOfMonth, format, parseISO, subMonths } from "date-fns";
+import * as XLSX from "xlsx";
+import { formatPlaceOfSupply } from "@/utils/gst";
+import {
+  Gstr3bSource,
+  buildGstr3b,
+  generateGstr3bPDF,
+  getGstr3bFileName,
+  getGstr3bTotal,
+  toGstr3bWorkbook,
+} from "@/utils/gstr3b";
+
+interface Company {
+  id: string;
+  name: string;
+  gst_number: string | null;
+}
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const Gstr3bReport = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [companyId, setCompanyId] = useState("");
+  // Returns are filed after the month ends, so start from the previous one
+  const [period, setPeriod] = useState(format(subMonths(new Date(), 1), "yyyy-MM"));
+  const [invoices, setInvoices] = useState<Gstr3bSource[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fetching, setFetching] = useState(false);
+
+  useEffect(() => {
+    const fetchCompanies = async () => {
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from("companies")
+        .select("id, name, gst_number")
+        .eq("user_id", user.id)
+        .order("name", { ascending: true });
+
+      if (error) {
+        if (import.meta.env.DEV) {
+          console.error("Error fetching companies:", error);
+        }
+        toast({
+          title: "Error",
+          description: "Failed to fetch companies",
+          variant: "destructive"
+        });
+      }
+      setCompanies(data || []);
+      const registered = (data || []).find((company) => company.gst_number);
+      if (registered) setCompanyId(registered.id);
+      setLoading(false);
+    };
+
+    fetchCompanies();
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (!companyId || !period) return;
+    let cancelled = false;
+
+    const fetchInvoices = async () => {
+      setFetching(true);
+      try {
+        const { data, error } = await supabase
+          .from("invoices")
+          .select("*, clients (gst_number)")
+          .eq("company_id", companyId)
+          .gte("invoice_date", `${period}-01`)
+          .lte("invoice_date", format(endOfMonth(parseISO(`${period}-01`)), "yyyy-MM-dd"));
+
+        if (error) throw error;
+        if (!cancelled) setInvoices(data || []);
+      } catch (error) {
+        if (import.meta.env.DEV) {
+          console.error("Error fetching invoices:", error);
+        }
+        toast({
+          title: "Error",
+          description: "Failed to fetch invoices",
+          variant: "destructive"
+        });
+      } finally {
+        if (!cancelled) setFetching(false);
+      }
+    };
+
+    fetchInvoices();
+    return () => {
+      cancelled = true;
+    };
+  }, [companyId, period, toast]);
+
+  const company = companies.find((option) => option.id === companyId);
+  const report = useMemo(
+    () => (company ? buildGstr3b(company.gst_number || "", period, invoices) : null),
+    [company, period, invoices]
+  );
+  const total = report ? getGstr3bTotal(report) : null;
+
+  const downloadWorkbook = () => {
+    if (!report || !company) return;
+    XLSX.writeFile(toGstr3bWorkbook(report, company.name), `${getGstr3bFileName(report)}.xlsx`);
+  };
+
+  const downloadPDF = () => {
+    if (!report || !company) return;
+    generateGstr3bPDF(report, company.name);
+  };
+
+  if (loading) {
+    return <div className="min-h-screen bg-background flex items-center justify-center">Loading...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-card shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Button variant="ghost" size="sm" onClick={() => navigate("/dashboard")} className="mr-4">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+              <Scale className="h-8 w-8 text-primary mr-3" />
+              <h1 className="text-2xl font-bold">GSTR-3B</h1>
+            </div>
+
+            {report && (
+              <div className="flex items-center gap-2">
+                <Button variant="outline" onClick={downloadWorkbook} disabled={fetching}>
+                  <FileSpreadsheet className="h-4 w-4 mr-2" />
+                  Export XLSX
+                </Button>
+                <Button onClick={downloadPDF} disabled={fetching}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export PDF
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Company</Label>
+                <Select value={companyId} onValueChange={setCompanyId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a company" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {companies.map((option) => (
+                      <SelectItem key={option.id} value={option.id} disabled={!option.gst_number}>
+                        {option.name}
+                        {option.gst_number ? ` (${option.gst_number})` : " (no GSTIN)"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Tax Period</Label>
+                <Input type="month" value={period} onChange={(e) => setPeriod(e.target.value)} />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {!report || !total ? (
+          <Card>
+            <CardContent className="text-center py-12 text-muted-foreground">
+              Add a GSTIN to a company to prepare its returns.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {report.skipped.length > 0 && (
+              <Card className="border-amber-200">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-amber-800">
+                    <AlertTriangle className="h-5 w-5" />
+                    {report.skipped.length} document(s) left out
+                  </CardTitle>
+                  <CardDescription>
+                    These documents have a type the return does not know, so their tax is not in the tables below. Change them to Tax Invoice if they are supplies.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Document</TableHead>
+                        <TableHead>Type</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.skipped.map((document) => (
+                        <TableRow key={document.invoiceId}>
+                          <TableCell className="font-medium">
+                            <button
+                              type="button"
+                              className="underline"
+                              onClick={() => navigate(`/view-invoice/${document.invoiceId}`)}
+                            >
+                              {document.reference}
+                            </button>
+                          </TableCell>
+                          <TableCell>{document.invoiceType}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>3.1 Outward supplies and inward supplies liable to reverse charge</CardTitle>
+                <CardDescription>
+                  {fetching
+                    ? "Loading invoices..."
+                    : `${report.documentCount} tax invoice(s) and notes dated ${format(parseISO(`${period}-01`), "MMMM yyyy")}, net of credit notes. Drafts and cancelled documents are left out${report.skipped.length > 0 ? `, and ${report.skipped.length} document(s) of an unknown type` : ""}.`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Nature of Supplies</TableHead>
+                      <TableHead className="text-right">Taxable Value</TableHead>
+                      <TableHead className="text-right">IGST</TableHead>
+                      <TableHead className="text-right">CGST</TableHead>
+                      <TableHead className="text-right">SGST/UTGST</TableHead>
+                      <TableHead className="text-right">Cess</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.outwardSupplies.map((row) => (
+                      <TableRow key={row.label}>
+                        <TableCell>
+                          {row.label} {row.nature}
+                        </TableCell>
+                        <TableCell className="text-right">₹{formatAmount(row.taxableValue)}</TableCell>
+                        <TableCell className="text-right">₹{formatAmount(row.igstAmount)}</TableCell>
+                        <TableCell className="text-right">₹{formatAmount(row.cgstAmount)}</TableCell>
+                        <TableCell className="text-right">₹{formatAmount(row.sgstAmount)}</TableCell>
+                        <TableCell className="text-right">₹{formatAmount(row.cessAmount)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell className="font-semibold">Total</TableCell>
+                      <TableCell className="text-right font-semibold">₹{formatAmount(total.taxableValue)}</TableCell>
+                      <TableCell className="text-right font-semibold">₹{formatAmount(total.igstAmount)}</TableCell>
+                      <TableCell className="text-right font-semibold">₹{formatAmount(total.cgstAmount)}</TableCell>
+                      <TableCell className="text-right font-semibold">₹{formatAmount(total.sgstAmount)}</TableCell>
+                      <TableCell className="text-right font-semibold">₹{formatAmount(0)}</TableCell>
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>3.2 Inter-State supplies made to unregistered persons</CardTitle>
+                <CardDescription>Included in 3.1 (a) above</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {report.unregisteredInterState.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No inter-state supplies to unregistered persons in this period.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Place of Supply</TableHead>
+                        <TableHead className="text-right">Taxable Value</TableHead>
+                        <TableHead className="text-right">IGST</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.unregisteredInterState.map((row) => (
+                        <TableRow key={row.placeOfSupply}>
+                          <TableCell>{formatPlaceOfSupply(row.placeOfSupply) || row.placeOfSupply || "Not set"}</TableCell>
+                          <TableCell className="text-right">₹{formatAmount(row.taxableValue)}</TableCell>
+                          <TableCell className="text-right">₹{formatAmount(row.igstAmount)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Gstr3bReport;
@@ -28,7 +28,7 @@ import {
 } from '@/components/ui/dialog';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { ArrowLeft, Edit, Download, FileText, Image, CalendarIcon, Images, Trash2 } from 'lucide-react';
+import { ArrowLeft, Edit, Download, FileCode, FileText, Image, CalendarIcon, Images, Trash2, AlertTriangle, IndianRupee } from 'lucide-react';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -42,8 +42,19 @@ import {
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
-import html2canvas from 'html2canvas';
 import * as XLSX from 'xlsx';
+import RecordPaymentDialog from '@/components/RecordPaymentDialog';
+import { calculateTds, formatTdsSection } from '@/utils/tds';
+import { MANUAL_STATUSES, STATUS_LABELS, getBalanceDue, getReceivedAmount } from '@/utils/payments';
+import { CREDIT_NOTE, getDocumentSign } from '@/utils/notes';
+import { isBillable } from '@/utils/conversion';
+import { checkCompanyProfile } from '@/utils/companyProfile';
+import { sumMoney } from '@/utils/money';
+import { getDocumentDiscount } from '@/utils/discounts';
+import { loadInvoiceDocument } from '@/utils/invoiceDocument';
+import { renderInvoiceImage } from '@/utils/invoiceImage';
+import { EInvoice, downloadEInvoiceJson, isEInvoiceType, prepareEInvoice } from '@/utils/einvoice';
+import { formatCurrency, isForeignCurrency, toInr } from '@/utils/currency';
 
 const InvoiceLedger = () => {
   const navigate = useNavigate();
@@ -60,6 +71,7 @@ const [statusFilter, setStatusFilter] = useState<string>('all');
   const [filterEndDate, setFilterEndDate] = useState<Date | undefined>();
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [invoiceToDelete, setInvoiceToDelete] = useState<{ id: string; invoice_number: string } | null>(null);
+  const [invoiceToPay, setInvoiceToPay] = useState<NonNullable<typeof invoices>[number] | null>(null);
 
   const { data: invoices, isLoading } = useQuery({
     queryKey: ['invoices', user?.id],
@@ -86,7 +98,13 @@ const [statusFilter, setStatusFilter] = useState<string>('all');
             account_number,
             ifsc_code,
             branch,
-            pan_number
+            pan_number,
+            logo_url,
+            lut_number
+          ),
+          payments (
+            amount,
+            tds_amount
           )
         `)
         .eq('user_id', user?.id)
@@ -143,9 +161,13 @@ const [statusFilter, setStatusFilter] = useState<string>('all');
       setInvoiceToDelete(null);
     },
     onError: (error) => {
+      // 23503: foreign_key_violation, credit or debit notes still point at this invoice
+      const hasNotes = (error as { code?: string }).code === '23503';
       toast({
         title: 'Error',
-        description: 'Failed to delete invoice: ' + error.message,
+        description: hasNotes
+          ? 'Delete the credit and debit notes issued against this invoice first.'
+          : 'Failed to delete invoice: ' + error.message,
         variant: 'destructive',
       });
     },
@@ -162,6 +184,9 @@ const [statusFilter, setStatusFilter] = useState<string>('all');
     }
   };
 
+  // Notes and converted documents point at other rows of this same list
+  const invoicesById = new Map((invoices || []).map((invoice) => [invoice.id, invoice]));
+
   const uniqueClients = Array.from(
     new Set(
       invoices?.map((inv) => inv.clients?.company_name || inv.clients?.name || 'Unknown')
@@ -182,193 +207,66 @@ const [statusFilter, setStatusFilter] = useState<string>('all');
     return statusMatch && clientMatch && dateMatch;
   });
 
-  // Total Amount = sum of Original Amount (subtotal, pre-GST revenue), excluding cancelled
-  const totalAmount = filteredInvoices
-    ?.filter((inv) => inv.status !== 'cancelled')
-    .reduce((sum, invoice) => sum + Number(invoice.subtotal || 0), 0);
-
-  const receivedAmount = filteredInvoices
-    ?.filter((inv) => inv.status === 'paid')
-    .reduce((sum, invoice) => sum + Number(invoice.total_amount), 0);
-
-  const pendingAmount = filteredInvoices
-    ?.filter((inv) => inv.status !== 'paid' && inv.status !== 'cancelled')
-    .reduce((sum, invoice) => {
-      const subtotal = Number(invoice.subtotal) || 0;
-      const gstAmount =
-        Number(invoice.igst_amount || 0) +
-        Number(invoice.cgst_amount || 0) +
-        Number(invoice.sgst_amount || 0);
-      const tds = subtotal * 0.10;
-      const finalAmount = (subtotal - tds) + gstAmount;
-      return sum + finalAmount;
-    }, 0);
-
-  const totalGst = filteredInvoices?.reduce(
-    (sum, invoice) => sum + Number(invoice.igst_amount || 0) + Number(invoice.cgst_amount || 0) + Number(invoice.sgst_amount || 0),
-    0
+  // Total Amount = sum of Original Amount (subtotal, pre-GST revenue), excluding cancelled and
+  // converted documents. Credit notes are netted off every total below, and export invoices
+  // billed in another currency count at their rupee value
+  const totalAmount = filteredInvoices && sumMoney(
+    filteredInvoices.filter(isBillable).map((invoice) => getDocumentSign(invoice.invoice_type) * toInr(invoice.subtotal, invoice))
   );
 
-  const totalTds = filteredInvoices
-    ?.filter((inv) => inv.status !== 'cancelled')
-    .reduce((sum, invoice) => sum + Number(invoice.subtotal || 0) * 0.10, 0);
+  // Received and pending come from recorded payments rather than the status
+  const receivedAmount = filteredInvoices && sumMoney(
+    filteredInvoices
+      .filter(isBillable)
+      .map((invoice) => getDocumentSign(invoice.invoice_type) * toInr(getReceivedAmount(invoice.payments), invoice))
+  );
 
-  // HTML escape function to prevent XSS attacks
-  const escapeHtml = (text: string | null | undefined): string => {
-    if (text === null || text === undefined) return '';
-    const div = document.createElement('div');
-    div.textContent = String(text);
-    return div.innerHTML;
-  };
+  const pendingAmount = filteredInvoices && sumMoney(
+    filteredInvoices.filter(isBillable).map((invoice) => getDocumentSign(invoice.invoice_type) * toInr(getBalanceDue(invoice), invoice))
+  );
+
+  // Zero rated exports carry no GST, so they add nothing here
+  const totalGst = filteredInvoices && sumMoney(
+    filteredInvoices
+      .filter(isBillable)
+      .map(
+        (invoice) =>
+          getDocumentSign(invoice.invoice_type) *
+          toInr(sumMoney([invoice.igst_amount, invoice.cgst_amount, invoice.sgst_amount]), invoice)
+      )
+  );
+
+  const totalTds = filteredInvoices && sumMoney(
+    filteredInvoices.filter(isBillable).map((invoice) => getDocumentSign(invoice.invoice_type) * toInr(calculateTds(invoice), invoice))
+  );
 
+  // Same layout as the invoice page; notes take their original invoice from the loaded list
   const generateInvoiceJPEG = async (invoice: any): Promise<string | null> => {
-    // Create a temporary container for the invoice
-    const container = document.createElement('div');
-    container.style.position = 'absolute';
-    container.style.left = '-9999px';
-    container.style.top = '0';
-    container.style.width = '800px';
-    container.style.backgroundColor = '#ffffff';
-    container.style.padding = '32px';
-    container.style.fontFamily = 'system-ui, -apple-system, sans-serif';
-    
-    const items = Array.isArray(invoice.items) ? invoice.items : [];
-    
-    container.innerHTML = `
-      <div style="text-align: center; margin-bottom: 16px;">
-        <div style="font-size: 20px; font-weight: 600; color: #3b82f6; margin-bottom: 4px;">
-          ${escapeHtml(invoice.companies?.name) || 'Company'}
-        </div>
-        <div style="font-size: 28px; font-weight: bold;">INVOICE</div>
-        <div style="color: #6b7280;">Invoice No- ${escapeHtml(invoice.invoice_number)}</div>
-      </div>
-      
-      <div style="display: flex; gap: 24px; margin-bottom: 24px;">
-        <div style="flex: 1;">
-          <h3 style="font-weight: 600; margin-bottom: 8px;">From:</h3>
-          <p style="font-weight: 500;">${escapeHtml(invoice.companies?.name)}</p>
-          ${invoice.companies?.address ? `<p>${escapeHtml(invoice.companies.address)}</p>` : ''}
-          ${invoice.companies?.phone ? `<p>Phone: ${escapeHtml(invoice.companies.phone)}</p>` : ''}
-          ${invoice.companies?.email ? `<p>Email: ${escapeHtml(invoice.companies.email)}</p>` : ''}
-          ${invoice.companies?.gst_number ? `<p>GST: ${escapeHtml(invoice.companies.gst_number)}</p>` : ''}
-        </div>
-        <div style="flex: 1;">
-          <h3 style="font-weight: 600; margin-bottom: 8px;">To:</h3>
-          <p style="font-weight: 500;">${escapeHtml(invoice.clients?.name)}</p>
-          ${invoice.clients?.company_name ? `<p>${escapeHtml(invoice.clients.company_name)}</p>` : ''}
-          ${invoice.clients?.address ? `<p>${escapeHtml(invoice.clients.address)}</p>` : ''}
-          ${invoice.clients?.phone ? `<p>Phone: ${escapeHtml(invoice.clients.phone)}</p>` : ''}
-          ${invoice.clients?.email ? `<p>Email: ${escapeHtml(invoice.clients.email)}</p>` : ''}
-          ${invoice.clients?.gst_number ? `<p>GST: ${escapeHtml(invoice.clients.gst_number)}</p>` : ''}
-        </div>
-      </div>
-      
-      <div style="margin-bottom: 24px;">
-        <p><strong>Invoice Date:</strong> ${format(new Date(invoice.invoice_date), 'dd MMM yyyy')}</p>
-        ${invoice.due_date ? `<p><strong>Due Date:</strong> ${format(new Date(invoice.due_date), 'dd MMM yyyy')}</p>` : ''}
-      </div>
-      
-      <table style="width: 100%; border-collapse: collapse; margin-bottom: 24px;">
-        <thead>
-          <tr style="background-color: #f3f4f6;">
-            <th style="text-align: left; padding: 12px; border: 1px solid #e5e7eb;">Description</th>
-            <th style="text-align: left; padding: 12px; border: 1px solid #e5e7eb;">HSN/SAC</th>
-            <th style="text-align: right; padding: 12px; border: 1px solid #e5e7eb;">Qty</th>
-            <th style="text-align: right; padding: 12px; border: 1px solid #e5e7eb;">Rate</th>
-            <th style="text-align: right; padding: 12px; border: 1px solid #e5e7eb;">Amount</th>
-          </tr>
-        </thead>
-        <tbody>
-          ${items.map((item: any) => `
-            <tr>
-              <td style="padding: 12px; border: 1px solid #e5e7eb;">${escapeHtml(item.description)}</td>
-              <td style="padding: 12px; border: 1px solid #e5e7eb;">${escapeHtml(item.hsnSacCode) || '-'}</td>
-              <td style="text-align: right; padding: 12px; border: 1px solid #e5e7eb;">${escapeHtml(String(item.quantity))}</td>
-              <td style="text-align: right; padding: 12px; border: 1px solid #e5e7eb;">₹${parseFloat(item.rate).toLocaleString('en-IN')}</td>
-              <td style="text-align: right; padding: 12px; border: 1px solid #e5e7eb;">₹${parseFloat(item.amount).toLocaleString('en-IN')}</td>
-            </tr>
-          `).join('')}
-        </tbody>
-      </table>
-      
-      <div style="display: flex; justify-content: flex-end; margin-bottom: 24px;">
-        <div style="width: 250px;">
-          <div style="display: flex; justify-content: space-between; padding: 4px 0;">
-            <span>Subtotal:</span>
-            <span>₹${parseFloat(invoice.subtotal).toLocaleString('en-IN')}</span>
-          </div>
-          ${invoice.igst_amount > 0 ? `
-            <div style="display: flex; justify-content: space-between; padding: 4px 0;">
-              <span>IGST @ ${invoice.igst_rate}%:</span>
-              <span>₹${parseFloat(invoice.igst_amount).toLocaleString('en-IN')}</span>
-            </div>
-          ` : ''}
-          ${invoice.sgst_amount > 0 ? `
-            <div style="display: flex; justify-content: space-between; padding: 4px 0;">
-              <span>SGST @ ${invoice.sgst_rate}%:</span>
-              <span>₹${parseFloat(invoice.sgst_amount).toLocaleString('en-IN')}</span>
-            </div>
-          ` : ''}
-          ${invoice.cgst_amount > 0 ? `
-            <div style="display: flex; justify-content: space-between; padding: 4px 0;">
-              <span>CGST @ ${invoice.cgst_rate}%:</span>
-              <span>₹${parseFloat(invoice.cgst_amount).toLocaleString('en-IN')}</span>
-            </div>
-          ` : ''}
-          <div style="display: flex; justify-content: space-between; padding: 8px 0; border-top: 2px solid #000; font-weight: bold; font-size: 18px;">
-            <span>Total:</span>
-            <span>₹${parseFloat(invoice.total_amount).toLocaleString('en-IN')}</span>
-          </div>
-        </div>
-      </div>
-      
-      <div style="background-color: #f3f4f6; padding: 16px; border-radius: 8px; margin-bottom: 24px;">
-        <h3 style="font-weight: 600; margin-bottom: 12px;">Banking Details:</h3>
-        <div style="display: grid; grid-template-columns: 1fr 1fr; gap: 12px;">
-          <div>
-            <p style="color: #6b7280; font-size: 14px;">Bank Name</p>
-            <p style="font-weight: 500;">${escapeHtml(invoice.companies?.bank_name) || '-'}</p>
-          </div>
-          <div>
-            <p style="color: #6b7280; font-size: 14px;">Account Number</p>
-            <p style="font-weight: 500;">${escapeHtml(invoice.companies?.account_number) || '-'}</p>
-          </div>
-          <div>
-            <p style="color: #6b7280; font-size: 14px;">IFSC Code</p>
-            <p style="font-weight: 500;">${escapeHtml(invoice.companies?.ifsc_code) || '-'}</p>
-          </div>
-          <div>
-            <p style="color: #6b7280; font-size: 14px;">Branch</p>
-            <p style="font-weight: 500;">${escapeHtml(invoice.companies?.branch) || '-'}</p>
-          </div>
-        </div>
-      </div>
-      
-      <div style="text-align: center; color: #6b7280; font-size: 12px; font-style: italic;">
-        This invoice is electronically generated and does not require a physical signature.
-      </div>
-    `;
-    
-    document.body.appendChild(container);
-    
     try {
-      const canvas = await html2canvas(container, {
-        scale: 2,
-        backgroundColor: '#ffffff',
-        logging: false,
+      const originalInvoice = invoice.original_invoice_id ? invoicesById.get(invoice.original_invoice_id) : undefined;
+      const invoiceDocument = await loadInvoiceDocument({
+        ...invoice,
+        items: Array.isArray(invoice.items) ? invoice.items : [],
+        original_invoice: originalInvoice ?? null,
       });
-      
-      const dataUrl = canvas.toDataURL('image/jpeg', 0.95);
-      document.body.removeChild(container);
-      return dataUrl;
+      return await renderInvoiceImage(invoiceDocument);
     } catch (error) {
-      document.body.removeChild(container);
       console.error('Error generating JPEG:', error);
       return null;
     }
   };
 
   const downloadInvoiceJPEG = async (invoice: any) => {
+    const profile = checkCompanyProfile(invoice.companies);
+    if (profile.error) {
+      toast({
+        title: 'Company profile incomplete',
+        description: profile.error,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     toast({
       title: 'Generating JPEG...',
       description: 'Please wait while we generate your invoice.',
@@ -405,23 +303,36 @@ const [statusFilter, setStatusFilter] = useState<string>('all');
     }
 
     const invoicesRows = [
-      ['Date', 'Invoice No', 'Client', 'Original Amount', 'Amount', 'GST Amount', 'TDS (10%)', 'Final Amount', 'Status'],
+      ['Date', 'Invoice No', 'Type', 'Against Invoice', 'Client', 'Discount', 'Original Amount', 'Amount', 'GST Amount', 'TDS Section', 'TDS Rate (%)', 'TDS', 'Final Amount', 'Status', 'Export under LUT', 'Currency', 'Exchange Rate', 'Amount in Currency'],
       ...filteredInvoices.map((invoice) => {
-        const subtotal = Number(invoice.subtotal);
-        const gstAmount = Number(invoice.igst_amount || 0) + Number(invoice.cgst_amount || 0) + Number(invoice.sgst_amount || 0);
-        const tds = subtotal * 0.10;
-        const finalAmount = (subtotal - tds) + gstAmount;
+        // Amounts in rupees; foreign currency invoices also give the amount as billed
+        const sign = getDocumentSign(invoice.invoice_type);
+        const subtotal = sign * toInr(invoice.subtotal, invoice);
+        const discount = sign * toInr(getDocumentDiscount(invoice), invoice);
+        const gstAmount = sign * toInr(sumMoney([invoice.igst_amount, invoice.cgst_amount, invoice.sgst_amount]), invoice);
+        const tds = sign * toInr(calculateTds(invoice), invoice);
+        const roundOff = sign * toInr(invoice.round_off, invoice);
+        const finalAmount = sumMoney([subtotal, gstAmount, roundOff, -tds]);
 
         return [
           format(new Date(invoice.invoice_date), 'dd MMM yyyy'),
           invoice.invoice_number,
+          invoice.invoice_type,
+          (invoice.original_invoice_id && invoicesById.get(invoice.original_invoice_id)?.invoice_number) || '',
           invoice.clients?.company_name || invoice.clients?.name,
+          discount.toFixed(2),
           subtotal.toFixed(2),
-          Number(invoice.total_amount).toFixed(2),
+          (sign * toInr(invoice.total_amount, invoice)).toFixed(2),
           gstAmount.toFixed(2),
+          invoice.tds_section || '',
+          Number(invoice.tds_rate || 0).toFixed(2),
           tds.toFixed(2),
           finalAmount.toFixed(2),
           invoice.status,
+          invoice.is_export ? 'Yes' : '',
+          invoice.currency,
+          Number(invoice.exchange_rate).toFixed(4),
+          (sign * Number(invoice.total_amount)).toFixed(2),
         ];
       }),
     ];
@@ -452,6 +363,42 @@ const [statusFilter, setStatusFilter] = useState<string>('all');
   };
 
 
+  // One upload file for the filtered documents still to be registered; documents that fail
+  // the schema checks are left out, to be fixed from their own page
+  const exportEInvoiceJson = () => {
+    const pending = (filteredInvoices || []).filter(
+      (invoice) => isEInvoiceType(invoice.invoice_type) && invoice.status !== 'cancelled' && !invoice.irn
+    );
+    if (pending.length === 0) {
+      toast({
+        title: 'No data to export',
+        description: 'There are no unregistered tax invoices or notes in the current filter.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const payloads: EInvoice[] = [];
+    const invalid: string[] = [];
+    pending.forEach((invoice) => {
+      const originalInvoice = invoice.original_invoice_id ? invoicesById.get(invoice.original_invoice_id) : undefined;
+      const { payload, errors } = prepareEInvoice({ ...invoice, original_invoice: originalInvoice ?? null });
+      if (errors.length > 0) invalid.push(invoice.invoice_number);
+      else payloads.push(payload);
+    });
+
+    if (payloads.length > 0) {
+      downloadEInvoiceJson(payloads, `einvoices_${format(new Date(), 'yyyy-MM-dd')}`);
+    }
+    toast({
+      title: payloads.length > 0 ? 'Export successful' : 'Nothing exported',
+      description: invalid.length > 0
+        ? `${payloads.length} document(s) exported. ${invalid.length} skipped with errors: ${invalid.join(', ')}. Open them for details.`
+        : `${payloads.length} document(s) exported for the e-invoice portal.`,
+      variant: payloads.length > 0 ? 'default' : 'destructive',
+    });
+  };
+
   const downloadBulkJPEGs = async () => {
     if (!startDate || !endDate) {
       toast({
@@ -466,6 +413,8 @@ const [statusFilter, setStatusFilter] = useState<string>('all');
       const invoiceDate = new Date(invoice.invoice_date);
       return invoiceDate >= startDate && invoiceDate <= endDate;
     });
+    // Invoices of companies without a name or address are skipped rather than issued blank
+    const skippedCount = invoicesInRange?.filter((invoice) => checkCompanyProfile(invoice.companies).error).length || 0;
 
     if (!invoicesInRange || invoicesInRange.length === 0) {
       toast({
@@ -483,6 +432,7 @@ const [statusFilter, setStatusFilter] = useState<string>('all');
     });
 
     for (const invoice of invoicesInRange) {
+      if (checkCompanyProfile(invoice.companies).error) continue;
       const dataUrl = await generateInvoiceJPEG(invoice);
       if (dataUrl) {
         const link = document.createElement('a');
@@ -498,7 +448,9 @@ const [statusFilter, setStatusFilter] = useState<string>('all');
     setBulkDownloadOpen(false);
     toast({
       title: 'Download complete',
-      description: `${invoicesInRange.length} invoice(s) downloaded successfully.`,
+      description: skippedCount > 0
+        ? `${invoicesInRange.length - skippedCount} invoice(s) downloaded. ${skippedCount} skipped because the company profile is incomplete.`
+        : `${invoicesInRange.length} invoice(s) downloaded successfully.`,
     });
   };
 
@@ -591,6 +543,10 @@ const [statusFilter, setStatusFilter] = useState<string>('all');
                 </div>
               </DialogContent>
             </Dialog>
+            <Button variant="outline" onClick={exportEInvoiceJson} className="gap-2">
+              <FileCode className="w-4 h-4" />
+              E-Invoice JSON
+            </Button>
             <Button onClick={exportTableToCSV} className="gap-2">
               <Download className="w-4 h-4" />
               Export as CSV
@@ -633,8 +589,10 @@ const [statusFilter, setStatusFilter] = useState<string>('all');
               <SelectItem value="all">All Invoices</SelectItem>
               <SelectItem value="draft">Draft</SelectItem>
               <SelectItem value="sent">Sent</SelectItem>
+              <SelectItem value="partially_paid">Partially Paid</SelectItem>
               <SelectItem value="paid">Paid</SelectItem>
               <SelectItem value="cancelled">Cancelled</SelectItem>
+              <SelectItem value="converted">Converted</SelectItem>
             </SelectContent>
           </Select>
           
@@ -726,8 +684,9 @@ const [statusFilter, setStatusFilter] = useState<string>('all');
                 <TableHead>Original Amount</TableHead>
                 <TableHead>Amount</TableHead>
                 <TableHead>GST Amount</TableHead>
-                <TableHead>TDS (10%)</TableHead>
+                <TableHead>TDS</TableHead>
                 <TableHead>Final Amount</TableHead>
+                <TableHead>Balance Due</TableHead>
                 <TableHead>Status</TableHead>
                 <TableHead>Actions</TableHead>
               </TableRow>
@@ -735,22 +694,25 @@ const [statusFilter, setStatusFilter] = useState<string>('all');
             <TableBody>
               {isLoading ? (
                 <TableRow>
-                   <TableCell colSpan={10} className="text-center py-8">
+                   <TableCell colSpan={11} className="text-center py-8">
                     Loading...
                   </TableCell>
                 </TableRow>
               ) : filteredInvoices?.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={10} className="text-center py-8 text-muted-foreground">
+                  <TableCell colSpan={11} className="text-center py-8 text-muted-foreground">
                     No invoices found
                   </TableCell>
                 </TableRow>
               ) : (
                 filteredInvoices?.map((invoice) => {
-                  const subtotal = Number(invoice.subtotal);
-                  const gstAmount = Number(invoice.igst_amount || 0) + Number(invoice.cgst_amount || 0) + Number(invoice.sgst_amount || 0);
-                  const tds = subtotal * 0.10;
-                  const finalAmount = (subtotal - tds) + gstAmount;
+                  // Credit notes show as negative amounts, foreign currency invoices in rupees
+                  const sign = getDocumentSign(invoice.invoice_type);
+                  const subtotal = sign * toInr(invoice.subtotal, invoice);
+                  const gstAmount = sign * toInr(sumMoney([invoice.igst_amount, invoice.cgst_amount, invoice.sgst_amount]), invoice);
+                  const tds = sign * toInr(calculateTds(invoice), invoice);
+                  const roundOff = sign * toInr(invoice.round_off, invoice);
+                  const finalAmount = sumMoney([subtotal, gstAmount, roundOff, -tds]);
                   
                   return (
                   <TableRow key={invoice.id}>
@@ -758,38 +720,89 @@ const [statusFilter, setStatusFilter] = useState<string>('all');
                       {format(new Date(invoice.invoice_date), 'dd MMM yyyy')}
                     </TableCell>
                     <TableCell className="font-medium">
-                      {invoice.invoice_number}
+                      <div className="flex items-center gap-1">
+                        {invoice.invoice_number}
+                        {invoice.tax_override && (
+                          <span title="Tax split entered manually">
+                            <AlertTriangle className="w-3 h-3 text-orange-600" />
+                          </span>
+                        )}
+                      </div>
+                      {invoice.converted_to_id && (
+                        <div className="text-xs text-muted-foreground">
+                          Converted to {invoicesById.get(invoice.converted_to_id)?.invoice_number}
+                        </div>
+                      )}
+                      {invoice.original_invoice_id && (
+                        <div className="text-xs text-muted-foreground">
+                          {invoice.invoice_type} against {invoicesById.get(invoice.original_invoice_id)?.invoice_number}
+                        </div>
+                      )}
+                      {invoice.is_export && (
+                        <div className="text-xs text-muted-foreground">Export under LUT, zero rated</div>
+                      )}
                     </TableCell>
                     <TableCell>
                       {invoice.clients?.company_name || invoice.clients?.name}
                     </TableCell>
                     <TableCell>₹{subtotal.toFixed(2)}</TableCell>
-                    <TableCell>₹{Number(invoice.total_amount).toFixed(2)}</TableCell>
+                    <TableCell>
+                      ₹{(sign * toInr(invoice.total_amount, invoice)).toFixed(2)}
+                      {isForeignCurrency(invoice.currency) && (
+                        <div className="text-xs text-muted-foreground">
+                          {formatCurrency(sign * Number(invoice.total_amount), invoice.currency)} @ {Number(invoice.exchange_rate)}
+                        </div>
+                      )}
+                    </TableCell>
                     <TableCell>
                       ₹{gstAmount.toFixed(2)}
                     </TableCell>
-                    <TableCell>₹{tds.toFixed(2)}</TableCell>
+                    <TableCell>
+                      ₹{tds.toFixed(2)}
+                      <div className="text-xs text-muted-foreground">{formatTdsSection(invoice)}</div>
+                    </TableCell>
                     <TableCell>₹{finalAmount.toFixed(2)}</TableCell>
+                    <TableCell>
+                      {invoice.invoice_type === CREDIT_NOTE || invoice.status === 'converted'
+                        ? '-'
+                        : `₹${toInr(getBalanceDue(invoice), invoice).toFixed(2)}`}
+                    </TableCell>
                     <TableCell>
                       <Select
                         value={invoice.status || 'draft'}
                         onValueChange={(value) =>
                           updateStatusMutation.mutate({ id: invoice.id, status: value })
                         }
+                        disabled={invoice.status === 'converted'}
                       >
-                        <SelectTrigger className="w-32">
+                        <SelectTrigger className="w-36">
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="draft">Draft</SelectItem>
-                          <SelectItem value="sent">Sent</SelectItem>
-                          <SelectItem value="paid">Paid</SelectItem>
-                          <SelectItem value="cancelled">Cancelled</SelectItem>
+                          {MANUAL_STATUSES.map((status) => (
+                            <SelectItem key={status} value={status}>
+                              {STATUS_LABELS[status]}
+                            </SelectItem>
+                          ))}
+                          {/* Set from recorded payments, shown but not selectable */}
+                          <SelectItem value="partially_paid" disabled>Partially Paid</SelectItem>
+                          <SelectItem value="paid" disabled>Paid</SelectItem>
+                          <SelectItem value="converted" disabled>Converted</SelectItem>
                         </SelectContent>
                       </Select>
                     </TableCell>
                     <TableCell>
                       <div className="flex gap-2">
+                        {invoice.invoice_type !== CREDIT_NOTE && isBillable(invoice) && getBalanceDue(invoice) > 0 && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setInvoiceToPay(invoice)}
+                            title="Record Payment"
+                          >
+                            <IndianRupee className="w-4 h-4" />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
@@ -834,6 +847,12 @@ const [statusFilter, setStatusFilter] = useState<string>('all');
         </div>
       </div>
 
+      <RecordPaymentDialog
+        invoice={invoiceToPay}
+        onOpenChange={(open) => !open && setInvoiceToPay(null)}
+        onRecorded={() => queryClient.invalidateQueries({ queryKey: ['invoices'] })}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
@@ -0,0 +1,193 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Copy, Edit, Palette, Plus, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "sonner";
+import { InvoiceTemplateRow, TEMPLATE_SECTIONS, isBuiltInTemplate, parseTemplateData } from "@/utils/invoiceTemplates";
+
+const describeSections = (template: InvoiceTemplateRow) =>
+  parseTemplateData(template.template_data)
+    .sections.map((section) => TEMPLATE_SECTIONS.find((option) => option.value === section)?.label)
+    .join(" · ");
+
+const InvoiceTemplates = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<InvoiceTemplateRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchTemplates = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      // Row level security returns the built-in templates along with the user's own
+      const { data, error } = await supabase
+        .from("invoice_templates")
+        .select("*")
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      setTemplates(data || []);
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error("Error loading templates:", error);
+      }
+      toast.error("Failed to load templates");
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  // Built-in templates are read-only, so customising one starts from a copy
+  const handleDuplicate = async (template: InvoiceTemplateRow) => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from("invoice_templates")
+      .insert({
+        user_id: user.id,
+        name: `${template.name} (copy)`,
+        description: template.description,
+        template_data: template.template_data,
+        is_default: false,
+      })
+      .select("id")
+      .single();
+
+    if (error) {
+      toast.error("Failed to copy template");
+      return;
+    }
+    navigate(`/templates/${data.id}/edit`);
+  };
+
+  // Companies and invoices using it fall back to their defaults
+  const handleDelete = async (template: InvoiceTemplateRow) => {
+    if (!confirm(`Delete template "${template.name}"? Companies and invoices using it go back to the default.`)) {
+      return;
+    }
+
+    const { error } = await supabase.from("invoice_templates").delete().eq("id", template.id);
+
+    if (error) {
+      toast.error("Failed to delete template");
+      return;
+    }
+    toast.success("Template deleted");
+    fetchTemplates();
+  };
+
+  const builtInTemplates = templates.filter(isBuiltInTemplate);
+  const ownTemplates = templates.filter((template) => !isBuiltInTemplate(template));
+
+  const renderTemplate = (template: InvoiceTemplateRow) => (
+    <div key={template.id} className="flex items-center justify-between border rounded-lg p-4">
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          <span className="font-medium">{template.name}</span>
+          {isBuiltInTemplate(template) && template.is_default && <Badge variant="secondary">Default</Badge>}
+        </div>
+        {template.description && <p className="text-sm text-muted-foreground">{template.description}</p>}
+        <p className="text-xs text-muted-foreground">{describeSections(template)}</p>
+      </div>
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => handleDuplicate(template)} title="Duplicate">
+          <Copy className="h-4 w-4" />
+        </Button>
+        {!isBuiltInTemplate(template) && (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate(`/templates/${template.id}/edit`)}
+              title="Edit"
+            >
+              <Edit className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleDelete(template)}
+              title="Delete"
+              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-card shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate("/dashboard")}
+                className="mr-4"
+              >
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+              <Palette className="h-8 w-8 text-primary mr-3" />
+              <h1 className="text-2xl font-bold">Invoice Templates</h1>
+            </div>
+            <Button onClick={() => navigate("/templates/new")}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Template
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Your Templates</CardTitle>
+            <CardDescription>Pick a template per company under Manage Companies, or per invoice</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {loading ? (
+              <div className="text-center py-8 text-muted-foreground">Loading...</div>
+            ) : ownTemplates.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">
+                No templates yet. Start a new one or duplicate a built-in template.
+              </p>
+            ) : (
+              ownTemplates.map(renderTemplate)
+            )}
+          </CardContent>
+        </Card>
+
+        {builtInTemplates.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Built-in Templates</CardTitle>
+              <CardDescription>
+                Read-only; duplicate one to customise it. The default applies when neither the invoice nor its
+                company picks a template
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">{builtInTemplates.map(renderTemplate)}</CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InvoiceTemplates;
@@ -6,6 +6,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useForm } from "react-hook-form";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
@@ -19,8 +20,25 @@ import {
   MapPin,
   FileText,
   Edit,
-  Trash2
+  Trash2,
+  AlertTriangle
 } from "lucide-react";
+import {
+  NO_TDS,
+  TDS_SECTIONS,
+  formatTdsSection,
+  fromTdsSectionValue,
+  getTdsRates,
+  toTdsSectionValue,
+} from "@/utils/tds";
+import {
+  getTaxIdProblems,
+  normalizeTaxIds,
+  validateCin,
+  validateGstin,
+  validatePan,
+  validatePanAgainstGstin,
+} from "@/utils/taxIds";
 
 interface Client {
   id: string;
@@ -32,6 +50,8 @@ interface Client {
   gst_number?: string;
   pan_number?: string;
   cin_number?: string;
+  tds_section?: string | null;
+  tds_rate?: number;
 }
 
 interface ClientFormData {
@@ -43,6 +63,8 @@ interface ClientFormData {
   gst_number: string;
   pan_number: string;
   cin_number: string;
+  tds_section: string;
+  tds_rate: number;
 }
 
 const ManageClients = () => {
@@ -63,10 +85,20 @@ const ManageClients = () => {
       address: "",
       gst_number: "",
       pan_number: "",
-      cin_number: ""
+      cin_number: "",
+      tds_section: "194J",
+      tds_rate: 10
     }
   });
 
+  const tdsSection = form.watch("tds_section");
+
+  // Switching section resets the rate to that section's usual rate
+  const handleTdsSectionChange = (value: string) => {
+    form.setValue("tds_section", value);
+    form.setValue("tds_rate", getTdsRates(value)[0]);
+  };
+
   useEffect(() => {
     fetchClients();
   }, []);
@@ -94,9 +126,15 @@ const ManageClients = () => {
     }
   };
 
-  const onSubmit = async (data: ClientFormData) => {
+  const onSubmit = async (formData: ClientFormData) => {
     if (!user) return;
 
+    const data = {
+      ...normalizeTaxIds(formData),
+      tds_section: fromTdsSectionValue(formData.tds_section),
+      tds_rate: formData.tds_section === NO_TDS ? 0 : formData.tds_rate,
+    };
+
     try {
       if (editingClient) {
         const { error } = await supabase
@@ -155,7 +193,9 @@ const ManageClients = () => {
       address: client.address || "",
       gst_number: client.gst_number || "",
       pan_number: client.pan_number || "",
-      cin_number: client.cin_number || ""
+      cin_number: client.cin_number || "",
+      tds_section: toTdsSectionValue(client.tds_section),
+      tds_rate: Number(client.tds_rate || 0)
     });
     setShowForm(true);
   };
@@ -194,6 +234,11 @@ const ManageClients = () => {
     form.reset();
   };
 
+  // Records saved before identifiers were checked, to be corrected one by one
+  const clientsToFix = clients
+    .map((client) => ({ client, problems: getTaxIdProblems(client) }))
+    .filter(({ problems }) => problems.length > 0);
+
   if (loading) {
     return <div className="min-h-screen bg-background flex items-center justify-center">Loading...</div>;
   }
@@ -294,6 +339,7 @@ const ManageClients = () => {
                     <FormField
                       control={form.control}
                       name="gst_number"
+                      rules={{ validate: (value) => validateGstin(value) ?? true }}
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>GST Number</FormLabel>
@@ -305,14 +351,18 @@ const ManageClients = () => {
                       )}
                     />
 
-                     <FormField
+                    <FormField
                       control={form.control}
                       name="pan_number"
+                      rules={{
+                        validate: (value, values) =>
+                          validatePan(value) ?? validatePanAgainstGstin(value, values.gst_number) ?? true,
+                      }}
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>PAN Number</FormLabel>
                           <FormControl>
-                            <Input placeholder="Enter PAN number" {...field} />
+                            <Input placeholder="Taken from the GST number if left blank" {...field} />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
@@ -322,6 +372,7 @@ const ManageClients = () => {
                     <FormField
                       control={form.control}
                       name="cin_number"
+                      rules={{ validate: (value) => validateCin(value) ?? true }}
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>CIN Number</FormLabel>
@@ -332,6 +383,62 @@ const ManageClients = () => {
                         </FormItem>
                       )}
                     />
+
+                    <FormField
+                      control={form.control}
+                      name="tds_section"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>TDS Section</FormLabel>
+                          <Select onValueChange={handleTdsSectionChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value={NO_TDS}>No TDS</SelectItem>
+                              {TDS_SECTIONS.map((section) => (
+                                <SelectItem key={section.code} value={section.code}>
+                                  {section.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    {tdsSection !== NO_TDS && (
+                      <FormField
+                        control={form.control}
+                        name="tds_rate"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>TDS Rate (%)</FormLabel>
+                            <Select
+                              onValueChange={(value) => field.onChange(parseFloat(value))}
+                              value={String(field.value)}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {getTdsRates(tdsSection).map((rate) => (
+                                  <SelectItem key={rate} value={String(rate)}>
+                                    {rate}%
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
                   </div>
 
                   <FormField
@@ -362,6 +469,34 @@ const ManageClients = () => {
           </Card>
         )}
 
+        {clientsToFix.length > 0 && !showForm && (
+          <Card className="mb-8 border-amber-200">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-amber-800">
+                <AlertTriangle className="h-5 w-5" />
+                {clientsToFix.length} client(s) with invalid tax identifiers
+              </CardTitle>
+              <CardDescription>Invoices to these clients may be rejected on the GST portal.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {clientsToFix.map(({ client, problems }) => (
+                <div key={client.id} className="flex items-start justify-between gap-4 text-sm">
+                  <div>
+                    <p className="font-medium">{client.company_name || client.name}</p>
+                    {problems.map((problem) => (
+                      <p key={problem} className="text-muted-foreground">{problem}</p>
+                    ))}
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => handleEdit(client)}>
+                    <Edit className="h-4 w-4 mr-2" />
+                    Fix
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Clients List */}
         {clients.length === 0 ? (
           <Card>
@@ -427,6 +562,10 @@ const ManageClients = () => {
                               CIN: {client.cin_number}
                             </div>
                           )}
+                          <div className="flex items-center text-muted-foreground">
+                            <FileText className="h-4 w-4 mr-2" />
+                            TDS: {formatTdsSection(client)}
+                          </div>
                           {client.address && (
                             <div className="flex items-center text-muted-foreground col-span-full">
                               <MapPin className="h-4 w-4 mr-2" />
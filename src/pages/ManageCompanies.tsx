@@ -6,12 +6,56 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { ArrowLeft, Building2, Save, Upload, Plus, Edit, Trash2 } from "lucide-react";
+import { ArrowLeft, Building2, Save, Upload, Plus, Edit, Trash2, Hash, PenLine, AlertTriangle } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import NumberingSeriesDialog from "@/components/NumberingSeriesDialog";
+import SignatoriesDialog from "@/components/SignatoriesDialog";
+import { getSignedLogoUrl } from "@/utils/storageImages";
+import { CompanyProfile, getCompanyProfileGaps } from "@/utils/companyProfile";
+import { getTaxIdProblems, normalizeTaxIds, validateGstin, validatePan, validatePanAgainstGstin } from "@/utils/taxIds";
+import { BUILT_IN_TEMPLATE, fromTemplateValue, toTemplateValue } from "@/utils/invoiceTemplates";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 
+// Fields the invoices of this company will be missing; required ones block downloads
+const CompanyProfileGaps = ({ company }: { company: CompanyProfile }) => {
+  const { required, recommended } = getCompanyProfileGaps(company);
+  if (required.length === 0 && recommended.length === 0) return null;
+
+  return (
+    <div className="flex items-start gap-2 pt-2 text-sm">
+      <AlertTriangle className="h-4 w-4 mt-0.5 text-amber-600 shrink-0" />
+      <div>
+        {required.length > 0 && (
+          <p className="text-destructive">Required before issuing documents: {required.join(", ")}</p>
+        )}
+        {recommended.length > 0 && (
+          <p className="text-amber-700">Missing from documents: {recommended.join(", ")}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Identifiers saved before they were checked; invoices carrying them may be rejected
+const TaxIdProblems = ({ company }: { company: CompanyProfile }) => {
+  const problems = getTaxIdProblems(company);
+  if (problems.length === 0) return null;
+
+  return (
+    <div className="flex items-start gap-2 pt-2 text-sm">
+      <AlertTriangle className="h-4 w-4 mt-0.5 text-destructive shrink-0" />
+      <div className="text-destructive">
+        {problems.map((problem) => (
+          <p key={problem}>{problem}</p>
+        ))}
+      </div>
+    </div>
+  );
+};
+
 const ManageCompanies = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
@@ -21,6 +65,8 @@ const ManageCompanies = () => {
   const [companyLogoUrls, setCompanyLogoUrls] = useState<Record<string, string>>({});
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingCompany, setEditingCompany] = useState<any>(null);
+  const [numberingCompany, setNumberingCompany] = useState<{ id: string; name: string } | null>(null);
+  const [signatoriesCompany, setSignatoriesCompany] = useState<{ id: string; name: string } | null>(null);
   const [companyData, setCompanyData] = useState({
     name: "",
     address: "",
@@ -28,6 +74,7 @@ const ManageCompanies = () => {
     email: "",
     gst_number: "",
     pan_number: "",
+    lut_number: "",
     bank_name: "",
     account_number: "",
     ifsc_code: "",
@@ -36,29 +83,9 @@ const ManageCompanies = () => {
   });
   const [logoFile, setLogoFile] = useState<File | null>(null);
   const [logoPreview, setLogoPreview] = useState<string | null>(null);
-
-  // Get signed URL for a logo path
-  const getSignedLogoUrl = useCallback(async (logoPath: string): Promise<string | null> => {
-    if (!logoPath) return null;
-    
-    // Extract just the filename from full URL if necessary
-    const fileName = logoPath.includes('/') 
-      ? logoPath.split('/').pop() 
-      : logoPath;
-    
-    if (!fileName) return null;
-    
-    try {
-      const { data, error } = await supabase.storage
-        .from('company-logos')
-        .createSignedUrl(fileName, 3600); // 1 hour expiry
-      
-      if (error) return null;
-      return data?.signedUrl || null;
-    } catch {
-      return null;
-    }
-  }, []);
+  const [templates, setTemplates] = useState<{ id: string; name: string }[]>([]);
+  const [templateValue, setTemplateValue] = useState(BUILT_IN_TEMPLATE);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string | null>>({});
 
   // Load signed URLs for all company logos
   const loadLogoUrls = useCallback(async (companiesData: any[]) => {
@@ -76,12 +103,22 @@ const ManageCompanies = () => {
     );
     
     setCompanyLogoUrls(urls);
-  }, [getSignedLogoUrl]);
+  }, []);
 
   useEffect(() => {
     fetchCompanies();
   }, []);
 
+  // Built-in templates and the user's own, for the company's document layout
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      const { data } = await supabase.from("invoice_templates").select("id, name").order("created_at");
+      setTemplates(data || []);
+    };
+
+    fetchTemplates();
+  }, []);
+
   const fetchCompanies = async () => {
     if (!user) return;
 
@@ -114,6 +151,7 @@ const ManageCompanies = () => {
       email: "",
       gst_number: "",
       pan_number: "",
+      lut_number: "",
       bank_name: "",
       account_number: "",
       ifsc_code: "",
@@ -122,7 +160,9 @@ const ManageCompanies = () => {
     });
     setLogoFile(null);
     setLogoPreview(null);
+    setTemplateValue(BUILT_IN_TEMPLATE);
     setEditingCompany(null);
+    setFieldErrors({});
   };
 
   const openCreateDialog = () => {
@@ -138,6 +178,7 @@ const ManageCompanies = () => {
       email: company.email || "",
       gst_number: company.gst_number || "",
       pan_number: company.pan_number || "",
+      lut_number: company.lut_number || "",
       bank_name: company.bank_name || "",
       account_number: company.account_number || "",
       ifsc_code: company.ifsc_code || "",
@@ -145,9 +186,10 @@ const ManageCompanies = () => {
       logo_url: company.logo_url || "",
     });
     
-    if (company.logo_url) {
-      setLogoPreview(company.logo_url);
-    }
+    // logo_url is a storage path, the preview needs the signed URL
+    setLogoPreview(companyLogoUrls[company.id] || null);
+    setTemplateValue(toTemplateValue(company.template_id, BUILT_IN_TEMPLATE));
+    setFieldErrors({});
     
     setEditingCompany(company);
     setIsDialogOpen(true);
@@ -158,6 +200,7 @@ const ManageCompanies = () => {
       ...prev,
       [field]: value
     }));
+    setFieldErrors(prev => ({ ...prev, [field]: null }));
   };
 
   const handleLogoChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -229,6 +272,15 @@ const ManageCompanies = () => {
       return;
     }
 
+    const errors = {
+      gst_number: validateGstin(companyData.gst_number),
+      pan_number:
+        validatePan(companyData.pan_number) ??
+        validatePanAgainstGstin(companyData.pan_number, companyData.gst_number),
+    };
+    setFieldErrors(errors);
+    if (errors.gst_number || errors.pan_number) return;
+
     setLoading(true);
 
     try {
@@ -243,9 +295,11 @@ const ManageCompanies = () => {
       }
 
       const dataToSave = {
-        ...companyData,
+        ...normalizeTaxIds(companyData),
+        lut_number: companyData.lut_number.trim().toUpperCase() || null,
         user_id: user.id,
         logo_url: logoUrl,
+        template_id: fromTemplateValue(templateValue),
       };
 
       let result;
@@ -410,19 +464,37 @@ const ManageCompanies = () => {
                           id="gst_number"
                           value={companyData.gst_number}
                           onChange={(e) => handleInputChange("gst_number", e.target.value)}
-                          placeholder="22AAAAA0000A1Z5"
+                          placeholder="27AAPFU0939F1ZV"
                         />
+                        {fieldErrors.gst_number && (
+                          <p className="text-sm font-medium text-destructive mt-1">{fieldErrors.gst_number}</p>
+                        )}
                       </div>
                     </div>
 
-                    <div>
-                      <Label htmlFor="pan_number">PAN Number</Label>
-                      <Input
-                        id="pan_number"
-                        value={companyData.pan_number}
-                        onChange={(e) => handleInputChange("pan_number", e.target.value)}
-                        placeholder="AAAAA0000A"
-                      />
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="pan_number">PAN Number</Label>
+                        <Input
+                          id="pan_number"
+                          value={companyData.pan_number}
+                          onChange={(e) => handleInputChange("pan_number", e.target.value)}
+                          placeholder="Taken from the GST number if left blank"
+                        />
+                        {fieldErrors.pan_number && (
+                          <p className="text-sm font-medium text-destructive mt-1">{fieldErrors.pan_number}</p>
+                        )}
+                      </div>
+                      <div>
+                        <Label htmlFor="lut_number">LUT Number</Label>
+                        <Input
+                          id="lut_number"
+                          value={companyData.lut_number}
+                          onChange={(e) => handleInputChange("lut_number", e.target.value)}
+                          placeholder="ARN of this year's Letter of Undertaking"
+                        />
+                        <p className="text-sm text-muted-foreground mt-1">Quoted on export invoices</p>
+                      </div>
                     </div>
                   </CardContent>
                 </Card>
@@ -512,6 +584,31 @@ const ManageCompanies = () => {
                   </CardContent>
                 </Card>
 
+                {/* Template */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Invoice Template</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <Select value={templateValue} onValueChange={setTemplateValue}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={BUILT_IN_TEMPLATE}>Built-in default</SelectItem>
+                        {templates.map((template) => (
+                          <SelectItem key={template.id} value={template.id}>
+                            {template.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Used for this company's invoices and quotations unless an invoice picks another
+                    </p>
+                  </CardContent>
+                </Card>
+
                 <div className="flex justify-end gap-2">
                   <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
                     Cancel
@@ -575,9 +672,27 @@ const ManageCompanies = () => {
                         {company.gst_number && (
                           <p className="text-sm text-muted-foreground">GST: {company.gst_number}</p>
                         )}
+                        <CompanyProfileGaps company={company} />
+                        <TaxIdProblems company={company} />
                       </div>
                     </div>
                     <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setNumberingCompany(company)}
+                        title="Invoice numbering"
+                      >
+                        <Hash className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setSignatoriesCompany(company)}
+                        title="Authorised signatories"
+                      >
+                        <PenLine className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="outline"
                         size="sm"
@@ -616,6 +731,16 @@ const ManageCompanies = () => {
             ))
           )}
         </div>
+
+        <NumberingSeriesDialog
+          company={numberingCompany}
+          onOpenChange={(open) => !open && setNumberingCompany(null)}
+        />
+
+        <SignatoriesDialog
+          company={signatoriesCompany}
+          onOpenChange={(open) => !open && setSignatoriesCompany(null)}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,535 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useForm } from "react-hook-form";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Download, Edit, Package, Plus, Trash2, Upload } from "lucide-react";
+import { GST_RATES } from "@/utils/gst";
+import {
+  CatalogItem,
+  DEFAULT_UNIT,
+  UNITS,
+  fetchCatalogItems,
+  getCatalogCsvTemplate,
+  parseCatalogCsv,
+} from "@/utils/catalog";
+
+interface ItemFormData {
+  name: string;
+  description: string;
+  hsn_sac_code: string;
+  unit: string;
+  rate: number;
+  gst_rate: number;
+}
+
+const emptyItem: ItemFormData = {
+  name: "",
+  description: "",
+  hsn_sac_code: "",
+  unit: DEFAULT_UNIT,
+  rate: 0,
+  gst_rate: 18,
+};
+
+const ManageItems = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [companies, setCompanies] = useState<{ id: string; name: string }[]>([]);
+  const [companyId, setCompanyId] = useState("");
+  const [items, setItems] = useState<CatalogItem[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [editingItem, setEditingItem] = useState<CatalogItem | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const form = useForm<ItemFormData>({ defaultValues: emptyItem });
+
+  useEffect(() => {
+    const fetchCompanies = async () => {
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from("companies")
+        .select("id, name")
+        .eq("user_id", user.id)
+        .order("name", { ascending: true });
+
+      if (error) {
+        if (import.meta.env.DEV) {
+          console.error("Error fetching companies:", error);
+        }
+        toast({
+          title: "Error",
+          description: "Failed to fetch companies",
+          variant: "destructive"
+        });
+      }
+      setCompanies(data || []);
+      if (data?.length) setCompanyId(data[0].id);
+      setLoading(false);
+    };
+
+    fetchCompanies();
+  }, [user, toast]);
+
+  const fetchItems = useCallback(async () => {
+    if (!companyId) return;
+
+    try {
+      setItems(await fetchCatalogItems(companyId));
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error("Error fetching items:", error);
+      }
+      toast({
+        title: "Error",
+        description: "Failed to fetch items",
+        variant: "destructive"
+      });
+    }
+  }, [companyId, toast]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  const onSubmit = async (formData: ItemFormData) => {
+    if (!user || !companyId) return;
+
+    const data = {
+      ...formData,
+      name: formData.name.trim(),
+      description: formData.description.trim() || null,
+      hsn_sac_code: formData.hsn_sac_code.trim() || null,
+    };
+
+    try {
+      const { error } = editingItem
+        ? await supabase.from("catalog_items").update(data).eq("id", editingItem.id)
+        : await supabase.from("catalog_items").insert({ ...data, user_id: user.id, company_id: companyId });
+
+      // 23505: unique_violation on (company_id, name)
+      if (error?.code === "23505") {
+        form.setError("name", { message: "An item with this name already exists" });
+        return;
+      }
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: editingItem ? "Item updated successfully" : "Item created successfully"
+      });
+      handleCancel();
+      fetchItems();
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error("Error saving item:", error);
+      }
+      toast({
+        title: "Error",
+        description: "Failed to save item",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleEdit = (item: CatalogItem) => {
+    setEditingItem(item);
+    form.reset({
+      name: item.name,
+      description: item.description || "",
+      hsn_sac_code: item.hsn_sac_code || "",
+      unit: item.unit,
+      rate: Number(item.rate),
+      gst_rate: Number(item.gst_rate),
+    });
+    setShowForm(true);
+  };
+
+  const handleDelete = async (item: CatalogItem) => {
+    if (!confirm(`Delete "${item.name}"? Invoices already using it keep their lines.`)) return;
+
+    const { error } = await supabase.from("catalog_items").delete().eq("id", item.id);
+
+    if (error) {
+      if (import.meta.env.DEV) {
+        console.error("Error deleting item:", error);
+      }
+      toast({
+        title: "Error",
+        description: "Failed to delete item",
+        variant: "destructive"
+      });
+      return;
+    }
+    toast({
+      title: "Success",
+      description: "Item deleted successfully"
+    });
+    fetchItems();
+  };
+
+  const handleCancel = () => {
+    setShowForm(false);
+    setEditingItem(null);
+    form.reset(emptyItem);
+  };
+
+  const downloadTemplate = () => {
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(new Blob([getCatalogCsvTemplate()], { type: "text/csv" }));
+    link.download = "catalogue_items.csv";
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  // Items already in the catalogue under the same name are updated in place
+  const handleImport = async (file: File) => {
+    if (!user || !companyId) return;
+
+    const { items: rows, errors } = parseCatalogCsv(await file.text());
+    if (rows.length === 0) {
+      toast({
+        title: "Nothing to import",
+        description: errors[0] || "The file has no items.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setImporting(true);
+    const { error } = await supabase
+      .from("catalog_items")
+      .upsert(
+        rows.map((row) => ({ ...row, user_id: user.id, company_id: companyId })),
+        { onConflict: "company_id,name" }
+      );
+    setImporting(false);
+
+    if (error) {
+      if (import.meta.env.DEV) {
+        console.error("Error importing items:", error);
+      }
+      toast({
+        title: "Error",
+        description: "Failed to import items",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Import complete",
+      description:
+        errors.length > 0
+          ? `${rows.length} items imported, ${errors.length} rows skipped. ${errors.slice(0, 3).join("; ")}`
+          : `${rows.length} items imported.`
+    });
+    fetchItems();
+  };
+
+  if (loading) {
+    return <div className="min-h-screen bg-background flex items-center justify-center">Loading...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-card shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Button variant="ghost" size="sm" onClick={() => navigate("/dashboard")} className="mr-4">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+              <Package className="h-8 w-8 text-primary mr-3" />
+              <h1 className="text-2xl font-bold">Items Catalogue</h1>
+            </div>
+
+            {companyId && (
+              <div className="flex items-center gap-2">
+                <Button variant="outline" onClick={downloadTemplate}>
+                  <Download className="h-4 w-4 mr-2" />
+                  CSV Template
+                </Button>
+                <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={importing}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  {importing ? "Importing..." : "Import CSV"}
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,text/csv"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) handleImport(file);
+                  }}
+                />
+                <Button onClick={() => setShowForm(true)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Item
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {companies.length === 0 ? (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <Package className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium mb-2">No companies yet</h3>
+              <p className="text-muted-foreground mb-4">Each company keeps its own catalogue; add a company first</p>
+              <Button onClick={() => navigate("/manage-companies")}>Manage Companies</Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="flex items-center gap-4">
+              <span className="text-sm font-medium">Company</span>
+              <Select
+                value={companyId}
+                onValueChange={(value) => {
+                  handleCancel();
+                  setCompanyId(value);
+                }}
+              >
+                <SelectTrigger className="w-72">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {companies.map((company) => (
+                    <SelectItem key={company.id} value={company.id}>
+                      {company.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {showForm && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>{editingItem ? "Edit Item" : "Add New Item"}</CardTitle>
+                  <CardDescription>
+                    Picking the item on an invoice fills in its description, HSN/SAC code, unit, rate and GST rate
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Form {...form}>
+                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="name"
+                          rules={{ required: "Item name is required", validate: (value) => !!value.trim() || "Item name is required" }}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Name *</FormLabel>
+                              <FormControl>
+                                <Input placeholder="e.g., Website maintenance" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="hsn_sac_code"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>HSN/SAC Code</FormLabel>
+                              <FormControl>
+                                <Input placeholder="e.g., 998311" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="unit"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Unit</FormLabel>
+                              <Select onValueChange={field.onChange} value={field.value}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {UNITS.map((unit) => (
+                                    <SelectItem key={unit.code} value={unit.code}>
+                                      {unit.code} - {unit.label}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="description"
+                          render={({ field }) => (
+                            <FormItem className="md:col-span-3">
+                              <FormLabel>Description</FormLabel>
+                              <FormControl>
+                                <Input placeholder="Printed after the name on the invoice line" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="rate"
+                          rules={{ min: { value: 0, message: "Rate cannot be negative" } }}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Default Rate (₹)</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  step="0.01"
+                                  min="0"
+                                  {...field}
+                                  onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="gst_rate"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>GST Rate</FormLabel>
+                              <Select
+                                onValueChange={(value) => field.onChange(parseFloat(value))}
+                                value={String(field.value)}
+                              >
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {GST_RATES.map((rate) => (
+                                    <SelectItem key={rate} value={String(rate)}>
+                                      {rate}%
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+
+                      <div className="flex justify-end space-x-4">
+                        <Button type="button" variant="outline" onClick={handleCancel}>
+                          Cancel
+                        </Button>
+                        <Button type="submit">
+                          {editingItem ? "Update Item" : "Add Item"}
+                        </Button>
+                      </div>
+                    </form>
+                  </Form>
+                </CardContent>
+              </Card>
+            )}
+
+            {items.length === 0 ? (
+              <Card>
+                <CardContent className="p-12 text-center">
+                  <Package className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="text-lg font-medium mb-2">No items yet</h3>
+                  <p className="text-muted-foreground mb-4">
+                    Add the products and services you bill, or import them from a CSV file
+                  </p>
+                  <Button onClick={() => setShowForm(true)}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Your First Item
+                  </Button>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Items ({items.length})</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>HSN/SAC</TableHead>
+                        <TableHead>Unit</TableHead>
+                        <TableHead className="text-right">Rate</TableHead>
+                        <TableHead className="text-right">GST</TableHead>
+                        <TableHead className="w-28" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {items.map((item) => (
+                        <TableRow key={item.id}>
+                          <TableCell>
+                            <p className="font-medium">{item.name}</p>
+                            {item.description && <p className="text-sm text-muted-foreground">{item.description}</p>}
+                          </TableCell>
+                          <TableCell>{item.hsn_sac_code || "-"}</TableCell>
+                          <TableCell>{item.unit}</TableCell>
+                          <TableCell className="text-right">₹{Number(item.rate).toFixed(2)}</TableCell>
+                          <TableCell className="text-right">{Number(item.gst_rate)}%</TableCell>
+                          <TableCell>
+                            <div className="flex justify-end space-x-2">
+                              <Button variant="outline" size="sm" onClick={() => handleEdit(item)}>
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button variant="outline" size="sm" onClick={() => handleDelete(item)}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ManageItems;
@@ -0,0 +1,554 @@
+import { useState, useEffect } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { addDays, format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { ArrowLeft, FileSignature } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "sonner";
+import {
+  GST_RATES,
+  GST_STATES,
+  calculateInvoiceTotals,
+  getItemGstRate,
+  getStateCodeFromGstin,
+  getSupplyType,
+  getUniformGstRate,
+  splitGstRate,
+} from "@/utils/gst";
+import { Discount, NO_DISCOUNT, fromDiscount, toDiscount } from "@/utils/discounts";
+import { InvoiceNumberSeries } from "@/utils/invoiceNumbering";
+import { DEFAULT_VALIDITY_DAYS } from "@/utils/quotations";
+import InvoiceItemsEditor, { InvoiceItem } from "@/components/InvoiceItemsEditor";
+
+const quotationSchema = z
+  .object({
+    companyId: z.string().min(1, "Company is required"),
+    clientId: z.string().min(1, "Client is required"),
+    seriesId: z.string(),
+    quotationDate: z.string().min(1, "Quotation date is required"),
+    validUntil: z.string().min(1, "Valid until date is required"),
+    gstRate: z.number().min(0).max(100),
+    placeOfSupply: z.string().min(1, "Place of supply is required"),
+    notes: z.string().optional(),
+  })
+  .refine((values) => values.validUntil >= values.quotationDate, {
+    message: "Valid until must be on or after the quotation date",
+    path: ["validUntil"],
+  });
+
+type QuotationFormValues = z.infer<typeof quotationSchema>;
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+
+const QuotationForm = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [companies, setCompanies] = useState<Tables<"companies">[]>([]);
+  const [clients, setClients] = useState<Tables<"clients">[]>([]);
+  const [items, setItems] = useState<InvoiceItem[]>([]);
+  const [discount, setDiscount] = useState<Discount>(NO_DISCOUNT);
+  const [roundOff, setRoundOff] = useState(false);
+  const [series, setSeries] = useState<InvoiceNumberSeries[]>([]);
+  const [nextNumber, setNextNumber] = useState<string | null>(null);
+  const [quotationNumber, setQuotationNumber] = useState<string | null>(null);
+  const [status, setStatus] = useState("draft");
+  const [loading, setLoading] = useState(false);
+
+  const form = useForm<QuotationFormValues>({
+    resolver: zodResolver(quotationSchema),
+    defaultValues: {
+      companyId: "",
+      clientId: "",
+      seriesId: "",
+      quotationDate: toDateString(new Date()),
+      validUntil: toDateString(addDays(new Date(), DEFAULT_VALIDITY_DAYS)),
+      gstRate: 18,
+      placeOfSupply: "",
+      notes: "",
+    },
+  });
+
+  useEffect(() => {
+    const fetchData = async () => {
+      if (!user) return;
+
+      const [companiesResult, clientsResult] = await Promise.all([
+        supabase.from("companies").select("*").eq("user_id", user.id),
+        supabase.from("clients").select("*").eq("user_id", user.id),
+      ]);
+
+      if (companiesResult.data) setCompanies(companiesResult.data);
+      if (clientsResult.data) setClients(clientsResult.data);
+    };
+
+    fetchData();
+  }, [user]);
+
+  useEffect(() => {
+    const fetchQuotation = async () => {
+      if (!user || !id) return;
+
+      try {
+        const { data: quotation, error } = await supabase
+          .from("quotations")
+          .select("*")
+          .eq("id", id)
+          .eq("user_id", user.id)
+          .single();
+
+        if (error) throw error;
+
+        if (quotation.invoice_id) {
+          toast.error("This quotation has already been invoiced");
+          navigate(`/view-quotation/${id}`);
+          return;
+        }
+
+        form.reset({
+          companyId: quotation.company_id,
+          clientId: quotation.client_id,
+          seriesId: quotation.series_id || "",
+          quotationDate: quotation.quotation_date,
+          validUntil: quotation.valid_until,
+          gstRate: Number(quotation.gst_rate ?? 18),
+          placeOfSupply: quotation.place_of_supply || "",
+          notes: quotation.notes || "",
+        });
+        setQuotationNumber(quotation.quotation_number);
+        setStatus(quotation.status);
+
+        const savedItems = Array.isArray(quotation.items) ? (quotation.items as unknown as InvoiceItem[]) : [];
+        setItems(savedItems.map((item) => ({ ...item, gstRate: getItemGstRate(item, quotation) })));
+        setDiscount(toDiscount(quotation));
+        setRoundOff(Number(quotation.round_off) !== 0);
+      } catch (error) {
+        if (import.meta.env.DEV) {
+          console.error("Error loading quotation:", error);
+        }
+        toast.error("Failed to load quotation");
+        navigate("/quotations");
+      }
+    };
+
+    fetchQuotation();
+  }, [user, id, form, navigate]);
+
+  const companyId = form.watch("companyId");
+  const seriesId = form.watch("seriesId");
+  const quotationDate = form.watch("quotationDate");
+  const placeOfSupply = form.watch("placeOfSupply");
+  const gstRate = form.watch("gstRate");
+  const companyStateCode = getStateCodeFromGstin(companies.find(c => c.id === companyId)?.gst_number);
+  const supplyType = getSupplyType(companyStateCode, placeOfSupply || null);
+
+  // Quotation series of the selected company; the number is fixed once the quotation is saved
+  useEffect(() => {
+    const fetchSeries = async () => {
+      if (!user || !companyId || id) return;
+
+      const { data, error } = await supabase
+        .from("invoice_number_series")
+        .select("*")
+        .eq("company_id", companyId)
+        .eq("user_id", user.id)
+        .eq("document_type", "quotation")
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        if (import.meta.env.DEV) {
+          console.error("Error loading numbering series:", error);
+        }
+        return;
+      }
+
+      setSeries(data || []);
+      const currentSeries = form.getValues("seriesId");
+      if (!data?.some((row) => row.id === currentSeries)) {
+        const defaultSeries = data?.find((row) => row.is_default) || data?.[0];
+        form.setValue("seriesId", defaultSeries?.id || "");
+      }
+    };
+
+    fetchSeries();
+  }, [user, companyId, id, form]);
+
+  useEffect(() => {
+    const fetchNextNumber = async () => {
+      if (!seriesId || id) {
+        setNextNumber(null);
+        return;
+      }
+
+      const { data } = await supabase.rpc("preview_next_invoice_number", {
+        series_uuid: seriesId,
+        for_date: quotationDate || undefined,
+      });
+      setNextNumber(data || null);
+    };
+
+    fetchNextNumber();
+  }, [seriesId, quotationDate, id]);
+
+  const handleCompanyChange = (value: string) => {
+    form.setValue("companyId", value, { shouldValidate: true });
+    if (!form.getValues("placeOfSupply")) {
+      const stateCode = getStateCodeFromGstin(companies.find(c => c.id === value)?.gst_number);
+      if (stateCode) form.setValue("placeOfSupply", stateCode);
+    }
+  };
+
+  const handleClientChange = (value: string) => {
+    form.setValue("clientId", value, { shouldValidate: true });
+    const client = clients.find(c => c.id === value);
+    const stateCode = getStateCodeFromGstin(client?.gst_number) || companyStateCode;
+    if (stateCode) form.setValue("placeOfSupply", stateCode, { shouldValidate: true });
+  };
+
+  const onSubmit = async (values: QuotationFormValues) => {
+    if (!user) return;
+    if (items.length === 0) {
+      toast.error("Please add at least one item");
+      return;
+    }
+    if (!id && !values.seriesId) {
+      toast.error("Add a quotation numbering series to this company first");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const { subtotal, igstAmount, sgstAmount, cgstAmount, totalTax, discountAmount, roundOff: roundOffAmount, total } =
+        calculateInvoiceTotals(items, supplyType, { discount, roundOff });
+      const uniformRate = getUniformGstRate(items);
+      const rates = uniformRate === null ? null : splitGstRate(uniformRate, supplyType);
+
+      const quotationData = {
+        company_id: values.companyId,
+        client_id: values.clientId,
+        quotation_date: values.quotationDate,
+        valid_until: values.validUntil,
+        items: JSON.parse(JSON.stringify(items)),
+        subtotal,
+        gst_rate: uniformRate,
+        gst_amount: totalTax,
+        igst_rate: rates?.igstRate ?? null,
+        igst_amount: igstAmount,
+        sgst_rate: rates?.sgstRate ?? null,
+        sgst_amount: sgstAmount,
+        cgst_rate: rates?.cgstRate ?? null,
+        cgst_amount: cgstAmount,
+        ...fromDiscount(discount, discountAmount),
+        round_off: roundOffAmount,
+        total_amount: total,
+        place_of_supply: values.placeOfSupply,
+        notes: values.notes || null,
+        // Extending the validity of an expired quotation reopens it
+        ...(status === "expired" && values.validUntil >= toDateString(new Date()) ? { status: "sent" } : {}),
+      };
+
+      // New quotations are numbered by the database from the selected series
+      const { data, error } = id
+        ? await supabase
+            .from("quotations")
+            .update(quotationData)
+            .eq("id", id)
+            .eq("user_id", user.id)
+            .select("id")
+            .single()
+        : await supabase
+            .from("quotations")
+            .insert({
+              ...quotationData,
+              user_id: user.id,
+              series_id: values.seriesId,
+              quotation_number: nextNumber || "",
+            })
+            .select("id")
+            .single();
+
+      if (error) throw error;
+
+      toast.success(id ? "Quotation updated successfully!" : "Quotation created successfully!");
+      navigate(`/view-quotation/${data.id}`);
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error("Error saving quotation:", error);
+      }
+      toast.error("Failed to save quotation");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-card shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate("/quotations")}
+                className="mr-4"
+              >
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Quotations
+              </Button>
+              <FileSignature className="h-8 w-8 text-primary mr-3" />
+              <h1 className="text-2xl font-bold">{id ? `Edit Quotation ${quotationNumber || ""}` : "New Quotation"}</h1>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+            <Card>
+              <CardHeader>
+                <CardTitle>Quotation Details</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="companyId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Company</FormLabel>
+                        <Select onValueChange={handleCompanyChange} value={field.value} disabled={!!id}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select company" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {companies.map((company) => (
+                              <SelectItem key={company.id} value={company.id}>
+                                {company.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="clientId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Client</FormLabel>
+                        <Select onValueChange={handleClientChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select client" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {clients.map((client) => (
+                              <SelectItem key={client.id} value={client.id}>
+                                {client.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {!id && (
+                    <FormField
+                      control={form.control}
+                      name="seriesId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Numbering Series</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select series" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {series.map((row) => (
+                                <SelectItem key={row.id} value={row.id}>
+                                  {row.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {nextNumber && <FormDescription>Next number: {nextNumber}</FormDescription>}
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  <FormField
+                    control={form.control}
+                    name="quotationDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Quotation Date</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} disabled={!!id} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="validUntil"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Valid Until</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormDescription>Open quotations expire after this date.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="gstRate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Default GST Rate (%)</FormLabel>
+                        <Select
+                          onValueChange={(value) => field.onChange(parseFloat(value))}
+                          value={String(field.value)}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select GST rate" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {GST_RATES.map((rate) => (
+                              <SelectItem key={rate} value={String(rate)}>
+                                {rate}%
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="placeOfSupply"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Place of Supply</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select state" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {GST_STATES.map((state) => (
+                              <SelectItem key={state.code} value={state.code}>
+                                {state.code} - {state.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-sm text-muted-foreground">
+                          {!companyStateCode
+                            ? "Add a GSTIN to the company to detect intra-state supply"
+                            : supplyType === "intra_state"
+                              ? "Intra-state supply: CGST + SGST"
+                              : "Inter-state supply: IGST"}
+                        </p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <InvoiceItemsEditor
+              items={items}
+              onChange={setItems}
+              defaultGstRate={gstRate}
+              supplyType={supplyType}
+              companyId={companyId}
+              discount={discount}
+              onDiscountChange={setDiscount}
+              roundOff={roundOff}
+              onRoundOffChange={setRoundOff}
+            />
+
+            {/* Notes */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Terms &amp; Notes</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <FormField
+                  control={form.control}
+                  name="notes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormControl>
+                        <Textarea
+                          placeholder="Delivery timelines, payment terms..."
+                          className="min-h-[100px]"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Actions */}
+            <div className="flex justify-end space-x-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => navigate(id ? `/view-quotation/${id}` : "/quotations")}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading ? "Saving..." : id ? "Update Quotation" : "Create Quotation"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </div>
+    </div>
+  );
+};
+
+export default QuotationForm;
@@ -0,0 +1,238 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Edit, Eye, FileSignature, Plus, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import {
+  QUOTATION_STATUSES,
+  Quotation,
+  getQuotationStatus,
+  getQuotationStatusLabel,
+} from "@/utils/quotations";
+
+type QuotationRow = Quotation & {
+  clients: { name: string; company_name: string | null } | null;
+  companies: { name: string } | null;
+  invoices: { id: string; invoice_number: string } | null;
+};
+
+const formatDate = (date: string) => format(new Date(date), "dd MMM yyyy");
+
+const getStatusVariant = (status: string) => {
+  if (status === "accepted") return "default";
+  if (status === "rejected" || status === "expired") return "destructive";
+  return "secondary";
+};
+
+const Quotations = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [quotations, setQuotations] = useState<QuotationRow[]>([]);
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [loading, setLoading] = useState(true);
+
+  const fetchQuotations = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("quotations")
+        .select(
+          "*, clients (name, company_name), companies (name), invoices!quotations_invoice_id_fkey (id, invoice_number)"
+        )
+        .eq("user_id", user.id)
+        .order("quotation_date", { ascending: false })
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setQuotations((data as unknown as QuotationRow[]) || []);
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error("Error loading quotations:", error);
+      }
+      toast.error("Failed to load quotations");
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchQuotations();
+  }, [fetchQuotations]);
+
+  const handleDelete = async (quotation: QuotationRow) => {
+    if (!confirm(`Delete quotation ${quotation.quotation_number}?`)) {
+      return;
+    }
+
+    const { error } = await supabase.from("quotations").delete().eq("id", quotation.id);
+
+    if (error) {
+      toast.error("Failed to delete quotation");
+      return;
+    }
+    toast.success("Quotation deleted");
+    fetchQuotations();
+  };
+
+  const filteredQuotations = quotations.filter(
+    (quotation) => statusFilter === "all" || getQuotationStatus(quotation) === statusFilter
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-card shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate("/dashboard")}
+                className="mr-4"
+              >
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+              <FileSignature className="h-8 w-8 text-primary mr-3" />
+              <h1 className="text-2xl font-bold">Quotations</h1>
+            </div>
+            <Button onClick={() => navigate("/quotations/new")}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Quotation
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>All Quotations</CardTitle>
+                <CardDescription>Accepted quotations can be turned into tax invoices</CardDescription>
+              </div>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Statuses</SelectItem>
+                  {QUOTATION_STATUSES.map((status) => (
+                    <SelectItem key={status.value} value={status.value}>
+                      {status.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8 text-muted-foreground">Loading...</div>
+            ) : quotations.length === 0 ? (
+              <div className="text-center py-8">
+                <p className="text-muted-foreground mb-4">No quotations yet</p>
+                <Button onClick={() => navigate("/quotations/new")}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create Your First Quotation
+                </Button>
+              </div>
+            ) : filteredQuotations.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">No quotations match this status</p>
+            ) : (
+              <div className="border rounded-lg overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted">
+                    <tr>
+                      <th className="text-left p-3">Quotation No</th>
+                      <th className="text-left p-3">Client</th>
+                      <th className="text-left p-3">Date</th>
+                      <th className="text-left p-3">Valid Until</th>
+                      <th className="text-right p-3">Amount</th>
+                      <th className="text-left p-3">Status</th>
+                      <th className="p-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {filteredQuotations.map((quotation) => {
+                      const status = getQuotationStatus(quotation);
+
+                      return (
+                        <tr key={quotation.id} className="border-t">
+                          <td className="p-3">
+                            <div className="font-medium">{quotation.quotation_number}</div>
+                            <div className="text-xs text-muted-foreground">{quotation.companies?.name}</div>
+                          </td>
+                          <td className="p-3">{quotation.clients?.company_name || quotation.clients?.name}</td>
+                          <td className="p-3">{formatDate(quotation.quotation_date)}</td>
+                          <td className="p-3">{formatDate(quotation.valid_until)}</td>
+                          <td className="text-right p-3">₹{Number(quotation.total_amount).toLocaleString("en-IN")}</td>
+                          <td className="p-3">
+                            <Badge variant={getStatusVariant(status)}>{getQuotationStatusLabel(status)}</Badge>
+                            {quotation.invoices && (
+                              <button
+                                type="button"
+                                className="block text-xs text-primary hover:underline mt-1"
+                                onClick={() => navigate(`/view-invoice/${quotation.invoices?.id}`)}
+                              >
+                                Invoiced as {quotation.invoices.invoice_number}
+                              </button>
+                            )}
+                          </td>
+                          <td className="p-3">
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => navigate(`/view-quotation/${quotation.id}`)}
+                                title="View"
+                              >
+                                <Eye className="h-4 w-4" />
+                              </Button>
+                              {!quotation.invoice_id && (
+                                <>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => navigate(`/quotations/${quotation.id}/edit`)}
+                                    title="Edit"
+                                  >
+                                    <Edit className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleDelete(quotation)}
+                                    title="Delete"
+                                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Quotations;
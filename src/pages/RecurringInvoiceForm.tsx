@@ -0,0 +1,830 @@
+import { useState, useEffect } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { ArrowLeft, Repeat } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "sonner";
+import {
+  GST_RATES,
+  GST_STATES,
+  calculateInvoiceTotals,
+  getItemGstRate,
+  getStateCodeFromGstin,
+  getSupplyType,
+  getUniformGstRate,
+  splitGstRate,
+} from "@/utils/gst";
+import { Discount, NO_DISCOUNT, fromDiscount, toDiscount } from "@/utils/discounts";
+import {
+  NO_TDS,
+  TDS_SECTIONS,
+  fromTdsSectionValue,
+  getTdsRates,
+  toTdsSectionValue,
+} from "@/utils/tds";
+import { InvoiceNumberSeries } from "@/utils/invoiceNumbering";
+import { FREQUENCIES, getRunDate, getUpcomingRuns } from "@/utils/recurring";
+import InvoiceItemsEditor, { InvoiceItem } from "@/components/InvoiceItemsEditor";
+
+const RECURRING_INVOICE_TYPES = ["Tax Invoice", "Reimbursement Invoice"] as const;
+
+const profileSchema = z
+  .object({
+    name: z.string().trim().min(1, "Profile name is required"),
+    invoiceType: z.string().min(1, "Invoice type is required"),
+    companyId: z.string().min(1, "Company is required"),
+    clientId: z.string().min(1, "Client is required"),
+    seriesId: z.string().min(1, "Numbering series is required"),
+    frequency: z.enum(["monthly", "quarterly", "yearly"]),
+    startDate: z.string().min(1, "Start date is required"),
+    ends: z.enum(["never", "on_date", "after_count"]),
+    endDate: z.string().optional(),
+    occurrences: z.number().int().min(1, "At least one invoice"),
+    dueDays: z.string().optional(),
+    invoiceStatus: z.enum(["draft", "sent"]),
+    gstRate: z.number().min(0).max(100),
+    placeOfSupply: z.string().min(1, "Place of supply is required"),
+    tdsSection: z.string(),
+    tdsRate: z.number().min(0).max(100),
+    notes: z.string().optional(),
+  })
+  .refine((values) => values.ends !== "on_date" || (!!values.endDate && values.endDate >= values.startDate), {
+    message: "End date must be on or after the start date",
+    path: ["endDate"],
+  });
+
+type ProfileFormValues = z.infer<typeof profileSchema>;
+
+const RecurringInvoiceForm = () => {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const fromInvoiceId = searchParams.get("from");
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [companies, setCompanies] = useState<Tables<"companies">[]>([]);
+  const [clients, setClients] = useState<Tables<"clients">[]>([]);
+  const [items, setItems] = useState<InvoiceItem[]>([]);
+  const [discount, setDiscount] = useState<Discount>(NO_DISCOUNT);
+  const [roundOff, setRoundOff] = useState(false);
+  const [series, setSeries] = useState<InvoiceNumberSeries[]>([]);
+  const [generatedCount, setGeneratedCount] = useState(0);
+  const [isActive, setIsActive] = useState(true);
+  const [loading, setLoading] = useState(false);
+
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: {
+      name: "",
+      invoiceType: "Tax Invoice",
+      companyId: "",
+      clientId: "",
+      seriesId: "",
+      frequency: "monthly",
+      startDate: new Date().toISOString().split('T')[0],
+      ends: "never",
+      endDate: "",
+      occurrences: 12,
+      dueDays: "",
+      invoiceStatus: "draft",
+      gstRate: 18,
+      placeOfSupply: "",
+      tdsSection: NO_TDS,
+      tdsRate: 0,
+      notes: "",
+    },
+  });
+
+  useEffect(() => {
+    const fetchData = async () => {
+      if (!user) return;
+
+      const [companiesResult, clientsResult] = await Promise.all([
+        supabase.from("companies").select("*").eq("user_id", user.id),
+        supabase.from("clients").select("*").eq("user_id", user.id),
+      ]);
+
+      if (companiesResult.data) setCompanies(companiesResult.data);
+      if (clientsResult.data) setClients(clientsResult.data);
+    };
+
+    fetchData();
+  }, [user]);
+
+  // Load the profile being edited, or the invoice it is being created from
+  useEffect(() => {
+    const fetchTemplate = async () => {
+      if (!user) return;
+
+      try {
+        if (id) {
+          const { data: profile, error } = await supabase
+            .from("recurring_invoice_profiles")
+            .select("*")
+            .eq("id", id)
+            .eq("user_id", user.id)
+            .single();
+
+          if (error) throw error;
+
+          form.reset({
+            name: profile.name,
+            invoiceType: profile.invoice_type,
+            companyId: profile.company_id,
+            clientId: profile.client_id,
+            seriesId: profile.series_id,
+            frequency: profile.frequency as ProfileFormValues["frequency"],
+            startDate: profile.start_date,
+            ends: profile.end_date ? "on_date" : profile.occurrences ? "after_count" : "never",
+            endDate: profile.end_date || "",
+            occurrences: profile.occurrences || 12,
+            dueDays: profile.due_days === null ? "" : String(profile.due_days),
+            invoiceStatus: profile.invoice_status as ProfileFormValues["invoiceStatus"],
+            gstRate: Number(profile.gst_rate ?? 18),
+            placeOfSupply: profile.place_of_supply || "",
+            tdsSection: toTdsSectionValue(profile.tds_section),
+            tdsRate: Number(profile.tds_rate || 0),
+            notes: profile.notes || "",
+          });
+          setGeneratedCount(profile.generated_count);
+          setIsActive(profile.is_active);
+
+          const savedItems = Array.isArray(profile.items) ? (profile.items as unknown as InvoiceItem[]) : [];
+          setItems(savedItems.map((item) => ({ ...item, gstRate: getItemGstRate(item, profile) })));
+          setDiscount(toDiscount(profile));
+          setRoundOff(Number(profile.round_off) !== 0);
+        } else if (fromInvoiceId) {
+          const { data: invoice, error } = await supabase
+            .from("invoices")
+            .select("*, clients!invoices_client_id_fkey(name)")
+            .eq("id", fromInvoiceId)
+            .eq("user_id", user.id)
+            .single();
+
+          if (error) throw error;
+
+          form.reset({
+            ...form.getValues(),
+            name: `${invoice.clients?.name || "Client"} retainer`,
+            invoiceType: (RECURRING_INVOICE_TYPES as readonly string[]).includes(invoice.invoice_type)
+              ? invoice.invoice_type
+              : "Tax Invoice",
+            companyId: invoice.company_id,
+            clientId: invoice.client_id,
+            gstRate: Number(invoice.gst_rate ?? 18),
+            placeOfSupply: invoice.place_of_supply || "",
+            tdsSection: toTdsSectionValue(invoice.tds_section),
+            tdsRate: Number(invoice.tds_rate || 0),
+            notes: invoice.notes || "",
+          });
+
+          const savedItems = Array.isArray(invoice.items) ? (invoice.items as unknown as InvoiceItem[]) : [];
+          setItems(savedItems.map((item) => ({ ...item, gstRate: getItemGstRate(item, invoice) })));
+          setDiscount(toDiscount(invoice));
+          setRoundOff(Number(invoice.round_off) !== 0);
+        }
+      } catch (error) {
+        if (import.meta.env.DEV) {
+          console.error("Error loading recurring invoice template:", error);
+        }
+        toast.error(id ? "Failed to load recurring invoice" : "Failed to load invoice");
+        navigate("/recurring-invoices");
+      }
+    };
+
+    fetchTemplate();
+  }, [user, id, fromInvoiceId, form, navigate]);
+
+  const companyId = form.watch("companyId");
+  const placeOfSupply = form.watch("placeOfSupply");
+  const gstRate = form.watch("gstRate");
+  const tdsSection = form.watch("tdsSection");
+  const ends = form.watch("ends");
+  const companyStateCode = getStateCodeFromGstin(companies.find(c => c.id === companyId)?.gst_number);
+  const supplyType = getSupplyType(companyStateCode, placeOfSupply || null);
+
+  // Invoice numbering series of the selected company, preselecting its default series
+  useEffect(() => {
+    const fetchSeries = async () => {
+      if (!user || !companyId) return;
+
+      const { data, error } = await supabase
+        .from("invoice_number_series")
+        .select("*")
+        .eq("company_id", companyId)
+        .eq("user_id", user.id)
+        .eq("document_type", "invoice")
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        if (import.meta.env.DEV) {
+          console.error("Error loading numbering series:", error);
+        }
+        return;
+      }
+
+      setSeries(data || []);
+      const currentSeries = form.getValues("seriesId");
+      if (!data?.some((row) => row.id === currentSeries)) {
+        const defaultSeries = data?.find((row) => row.is_default) || data?.[0];
+        form.setValue("seriesId", defaultSeries?.id || "");
+      }
+    };
+
+    fetchSeries();
+  }, [user, companyId, form]);
+
+  const handleCompanyChange = (value: string) => {
+    form.setValue("companyId", value, { shouldValidate: true });
+    if (!form.getValues("placeOfSupply")) {
+      const stateCode = getStateCodeFromGstin(companies.find(c => c.id === value)?.gst_number);
+      if (stateCode) form.setValue("placeOfSupply", stateCode);
+    }
+  };
+
+  const handleClientChange = (value: string) => {
+    form.setValue("clientId", value, { shouldValidate: true });
+    const client = clients.find(c => c.id === value);
+    const stateCode = getStateCodeFromGstin(client?.gst_number) || companyStateCode;
+    if (stateCode) form.setValue("placeOfSupply", stateCode, { shouldValidate: true });
+    form.setValue("tdsSection", toTdsSectionValue(client?.tds_section));
+    form.setValue("tdsRate", Number(client?.tds_rate || 0));
+  };
+
+  const handleTdsSectionChange = (value: string) => {
+    form.setValue("tdsSection", value);
+    form.setValue("tdsRate", getTdsRates(value)[0]);
+  };
+
+  const schedule = {
+    start_date: form.watch("startDate"),
+    frequency: form.watch("frequency"),
+    end_date: ends === "on_date" ? form.watch("endDate") || null : null,
+    occurrences: ends === "after_count" ? form.watch("occurrences") : null,
+    generated_count: generatedCount,
+    is_active: isActive,
+  };
+  const upcomingRuns = schedule.start_date ? getUpcomingRuns(schedule, 3) : [];
+  const today = new Date().toISOString().split('T')[0];
+
+  const onSubmit = async (values: ProfileFormValues) => {
+    if (!user) return;
+    if (items.length === 0) {
+      toast.error("Please add at least one item");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const { subtotal, igstAmount, sgstAmount, cgstAmount, totalTax, discountAmount, roundOff: roundOffAmount, total } =
+        calculateInvoiceTotals(items, supplyType, { discount, roundOff });
+      const uniformRate = getUniformGstRate(items);
+      const rates = uniformRate === null ? null : splitGstRate(uniformRate, supplyType);
+      const endDate = values.ends === "on_date" ? values.endDate || null : null;
+      const occurrences = values.ends === "after_count" ? values.occurrences : null;
+      // Editing the schedule moves the next run, invoices already issued are kept
+      const nextRunDate = getRunDate(values.startDate, values.frequency, generatedCount);
+
+      const profileData = {
+        name: values.name.trim(),
+        invoice_type: values.invoiceType,
+        company_id: values.companyId,
+        client_id: values.clientId,
+        series_id: values.seriesId,
+        frequency: values.frequency,
+        start_date: values.startDate,
+        end_date: endDate,
+        occurrences,
+        due_days: values.dueDays ? parseInt(values.dueDays) : null,
+        invoice_status: values.invoiceStatus,
+        next_run_date: nextRunDate,
+        is_active: isActive && getUpcomingRuns({ ...schedule, end_date: endDate, occurrences }, 1).length > 0,
+        items: JSON.parse(JSON.stringify(items)),
+        subtotal,
+        gst_rate: uniformRate,
+        gst_amount: totalTax,
+        igst_rate: rates?.igstRate ?? null,
+        igst_amount: igstAmount,
+        sgst_rate: rates?.sgstRate ?? null,
+        sgst_amount: sgstAmount,
+        cgst_rate: rates?.cgstRate ?? null,
+        cgst_amount: cgstAmount,
+        ...fromDiscount(discount, discountAmount),
+        round_off: roundOffAmount,
+        total_amount: total,
+        place_of_supply: values.placeOfSupply,
+        tds_section: fromTdsSectionValue(values.tdsSection),
+        tds_rate: values.tdsSection === NO_TDS ? 0 : values.tdsRate,
+        notes: values.notes || null,
+      };
+
+      const { error } = id
+        ? await supabase
+            .from("recurring_invoice_profiles")
+            .update(profileData)
+            .eq("id", id)
+            .eq("user_id", user.id)
+        : await supabase.from("recurring_invoice_profiles").insert({ ...profileData, user_id: user.id });
+
+      if (error) throw error;
+
+      toast.success(id ? "Recurring invoice updated successfully!" : "Recurring invoice created successfully!");
+      navigate("/recurring-invoices");
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error("Error saving recurring invoice:", error);
+      }
+      toast.error("Failed to save recurring invoice");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-card shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate("/recurring-invoices")}
+                className="mr-4"
+              >
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Recurring Invoices
+              </Button>
+              <Repeat className="h-8 w-8 text-primary mr-3" />
+              <h1 className="text-2xl font-bold">{id ? "Edit Recurring Invoice" : "New Recurring Invoice"}</h1>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+            <Card>
+              <CardHeader>
+                <CardTitle>Schedule</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Profile Name</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Monthly retainer" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="frequency"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Frequency</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {FREQUENCIES.map((frequency) => (
+                              <SelectItem key={frequency.value} value={frequency.value}>
+                                {frequency.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="startDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>First Invoice Date</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        {!id && field.value < today && (
+                          <FormDescription>
+                            Invoices for past dates are issued on the next scheduler run.
+                          </FormDescription>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="ends"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Ends</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="never">Never</SelectItem>
+                            <SelectItem value="on_date">On a date</SelectItem>
+                            <SelectItem value="after_count">After a number of invoices</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {ends === "on_date" && (
+                    <FormField
+                      control={form.control}
+                      name="endDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>End Date</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  {ends === "after_count" && (
+                    <FormField
+                      control={form.control}
+                      name="occurrences"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Number of Invoices</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min="1"
+                              {...field}
+                              onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  <FormField
+                    control={form.control}
+                    name="invoiceStatus"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Issue Invoices As</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="draft">Draft (review before sending)</SelectItem>
+                            <SelectItem value="sent">Sent</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="dueDays"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Payment Due (days after invoice date)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="0" placeholder="No due date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {upcomingRuns.length > 0
+                    ? `Next invoices: ${upcomingRuns.map((date) => new Date(date).toLocaleDateString()).join(", ")}`
+                    : "No more invoices will be issued on this schedule."}
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Invoice Details</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="invoiceType"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Invoice Type</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {RECURRING_INVOICE_TYPES.map((type) => (
+                              <SelectItem key={type} value={type}>
+                                {type}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="companyId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Company</FormLabel>
+                        <Select onValueChange={handleCompanyChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select company" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {companies.map((company) => (
+                              <SelectItem key={company.id} value={company.id}>
+                                {company.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="clientId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Client</FormLabel>
+                        <Select onValueChange={handleClientChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select client" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {clients.map((client) => (
+                              <SelectItem key={client.id} value={client.id}>
+                                {client.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="seriesId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Numbering Series</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select series" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {series.map((row) => (
+                              <SelectItem key={row.id} value={row.id}>
+                                {row.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>Each invoice takes the next number when it is issued.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="gstRate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Default GST Rate (%)</FormLabel>
+                        <Select
+                          onValueChange={(value) => field.onChange(parseFloat(value))}
+                          value={String(field.value)}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select GST rate" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {GST_RATES.map((rate) => (
+                              <SelectItem key={rate} value={String(rate)}>
+                                {rate}%
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="placeOfSupply"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Place of Supply</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select state" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {GST_STATES.map((state) => (
+                              <SelectItem key={state.code} value={state.code}>
+                                {state.code} - {state.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-sm text-muted-foreground">
+                          {!companyStateCode
+                            ? "Add a GSTIN to the company to detect intra-state supply"
+                            : supplyType === "intra_state"
+                              ? "Intra-state supply: CGST + SGST"
+                              : "Inter-state supply: IGST"}
+                        </p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="tdsSection"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>TDS Section</FormLabel>
+                        <Select onValueChange={handleTdsSectionChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={NO_TDS}>No TDS</SelectItem>
+                            {TDS_SECTIONS.map((section) => (
+                              <SelectItem key={section.code} value={section.code}>
+                                {section.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {tdsSection !== NO_TDS && (
+                    <FormField
+                      control={form.control}
+                      name="tdsRate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>TDS Rate (%)</FormLabel>
+                          <Select
+                            onValueChange={(value) => field.onChange(parseFloat(value))}
+                            value={String(field.value)}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {getTdsRates(tdsSection).map((rate) => (
+                                <SelectItem key={rate} value={String(rate)}>
+                                  {rate}%
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <InvoiceItemsEditor
+              items={items}
+              onChange={setItems}
+              defaultGstRate={gstRate}
+              supplyType={supplyType}
+              companyId={companyId}
+              discount={discount}
+              onDiscountChange={setDiscount}
+              roundOff={roundOff}
+              onRoundOffChange={setRoundOff}
+            />
+
+            {/* Notes */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Additional Notes</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <FormField
+                  control={form.control}
+                  name="notes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormControl>
+                        <Textarea
+                          placeholder="Printed on every invoice..."
+                          className="min-h-[100px]"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Actions */}
+            <div className="flex justify-end space-x-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => navigate("/recurring-invoices")}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading ? "Saving..." : id ? "Update Recurring Invoice" : "Create Recurring Invoice"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </div>
+    </div>
+  );
+};
+
+export default RecurringInvoiceForm;
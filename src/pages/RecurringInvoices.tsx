@@ -0,0 +1,303 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Edit, Pause, Play, Plus, Repeat, RefreshCw, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import {
+  RecurringInvoiceProfile,
+  RecurringInvoiceRun,
+  getFrequencyLabel,
+  getUpcomingRuns,
+} from "@/utils/recurring";
+
+type ProfileRow = RecurringInvoiceProfile & {
+  clients: { name: string; company_name: string | null } | null;
+  companies: { name: string } | null;
+};
+
+type RunRow = RecurringInvoiceRun & {
+  recurring_invoice_profiles: { name: string } | null;
+  invoices: { id: string; invoice_number: string } | null;
+};
+
+const formatDate = (date: string) => format(new Date(date), "dd MMM yyyy");
+
+const RecurringInvoices = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [profiles, setProfiles] = useState<ProfileRow[]>([]);
+  const [runs, setRuns] = useState<RunRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const [profilesResult, runsResult] = await Promise.all([
+        supabase
+          .from("recurring_invoice_profiles")
+          .select("*, clients (name, company_name), companies (name)")
+          .eq("user_id", user.id)
+          .order("next_run_date", { ascending: true }),
+        supabase
+          .from("recurring_invoice_runs")
+          .select("*, recurring_invoice_profiles (name), invoices (id, invoice_number)")
+          .eq("user_id", user.id)
+          .order("run_date", { ascending: false })
+          .limit(50),
+      ]);
+
+      if (profilesResult.error) throw profilesResult.error;
+      if (runsResult.error) throw runsResult.error;
+
+      setProfiles(profilesResult.data || []);
+      setRuns(runsResult.data || []);
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error("Error loading recurring invoices:", error);
+      }
+      toast.error("Failed to load recurring invoices");
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // The nightly job does the same; this lets the user issue today's invoices straight away
+  const handleGenerateNow = async () => {
+    setGenerating(true);
+    try {
+      const { data, error } = await supabase.rpc("generate_recurring_invoices");
+
+      if (error) throw error;
+      toast.success(data ? `${data} invoice(s) generated` : "No invoices are due today");
+      fetchData();
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error("Error generating recurring invoices:", error);
+      }
+      toast.error("Failed to generate invoices");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleToggleActive = async (profile: ProfileRow) => {
+    const { error } = await supabase
+      .from("recurring_invoice_profiles")
+      .update({ is_active: !profile.is_active })
+      .eq("id", profile.id);
+
+    if (error) {
+      toast.error(profile.is_active ? "Failed to pause schedule" : "Failed to resume schedule");
+      return;
+    }
+    fetchData();
+  };
+
+  const handleDelete = async (profile: ProfileRow) => {
+    if (!confirm(`Delete "${profile.name}"? Invoices already issued are kept.`)) {
+      return;
+    }
+
+    const { error } = await supabase.from("recurring_invoice_profiles").delete().eq("id", profile.id);
+
+    if (error) {
+      toast.error("Failed to delete recurring invoice");
+      return;
+    }
+    toast.success("Recurring invoice deleted");
+    fetchData();
+  };
+
+  // Profiles that ran out of dates cannot be resumed without editing the schedule
+  const isCompleted = (profile: ProfileRow) =>
+    getUpcomingRuns({ ...profile, is_active: true }, 1).length === 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-card shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate("/dashboard")}
+                className="mr-4"
+              >
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+              <Repeat className="h-8 w-8 text-primary mr-3" />
+              <h1 className="text-2xl font-bold">Recurring Invoices</h1>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleGenerateNow} disabled={generating}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                {generating ? "Generating..." : "Generate Due Invoices"}
+              </Button>
+              <Button onClick={() => navigate("/recurring-invoices/new")}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Recurring Invoice
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Schedules</CardTitle>
+            <CardDescription>Invoices are issued automatically every night on their due date</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8 text-muted-foreground">Loading...</div>
+            ) : profiles.length === 0 ? (
+              <div className="text-center py-8">
+                <p className="text-muted-foreground mb-4">No recurring invoices yet</p>
+                <Button onClick={() => navigate("/recurring-invoices/new")}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create Your First Recurring Invoice
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {profiles.map((profile) => {
+                  const upcomingRuns = getUpcomingRuns(profile, 3);
+                  const completed = isCompleted(profile);
+
+                  return (
+                    <div key={profile.id} className="flex items-center justify-between p-4 border rounded-lg">
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <h4 className="font-medium">{profile.name}</h4>
+                          <Badge variant="outline">{getFrequencyLabel(profile.frequency)}</Badge>
+                          {completed ? (
+                            <Badge variant="secondary">Completed</Badge>
+                          ) : profile.is_active ? (
+                            <Badge>Active</Badge>
+                          ) : (
+                            <Badge variant="secondary">Paused</Badge>
+                          )}
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          {profile.clients?.company_name || profile.clients?.name} • {profile.companies?.name} • ₹
+                          {Number(profile.total_amount).toLocaleString("en-IN")}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {profile.generated_count} issued
+                          {profile.occurrences ? ` of ${profile.occurrences}` : ""}
+                          {profile.end_date ? `, ends ${formatDate(profile.end_date)}` : ""}
+                          {upcomingRuns.length > 0 && ` • Next: ${upcomingRuns.map(formatDate).join(", ")}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {!completed && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleToggleActive(profile)}
+                            title={profile.is_active ? "Pause" : "Resume"}
+                          >
+                            {profile.is_active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => navigate(`/recurring-invoices/${profile.id}/edit`)}
+                          title="Edit"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDelete(profile)}
+                          title="Delete"
+                          className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>History</CardTitle>
+            <CardDescription>The last 50 scheduled runs</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {runs.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No invoices have been issued yet.</p>
+            ) : (
+              <div className="border rounded-lg overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted">
+                    <tr>
+                      <th className="text-left p-3">Date</th>
+                      <th className="text-left p-3">Schedule</th>
+                      <th className="text-left p-3">Invoice</th>
+                      <th className="text-left p-3">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {runs.map((run) => (
+                      <tr key={run.id} className="border-t">
+                        <td className="p-3">{formatDate(run.run_date)}</td>
+                        <td className="p-3">{run.recurring_invoice_profiles?.name}</td>
+                        <td className="p-3">
+                          {run.invoices ? (
+                            <button
+                              type="button"
+                              className="font-medium text-primary hover:underline"
+                              onClick={() => navigate(`/view-invoice/${run.invoices?.id}`)}
+                            >
+                              {run.invoices.invoice_number}
+                            </button>
+                          ) : (
+                            "-"
+                          )}
+                        </td>
+                        <td className="p-3">
+                          {run.status === "generated" ? (
+                            <Badge variant="secondary">Generated</Badge>
+                          ) : (
+                            <span className="text-destructive" title={run.error || undefined}>
+                              Failed{run.error ? `: ${run.error}` : ""}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default RecurringInvoices;
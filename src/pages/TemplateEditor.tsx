@@ -0,0 +1,425 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowLeft, ArrowUp, Palette, Save } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "sonner";
+import { InvoiceData, buildInvoiceDocument } from "@/utils/invoiceDocument";
+import { renderInvoicePDF } from "@/utils/pdfGenerator";
+import { loadPdfFonts } from "@/utils/pdfFonts";
+import {
+  DEFAULT_TEMPLATE,
+  ITEM_COLUMNS,
+  InvoiceTemplate,
+  ItemColumn,
+  REQUIRED_COLUMNS,
+  TEMPLATE_FONTS,
+  TEMPLATE_SECTIONS,
+  TemplateFont,
+  TemplateSection,
+  parseTemplateData,
+  toTemplateData,
+} from "@/utils/invoiceTemplates";
+
+// Filler content for the preview so every section has something to show
+const SAMPLE_INVOICE: InvoiceData = {
+  invoice_number: "INV/2026-27/0001",
+  invoice_date: new Date().toISOString().split("T")[0],
+  invoice_type: "Tax Invoice",
+  place_of_supply: "27",
+  subtotal: 150000,
+  igst_rate: 18,
+  igst_amount: 27000,
+  total_amount: 177000,
+  items: [
+    { description: "Strategy consulting, March", hsnSacCode: "998311", quantity: 1, rate: 100000, gstRate: 18, amount: 100000 },
+    { description: "Data pipeline implementation", hsnSacCode: "998314", quantity: 10, rate: 5000, gstRate: 18, amount: 50000 },
+  ],
+  notes: "Thank you for your business.",
+  companies: {
+    name: "Your Company LLP",
+    address: "12 Example Road, New Delhi 110001",
+    email: "accounts@example.com",
+    gst_number: "07AAAAA0000A1Z5",
+    pan_number: "AAAAA0000A",
+    bank_name: "Example Bank",
+    account_number: "000000000000",
+    ifsc_code: "EXMP0000001",
+    branch: "Connaught Place",
+  },
+  clients: {
+    name: "Client Name",
+    company_name: "Client Pvt Ltd",
+    address: "45 Sample Street, Mumbai 400001",
+    gst_number: "27BBBBB1111B1Z5",
+  },
+  signatory: { name: "Authorised Person", designation: "Partner" },
+};
+
+// Every section in display order: the enabled ones as the template lists them, then the rest
+const getSectionOrder = (sections: TemplateSection[]) => [
+  ...sections,
+  ...TEMPLATE_SECTIONS.map((section) => section.value).filter((section) => !sections.includes(section)),
+];
+
+const TemplateEditor = () => {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [template, setTemplate] = useState<InvoiceTemplate>(DEFAULT_TEMPLATE);
+  const [sectionOrder, setSectionOrder] = useState<TemplateSection[]>(getSectionOrder(DEFAULT_TEMPLATE.sections));
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchTemplate = async () => {
+      if (!user || !id) return;
+
+      const { data, error } = await supabase
+        .from("invoice_templates")
+        .select("*")
+        .eq("id", id)
+        .eq("user_id", user.id)
+        .single();
+
+      if (error) {
+        if (import.meta.env.DEV) {
+          console.error("Error loading template:", error);
+        }
+        toast.error("Failed to load template");
+        navigate("/templates");
+        return;
+      }
+
+      const parsed = parseTemplateData(data.template_data);
+      setName(data.name);
+      setDescription(data.description || "");
+      setTemplate(parsed);
+      setSectionOrder(getSectionOrder(parsed.sections));
+    };
+
+    fetchTemplate();
+  }, [user, id, navigate]);
+
+  // Redraws the sample PDF shortly after the last change
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    const timer = setTimeout(async () => {
+      try {
+        const fonts = await loadPdfFonts();
+        const doc = renderInvoicePDF(buildInvoiceDocument(SAMPLE_INVOICE, template, { logo: null, signature: null }), fonts);
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(doc.output("blob"));
+        setPreviewUrl(objectUrl);
+      } catch (error) {
+        if (import.meta.env.DEV) {
+          console.error("Error rendering preview:", error);
+        }
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [template]);
+
+  const updateTemplate = (changes: Partial<InvoiceTemplate>) => setTemplate((prev) => ({ ...prev, ...changes }));
+
+  const applySectionOrder = (order: TemplateSection[], enabled: TemplateSection[]) => {
+    setSectionOrder(order);
+    updateTemplate({ sections: order.filter((section) => enabled.includes(section)) });
+  };
+
+  const toggleSection = (section: TemplateSection, checked: boolean) => {
+    const enabled = checked
+      ? [...template.sections, section]
+      : template.sections.filter((value) => value !== section);
+    applySectionOrder(sectionOrder, enabled);
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    const order = [...sectionOrder];
+    [order[index], order[index + offset]] = [order[index + offset], order[index]];
+    applySectionOrder(order, template.sections);
+  };
+
+  const toggleColumn = (column: ItemColumn, checked: boolean) => {
+    const columns = checked ? [...template.columns, column] : template.columns.filter((value) => value !== column);
+    // Columns always print in table order, whatever order they were ticked in
+    updateTemplate({
+      columns: ITEM_COLUMNS.map((option) => option.value).filter((value) => columns.includes(value)),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    if (!name.trim()) {
+      toast.error("Please give the template a name");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const templateData = {
+        name: name.trim(),
+        description: description.trim() || null,
+        template_data: toTemplateData(template),
+      };
+
+      const { error } = id
+        ? await supabase.from("invoice_templates").update(templateData).eq("id", id).eq("user_id", user.id)
+        : await supabase.from("invoice_templates").insert({ ...templateData, user_id: user.id, is_default: false });
+
+      if (error) throw error;
+      toast.success(id ? "Template updated" : "Template created");
+      navigate("/templates");
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error("Error saving template:", error);
+      }
+      toast.error("Failed to save template");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-card shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate("/templates")}
+                className="mr-4"
+              >
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Templates
+              </Button>
+              <Palette className="h-8 w-8 text-primary mr-3" />
+              <h1 className="text-2xl font-bold">{id ? "Edit Template" : "New Template"}</h1>
+            </div>
+            <Button onClick={handleSave} disabled={saving}>
+              <Save className="h-4 w-4 mr-2" />
+              {saving ? "Saving..." : "Save Template"}
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Details</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label htmlFor="template_name">Name *</Label>
+                  <Input
+                    id="template_name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Services invoice"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="template_description">Description</Label>
+                  <Input
+                    id="template_description"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    placeholder="Optional"
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Sections</CardTitle>
+                <CardDescription>Untick a section to leave it out; the arrows change the order</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {sectionOrder.map((section, index) => {
+                  const option = TEMPLATE_SECTIONS.find((value) => value.value === section);
+                  const checkboxId = `section_${section}`;
+
+                  return (
+                    <div key={section} className="flex items-center justify-between border rounded-lg p-2">
+                      <div className="flex items-center gap-3">
+                        <Checkbox
+                          id={checkboxId}
+                          checked={template.sections.includes(section)}
+                          onCheckedChange={(checked) => toggleSection(section, checked === true)}
+                        />
+                        <Label htmlFor={checkboxId} className="cursor-pointer">
+                          {option?.label}
+                          {option && "description" in option && (
+                            <span className="block text-xs font-normal text-muted-foreground">
+                              {option.description}
+                            </span>
+                          )}
+                        </Label>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          disabled={index === 0}
+                          onClick={() => moveSection(index, -1)}
+                          title="Move up"
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          disabled={index === sectionOrder.length - 1}
+                          onClick={() => moveSection(index, 1)}
+                          title="Move down"
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Line Item Columns</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {ITEM_COLUMNS.map((column) => {
+                  const checkboxId = `column_${column.value}`;
+                  const required = REQUIRED_COLUMNS.includes(column.value);
+
+                  return (
+                    <div key={column.value} className="flex items-center gap-2">
+                      <Checkbox
+                        id={checkboxId}
+                        checked={template.columns.includes(column.value)}
+                        disabled={required}
+                        onCheckedChange={(checked) => toggleColumn(column.value, checked === true)}
+                      />
+                      <Label htmlFor={checkboxId}>{column.label}</Label>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Style</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label>Font</Label>
+                  <Select value={template.font} onValueChange={(value) => updateTemplate({ font: value as TemplateFont })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TEMPLATE_FONTS.map((font) => (
+                        <SelectItem key={font.value} value={font.value}>
+                          {font.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {(
+                  [
+                    { key: "primary", label: "Primary colour" },
+                    { key: "accent", label: "Table shading" },
+                    { key: "text", label: "Text colour" },
+                  ] as const
+                ).map(({ key, label }) => (
+                  <div key={key}>
+                    <Label htmlFor={`color_${key}`}>{label}</Label>
+                    <Input
+                      id={`color_${key}`}
+                      type="color"
+                      value={template.colors[key]}
+                      onChange={(e) => updateTemplate({ colors: { ...template.colors, [key]: e.target.value } })}
+                      className="h-10 cursor-pointer"
+                    />
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Text</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label htmlFor="template_terms">Terms &amp; Conditions</Label>
+                  <Textarea
+                    id="template_terms"
+                    value={template.terms}
+                    onChange={(e) => updateTemplate({ terms: e.target.value })}
+                    placeholder="Payment due within 30 days"
+                    rows={4}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="template_footer">Footer</Label>
+                  <Textarea
+                    id="template_footer"
+                    value={template.footer}
+                    onChange={(e) => updateTemplate({ footer: e.target.value })}
+                    rows={2}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="lg:sticky lg:top-4 h-fit">
+            <CardHeader>
+              <CardTitle>Preview</CardTitle>
+              <CardDescription>A sample invoice drawn with this template</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {previewUrl ? (
+                <iframe src={previewUrl} title="Template preview" className="w-full h-[80vh] border rounded" />
+              ) : (
+                <div className="h-[80vh] flex items-center justify-center text-muted-foreground">
+                  Rendering preview...
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateEditor;
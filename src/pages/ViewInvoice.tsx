@@ -1,13 +1,61 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { ArrowLeft, Download } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, ArrowRightLeft, Download, AlertTriangle, FileCode, FileMinus, FilePlus, IndianRupee, Repeat, Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { toast } from "sonner";
 import { generateInvoicePDF } from "@/utils/pdfGenerator";
-import html2canvas from "html2canvas";
+import { generateInvoiceImage } from "@/utils/invoiceImage";
+import { InvoiceDocument, loadInvoiceDocument } from "@/utils/invoiceDocument";
+import InvoiceDocumentView from "@/components/InvoiceDocumentView";
+import RecordPaymentDialog from "@/components/RecordPaymentDialog";
+import EInvoiceDialog from "@/components/EInvoiceDialog";
+import { calculateTds, formatTdsSection } from "@/utils/tds";
+import { STATUS_LABELS, getBalanceDue, getPaymentModeLabel, getSettledAmount } from "@/utils/payments";
+import { CREDIT_NOTE, getDocumentSign, isNote } from "@/utils/notes";
+import { canConvertToTaxInvoice } from "@/utils/conversion";
+import { checkCompanyProfile } from "@/utils/companyProfile";
+import { isEInvoiceType } from "@/utils/einvoice";
+import { formatCurrency } from "@/utils/currency";
+
+interface Payment {
+  id: string;
+  payment_date: string;
+  amount: number;
+  tds_amount: number;
+  mode: string;
+  reference: string | null;
+  notes: string | null;
+}
+
+interface LinkedDocument {
+  id: string;
+  invoice_number: string;
+  invoice_type: string;
+}
+
+interface LinkedNote {
+  id: string;
+  invoice_number: string;
+  invoice_type: string;
+  invoice_date: string;
+  total_amount: number;
+  status: string;
+  note_reason: string | null;
+}
 
 interface Invoice {
   id: string;
@@ -23,10 +71,31 @@ interface Invoice {
   sgst_rate: number;
   cgst_amount: number;
   cgst_rate: number;
+  discount_type: string | null;
+  discount_value: number;
+  discount_amount: number;
+  round_off: number;
   total_amount: number;
   status: string;
   invoice_type: string;
+  place_of_supply: string | null;
+  tax_override: boolean;
+  tds_section: string | null;
+  tds_rate: number;
   notes: string | null;
+  note_reason: string | null;
+  irn: string | null;
+  irn_ack_number: string | null;
+  irn_ack_date: string | null;
+  irn_signed_qr: string | null;
+  is_export: boolean;
+  currency: string;
+  exchange_rate: number;
+  export_port: string | null;
+  export_country: string | null;
+  company_id: string;
+  signatory_id: string | null;
+  template_id: string | null;
   items: any;
   companies: {
     name: string;
@@ -39,6 +108,8 @@ interface Invoice {
     ifsc_code: string | null;
     branch: string | null;
     pan_number: string | null;
+    logo_url: string | null;
+    lut_number: string | null;
   };
   clients: {
     name: string;
@@ -50,6 +121,19 @@ interface Invoice {
     pan_number: string | null;
     cin_number: string | null;
   };
+  payments: Payment[];
+  original_invoice: {
+    id: string;
+    invoice_number: string;
+    invoice_date: string;
+  } | null;
+  converted_to_id: string | null;
+  converted_from: LinkedDocument | null;
+  converted_to: LinkedDocument | null;
+  quotation: {
+    id: string;
+    quotation_number: string;
+  } | null;
 }
 
 const ViewInvoice = () => {
@@ -57,79 +141,157 @@ const ViewInvoice = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
   const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [linkedNotes, setLinkedNotes] = useState<LinkedNote[]>([]);
   const [loading, setLoading] = useState(true);
+  const [paymentDialogOpen, setPaymentDialogOpen] = useState(false);
+  const [convertDialogOpen, setConvertDialogOpen] = useState(false);
+  const [eInvoiceDialogOpen, setEInvoiceDialogOpen] = useState(false);
+  const [converting, setConverting] = useState(false);
+  const [invoiceDocument, setInvoiceDocument] = useState<InvoiceDocument | null>(null);
 
-  useEffect(() => {
+  const fetchInvoice = useCallback(async () => {
     if (!user || !id) return;
 
-    const fetchInvoice = async () => {
-      try {
-        const { data, error } = await supabase
-          .from("invoices")
-          .select(`
-            *,
-            companies (name, address, phone, email, gst_number, bank_name, account_number, ifsc_code, branch, pan_number),
-            clients (name, company_name, address, phone, email, gst_number, pan_number, cin_number)
-          `)
-          .eq("id", id)
-          .eq("user_id", user.id)
-          .single();
-
-        if (error) throw error;
-        setInvoice(data as Invoice);
-      } catch (error) {
-        if (import.meta.env.DEV) {
-          console.error("Error fetching invoice:", error);
-        }
-        toast.error("Failed to load invoice");
-        navigate("/dashboard");
-      } finally {
-        setLoading(false);
+    try {
+      const { data, error } = await supabase
+        .from("invoices")
+        .select(`
+          *,
+          companies (name, address, phone, email, gst_number, bank_name, account_number, ifsc_code, branch, pan_number, logo_url, lut_number),
+          clients (name, company_name, address, phone, email, gst_number, pan_number, cin_number),
+          payments (id, payment_date, amount, tds_amount, mode, reference, notes),
+          original_invoice:invoices_original_invoice_id_fkey (id, invoice_number, invoice_date),
+          converted_from:invoices_converted_from_id_fkey (id, invoice_number, invoice_type),
+          converted_to:invoices_converted_to_id_fkey (id, invoice_number, invoice_type),
+          quotation:quotations!invoices_quotation_id_fkey (id, quotation_number)
+        `)
+        .eq("id", id)
+        .eq("user_id", user.id)
+        .order("payment_date", { referencedTable: "payments" })
+        .single();
+
+      if (error) throw error;
+      // The typed query parser cannot resolve embeds of invoices into invoices
+      setInvoice(data as unknown as Invoice);
+
+      // Credit and debit notes issued against this invoice
+      const { data: notes, error: notesError } = await supabase
+        .from("invoices")
+        .select("id, invoice_number, invoice_type, invoice_date, total_amount, status, note_reason")
+        .eq("original_invoice_id", id)
+        .eq("user_id", user.id)
+        .order("invoice_date", { ascending: true });
+
+      if (notesError) throw notesError;
+      setLinkedNotes(notes || []);
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error("Error fetching invoice:", error);
       }
-    };
+      toast.error("Failed to load invoice");
+      navigate("/dashboard");
+    } finally {
+      setLoading(false);
+    }
+  }, [user, id, navigate]);
 
+  useEffect(() => {
     fetchInvoice();
-  }, [user, id, navigate]);
+  }, [fetchInvoice]);
 
-  const handleDownloadPDF = async () => {
+  // The page, the PDF and the JPEG all render this one document
+  useEffect(() => {
     if (!invoice) return;
 
+    let cancelled = false;
+    loadInvoiceDocument({ ...invoice, items: Array.isArray(invoice.items) ? invoice.items : [] })
+      .then((loaded) => {
+        if (!cancelled) setInvoiceDocument(loaded);
+      })
+      .catch((error) => {
+        if (import.meta.env.DEV) {
+          console.error("Error loading invoice document:", error);
+        }
+        toast.error("Failed to render invoice");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [invoice]);
+
+  const handleDeletePayment = async (paymentId: string) => {
     try {
-      const invoiceData = {
-        ...invoice,
-        items: Array.isArray(invoice.items) ? invoice.items : []
-      };
-      await generateInvoicePDF(invoiceData);
-      toast.success("PDF downloaded successfully!");
+      const { error } = await supabase.from("payments").delete().eq("id", paymentId);
+
+      if (error) throw error;
+      toast.success("Payment deleted");
+      fetchInvoice();
     } catch (error) {
       if (import.meta.env.DEV) {
-        console.error("Error generating PDF:", error);
+        console.error("Error deleting payment:", error);
       }
-      toast.error("Failed to generate PDF");
+      toast.error("Failed to delete payment");
     }
   };
 
-  const handleDownloadJPEG = async () => {
+  // The database numbers the new tax invoice and marks this document converted in one go
+  const handleConvert = async () => {
     if (!invoice) return;
 
+    setConverting(true);
+    try {
+      const { data: newInvoiceId, error } = await supabase.rpc("convert_to_tax_invoice", {
+        source_uuid: invoice.id,
+      });
+
+      if (error) throw error;
+      toast.success(`${invoice.invoice_type} converted to a tax invoice`);
+      setConvertDialogOpen(false);
+      navigate(`/view-invoice/${newInvoiceId}`);
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error("Error converting invoice:", error);
+      }
+      toast.error("Failed to convert to tax invoice");
+    } finally {
+      setConverting(false);
+    }
+  };
+
+  const handleDownloadPDF = async () => {
+    if (!invoice || !invoiceDocument) return;
+
+    const profile = checkCompanyProfile(invoice.companies);
+    if (profile.error) {
+      toast.error(profile.error);
+      return;
+    }
+    if (profile.warning) toast.warning(profile.warning);
+
     try {
-      const element = document.getElementById('invoice-content');
-      if (!element) {
-        toast.error("Invoice content not found");
-        return;
+      await generateInvoicePDF(invoiceDocument);
+      toast.success("PDF downloaded successfully!");
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error("Error generating PDF:", error);
       }
+      toast.error("Failed to generate PDF");
+    }
+  };
 
-      const canvas = await html2canvas(element, {
-        scale: 2,
-        backgroundColor: '#ffffff',
-        logging: false,
-      });
+  const handleDownloadJPEG = async () => {
+    if (!invoice || !invoiceDocument) return;
 
-      const link = document.createElement('a');
-      link.download = `Invoice-${invoice.invoice_number}.jpg`;
-      link.href = canvas.toDataURL('image/jpeg', 0.95);
-      link.click();
+    const profile = checkCompanyProfile(invoice.companies);
+    if (profile.error) {
+      toast.error(profile.error);
+      return;
+    }
+    if (profile.warning) toast.warning(profile.warning);
 
+    try {
+      await generateInvoiceImage(invoiceDocument);
       toast.success("JPEG downloaded successfully!");
     } catch (error) {
       if (import.meta.env.DEV) {
@@ -170,180 +332,282 @@ const ViewInvoice = () => {
             Back to Dashboard
           </Button>
           <div className="flex gap-2">
-            <Button variant="outline" onClick={handleDownloadPDF}>
+            {canConvertToTaxInvoice(invoice) && (
+              <Button variant="outline" onClick={() => setConvertDialogOpen(true)}>
+                <ArrowRightLeft className="h-4 w-4 mr-2" />
+                Convert to Tax Invoice
+              </Button>
+            )}
+            {!isNote(invoice.invoice_type) && invoice.status !== "cancelled" && invoice.status !== "converted" && (
+              <>
+                <Button variant="outline" onClick={() => navigate(`/recurring-invoices/new?from=${invoice.id}`)}>
+                  <Repeat className="h-4 w-4 mr-2" />
+                  Make Recurring
+                </Button>
+                <Button variant="outline" onClick={() => navigate(`/create-note/${invoice.id}?type=credit_note`)}>
+                  <FileMinus className="h-4 w-4 mr-2" />
+                  Credit Note
+                </Button>
+                <Button variant="outline" onClick={() => navigate(`/create-note/${invoice.id}?type=debit_note`)}>
+                  <FilePlus className="h-4 w-4 mr-2" />
+                  Debit Note
+                </Button>
+              </>
+            )}
+            {invoice.invoice_type !== CREDIT_NOTE && invoice.status !== "cancelled" && invoice.status !== "converted" && getBalanceDue(invoice) > 0 && (
+              <Button variant="outline" onClick={() => setPaymentDialogOpen(true)}>
+                <IndianRupee className="h-4 w-4 mr-2" />
+                Record Payment
+              </Button>
+            )}
+            {isEInvoiceType(invoice.invoice_type) && invoice.status !== "cancelled" && (
+              <Button variant="outline" onClick={() => setEInvoiceDialogOpen(true)}>
+                <FileCode className="h-4 w-4 mr-2" />
+                E-Invoice
+              </Button>
+            )}
+            <Button variant="outline" onClick={handleDownloadPDF} disabled={!invoiceDocument}>
               <Download className="h-4 w-4 mr-2" />
               Download PDF
             </Button>
-            <Button onClick={handleDownloadJPEG}>
+            <Button onClick={handleDownloadJPEG} disabled={!invoiceDocument}>
               <Download className="h-4 w-4 mr-2" />
               Download JPEG
             </Button>
           </div>
         </div>
 
-        <Card id="invoice-content">
-          <CardHeader>
-            <div className="text-center text-xl font-semibold text-primary mb-1">
-              {invoice.companies.name}
-            </div>
-            <CardTitle className="text-3xl font-bold text-center">{(invoice.invoice_type || 'Tax Invoice').toUpperCase()}</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-6">
-            {/* Company and Client Info */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div>
-                <h3 className="font-semibold text-lg mb-2">From:</h3>
-                <div className="space-y-1">
-                  <p className="font-medium">{invoice.companies.name}</p>
-                  {invoice.companies.address && <p>{invoice.companies.address}</p>}
-                  {invoice.companies.phone && <p>Phone: {invoice.companies.phone}</p>}
-                  {invoice.companies.email && <p>Email: {invoice.companies.email}</p>}
-                  {invoice.companies.pan_number && <p>PAN: {invoice.companies.pan_number}</p>}
-                  {invoice.companies.gst_number && <p>GST: {invoice.companies.gst_number}</p>}
-                </div>
+        {invoice.converted_to && (
+          <div className="mb-4 rounded-lg border border-blue-200 bg-blue-50 p-3 text-sm text-blue-800">
+            Converted to tax invoice{" "}
+            <button
+              type="button"
+              className="font-medium underline"
+              onClick={() => navigate(`/view-invoice/${invoice.converted_to?.id}`)}
+            >
+              {invoice.converted_to.invoice_number}
+            </button>
+            . Bill and collect payments against the tax invoice.
+          </div>
+        )}
+
+        {invoice.converted_from && (
+          <div className="mb-4 rounded-lg border p-3 text-sm text-muted-foreground">
+            Converted from {invoice.converted_from.invoice_type.toLowerCase()}{" "}
+            <button
+              type="button"
+              className="font-medium text-primary hover:underline"
+              onClick={() => navigate(`/view-invoice/${invoice.converted_from?.id}`)}
+            >
+              {invoice.converted_from.invoice_number}
+            </button>
+          </div>
+        )}
+
+        {invoice.quotation && (
+          <div className="mb-4 rounded-lg border p-3 text-sm text-muted-foreground">
+            Created from quotation{" "}
+            <button
+              type="button"
+              className="font-medium text-primary hover:underline"
+              onClick={() => navigate(`/view-quotation/${invoice.quotation?.id}`)}
+            >
+              {invoice.quotation.quotation_number}
+            </button>
+          </div>
+        )}
+
+        {invoice.tax_override && (
+          <Badge variant="outline" className="mb-4 gap-1 border-orange-300 bg-orange-50 text-orange-700">
+            <AlertTriangle className="h-3 w-3" />
+            Tax split entered manually
+          </Badge>
+        )}
+
+        {invoice.original_invoice && (
+          <div className="mb-4 rounded-lg border p-3 text-sm text-muted-foreground">
+            Issued against invoice{" "}
+            <button
+              type="button"
+              className="font-medium text-primary hover:underline"
+              onClick={() => navigate(`/view-invoice/${invoice.original_invoice?.id}`)}
+            >
+              {invoice.original_invoice.invoice_number}
+            </button>
+          </div>
+        )}
+
+        <Card id="invoice-content" className="overflow-hidden">
+          {invoiceDocument ? (
+            <InvoiceDocumentView document={invoiceDocument} />
+          ) : (
+            <CardContent className="p-8 text-center text-muted-foreground">Preparing invoice...</CardContent>
+          )}
+        </Card>
+
+        {/* Credit and debit notes against this invoice */}
+        {linkedNotes.length > 0 && (
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Credit &amp; Debit Notes</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="border rounded-lg overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted">
+                    <tr>
+                      <th className="text-left p-3">Note No</th>
+                      <th className="text-left p-3">Type</th>
+                      <th className="text-left p-3">Date</th>
+                      <th className="text-left p-3">Reason</th>
+                      <th className="text-right p-3">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {linkedNotes.map((note) => (
+                      <tr
+                        key={note.id}
+                        className="border-t cursor-pointer hover:bg-muted/50"
+                        onClick={() => navigate(`/view-invoice/${note.id}`)}
+                      >
+                        <td className="p-3 font-medium">{note.invoice_number}</td>
+                        <td className="p-3">
+                          {note.invoice_type}
+                          {note.status === "cancelled" && " (cancelled)"}
+                        </td>
+                        <td className="p-3">{new Date(note.invoice_date).toLocaleDateString()}</td>
+                        <td className="p-3">{note.note_reason || '-'}</td>
+                        <td className="text-right p-3">
+                          {note.invoice_type === CREDIT_NOTE ? "-" : "+"}{formatCurrency(Number(note.total_amount), invoice.currency)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
               </div>
-              <div>
-                <h3 className="font-semibold text-lg mb-2">To:</h3>
-                <div className="space-y-1">
-                  <p className="font-medium">{invoice.clients.name}</p>
-                  {invoice.clients.company_name && <p>{invoice.clients.company_name}</p>}
-                  {invoice.clients.address && <p>{invoice.clients.address}</p>}
-                  {invoice.clients.phone && <p>Phone: {invoice.clients.phone}</p>}
-                  {invoice.clients.email && <p>Email: {invoice.clients.email}</p>}
-                  {invoice.clients.gst_number && <p>GST: {invoice.clients.gst_number}</p>}
-                  {invoice.clients.pan_number && <p>PAN: {invoice.clients.pan_number}</p>}
-                  {invoice.clients.cin_number && <p>CIN: {invoice.clients.cin_number}</p>}
+              <div className="flex justify-end">
+                <div className="w-64 flex justify-between font-bold">
+                  <span>Net Invoice Value:</span>
+                  <span>
+                    {formatCurrency(
+                      linkedNotes
+                        .filter((note) => note.status !== "cancelled")
+                        .reduce(
+                          (sum, note) => sum + getDocumentSign(note.invoice_type) * Number(note.total_amount),
+                          Number(invoice.total_amount)
+                        ),
+                      invoice.currency
+                    )}
+                  </span>
                 </div>
               </div>
-            </div>
+            </CardContent>
+          </Card>
+        )}
 
-            {/* Invoice Details */}
-            <div className="space-y-1">
-              <div className="flex gap-2">
-                <p className="text-sm text-muted-foreground">Invoice No:</p>
-                <p className="text-sm font-medium">{invoice.invoice_number}</p>
-              </div>
-              <div className="flex gap-2">
-                <p className="text-sm text-muted-foreground">Invoice Date:</p>
-                <p className="text-sm font-medium">{new Date(invoice.invoice_date).toLocaleDateString()}</p>
+        {/* Payments */}
+        {invoice.invoice_type !== CREDIT_NOTE && (
+          <Card className="mt-6">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>Payments</CardTitle>
+                <Badge variant={invoice.status === "paid" ? "default" : "secondary"}>
+                  {STATUS_LABELS[invoice.status] || invoice.status}
+                </Badge>
               </div>
-              {invoice.due_date && (
-                <div className="flex gap-2">
-                  <p className="text-sm text-muted-foreground">Due Date:</p>
-                  <p className="text-sm font-medium">{new Date(invoice.due_date).toLocaleDateString()}</p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                TDS: {formatTdsSection(invoice)}
+                {calculateTds(invoice) > 0 && ` (${formatCurrency(calculateTds(invoice), invoice.currency)} expected)`}
+              </p>
+              {invoice.payments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No payments recorded yet.</p>
+              ) : (
+                <div className="border rounded-lg overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted">
+                      <tr>
+                        <th className="text-left p-3">Date</th>
+                        <th className="text-left p-3">Mode</th>
+                        <th className="text-left p-3">Reference</th>
+                        <th className="text-right p-3">Amount</th>
+                        <th className="text-right p-3">TDS</th>
+                        <th className="p-3"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {invoice.payments.map((payment) => (
+                        <tr key={payment.id} className="border-t">
+                          <td className="p-3">{new Date(payment.payment_date).toLocaleDateString()}</td>
+                          <td className="p-3">{getPaymentModeLabel(payment.mode)}</td>
+                          <td className="p-3">{payment.reference || payment.notes || '-'}</td>
+                          <td className="text-right p-3">{formatCurrency(Number(payment.amount), invoice.currency)}</td>
+                          <td className="text-right p-3">{formatCurrency(Number(payment.tds_amount), invoice.currency)}</td>
+                          <td className="text-right p-3">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDeletePayment(payment.id)}
+                              title="Delete Payment"
+                              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
                 </div>
               )}
-            </div>
-
-            {/* Items Table */}
-            <div className="border rounded-lg overflow-hidden">
-              <table className="w-full">
-                <thead className="bg-muted">
-                  <tr>
-                    <th className="text-left p-3">Description</th>
-                    <th className="text-left p-3">HSN/SAC</th>
-                    <th className="text-right p-3">Quantity</th>
-                    <th className="text-right p-3">Rate</th>
-                    <th className="text-right p-3">Amount</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {Array.isArray(invoice.items) && invoice.items.map((item: any, index: number) => (
-                    <tr key={index} className="border-t">
-                      <td className="p-3">{item.description}</td>
-                      <td className="p-3">{item.hsnSacCode || '-'}</td>
-                      <td className="text-right p-3">{item.quantity}</td>
-                      <td className="text-right p-3">₹{parseFloat(item.rate).toLocaleString('en-IN')}</td>
-                      <td className="text-right p-3">₹{parseFloat(item.amount).toLocaleString('en-IN')}</td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
-
-            {/* Totals */}
-            <div className="flex justify-end">
-              <div className="w-64 space-y-2">
-                <div className="flex justify-between">
-                  <span>Subtotal:</span>
-                  <span>₹{parseFloat(invoice.subtotal.toString()).toLocaleString('en-IN')}</span>
-                </div>
-                {invoice.igst_amount > 0 && (
-                  <div className="flex justify-between">
-                    <span>IGST @ {invoice.igst_rate}%:</span>
-                    <span>₹{parseFloat(invoice.igst_amount.toString()).toLocaleString('en-IN')}</span>
-                  </div>
-                )}
-                {invoice.sgst_amount > 0 && (
+              <div className="flex justify-end">
+                <div className="w-64 space-y-2">
                   <div className="flex justify-between">
-                    <span>SGST @ {invoice.sgst_rate}%:</span>
-                    <span>₹{parseFloat(invoice.sgst_amount.toString()).toLocaleString('en-IN')}</span>
+                    <span>Settled:</span>
+                    <span>{formatCurrency(getSettledAmount(invoice.payments), invoice.currency)}</span>
                   </div>
-                )}
-                {invoice.cgst_amount > 0 && (
-                  <div className="flex justify-between">
-                    <span>CGST @ {invoice.cgst_rate}%:</span>
-                    <span>₹{parseFloat(invoice.cgst_amount.toString()).toLocaleString('en-IN')}</span>
+                  <div className="flex justify-between font-bold border-t pt-2">
+                    <span>Balance Due:</span>
+                    <span>{formatCurrency(getBalanceDue(invoice), invoice.currency)}</span>
                   </div>
-                )}
-                <div className="flex justify-between font-bold text-lg border-t pt-2">
-                  <span>Total:</span>
-                  <span>₹{parseFloat(invoice.total_amount.toString()).toLocaleString('en-IN')}</span>
                 </div>
               </div>
-            </div>
-
-            {/* Banking Details */}
-            <div>
-              <h3 className="font-semibold text-lg mb-2">Banking Details:</h3>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 bg-muted p-4 rounded-lg">
-                <div>
-                  <p className="text-sm text-muted-foreground">Bank Name</p>
-                  <p className="font-medium">{invoice.companies.bank_name || "IDFC FIRST BANK"}</p>
-                </div>
-                <div>
-                  <p className="text-sm text-muted-foreground">Account Name</p>
-                  <p className="font-medium">{invoice.companies.name}</p>
-                </div>
-                <div>
-                  <p className="text-sm text-muted-foreground">Account Number</p>
-                  <p className="font-medium">{invoice.companies.account_number || "79999858727"}</p>
-                </div>
-                <div>
-                  <p className="text-sm text-muted-foreground">IFSC Code</p>
-                  <p className="font-medium">{invoice.companies.ifsc_code || "IDFB0020138"}</p>
-                </div>
-                <div>
-                  <p className="text-sm text-muted-foreground">Branch</p>
-                  <p className="font-medium">{invoice.companies.branch || "Mayur Vihar"}</p>
-                </div>
-                <div>
-                  <p className="text-sm text-muted-foreground">PAN Number</p>
-                  <p className="font-medium">{invoice.companies.pan_number || "AAYFT2120L"}</p>
-                </div>
-              </div>
-            </div>
-
-            {/* Notes and Signature */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div>
-                {invoice.notes && (
-                  <>
-                    <h3 className="font-semibold mb-2">Notes:</h3>
-                    <p className="text-muted-foreground">{invoice.notes}</p>
-                  </>
-                )}
-              </div>
-              <div className="flex flex-col items-end justify-end">
-                <p className="text-sm text-muted-foreground mb-8">Authorized Signatory</p>
-                <p className="text-2xl font-bold italic text-foreground" style={{ fontFamily: 'Georgia, "Times New Roman", serif' }}>
-                  Divij Bajaj
-                </p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        )}
       </div>
+
+      <AlertDialog open={convertDialogOpen} onOpenChange={setConvertDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Convert to Tax Invoice</AlertDialogTitle>
+            <AlertDialogDescription>
+              A new tax invoice dated today will be created from {invoice.invoice_number} with the same client,
+              company and items, numbered from the company's default invoice series. This{" "}
+              {invoice.invoice_type.toLowerCase()} will be marked as converted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={converting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConvert} disabled={converting}>
+              {converting ? "Converting..." : "Convert"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <RecordPaymentDialog
+        invoice={paymentDialogOpen ? invoice : null}
+        onOpenChange={setPaymentDialogOpen}
+        onRecorded={fetchInvoice}
+      />
+
+      <EInvoiceDialog
+        invoice={eInvoiceDialogOpen ? invoice : null}
+        onOpenChange={setEInvoiceDialogOpen}
+        onSaved={fetchInvoice}
+      />
     </div>
   );
 };
@@ -0,0 +1,320 @@
+import { useCallback, useEffect, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Download, Edit, FileText } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { generateInvoicePDF } from "@/utils/pdfGenerator";
+import { InvoiceItem } from "@/components/InvoiceItemsEditor";
+import { InvoiceDocument, loadInvoiceDocument } from "@/utils/invoiceDocument";
+import InvoiceDocumentView from "@/components/InvoiceDocumentView";
+import { checkCompanyProfile } from "@/utils/companyProfile";
+import {
+  MANUAL_QUOTATION_STATUSES,
+  QUOTATION,
+  Quotation,
+  canInvoiceQuotation,
+  getQuotationStatus,
+  getQuotationStatusLabel,
+} from "@/utils/quotations";
+
+type QuotationDetails = Quotation & {
+  companies: {
+    name: string;
+    address: string | null;
+    phone: string | null;
+    email: string | null;
+    gst_number: string | null;
+    bank_name: string | null;
+    account_number: string | null;
+    ifsc_code: string | null;
+    branch: string | null;
+    pan_number: string | null;
+    logo_url: string | null;
+  };
+  clients: {
+    name: string;
+    company_name: string | null;
+    address: string | null;
+    phone: string | null;
+    email: string | null;
+    gst_number: string | null;
+    pan_number: string | null;
+    cin_number: string | null;
+  };
+  invoices: { id: string; invoice_number: string } | null;
+};
+
+const ViewQuotation = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [quotation, setQuotation] = useState<QuotationDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [convertDialogOpen, setConvertDialogOpen] = useState(false);
+  const [converting, setConverting] = useState(false);
+  const [quotationDocument, setQuotationDocument] = useState<InvoiceDocument | null>(null);
+
+  const fetchQuotation = useCallback(async () => {
+    if (!user || !id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("quotations")
+        .select(`
+          *,
+          companies (name, address, phone, email, gst_number, bank_name, account_number, ifsc_code, branch, pan_number, logo_url),
+          clients (name, company_name, address, phone, email, gst_number, pan_number, cin_number),
+          invoices!quotations_invoice_id_fkey (id, invoice_number)
+        `)
+        .eq("id", id)
+        .eq("user_id", user.id)
+        .single();
+
+      if (error) throw error;
+      setQuotation(data as unknown as QuotationDetails);
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error("Error fetching quotation:", error);
+      }
+      toast.error("Failed to load quotation");
+      navigate("/quotations");
+    } finally {
+      setLoading(false);
+    }
+  }, [user, id, navigate]);
+
+  useEffect(() => {
+    fetchQuotation();
+  }, [fetchQuotation]);
+
+  // Quotations print through the invoice layout with the company's signatory and template
+  useEffect(() => {
+    if (!quotation) return;
+
+    let cancelled = false;
+    loadInvoiceDocument({
+      ...quotation,
+      invoice_number: quotation.quotation_number,
+      invoice_date: quotation.quotation_date,
+      invoice_type: QUOTATION,
+      items: Array.isArray(quotation.items) ? (quotation.items as unknown as InvoiceItem[]) : [],
+    })
+      .then((loaded) => {
+        if (!cancelled) setQuotationDocument(loaded);
+      })
+      .catch((error) => {
+        if (import.meta.env.DEV) {
+          console.error("Error loading quotation document:", error);
+        }
+        toast.error("Failed to render quotation");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [quotation]);
+
+  const handleStatusChange = async (status: string) => {
+    if (!quotation) return;
+
+    const { error } = await supabase
+      .from("quotations")
+      .update({ status })
+      .eq("id", quotation.id);
+
+    if (error) {
+      toast.error("Failed to update status");
+      return;
+    }
+    toast.success(`Quotation marked ${getQuotationStatusLabel(status).toLowerCase()}`);
+    fetchQuotation();
+  };
+
+  // The database numbers the new tax invoice and links it back to this quotation in one go
+  const handleConvert = async () => {
+    if (!quotation) return;
+
+    setConverting(true);
+    try {
+      const { data: newInvoiceId, error } = await supabase.rpc("convert_quotation_to_invoice", {
+        quotation_uuid: quotation.id,
+      });
+
+      if (error) throw error;
+      toast.success("Tax invoice created from quotation");
+      setConvertDialogOpen(false);
+      navigate(`/view-invoice/${newInvoiceId}`);
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error("Error converting quotation:", error);
+      }
+      toast.error("Failed to create invoice");
+    } finally {
+      setConverting(false);
+    }
+  };
+
+  const handleDownloadPDF = async () => {
+    if (!quotation || !quotationDocument) return;
+
+    const profile = checkCompanyProfile(quotation.companies);
+    if (profile.error) {
+      toast.error(profile.error);
+      return;
+    }
+    if (profile.warning) toast.warning(profile.warning);
+
+    try {
+      await generateInvoicePDF(quotationDocument);
+      toast.success("PDF downloaded successfully!");
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error("Error generating PDF:", error);
+      }
+      toast.error("Failed to generate PDF");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!quotation) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold mb-4">Quotation not found</h2>
+          <Button onClick={() => navigate("/quotations")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Quotations
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const status = getQuotationStatus(quotation);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <Button variant="outline" onClick={() => navigate("/quotations")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Quotations
+          </Button>
+          <div className="flex gap-2">
+            {!quotation.invoice_id && (
+              <>
+                <Select value={status} onValueChange={handleStatusChange}>
+                  <SelectTrigger className="w-36 bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MANUAL_QUOTATION_STATUSES.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {getQuotationStatusLabel(option)}
+                      </SelectItem>
+                    ))}
+                    {status === "expired" && (
+                      <SelectItem value="expired" disabled>
+                        Expired
+                      </SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" onClick={() => navigate(`/quotations/${quotation.id}/edit`)}>
+                  <Edit className="h-4 w-4 mr-2" />
+                  Edit
+                </Button>
+              </>
+            )}
+            {canInvoiceQuotation(quotation) && (
+              <Button variant="outline" onClick={() => setConvertDialogOpen(true)}>
+                <FileText className="h-4 w-4 mr-2" />
+                Create Invoice
+              </Button>
+            )}
+            <Button onClick={handleDownloadPDF} disabled={!quotationDocument}>
+              <Download className="h-4 w-4 mr-2" />
+              Download PDF
+            </Button>
+          </div>
+        </div>
+
+        {quotation.invoices && (
+          <div className="mb-4 rounded-lg border border-blue-200 bg-blue-50 p-3 text-sm text-blue-800">
+            Invoiced as{" "}
+            <button
+              type="button"
+              className="font-medium underline"
+              onClick={() => navigate(`/view-invoice/${quotation.invoices?.id}`)}
+            >
+              {quotation.invoices.invoice_number}
+            </button>
+          </div>
+        )}
+
+        {status === "expired" && !quotation.invoice_id && (
+          <div className="mb-4 rounded-lg border border-orange-200 bg-orange-50 p-3 text-sm text-orange-800">
+            This quotation expired on {new Date(quotation.valid_until).toLocaleDateString()}. Extend the validity
+            date to reopen it.
+          </div>
+        )}
+
+        <div className="mb-4 flex items-center gap-2 text-sm text-muted-foreground">
+          Status
+          <Badge variant={status === "accepted" ? "default" : "secondary"}>{getQuotationStatusLabel(status)}</Badge>
+        </div>
+
+        <Card className="overflow-hidden">
+          {quotationDocument ? (
+            <InvoiceDocumentView document={quotationDocument} />
+          ) : (
+            <CardContent className="p-8 text-center text-muted-foreground">Preparing quotation...</CardContent>
+          )}
+        </Card>
+      </div>
+
+      <AlertDialog open={convertDialogOpen} onOpenChange={setConvertDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Create Tax Invoice</AlertDialogTitle>
+            <AlertDialogDescription>
+              A draft tax invoice dated today will be created from {quotation.quotation_number} with the same client,
+              company and items, numbered from the company's default invoice series. A quotation can only be
+              invoiced once.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={converting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConvert} disabled={converting}>
+              {converting ? "Creating..." : "Create Invoice"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ViewQuotation;
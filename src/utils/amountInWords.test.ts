@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { amountInWords, numberToIndianWords, numberToWords } from "./amountInWords";
+
+describe("numberToIndianWords", () => {
+  it("reads zero", () => {
+    expect(numberToIndianWords(0)).toBe("Zero");
+  });
+
+  it("groups by thousand, lakh and crore", () => {
+    expect(numberToIndianWords(1000)).toBe("One Thousand");
+    expect(numberToIndianWords(100000)).toBe("One Lakh");
+    expect(numberToIndianWords(1234567)).toBe("Twelve Lakh Thirty Four Thousand Five Hundred Sixty Seven");
+    expect(numberToIndianWords(10000000)).toBe("One Crore");
+    expect(numberToIndianWords(98765432)).toBe("Nine Crore Eighty Seven Lakh Sixty Five Thousand Four Hundred Thirty Two");
+  });
+
+  it("reads a hundred crore and more as a number of crores", () => {
+    expect(numberToIndianWords(1000000000)).toBe("One Hundred Crore");
+    expect(numberToIndianWords(12345678901)).toBe(
+      "One Thousand Two Hundred Thirty Four Crore Fifty Six Lakh Seventy Eight Thousand Nine Hundred One"
+    );
+  });
+});
+
+describe("numberToWords", () => {
+  it("groups by thousand, million and billion", () => {
+    expect(numberToWords(0)).toBe("Zero");
+    expect(numberToWords(1234567)).toBe("One Million Two Hundred Thirty Four Thousand Five Hundred Sixty Seven");
+    expect(numberToWords(2000000015)).toBe("Two Billion Fifteen");
+  });
+});
+
+describe("amountInWords", () => {
+  it("states rupees and paise", () => {
+    expect(amountInWords(120050.5)).toBe("Rupees One Lakh Twenty Thousand Fifty and Fifty Paise Only");
+    expect(amountInWords(1180)).toBe("Rupees One Thousand One Hundred Eighty Only");
+  });
+
+  it("uses the singular for one rupee and one paisa", () => {
+    expect(amountInWords(1)).toBe("Rupee One Only");
+    expect(amountInWords(2.01)).toBe("Rupees Two and One Paisa Only");
+  });
+
+  it("states amounts below a rupee in paise alone", () => {
+    expect(amountInWords(0.75)).toBe("Seventy Five Paise Only");
+  });
+
+  it("states zero", () => {
+    expect(amountInWords(0)).toBe("Rupees Zero Only");
+  });
+
+  it("rounds to the paisa", () => {
+    expect(amountInWords(10.005)).toBe("Rupees Ten and One Paisa Only");
+  });
+
+  it("states amounts of a hundred crore and more", () => {
+    expect(amountInWords(1500000000)).toBe("Rupees One Hundred Fifty Crore Only");
+  });
+
+  it("states foreign currencies in international grouping", () => {
+    expect(amountInWords(1234567.5, "USD")).toBe(
+      "US Dollars One Million Two Hundred Thirty Four Thousand Five Hundred Sixty Seven and Fifty Cents Only"
+    );
+    expect(amountInWords(1.01, "GBP")).toBe("Pound Sterling One and One Penny Only");
+    expect(amountInWords(250, "EUR")).toBe("Euros Two Hundred Fifty Only");
+  });
+
+  it("introduces currencies without a name of their own by their code", () => {
+    expect(amountInWords(100.25, "JPY")).toBe("JPY One Hundred and Twenty Five Cents Only");
+  });
+});
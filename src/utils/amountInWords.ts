@@ -0,0 +1,88 @@
+const ONES = [
+  "", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine", "Ten",
+  "Eleven", "Twelve", "Thirteen", "Fourteen", "Fifteen", "Sixteen", "Seventeen", "Eighteen", "Nineteen",
+];
+const TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+
+const belowHundred = (n: number) =>
+  n < 20 ? ONES[n] : [TENS[Math.floor(n / 10)], ONES[n % 10]].filter(Boolean).join(" ");
+
+const belowThousand = (n: number) =>
+  [n >= 100 && `${ONES[Math.floor(n / 100)]} Hundred`, belowHundred(n % 100)].filter(Boolean).join(" ");
+
+// Indian grouping: thousands, then lakhs (1,00,000) and crores (1,00,00,000). Amounts of a
+// hundred crore and more are read as "<n> Crore", e.g. "One Hundred Twenty Crore".
+export const numberToIndianWords = (value: number): string => {
+  const n = Math.floor(Math.abs(value));
+  if (n === 0) return "Zero";
+
+  const crore = Math.floor(n / 10000000);
+  const lakh = Math.floor((n % 10000000) / 100000);
+  const thousand = Math.floor((n % 100000) / 1000);
+  const rest = n % 1000;
+
+  return [
+    crore > 0 && `${numberToIndianWords(crore)} Crore`,
+    lakh > 0 && `${belowHundred(lakh)} Lakh`,
+    thousand > 0 && `${belowHundred(thousand)} Thousand`,
+    rest > 0 && belowThousand(rest),
+  ]
+    .filter(Boolean)
+    .join(" ");
+};
+
+// International grouping for foreign currencies: thousands, millions and billions
+export const numberToWords = (value: number): string => {
+  const n = Math.floor(Math.abs(value));
+  if (n === 0) return "Zero";
+
+  const billion = Math.floor(n / 1000000000);
+  const million = Math.floor((n % 1000000000) / 1000000);
+  const thousand = Math.floor((n % 1000000) / 1000);
+  const rest = n % 1000;
+
+  return [
+    billion > 0 && `${numberToWords(billion)} Billion`,
+    million > 0 && `${belowThousand(million)} Million`,
+    thousand > 0 && `${belowThousand(thousand)} Thousand`,
+    rest > 0 && belowThousand(rest),
+  ]
+    .filter(Boolean)
+    .join(" ");
+};
+
+interface CurrencyWords {
+  major: [string, string];
+  minor: [string, string];
+}
+
+// Singular and plural names of each currency's unit and hundredth
+const CURRENCY_WORDS: Record<string, CurrencyWords> = {
+  INR: { major: ["Rupee", "Rupees"], minor: ["Paisa", "Paise"] },
+  USD: { major: ["US Dollar", "US Dollars"], minor: ["Cent", "Cents"] },
+  EUR: { major: ["Euro", "Euros"], minor: ["Cent", "Cents"] },
+  GBP: { major: ["Pound Sterling", "Pounds Sterling"], minor: ["Penny", "Pence"] },
+  AED: { major: ["UAE Dirham", "UAE Dirhams"], minor: ["Fils", "Fils"] },
+  SGD: { major: ["Singapore Dollar", "Singapore Dollars"], minor: ["Cent", "Cents"] },
+  AUD: { major: ["Australian Dollar", "Australian Dollars"], minor: ["Cent", "Cents"] },
+  CAD: { major: ["Canadian Dollar", "Canadian Dollars"], minor: ["Cent", "Cents"] },
+};
+
+const pick = ([singular, plural]: [string, string], count: number) => (count === 1 ? singular : plural);
+
+// "Rupees One Lakh Twenty Thousand and Fifty Paise Only", and foreign currencies the way
+// their own readers write them: "US Dollars One Hundred Twenty Thousand Only". Currencies
+// without a name of their own are introduced by their code.
+export const amountInWords = (amount: number, currency = "INR") => {
+  const hundredths = Math.round(Math.abs(amount) * 100);
+  const major = Math.floor(hundredths / 100);
+  const minor = hundredths % 100;
+  const words = CURRENCY_WORDS[currency];
+  const toWords = currency === "INR" ? numberToIndianWords : numberToWords;
+
+  const majorName = words ? pick(words.major, major) : currency;
+  const minorPart = minor > 0 && `${toWords(minor)} ${words ? pick(words.minor, minor) : "Cents"}`;
+
+  if (major === 0 && minorPart) return `${minorPart} Only`;
+  return `${majorName} ${toWords(major)}${minorPart ? ` and ${minorPart}` : ""} Only`;
+};
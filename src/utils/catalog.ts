@@ -0,0 +1,108 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { GST_RATES } from "./gst";
+import { parseCsv, toCsv } from "./csv";
+
+export type CatalogItem = Tables<"catalog_items">;
+
+export type CatalogItemFields = Pick<CatalogItem, "name" | "description" | "hsn_sac_code" | "unit" | "rate" | "gst_rate">;
+
+// GST unit quantity codes (UQC) as used in returns and e-invoices
+export const UNITS = [
+  { code: "NOS", label: "Numbers" },
+  { code: "PCS", label: "Pieces" },
+  { code: "UNT", label: "Units" },
+  { code: "SET", label: "Sets" },
+  { code: "PRS", label: "Pairs" },
+  { code: "DOZ", label: "Dozens" },
+  { code: "BOX", label: "Box" },
+  { code: "BAG", label: "Bags" },
+  { code: "BTL", label: "Bottles" },
+  { code: "CTN", label: "Cartons" },
+  { code: "GMS", label: "Grammes" },
+  { code: "KGS", label: "Kilograms" },
+  { code: "TON", label: "Tonnes" },
+  { code: "MLT", label: "Millilitre" },
+  { code: "LTR", label: "Litres" },
+  { code: "KLR", label: "Kilolitre" },
+  { code: "MTR", label: "Metres" },
+  { code: "SQF", label: "Square Feet" },
+  { code: "SQM", label: "Square Metres" },
+  { code: "OTH", label: "Others" },
+] as const;
+
+export const DEFAULT_UNIT = "NOS";
+
+export const fetchCatalogItems = async (companyId: string) => {
+  const { data, error } = await supabase
+    .from("catalog_items")
+    .select("*")
+    .eq("company_id", companyId)
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// What a catalogue item fills in on an invoice line
+export const toInvoiceLine = (item: CatalogItem) => ({
+  description: item.description ? `${item.name} - ${item.description}` : item.name,
+  hsnSacCode: item.hsn_sac_code || "",
+  unit: item.unit,
+  rate: Number(item.rate),
+  gstRate: Number(item.gst_rate),
+});
+
+const CSV_HEADERS = ["name", "description", "hsn_sac_code", "unit", "rate", "gst_rate"] as const;
+
+export const getCatalogCsvTemplate = () =>
+  toCsv([[...CSV_HEADERS], ["Website maintenance", "Monthly retainer", "998314", "NOS", 15000, 18]]);
+
+// One item per row under a header naming the columns, in any order. Only name is required;
+// a name listed twice keeps its last row. Rows that do not make sense are reported by
+// their line number and left out.
+export const parseCatalogCsv = (text: string): { items: CatalogItemFields[]; errors: string[] } => {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  const columns = (header || []).map((column) => column.trim().toLowerCase());
+  if (!columns.includes("name")) {
+    return { items: [], errors: [`The first row must name the columns: ${CSV_HEADERS.join(", ")}`] };
+  }
+
+  const items = new Map<string, CatalogItemFields>();
+  const errors: string[] = [];
+
+  rows.forEach((row, index) => {
+    const line = index + 2;
+    const cell = (column: (typeof CSV_HEADERS)[number]) => row[columns.indexOf(column)]?.trim() || "";
+
+    const name = cell("name");
+    const unit = (cell("unit") || DEFAULT_UNIT).toUpperCase();
+    const rate = cell("rate") ? Number(cell("rate").replace(/,/g, "")) : 0;
+    const gstRate = cell("gst_rate") ? Number(cell("gst_rate").replace(/%$/, "")) : 18;
+
+    const error = !name
+      ? "name is missing"
+      : !UNITS.some((option) => option.code === unit)
+        ? `unknown unit "${unit}"`
+        : !Number.isFinite(rate) || rate < 0
+          ? `rate "${cell("rate")}" is not an amount`
+          : !(GST_RATES as readonly number[]).includes(gstRate)
+            ? `GST rate "${cell("gst_rate")}" is not a GST slab`
+            : null;
+    if (error) {
+      errors.push(`Row ${line}: ${error}`);
+      return;
+    }
+
+    items.set(name, {
+      name,
+      description: cell("description") || null,
+      hsn_sac_code: cell("hsn_sac_code") || null,
+      unit,
+      rate,
+      gst_rate: gstRate,
+    });
+  });
+
+  return { items: Array.from(items.values()), errors };
+};
@@ -0,0 +1,58 @@
+export interface CompanyProfile {
+  name?: string | null;
+  address?: string | null;
+  gst_number?: string | null;
+  pan_number?: string | null;
+  bank_name?: string | null;
+  account_number?: string | null;
+  ifsc_code?: string | null;
+  branch?: string | null;
+}
+
+type ProfileField = { key: keyof CompanyProfile; label: string };
+
+// Documents cannot be issued without these
+export const REQUIRED_COMPANY_FIELDS: ProfileField[] = [
+  { key: "name", label: "Company name" },
+  { key: "address", label: "Address" },
+];
+
+// Documents can still be issued, but the client will have no way to pay or verify the supplier
+export const RECOMMENDED_COMPANY_FIELDS: ProfileField[] = [
+  { key: "pan_number", label: "PAN" },
+  { key: "bank_name", label: "Bank name" },
+  { key: "account_number", label: "Account number" },
+  { key: "ifsc_code", label: "IFSC code" },
+];
+
+const getMissingFields = (company: CompanyProfile | null | undefined, fields: ProfileField[]) =>
+  fields.filter(({ key }) => !company?.[key]?.trim()).map(({ label }) => label);
+
+export const getCompanyProfileGaps = (company: CompanyProfile | null | undefined) => ({
+  required: getMissingFields(company, REQUIRED_COMPANY_FIELDS),
+  recommended: getMissingFields(company, RECOMMENDED_COMPANY_FIELDS),
+});
+
+// Blank fields are left off the document rather than printed empty or filled in
+export const getBankingDetails = (company: CompanyProfile | null | undefined) => {
+  const hasBankAccount = !!(company?.bank_name || company?.account_number || company?.ifsc_code);
+  const details = [
+    { label: "Bank Name", value: company?.bank_name },
+    { label: "Account Name", value: hasBankAccount ? company?.name : null },
+    { label: "Account Number", value: company?.account_number },
+    { label: "IFSC Code", value: company?.ifsc_code },
+    { label: "Branch", value: company?.branch },
+    { label: "PAN Number", value: company?.pan_number },
+  ];
+  return details.filter((detail): detail is { label: string; value: string } => !!detail.value?.trim());
+};
+
+// Run before generating a document: an error blocks it, a warning lets it go ahead
+export const checkCompanyProfile = (company: CompanyProfile | null | undefined) => {
+  const { required, recommended } = getCompanyProfileGaps(company);
+  return {
+    error: required.length > 0 ? `Complete the company profile first. Missing: ${required.join(", ")}` : null,
+    warning:
+      recommended.length > 0 ? `The company profile has no ${recommended.join(", ")}; left off the document` : null,
+  };
+};
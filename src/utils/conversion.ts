@@ -0,0 +1,18 @@
+// Documents issued before the supply that are billed later through a tax invoice
+export const CONVERTIBLE_TYPES = ["Proforma Invoice", "Purchase Order"] as const;
+
+interface ConvertibleDocument {
+  invoice_type: string;
+  status: string | null;
+  converted_to_id?: string | null;
+}
+
+export const canConvertToTaxInvoice = (invoice: ConvertibleDocument) =>
+  (CONVERTIBLE_TYPES as readonly string[]).includes(invoice.invoice_type) &&
+  !invoice.converted_to_id &&
+  invoice.status !== "converted" &&
+  invoice.status !== "cancelled";
+
+// Converted documents are billed through their tax invoice and left out of totals
+export const isBillable = (invoice: { status: string | null }) =>
+  invoice.status !== "cancelled" && invoice.status !== "converted";
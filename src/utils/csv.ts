@@ -0,0 +1,46 @@
+// RFC 4180 style: fields may be quoted, quoted fields may hold commas, line breaks and
+// doubled quotes. Blank lines are dropped.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== "")) rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") {
+      endRow();
+    } else if (char !== "\r") {
+      field += char;
+    }
+  }
+  endRow();
+
+  return rows;
+};
+
+const escapeField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const toCsv = (rows: (string | number)[][]) =>
+  rows.map((row) => row.map((value) => escapeField(String(value))).join(",")).join("\r\n");
@@ -0,0 +1,51 @@
+import { TaxBreakup } from "./gst";
+import { roundMoney } from "./money";
+
+// Invoices are in rupees unless they are exports billed in the client's currency. Foreign
+// amounts are stored as billed and converted at the invoice's exchange rate wherever they
+// are added up in rupees: the ledger, the dashboard and the GST returns.
+
+export const DEFAULT_CURRENCY = "INR";
+
+export const CURRENCIES = [
+  { code: "INR", symbol: "₹", name: "Indian Rupee" },
+  { code: "USD", symbol: "$", name: "US Dollar" },
+  { code: "EUR", symbol: "€", name: "Euro" },
+  { code: "GBP", symbol: "£", name: "Pound Sterling" },
+  { code: "AED", symbol: "AED ", name: "UAE Dirham" },
+  { code: "SGD", symbol: "S$", name: "Singapore Dollar" },
+  { code: "AUD", symbol: "A$", name: "Australian Dollar" },
+  { code: "CAD", symbol: "C$", name: "Canadian Dollar" },
+] as const;
+
+interface ConvertibleAmount {
+  currency?: string | null;
+  exchange_rate?: number | null;
+}
+
+export const isForeignCurrency = (currency?: string | null) => !!currency && currency !== DEFAULT_CURRENCY;
+
+export const getCurrencySymbol = (currency?: string | null) =>
+  CURRENCIES.find((option) => option.code === (currency || DEFAULT_CURRENCY))?.symbol ?? `${currency} `;
+
+// Rupees in Indian grouping (1,00,000.00), other currencies in thousands (100,000.00)
+export const formatCurrency = (amount: number, currency?: string | null) =>
+  `${Number(amount) < 0 ? "-" : ""}${getCurrencySymbol(currency)}${Math.abs(Number(amount)).toLocaleString(
+    isForeignCurrency(currency) ? "en-US" : "en-IN",
+    { minimumFractionDigits: 2, maximumFractionDigits: 2 }
+  )}`;
+
+// What an amount on the invoice comes to in rupees, to the paisa
+export const toInr = (amount: number | string | null | undefined, invoice: ConvertibleAmount) =>
+  isForeignCurrency(invoice.currency)
+    ? roundMoney(Number(amount || 0) * Number(invoice.exchange_rate || 1))
+    : Number(amount || 0);
+
+// A rate slab or HSN row of a foreign currency invoice at its rupee value
+export const toInrBreakup = <T extends TaxBreakup>(row: T, invoice: ConvertibleAmount): T => ({
+  ...row,
+  taxableValue: toInr(row.taxableValue, invoice),
+  igstAmount: toInr(row.igstAmount, invoice),
+  sgstAmount: toInr(row.sgstAmount, invoice),
+  cgstAmount: toInr(row.cgstAmount, invoice),
+});
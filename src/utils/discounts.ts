@@ -0,0 +1,97 @@
+import { calculateLineAmount, calculatePercentage, fromPaise, roundMoney, sumMoney, toPaise } from "./money";
+
+export const DISCOUNT_TYPES = [
+  { value: "percent", label: "%" },
+  { value: "amount", label: "₹" },
+] as const;
+
+export type DiscountType = (typeof DISCOUNT_TYPES)[number]["value"];
+
+export interface Discount {
+  type: DiscountType;
+  value: number;
+}
+
+export const NO_DISCOUNT: Discount = { type: "percent", value: 0 };
+
+export interface DiscountedItem {
+  quantity: number;
+  rate: number;
+  discountType?: DiscountType;
+  discount?: number;
+  amount: number;
+}
+
+// Never more than the amount it is taken off
+export const calculateDiscount = (base: number, discount: Discount) => {
+  const value = Number(discount.value || 0);
+  if (value <= 0) return 0;
+  const amount = discount.type === "percent" ? calculatePercentage(base, value) : roundMoney(value);
+  return Math.min(amount, base);
+};
+
+export const getItemDiscount = (item: DiscountedItem): Discount => ({
+  type: item.discountType ?? "percent",
+  value: Number(item.discount || 0),
+});
+
+// The line's taxable value: quantity x rate less its own discount
+export const calculateItemAmount = (item: DiscountedItem) => {
+  const gross = calculateLineAmount(item.quantity, item.rate);
+  return sumMoney([gross, -calculateDiscount(gross, getItemDiscount(item))]);
+};
+
+// Discount taken off a saved line; lines saved before discounts have none
+export const getItemDiscountAmount = (item: DiscountedItem) =>
+  Math.max(0, sumMoney([calculateLineAmount(item.quantity, item.rate), -item.amount]));
+
+// Everything taken off a saved document, from its lines and on the whole
+export const getDocumentDiscount = (document: { items: unknown; discount_amount?: number | null }) =>
+  sumMoney([
+    ...(Array.isArray(document.items) ? (document.items as DiscountedItem[]) : []).map(getItemDiscountAmount),
+    document.discount_amount,
+  ]);
+
+export const formatDiscount = (discount: Discount, formatAmount: (amount: number) => string) =>
+  discount.type === "percent" ? `${Number(discount.value)}%` : formatAmount(discount.value);
+
+// Spreads an invoice level discount over the lines in proportion to their value, so tax is
+// charged on what is actually billed for each rate slab. Paise left over from the split go to
+// the lines with the largest remainders.
+export const allocateDiscount = <T extends { amount: number }>(items: T[], discountAmount: number): T[] => {
+  const discountPaise = toPaise(discountAmount);
+  const totalPaise = items.reduce((sum, item) => sum + Math.max(0, toPaise(item.amount)), 0);
+  if (discountPaise <= 0 || totalPaise <= 0) return items;
+
+  const shares = items.map((item, index) => {
+    const exact = (Math.max(0, toPaise(item.amount)) * discountPaise) / totalPaise;
+    return { index, paise: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+  let leftover = discountPaise - shares.reduce((sum, share) => sum + share.paise, 0);
+  [...shares]
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach((share) => {
+      if (leftover <= 0) return;
+      share.paise += 1;
+      leftover -= 1;
+    });
+
+  return items.map((item, index) => ({ ...item, amount: fromPaise(toPaise(item.amount) - shares[index].paise) }));
+};
+
+interface StoredDiscount {
+  discount_type?: string | null;
+  discount_value?: number | null;
+}
+
+export const toDiscount = (row: StoredDiscount): Discount =>
+  row.discount_type === "amount" || row.discount_type === "percent"
+    ? { type: row.discount_type, value: Number(row.discount_value || 0) }
+    : NO_DISCOUNT;
+
+// Columns saved with a document; no discount is stored as a null type
+export const fromDiscount = (discount: Discount, discountAmount: number) => ({
+  discount_type: discountAmount > 0 ? discount.type : null,
+  discount_value: discountAmount > 0 ? Number(discount.value) : 0,
+  discount_amount: discountAmount,
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { EInvoiceSource, prepareEInvoice } from "./einvoice";
+import { calculateItemAmount } from "./discounts";
+import { sumMoney } from "./money";
+import { getGstinCheckCharacter } from "./taxIds";
+
+const sellerGstin = `29ABCPE1234F1Z${getGstinCheckCharacter("29ABCPE1234F1Z")}`;
+
+const exportInvoice = (items: { amount: number }[], discountAmount = 0): EInvoiceSource => ({
+  invoice_number: "EXP/0001",
+  invoice_date: "2026-10-18",
+  invoice_type: "Tax Invoice",
+  place_of_supply: "96",
+  discount_amount: discountAmount,
+  total_amount: sumMoney([...items.map((item) => item.amount), -discountAmount]),
+  is_export: true,
+  currency: "USD",
+  exchange_rate: 83.1234,
+  items,
+  companies: {
+    name: "Acme Traders Pvt Ltd",
+    address: "12 MG Road, Bengaluru, Karnataka 560001",
+    gst_number: sellerGstin,
+  },
+  clients: { name: "Globex Inc", address: "1 Main Street, Springfield, USA" },
+});
+
+describe("buildEInvoice for a foreign currency export", () => {
+  it.each([1, 3, 7, 9])("reports no discount on an undiscounted line of quantity %i", (quantity) => {
+    const items = [{ description: "Widgets", hsnSacCode: "7326", quantity, rate: 10.08, gstRate: 18, amount: 0 }].map(
+      (item) => ({ ...item, amount: calculateItemAmount(item) })
+    );
+    const { payload, errors } = prepareEInvoice(exportInvoice(items));
+    const [line] = payload.ItemList;
+
+    expect(errors).toEqual([]);
+    expect(line.Discount).toBe(0);
+    expect(line.AssAmt).toBe(line.TotAmt);
+    expect(line.IgstAmt).toBe(0);
+  });
+
+  it("converts line and invoice discounts without going negative", () => {
+    const items = [
+      { description: "Widgets", hsnSacCode: "7326", quantity: 7, rate: 10.08, gstRate: 18, discountType: "percent" as const, discount: 5, amount: 0 },
+      { description: "Brackets", hsnSacCode: "7326", quantity: 9, rate: 10.08, gstRate: 18, amount: 0 },
+    ].map((item) => ({ ...item, amount: calculateItemAmount(item) }));
+    const { payload, errors } = prepareEInvoice(exportInvoice(items, 2));
+
+    expect(errors).toEqual([]);
+    payload.ItemList.forEach((line) => {
+      expect(line.Discount).toBeGreaterThan(0);
+      expect(Math.round((line.TotAmt - line.Discount) * 100)).toBe(Math.round(line.AssAmt * 100));
+    });
+  });
+});
@@ -0,0 +1,373 @@
+import { z } from "zod";
+import {
+  EXPORT_PLACE_OF_SUPPLY,
+  GST_RATES,
+  GST_STATES,
+  getInvoiceSupplyType,
+  getItemGstRate,
+  getStateCodeFromGstin,
+  splitGstRate,
+} from "./gst";
+import { allocateDiscount, getItemDiscountAmount } from "./discounts";
+import { calculateLineAmount, calculatePercentage, sumMoney } from "./money";
+import { isForeignCurrency, toInr } from "./currency";
+import { CREDIT_NOTE, DEBIT_NOTE, TAX_INVOICE } from "./notes";
+import { isValidGstin } from "./taxIds";
+
+// GST e-invoice in the NIC INV-01 schema, version 1.1, for uploading to the IRP. Only
+// B2B tax invoices, exports under LUT and the credit and debit notes against them are
+// reported, always in rupees.
+
+interface EInvoiceItem {
+  description: string;
+  hsnSacCode?: string;
+  quantity: number;
+  rate: number;
+  gstRate?: number;
+  unit?: string;
+  amount: number;
+}
+
+interface EInvoiceParty {
+  name: string;
+  company_name?: string | null;
+  address?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  gst_number?: string | null;
+}
+
+export interface EInvoiceSource {
+  invoice_number: string;
+  invoice_date: string;
+  invoice_type: string;
+  place_of_supply?: string | null;
+  igst_rate?: number | null;
+  igst_amount?: number | null;
+  sgst_rate?: number | null;
+  sgst_amount?: number | null;
+  cgst_rate?: number | null;
+  cgst_amount?: number | null;
+  discount_amount?: number | null;
+  total_amount: number;
+  is_export?: boolean | null;
+  currency?: string | null;
+  exchange_rate?: number | null;
+  items: unknown;
+  original_invoice?: { invoice_number: string; invoice_date: string } | null;
+  companies?: EInvoiceParty | null;
+  clients?: EInvoiceParty | null;
+}
+
+const DOCUMENT_TYPES: Record<string, "INV" | "CRN" | "DBN"> = {
+  [TAX_INVOICE]: "INV",
+  [CREDIT_NOTE]: "CRN",
+  [DEBIT_NOTE]: "DBN",
+};
+
+export const isEInvoiceType = (invoiceType?: string | null) => !!invoiceType && invoiceType in DOCUMENT_TYPES;
+
+const STATE_CODES = GST_STATES.map((state) => state.code) as string[];
+
+// Foreign buyers have no GSTIN or Indian PIN code; the schema takes these in their place
+const UNREGISTERED_BUYER = "URP";
+const FOREIGN_PIN = 999999;
+
+const text = (label: string, min: number, max: number) =>
+  z
+    .string()
+    .trim()
+    .min(min, min === 1 ? `${label} is missing` : `${label} must be at least ${min} characters`)
+    .max(max, `${label} must be at most ${max} characters`);
+
+const amount = (label: string) => z.number().nonnegative(`${label} cannot be negative`);
+
+const stateCode = (label: string) =>
+  z.string().refine((code) => STATE_CODES.includes(code), `${label} is not a GST state code`);
+
+const optionalPhone = z
+  .string()
+  .regex(/^\d{6,12}$/, "Phone must be 6 to 12 digits")
+  .optional();
+
+const optionalEmail = z.string().email("Email is not valid").max(100).optional();
+
+const pin = (label: string) => {
+  const message = `${label} PIN code is missing; add the 6 digit PIN to the address`;
+  return z.number().int().min(100000, message).max(999999, message);
+};
+
+// The constraints of the published JSON schema that a document from this app can break
+export const eInvoiceSchema = z.object({
+  Version: z.literal("1.1"),
+  TranDtls: z.object({
+    TaxSch: z.literal("GST"),
+    SupTyp: z.enum(["B2B", "SEZWP", "SEZWOP", "EXPWP", "EXPWOP", "DEXP"]),
+    RegRev: z.enum(["Y", "N"]),
+    IgstOnIntra: z.enum(["Y", "N"]),
+  }),
+  DocDtls: z.object({
+    Typ: z.enum(["INV", "CRN", "DBN"]),
+    No: z
+      .string()
+      .regex(
+        /^[a-zA-Z1-9][a-zA-Z0-9/-]{0,15}$/,
+        "Document number must be up to 16 letters, digits, / or -, not starting with 0, / or -"
+      ),
+    Dt: z.string().regex(/^\d{2}\/\d{2}\/\d{4}$/, "Document date must be dd/mm/yyyy"),
+  }),
+  SellerDtls: z.object({
+    Gstin: z.string().refine(isValidGstin, "Seller GSTIN is not valid"),
+    LglNm: text("Seller name", 3, 100),
+    Addr1: text("Seller address", 1, 100),
+    Addr2: text("Seller address line 2", 3, 100).optional(),
+    Loc: text("Seller location (the city before the PIN in the address)", 3, 50),
+    Pin: pin("Seller"),
+    Stcd: stateCode("Seller state"),
+    Ph: optionalPhone,
+    Em: optionalEmail,
+  }),
+  BuyerDtls: z.object({
+    Gstin: z.string().refine((gstin) => gstin === UNREGISTERED_BUYER || isValidGstin(gstin), "Buyer GSTIN is not valid"),
+    LglNm: text("Buyer name", 3, 100),
+    Pos: stateCode("Place of supply"),
+    Addr1: text("Buyer address", 1, 100),
+    Addr2: text("Buyer address line 2", 3, 100).optional(),
+    Loc: text("Buyer location (the city before the PIN in the address)", 3, 50),
+    Pin: pin("Buyer"),
+    Stcd: stateCode("Buyer state"),
+    Ph: optionalPhone,
+    Em: optionalEmail,
+  }),
+  RefDtls: z
+    .object({
+      PrecDocDtls: z.array(z.object({ InvNo: z.string().min(1).max(16), InvDt: z.string() })).min(1),
+    })
+    .optional(),
+  ExpDtls: z
+    .object({
+      ForCur: z.string().regex(/^[A-Z]{3}$/, "Currency must be a 3 letter code").optional(),
+    })
+    .optional(),
+  ItemList: z
+    .array(
+      z.object({
+        SlNo: z.string(),
+        PrdDesc: text("Item description", 3, 300),
+        IsServc: z.enum(["Y", "N"]),
+        HsnCd: z.string().regex(/^(\d{4}|\d{6}|\d{8})$/, "HSN/SAC code must be 4, 6 or 8 digits"),
+        Qty: amount("Quantity"),
+        Unit: z.string().min(3).max(8),
+        UnitPrice: amount("Rate"),
+        TotAmt: amount("Line amount"),
+        Discount: amount("Discount"),
+        AssAmt: amount("Taxable value"),
+        GstRt: z.number().refine((rate) => (GST_RATES as readonly number[]).includes(rate), "GST rate is not a GST slab"),
+        IgstAmt: amount("IGST"),
+        CgstAmt: amount("CGST"),
+        SgstAmt: amount("SGST"),
+        TotItemVal: amount("Item total"),
+      })
+    )
+    .min(1, "The document has no items")
+    .max(1000, "An e-invoice can have at most 1000 items"),
+  ValDtls: z.object({
+    AssVal: amount("Taxable value"),
+    CgstVal: amount("CGST"),
+    SgstVal: amount("SGST"),
+    IgstVal: amount("IGST"),
+    Discount: amount("Discount"),
+    RndOffAmt: z.number().min(-99.99, "Round off is too large").max(99.99, "Round off is too large"),
+    TotInvVal: amount("Invoice total"),
+  }),
+});
+
+export type EInvoice = z.infer<typeof eInvoiceSchema>;
+
+// "2026-10-18" as "18/10/2026"
+const toEInvoiceDate = (date: string) => date.slice(0, 10).split("-").reverse().join("/");
+
+const PIN_CODE = /\b[1-9]\d{5}\b/;
+
+// Addresses are free text, so the PIN is the six digit number in it and the location the
+// part just before it, e.g. "12 MG Road, Bengaluru, Karnataka 560001"
+export const splitAddress = (address?: string | null) => {
+  const value = (address || "").replace(/\s+/g, " ").trim();
+  const pinCode = value.match(PIN_CODE)?.[0];
+  const stateNames = GST_STATES.map((state) => state.name.toLowerCase());
+  const parts = value
+    .replace(PIN_CODE, "")
+    .split(",")
+    .map((part) => part.replace(/[\s-]+$/, "").trim())
+    .filter(Boolean);
+  const location = [...parts].reverse().find((part) => !stateNames.includes(part.toLowerCase()) && part.length >= 3);
+
+  return {
+    line: parts.join(", ").slice(0, 100),
+    location: location?.slice(0, 50),
+    pin: pinCode ? Number(pinCode) : null,
+  };
+};
+
+const optional = (value?: string | null) => value?.trim() || undefined;
+
+const toParty = (party: EInvoiceParty | null | undefined, name: string) => {
+  const address = splitAddress(party?.address);
+  return {
+    Gstin: (party?.gst_number || "").trim().toUpperCase(),
+    LglNm: name,
+    Addr1: address.line,
+    Loc: address.location ?? "",
+    Pin: address.pin ?? 0,
+    Stcd: getStateCodeFromGstin(party?.gst_number) ?? "",
+    Ph: optional(party?.phone?.replace(/\D/g, "")),
+    Em: optional(party?.email),
+  };
+};
+
+// Amounts go in as stored: line amounts are net of their own discount, and the invoice
+// discount is spread over the lines the same way tax was worked out, so each line's
+// taxable value matches the HSN summary printed on the invoice. Exports billed in another
+// currency are converted at the invoice's exchange rate, and carry no tax under LUT. The
+// line value and the discounts are converted on their own, so the discount on a line is
+// never a difference left by rounding two conversions.
+export const buildEInvoice = (invoice: EInvoiceSource): EInvoice => {
+  const storedItems = Array.isArray(invoice.items) ? (invoice.items as EInvoiceItem[]) : [];
+  const supplyType = getInvoiceSupplyType(invoice);
+  const isExport = !!invoice.is_export;
+  const discountAmount = Number(invoice.discount_amount || 0);
+  const convertedItems = storedItems.map((item) => {
+    const lineAmount = toInr(calculateLineAmount(item.quantity, item.rate), invoice);
+    const lineDiscount = getItemDiscountAmount(item);
+    return {
+      ...item,
+      rate: toInr(item.rate, invoice),
+      lineAmount,
+      amount: lineDiscount > 0 ? sumMoney([lineAmount, -toInr(lineDiscount, invoice)]) : lineAmount,
+    };
+  });
+  const taxableItems = allocateDiscount(convertedItems, discountAmount > 0 ? toInr(discountAmount, invoice) : 0);
+
+  const itemList = taxableItems.map((item, index) => {
+    const gstRate = getItemGstRate(item, invoice);
+    const { igstRate, sgstRate, cgstRate } = splitGstRate(gstRate, supplyType);
+    const { lineAmount } = item;
+    const taxes = isExport
+      ? [0, 0, 0]
+      : [
+          calculatePercentage(item.amount, igstRate),
+          calculatePercentage(item.amount, cgstRate),
+          calculatePercentage(item.amount, sgstRate),
+        ];
+    const hsnSacCode = (item.hsnSacCode || "").trim();
+    return {
+      SlNo: String(index + 1),
+      PrdDesc: item.description,
+      // SAC codes for services all start with 99
+      IsServc: hsnSacCode.startsWith("99") ? ("Y" as const) : ("N" as const),
+      HsnCd: hsnSacCode,
+      Qty: Number(item.quantity),
+      Unit: item.unit || "OTH",
+      UnitPrice: Number(item.rate),
+      TotAmt: lineAmount,
+      Discount: sumMoney([lineAmount, -item.amount]),
+      AssAmt: Number(item.amount),
+      GstRt: gstRate,
+      IgstAmt: taxes[0],
+      CgstAmt: taxes[1],
+      SgstAmt: taxes[2],
+      TotItemVal: sumMoney([item.amount, ...taxes]),
+    };
+  });
+
+  const assessableValue = sumMoney(itemList.map((item) => item.AssAmt));
+  const igst = sumMoney(itemList.map((item) => item.IgstAmt));
+  const cgst = sumMoney(itemList.map((item) => item.CgstAmt));
+  const sgst = sumMoney(itemList.map((item) => item.SgstAmt));
+  const totalAmount = toInr(invoice.total_amount, invoice);
+  const seller = invoice.companies;
+  const buyer = invoice.clients;
+  const buyerDetails = toParty(buyer, buyer?.company_name || buyer?.name || "");
+
+  return {
+    Version: "1.1",
+    TranDtls: { TaxSch: "GST", SupTyp: isExport ? "EXPWOP" : "B2B", RegRev: "N", IgstOnIntra: "N" },
+    DocDtls: {
+      Typ: DOCUMENT_TYPES[invoice.invoice_type] ?? "INV",
+      No: invoice.invoice_number,
+      Dt: toEInvoiceDate(invoice.invoice_date),
+    },
+    SellerDtls: toParty(seller, seller?.name || ""),
+    BuyerDtls: isExport
+      ? {
+          ...buyerDetails,
+          Gstin: UNREGISTERED_BUYER,
+          Pos: EXPORT_PLACE_OF_SUPPLY,
+          Pin: FOREIGN_PIN,
+          Stcd: EXPORT_PLACE_OF_SUPPLY,
+        }
+      : { ...buyerDetails, Pos: invoice.place_of_supply || "" },
+    ...(invoice.original_invoice && {
+      RefDtls: {
+        PrecDocDtls: [
+          {
+            InvNo: invoice.original_invoice.invoice_number,
+            InvDt: toEInvoiceDate(invoice.original_invoice.invoice_date),
+          },
+        ],
+      },
+    }),
+    ...(isExport && {
+      ExpDtls: isForeignCurrency(invoice.currency) ? { ForCur: invoice.currency || undefined } : {},
+    }),
+    ItemList: itemList,
+    ValDtls: {
+      AssVal: assessableValue,
+      CgstVal: cgst,
+      SgstVal: sgst,
+      IgstVal: igst,
+      Discount: 0,
+      // Takes in the invoice's round-off along with any paisa left over from taxing per line
+      RndOffAmt: sumMoney([totalAmount, -assessableValue, -igst, -cgst, -sgst]),
+      TotInvVal: totalAmount,
+    },
+  };
+};
+
+// Checks the document can be reported at all, then the payload against the schema. Each
+// problem is one readable line; an empty list means the JSON is ready to upload.
+export const validateEInvoice = (invoice: EInvoiceSource, payload: EInvoice): string[] => {
+  if (!isEInvoiceType(invoice.invoice_type)) {
+    return [`${invoice.invoice_type} documents are not reported on the e-invoice portal`];
+  }
+  if (!invoice.is_export && !invoice.clients?.gst_number?.trim()) {
+    return ["The client has no GSTIN; e-invoices are only issued to registered buyers"];
+  }
+
+  const result = eInvoiceSchema.safeParse(payload);
+  if (result.success) return [];
+  return result.error.issues.map((issue) =>
+    issue.path[0] === "ItemList" && issue.path.length > 2
+      ? `Item ${Number(issue.path[1]) + 1}: ${issue.message}`
+      : issue.message
+  );
+};
+
+export const prepareEInvoice = (invoice: EInvoiceSource) => {
+  const payload = buildEInvoice(invoice);
+  return { payload, errors: validateEInvoice(invoice, payload) };
+};
+
+// The portal's bulk upload takes a list of documents, so even a single one goes in a list
+export const downloadEInvoiceJson = (payloads: EInvoice[], fileName: string) => {
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(
+    new Blob([JSON.stringify(payloads, null, 2)], { type: "application/json" })
+  );
+  link.download = `${fileName}.json`;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+// 64 hexadecimal characters, as returned by the IRP
+export const isValidIrn = (irn: string) => /^[0-9a-f]{64}$/i.test(irn.trim());
@@ -0,0 +1,300 @@
+import { calculatePercentage, calculateRoundOff, fromPaise, sumMoney, toPaise } from "./money";
+import { Discount, NO_DISCOUNT, allocateDiscount, calculateDiscount } from "./discounts";
+
+// GST state codes as used in the first two digits of a GSTIN
+export const GST_STATES = [
+  { code: "01", name: "Jammu and Kashmir" },
+  { code: "02", name: "Himachal Pradesh" },
+  { code: "03", name: "Punjab" },
+  { code: "04", name: "Chandigarh" },
+  { code: "05", name: "Uttarakhand" },
+  { code: "06", name: "Haryana" },
+  { code: "07", name: "Delhi" },
+  { code: "08", name: "Rajasthan" },
+  { code: "09", name: "Uttar Pradesh" },
+  { code: "10", name: "Bihar" },
+  { code: "11", name: "Sikkim" },
+  { code: "12", name: "Arunachal Pradesh" },
+  { code: "13", name: "Nagaland" },
+  { code: "14", name: "Manipur" },
+  { code: "15", name: "Mizoram" },
+  { code: "16", name: "Tripura" },
+  { code: "17", name: "Meghalaya" },
+  { code: "18", name: "Assam" },
+  { code: "19", name: "West Bengal" },
+  { code: "20", name: "Jharkhand" },
+  { code: "21", name: "Odisha" },
+  { code: "22", name: "Chhattisgarh" },
+  { code: "23", name: "Madhya Pradesh" },
+  { code: "24", name: "Gujarat" },
+  { code: "26", name: "Dadra and Nagar Haveli and Daman and Diu" },
+  { code: "27", name: "Maharashtra" },
+  { code: "29", name: "Karnataka" },
+  { code: "30", name: "Goa" },
+  { code: "31", name: "Lakshadweep" },
+  { code: "32", name: "Kerala" },
+  { code: "33", name: "Tamil Nadu" },
+  { code: "34", name: "Puducherry" },
+  { code: "35", name: "Andaman and Nicobar Islands" },
+  { code: "36", name: "Telangana" },
+  { code: "37", name: "Andhra Pradesh" },
+  { code: "38", name: "Ladakh" },
+  { code: "97", name: "Other Territory" },
+  // Place of supply of exports only; no GSTIN is registered under it
+  { code: "96", name: "Other Countries" },
+] as const;
+
+export const EXPORT_PLACE_OF_SUPPLY = "96";
+
+export const GST_RATES = [0, 0.25, 3, 5, 12, 18, 28] as const;
+
+export type SupplyType = "intra_state" | "inter_state";
+
+export interface TaxRates {
+  igstRate: number;
+  sgstRate: number;
+  cgstRate: number;
+}
+
+export const getStateName = (code?: string | null): string | null => {
+  if (!code) return null;
+  return GST_STATES.find((state) => state.code === code)?.name ?? null;
+};
+
+export const formatPlaceOfSupply = (code?: string | null): string | null => {
+  const name = getStateName(code);
+  return name ? `${code} - ${name}` : null;
+};
+
+// Reads the state code from the first two digits of a GSTIN, if it is a known one
+export const getStateCodeFromGstin = (gstin?: string | null): string | null => {
+  const code = gstin?.trim().slice(0, 2);
+  return code && getStateName(code) ? code : null;
+};
+
+// Supply within the supplier's own state attracts CGST + SGST, anything else IGST
+export const getSupplyType = (
+  supplierStateCode: string | null,
+  placeOfSupply: string | null
+): SupplyType => {
+  return supplierStateCode && supplierStateCode === placeOfSupply ? "intra_state" : "inter_state";
+};
+
+export const splitGstRate = (gstRate: number, supplyType: SupplyType): TaxRates => {
+  if (supplyType === "intra_state") {
+    return { igstRate: 0, sgstRate: gstRate / 2, cgstRate: gstRate / 2 };
+  }
+  return { igstRate: gstRate, sgstRate: 0, cgstRate: 0 };
+};
+
+export const isAutomaticSplit = (rates: TaxRates, gstRate: number, supplyType: SupplyType) => {
+  const expected = splitGstRate(gstRate, supplyType);
+  return (
+    Number(rates.igstRate) === expected.igstRate &&
+    Number(rates.sgstRate) === expected.sgstRate &&
+    Number(rates.cgstRate) === expected.cgstRate
+  );
+};
+
+export interface TaxableItem {
+  hsnSacCode?: string;
+  amount: number;
+  gstRate?: number;
+}
+
+export interface TaxBreakup {
+  taxableValue: number;
+  igstAmount: number;
+  sgstAmount: number;
+  cgstAmount: number;
+}
+
+export interface TaxSlab extends TaxBreakup {
+  rate: number;
+}
+
+export interface HsnSummaryRow extends TaxSlab {
+  hsnSacCode: string;
+}
+
+export interface TaxLine {
+  label: string;
+  amount: number;
+}
+
+// Zero rated supplies keep their slab's rate but carry no tax
+const applyGstRate = (taxableValue: number, rate: number, supplyType: SupplyType, zeroRated: boolean): TaxBreakup => {
+  const { igstRate, sgstRate, cgstRate } = splitGstRate(zeroRated ? 0 : rate, supplyType);
+  return {
+    taxableValue,
+    igstAmount: calculatePercentage(taxableValue, igstRate),
+    sgstAmount: calculatePercentage(taxableValue, sgstRate),
+    cgstAmount: calculatePercentage(taxableValue, cgstRate),
+  };
+};
+
+const getItemRate = (item: TaxableItem, fallbackRate: number) => Number(item.gstRate ?? fallbackRate);
+
+// Groups line items into one taxable value per GST rate slab
+export const calculateTaxSlabs = (
+  items: TaxableItem[],
+  supplyType: SupplyType,
+  fallbackRate = 0,
+  zeroRated = false
+): TaxSlab[] => {
+  const taxableByRate = new Map<number, number>();
+  items.forEach((item) => {
+    const rate = getItemRate(item, fallbackRate);
+    taxableByRate.set(rate, (taxableByRate.get(rate) || 0) + toPaise(item.amount));
+  });
+  return Array.from(taxableByRate, ([rate, taxablePaise]) => ({
+    rate,
+    ...applyGstRate(fromPaise(taxablePaise), rate, supplyType, zeroRated),
+  })).sort((a, b) => a.rate - b.rate);
+};
+
+// HSN/SAC-wise summary as required on GST invoices, one row per code and rate
+export const summarizeByHsn = (
+  items: TaxableItem[],
+  supplyType: SupplyType,
+  fallbackRate = 0,
+  zeroRated = false
+): HsnSummaryRow[] => {
+  const rows = new Map<string, { hsnSacCode: string; rate: number; taxablePaise: number }>();
+  items.forEach((item) => {
+    const hsnSacCode = item.hsnSacCode?.trim() || "-";
+    const rate = getItemRate(item, fallbackRate);
+    const key = `${hsnSacCode}|${rate}`;
+    const row = rows.get(key) || { hsnSacCode, rate, taxablePaise: 0 };
+    row.taxablePaise += toPaise(item.amount);
+    rows.set(key, row);
+  });
+  return Array.from(rows.values(), ({ hsnSacCode, rate, taxablePaise }) => ({
+    hsnSacCode,
+    rate,
+    ...applyGstRate(fromPaise(taxablePaise), rate, supplyType, zeroRated),
+  }));
+};
+
+export const sumTaxBreakup = (rows: TaxBreakup[]): TaxBreakup => ({
+  taxableValue: sumMoney(rows.map((row) => row.taxableValue)),
+  igstAmount: sumMoney(rows.map((row) => row.igstAmount)),
+  sgstAmount: sumMoney(rows.map((row) => row.sgstAmount)),
+  cgstAmount: sumMoney(rows.map((row) => row.cgstAmount)),
+});
+
+export interface InvoiceTotals extends Omit<TaxBreakup, "taxableValue"> {
+  // What the lines add up to, and that less the invoice level discount
+  itemsTotal: number;
+  discountAmount: number;
+  subtotal: number;
+  slabs: TaxSlab[];
+  totalTax: number;
+  roundOff: number;
+  total: number;
+}
+
+interface InvoiceTotalsOptions {
+  discount?: Discount;
+  roundOff?: boolean;
+  // Exports under a Letter of Undertaking, billed without IGST
+  zeroRated?: boolean;
+}
+
+// Line amounts are already net of their own discounts. An invoice discount is spread over
+// the lines before tax, so GST is charged on the taxable value actually billed. With
+// roundOff the total is taken to the nearest rupee and the difference returned as its
+// own line.
+export const calculateInvoiceTotals = (
+  items: TaxableItem[],
+  supplyType: SupplyType,
+  { discount = NO_DISCOUNT, roundOff = false, zeroRated = false }: InvoiceTotalsOptions = {}
+): InvoiceTotals => {
+  const itemsTotal = sumMoney(items.map((item) => item.amount));
+  const discountAmount = calculateDiscount(itemsTotal, discount);
+  const subtotal = sumMoney([itemsTotal, -discountAmount]);
+  const slabs = calculateTaxSlabs(allocateDiscount(items, discountAmount), supplyType, 0, zeroRated);
+  const { igstAmount, sgstAmount, cgstAmount } = sumTaxBreakup(slabs);
+  const totalTax = sumMoney([igstAmount, sgstAmount, cgstAmount]);
+  const unrounded = sumMoney([subtotal, totalTax]);
+  const roundOffAmount = roundOff ? calculateRoundOff(unrounded) : 0;
+  return {
+    itemsTotal,
+    discountAmount,
+    subtotal,
+    slabs,
+    igstAmount,
+    sgstAmount,
+    cgstAmount,
+    totalTax,
+    roundOff: roundOffAmount,
+    total: sumMoney([unrounded, roundOffAmount]),
+  };
+};
+
+// The single rate shared by every item, or null when the invoice mixes slabs
+export const getUniformGstRate = (items: TaxableItem[], fallbackRate = 0): number | null => {
+  const rates = new Set(items.map((item) => getItemRate(item, fallbackRate)));
+  return rates.size === 1 ? Array.from(rates)[0] : null;
+};
+
+export const getTaxSlabLines = (slabs: TaxSlab[], supplyType: SupplyType): TaxLine[] =>
+  slabs.flatMap((slab) => {
+    const rates = splitGstRate(slab.rate, supplyType);
+    return [
+      { label: `IGST @ ${rates.igstRate}%`, amount: slab.igstAmount },
+      { label: `SGST @ ${rates.sgstRate}%`, amount: slab.sgstAmount },
+      { label: `CGST @ ${rates.cgstRate}%`, amount: slab.cgstAmount },
+    ].filter((line) => line.amount > 0);
+  });
+
+interface StoredInvoiceTax {
+  items: unknown;
+  igst_rate?: number | null;
+  igst_amount?: number | null;
+  sgst_rate?: number | null;
+  sgst_amount?: number | null;
+  cgst_rate?: number | null;
+  cgst_amount?: number | null;
+  discount_amount?: number | null;
+  is_export?: boolean | null;
+}
+
+const getStoredItems = (invoice: StoredInvoiceTax): TaxableItem[] =>
+  Array.isArray(invoice.items) ? (invoice.items as TaxableItem[]) : [];
+
+// Each line's share of the invoice discount taken off, as it was when tax was worked out
+const getTaxableItems = (invoice: StoredInvoiceTax) =>
+  allocateDiscount(getStoredItems(invoice), Number(invoice.discount_amount || 0));
+
+const hasItemRates = (invoice: StoredInvoiceTax) =>
+  getStoredItems(invoice).some((item) => item.gstRate !== undefined && item.gstRate !== null);
+
+export const getInvoiceSupplyType = (invoice: Pick<StoredInvoiceTax, "sgst_amount" | "cgst_amount">): SupplyType =>
+  Number(invoice.sgst_amount || 0) > 0 || Number(invoice.cgst_amount || 0) > 0 ? "intra_state" : "inter_state";
+
+// Invoices saved before per-item rates only carry the invoice level split
+const getLegacyRate = (invoice: StoredInvoiceTax) =>
+  Number(invoice.igst_rate || 0) + Number(invoice.sgst_rate || 0) + Number(invoice.cgst_rate || 0);
+
+export const getInvoiceTaxLines = (invoice: StoredInvoiceTax): TaxLine[] => {
+  if (!hasItemRates(invoice)) {
+    return [
+      { label: `IGST @ ${invoice.igst_rate}%`, amount: Number(invoice.igst_amount || 0) },
+      { label: `SGST @ ${invoice.sgst_rate}%`, amount: Number(invoice.sgst_amount || 0) },
+      { label: `CGST @ ${invoice.cgst_rate}%`, amount: Number(invoice.cgst_amount || 0) },
+    ].filter((line) => line.amount > 0);
+  }
+  const supplyType = getInvoiceSupplyType(invoice);
+  return getTaxSlabLines(calculateTaxSlabs(getTaxableItems(invoice), supplyType, 0, !!invoice.is_export), supplyType);
+};
+
+// Taxable value and tax per rate slab, as worked out when the invoice was saved
+export const getInvoiceTaxSlabs = (invoice: StoredInvoiceTax): TaxSlab[] =>
+  calculateTaxSlabs(getTaxableItems(invoice), getInvoiceSupplyType(invoice), getLegacyRate(invoice), !!invoice.is_export);
+
+export const getInvoiceHsnSummary = (invoice: StoredInvoiceTax): HsnSummaryRow[] =>
+  summarizeByHsn(getTaxableItems(invoice), getInvoiceSupplyType(invoice), getLegacyRate(invoice), !!invoice.is_export);
+
+export const getItemGstRate = (item: TaxableItem, invoice: StoredInvoiceTax) =>
+  getItemRate(item, getLegacyRate(invoice));
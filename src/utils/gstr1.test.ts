@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { Gstr1Source, buildGstr1 } from "./gstr1";
+import { CREDIT_NOTE, DEBIT_NOTE } from "./notes";
+import { getGstinCheckCharacter } from "./taxIds";
+
+const withCheckCharacter = (gstin: string) => `${gstin}${getGstinCheckCharacter(gstin)}`;
+
+const companyGstin = withCheckCharacter("29ABCPE1234F1Z");
+const buyerGstin = withCheckCharacter("27AAACK1234A1Z");
+
+const registered = { name: "Ravi Kumar", company_name: "Kumar Industries", gst_number: buyerGstin };
+const unregistered = { name: "Meera Iyer" };
+
+// 18% on the taxable value, split in CGST and SGST within the state and IGST across states
+const invoice = (taxableValue: number, interState: boolean, overrides: Partial<Gstr1Source> = {}): Gstr1Source => {
+  const tax = Math.round(taxableValue * 18) / 100;
+  return {
+    id: "INV/0001",
+    invoice_number: "INV/0001",
+    invoice_date: "2026-10-18",
+    invoice_type: "Tax Invoice",
+    status: "sent",
+    place_of_supply: interState ? "27" : "29",
+    igst_amount: interState ? tax : 0,
+    cgst_amount: interState ? 0 : tax / 2,
+    sgst_amount: interState ? 0 : tax / 2,
+    total_amount: taxableValue + tax,
+    items: [{ hsnSacCode: "7326", quantity: 1, gstRate: 18, unit: "NOS", amount: taxableValue }],
+    clients: unregistered,
+    ...overrides,
+  };
+};
+
+const note = (type: string, original: Gstr1Source, overrides: Partial<Gstr1Source> = {}) =>
+  invoice(100, Number(original.igst_amount) > 0, {
+    id: "CN/0001",
+    invoice_number: "CN/0001",
+    invoice_type: type,
+    invoice_date: "2026-10-25",
+    clients: original.clients,
+    original_invoice: original,
+    ...overrides,
+  });
+
+const build = (invoices: Gstr1Source[]) => buildGstr1(companyGstin, "2026-10", invoices);
+
+describe("buildGstr1", () => {
+  it("reports invoices to registered buyers one by one in B2B", () => {
+    const gstr1 = build([invoice(1000, true, { clients: registered })]);
+
+    expect(gstr1.issues).toEqual([]);
+    expect(gstr1.b2b).toHaveLength(1);
+    expect(gstr1.b2b[0]).toMatchObject({ gstin: buyerGstin, value: 1180, placeOfSupply: "27", noteType: null });
+    expect(gstr1.b2cl).toEqual([]);
+    expect(gstr1.b2cs).toEqual([]);
+  });
+
+  it("reports inter-state invoices to unregistered buyers above the limit in B2CL", () => {
+    const gstr1 = build([invoice(100000, true)]);
+
+    expect(gstr1.b2cl).toHaveLength(1);
+    expect(gstr1.b2cl[0]).toMatchObject({ gstin: "", value: 118000, supplyType: "inter_state" });
+    expect(gstr1.b2cs).toEqual([]);
+  });
+
+  it("totals other supplies to unregistered buyers in B2CS by place of supply and rate", () => {
+    const gstr1 = build([
+      invoice(1000, false),
+      invoice(500, false, { id: "INV/0002", invoice_number: "INV/0002" }),
+      // Inter-state, but not above the limit
+      invoice(80000, true, { id: "INV/0003", invoice_number: "INV/0003" }),
+    ]);
+
+    expect(gstr1.b2cl).toEqual([]);
+    expect(gstr1.b2cs).toEqual([
+      { supplyType: "intra_state", placeOfSupply: "29", rate: 18, taxableValue: 1500, igstAmount: 0, cgstAmount: 135, sgstAmount: 135 },
+      { supplyType: "inter_state", placeOfSupply: "27", rate: 18, taxableValue: 80000, igstAmount: 14400, cgstAmount: 0, sgstAmount: 0 },
+    ]);
+  });
+
+  it("reports notes to registered buyers in CDNR", () => {
+    const original = invoice(1000, true, { clients: registered });
+    const gstr1 = build([original, note(CREDIT_NOTE, original), note(DEBIT_NOTE, original, { id: "DN/0001", invoice_number: "DN/0001" })]);
+
+    expect(gstr1.issues).toEqual([]);
+    expect(gstr1.cdnr.map((document) => [document.number, document.noteType])).toEqual([
+      ["CN/0001", "C"],
+      ["DN/0001", "D"],
+    ]);
+    expect(gstr1.cdnur).toEqual([]);
+  });
+
+  it("reports notes against B2CL invoices in CDNUR", () => {
+    const original = invoice(100000, true);
+    const gstr1 = build([original, note(CREDIT_NOTE, original)]);
+
+    expect(gstr1.cdnur).toHaveLength(1);
+    expect(gstr1.cdnur[0]).toMatchObject({ number: "CN/0001", noteType: "C", value: 118 });
+    expect(gstr1.b2cs).toEqual([]);
+  });
+
+  it("nets credit notes against small unregistered supplies into B2CS", () => {
+    const original = invoice(1000, false);
+    const gstr1 = build([original, note(CREDIT_NOTE, original)]);
+
+    expect(gstr1.cdnur).toEqual([]);
+    expect(gstr1.b2cs).toEqual([
+      { supplyType: "intra_state", placeOfSupply: "29", rate: 18, taxableValue: 900, igstAmount: 0, cgstAmount: 81, sgstAmount: 81 },
+    ]);
+  });
+
+  it("leaves out drafts, cancelled documents and types that are not supplies", () => {
+    const gstr1 = build([
+      invoice(1000, false, { status: "draft" }),
+      invoice(1000, false, { status: "cancelled" }),
+      invoice(1000, false, { invoice_type: "Proforma Invoice" }),
+    ]);
+
+    expect(gstr1.b2cs).toEqual([]);
+    expect(gstr1.issues).toEqual([]);
+  });
+
+  it("lists an issued document of a type it does not know as an issue", () => {
+    const gstr1 = build([invoice(1000, false, { invoice_type: "Invoice" })]);
+
+    expect(gstr1.b2cs).toEqual([]);
+    expect(gstr1.issues).toEqual([
+      expect.objectContaining({ invoiceId: "INV/0001", message: expect.stringContaining('"Invoice"') }),
+    ]);
+  });
+});
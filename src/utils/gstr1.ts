@@ -0,0 +1,573 @@
+import * as XLSX from "xlsx";
+import { format } from "date-fns";
+import {
+  SupplyType,
+  TaxBreakup,
+  TaxSlab,
+  formatPlaceOfSupply,
+  getInvoiceHsnSummary,
+  getInvoiceSupplyType,
+  getInvoiceTaxSlabs,
+  getItemGstRate,
+  getStateCodeFromGstin,
+  sumTaxBreakup,
+} from "./gst";
+import { isValidGstin } from "./taxIds";
+import { allocateDiscount } from "./discounts";
+import { sumMoney } from "./money";
+import { toInr, toInrBreakup } from "./currency";
+import { CREDIT_NOTE, DEBIT_NOTE, TAX_INVOICE, getDocumentSign, isNote } from "./notes";
+import { CONVERTIBLE_TYPES } from "./conversion";
+import { QUOTATION } from "./quotations";
+
+// GSTR-1 for one GSTIN and tax period, in the sections of the GST offline tool. Only tax
+// invoices and the notes against them are outward supplies; drafts, cancelled documents
+// and the other invoice types the app issues stay out. A type the app does not know is
+// listed as an issue rather than left out unnoticed. Values are in rupees, so exports billed in another
+// currency are converted at their invoice's exchange rate.
+
+// Inter-state invoices to unregistered buyers above this value are reported one by one
+export const B2CL_LIMIT = 100000;
+
+// Issued alongside tax invoices but not outward supplies in themselves
+const NON_SUPPLY_TYPES: string[] = ["Reimbursement Invoice", QUOTATION, ...CONVERTIBLE_TYPES];
+
+interface Gstr1Item {
+  hsnSacCode?: string;
+  quantity: number;
+  gstRate?: number;
+  unit?: string;
+  amount: number;
+}
+
+interface Gstr1OriginalInvoice {
+  total_amount: number;
+  igst_amount?: number | null;
+  sgst_amount?: number | null;
+  cgst_amount?: number | null;
+  currency?: string | null;
+  exchange_rate?: number | null;
+}
+
+export interface Gstr1Source {
+  id: string;
+  invoice_number: string;
+  invoice_date: string;
+  invoice_type: string;
+  status: string | null;
+  place_of_supply?: string | null;
+  igst_rate?: number | null;
+  igst_amount?: number | null;
+  sgst_rate?: number | null;
+  sgst_amount?: number | null;
+  cgst_rate?: number | null;
+  cgst_amount?: number | null;
+  discount_amount?: number | null;
+  total_amount: number;
+  is_export?: boolean | null;
+  currency?: string | null;
+  exchange_rate?: number | null;
+  items: unknown;
+  clients?: { name: string; company_name?: string | null; gst_number?: string | null } | null;
+  original_invoice?: Gstr1OriginalInvoice | null;
+}
+
+export interface Gstr1Issue {
+  invoiceId: string | null;
+  reference: string;
+  message: string;
+}
+
+export interface Gstr1Document {
+  id: string;
+  number: string;
+  date: string;
+  value: number;
+  placeOfSupply: string;
+  supplyType: SupplyType;
+  gstin: string;
+  receiverName: string;
+  noteType: "C" | "D" | null;
+  // Zero rated export under LUT, or a note against one
+  isExport: boolean;
+  slabs: TaxSlab[];
+}
+
+export interface Gstr1B2csRow extends TaxBreakup {
+  supplyType: SupplyType;
+  placeOfSupply: string;
+  rate: number;
+}
+
+export interface Gstr1HsnRow extends TaxBreakup {
+  hsnSacCode: string;
+  rate: number;
+  uqc: string;
+  quantity: number;
+  totalValue: number;
+}
+
+export interface Gstr1Return {
+  gstin: string;
+  period: string;
+  b2b: Gstr1Document[];
+  b2cl: Gstr1Document[];
+  b2cs: Gstr1B2csRow[];
+  exp: Gstr1Document[];
+  cdnr: Gstr1Document[];
+  cdnur: Gstr1Document[];
+  hsnB2b: Gstr1HsnRow[];
+  hsnB2c: Gstr1HsnRow[];
+  issues: Gstr1Issue[];
+}
+
+interface ReturnCandidate {
+  invoice_type: string;
+  status: string | null;
+}
+
+const isIssued = (invoice: ReturnCandidate) =>
+  invoice.status !== "draft" && invoice.status !== "cancelled" && invoice.status !== "converted";
+
+export const isReturnDocument = (invoice: ReturnCandidate) =>
+  (invoice.invoice_type === TAX_INVOICE || isNote(invoice.invoice_type)) && isIssued(invoice);
+
+// Issued documents that are neither reported nor one of the types kept out on purpose
+export const hasUnknownDocumentType = (invoice: ReturnCandidate) =>
+  isIssued(invoice) &&
+  !isReturnDocument(invoice) &&
+  !NON_SUPPLY_TYPES.includes(invoice.invoice_type);
+
+// "2026-10" as the return's filing period "102026"
+export const toFilingPeriod = (period: string) => period.slice(5, 7) + period.slice(0, 4);
+
+const HSN_CODE = /^(\d{4}|\d{6}|\d{8})$/;
+
+const getItems = (invoice: Gstr1Source): Gstr1Item[] =>
+  Array.isArray(invoice.items) ? (invoice.items as Gstr1Item[]) : [];
+
+// SAC codes for services all start with 99 and are reported without a quantity
+const isService = (hsnSacCode: string) => hsnSacCode.startsWith("99");
+
+const isB2cl = (invoice: Gstr1OriginalInvoice) =>
+  getInvoiceSupplyType(invoice) === "inter_state" && toInr(invoice.total_amount, invoice) > B2CL_LIMIT;
+
+const checkDocument = (invoice: Gstr1Source): string[] => {
+  const problems: string[] = [];
+  const gstin = invoice.clients?.gst_number?.trim();
+
+  if (gstin && !invoice.is_export && !isValidGstin(gstin)) problems.push(`Client GSTIN "${gstin}" is not valid`);
+  if (invoice.invoice_number.length > 16) problems.push("Document number is longer than 16 characters");
+  if (isNote(invoice.invoice_type) && !invoice.original_invoice) {
+    problems.push("The note is not linked to an original invoice");
+  }
+  getItems(invoice).forEach((item, index) => {
+    const hsnSacCode = (item.hsnSacCode || "").trim();
+    if (!hsnSacCode) problems.push(`Item ${index + 1} has no HSN/SAC code`);
+    else if (!HSN_CODE.test(hsnSacCode)) problems.push(`Item ${index + 1}: HSN/SAC code "${hsnSacCode}" is not 4, 6 or 8 digits`);
+  });
+  return problems;
+};
+
+// Rows are keyed by code, rate and unit; credit notes count negative
+const addToHsnSummary = (rows: Map<string, Gstr1HsnRow>, invoice: Gstr1Source) => {
+  const sign = getDocumentSign(invoice.invoice_type);
+  const quantities = new Map<string, { quantity: number; unit?: string }>();
+  allocateDiscount(getItems(invoice), Number(invoice.discount_amount || 0)).forEach((item) => {
+    const key = `${item.hsnSacCode?.trim() || "-"}|${getItemGstRate(item, invoice)}`;
+    const entry = quantities.get(key) || { quantity: 0, unit: item.unit };
+    entry.quantity += Number(item.quantity || 0);
+    quantities.set(key, entry);
+  });
+
+  getInvoiceHsnSummary(invoice).map((summary) => toInrBreakup(summary, invoice)).forEach((summary) => {
+    const { quantity, unit } = quantities.get(`${summary.hsnSacCode}|${summary.rate}`) || { quantity: 0 };
+    const service = isService(summary.hsnSacCode);
+    const uqc = service ? "NA" : unit || "OTH";
+    const key = `${summary.hsnSacCode}|${summary.rate}|${uqc}`;
+    const row = rows.get(key) || {
+      hsnSacCode: summary.hsnSacCode,
+      rate: summary.rate,
+      uqc,
+      quantity: 0,
+      taxableValue: 0,
+      igstAmount: 0,
+      cgstAmount: 0,
+      sgstAmount: 0,
+      totalValue: 0,
+    };
+    const taxableValue = sign * summary.taxableValue;
+    const taxes = [sign * summary.igstAmount, sign * summary.cgstAmount, sign * summary.sgstAmount];
+    rows.set(key, {
+      ...row,
+      quantity: service ? 0 : row.quantity + sign * quantity,
+      taxableValue: sumMoney([row.taxableValue, taxableValue]),
+      igstAmount: sumMoney([row.igstAmount, taxes[0]]),
+      cgstAmount: sumMoney([row.cgstAmount, taxes[1]]),
+      sgstAmount: sumMoney([row.sgstAmount, taxes[2]]),
+      totalValue: sumMoney([row.totalValue, taxableValue, ...taxes]),
+    });
+  });
+};
+
+// Small supplies to unregistered buyers are reported as totals per place of supply and rate
+const addToB2cs = (rows: Map<string, Gstr1B2csRow>, document: Gstr1Document, sign: number) => {
+  document.slabs.forEach((slab) => {
+    const key = `${document.supplyType}|${document.placeOfSupply}|${slab.rate}`;
+    const row = rows.get(key) || {
+      supplyType: document.supplyType,
+      placeOfSupply: document.placeOfSupply,
+      rate: slab.rate,
+      taxableValue: 0,
+      igstAmount: 0,
+      cgstAmount: 0,
+      sgstAmount: 0,
+    };
+    rows.set(key, {
+      ...row,
+      taxableValue: sumMoney([row.taxableValue, sign * slab.taxableValue]),
+      igstAmount: sumMoney([row.igstAmount, sign * slab.igstAmount]),
+      cgstAmount: sumMoney([row.cgstAmount, sign * slab.cgstAmount]),
+      sgstAmount: sumMoney([row.sgstAmount, sign * slab.sgstAmount]),
+    });
+  });
+};
+
+// Sorts the period's documents into the return's sections. Anything that would be rejected
+// on upload is listed in issues, one line per problem.
+export const buildGstr1 = (gstin: string, period: string, invoices: Gstr1Source[]): Gstr1Return => {
+  const supplierStateCode = getStateCodeFromGstin(gstin);
+  const result: Gstr1Return = {
+    gstin: gstin.trim().toUpperCase(),
+    period,
+    b2b: [],
+    b2cl: [],
+    b2cs: [],
+    exp: [],
+    cdnr: [],
+    cdnur: [],
+    hsnB2b: [],
+    hsnB2c: [],
+    issues: [],
+  };
+  if (!isValidGstin(gstin)) {
+    result.issues.push({ invoiceId: null, reference: "Company", message: `Company GSTIN "${gstin}" is not valid` });
+  }
+
+  const b2cs = new Map<string, Gstr1B2csRow>();
+  const hsnB2b = new Map<string, Gstr1HsnRow>();
+  const hsnB2c = new Map<string, Gstr1HsnRow>();
+
+  invoices.filter(hasUnknownDocumentType).forEach((invoice) =>
+    result.issues.push({
+      invoiceId: invoice.id,
+      reference: invoice.invoice_number,
+      message: `Document type "${invoice.invoice_type}" is not one the return knows; change it to Tax Invoice if it is a supply`,
+    })
+  );
+
+  invoices.filter(isReturnDocument).forEach((invoice) => {
+    checkDocument(invoice).forEach((message) =>
+      result.issues.push({ invoiceId: invoice.id, reference: invoice.invoice_number, message })
+    );
+
+    // Buyers abroad are unregistered, whatever is on their record
+    const isExport = !!invoice.is_export;
+    const clientGstin = isExport ? "" : invoice.clients?.gst_number?.trim().toUpperCase() || "";
+    const document: Gstr1Document = {
+      id: invoice.id,
+      number: invoice.invoice_number,
+      date: invoice.invoice_date,
+      value: toInr(invoice.total_amount, invoice),
+      placeOfSupply: invoice.place_of_supply || getStateCodeFromGstin(clientGstin) || supplierStateCode || "",
+      supplyType: getInvoiceSupplyType(invoice),
+      gstin: clientGstin,
+      receiverName: invoice.clients?.company_name || invoice.clients?.name || "",
+      noteType: invoice.invoice_type === CREDIT_NOTE ? "C" : invoice.invoice_type === DEBIT_NOTE ? "D" : null,
+      isExport,
+      slabs: getInvoiceTaxSlabs(invoice).map((slab) => toInrBreakup(slab, invoice)),
+    };
+
+    if (isExport) {
+      (document.noteType ? result.cdnur : result.exp).push(document);
+    } else if (clientGstin) {
+      (document.noteType ? result.cdnr : result.b2b).push(document);
+    } else if (document.noteType) {
+      // Notes follow the invoice they adjust: one by one against a B2CL invoice, otherwise
+      // netted into the B2CS totals
+      if (invoice.original_invoice && isB2cl(invoice.original_invoice)) result.cdnur.push(document);
+      else addToB2cs(b2cs, document, getDocumentSign(invoice.invoice_type));
+    } else if (isB2cl(invoice)) {
+      result.b2cl.push(document);
+    } else {
+      addToB2cs(b2cs, document, 1);
+    }
+    addToHsnSummary(clientGstin ? hsnB2b : hsnB2c, invoice);
+  });
+
+  result.b2cs = Array.from(b2cs.values());
+  result.hsnB2b = Array.from(hsnB2b.values());
+  result.hsnB2c = Array.from(hsnB2c.values());
+  return result;
+};
+
+export interface Gstr1SectionSummary extends TaxBreakup {
+  section: string;
+  description: string;
+  count: number;
+}
+
+const sumSlabs = (documents: Gstr1Document[]) => sumTaxBreakup(documents.flatMap((document) => document.slabs));
+
+export const summarizeGstr1 = (gstr1: Gstr1Return): Gstr1SectionSummary[] => [
+  { section: "B2B", description: "Invoices to registered buyers", count: gstr1.b2b.length, ...sumSlabs(gstr1.b2b) },
+  {
+    section: "B2CL",
+    description: `Inter-state invoices to unregistered buyers above ₹${B2CL_LIMIT.toLocaleString("en-IN")}`,
+    count: gstr1.b2cl.length,
+    ...sumSlabs(gstr1.b2cl),
+  },
+  { section: "B2CS", description: "Other supplies to unregistered buyers", count: gstr1.b2cs.length, ...sumTaxBreakup(gstr1.b2cs) },
+  { section: "EXP", description: "Exports under LUT without payment of IGST", count: gstr1.exp.length, ...sumSlabs(gstr1.exp) },
+  { section: "CDNR", description: "Notes to registered buyers", count: gstr1.cdnr.length, ...sumSlabs(gstr1.cdnr) },
+  { section: "CDNUR", description: "Notes against B2CL and export invoices", count: gstr1.cdnur.length, ...sumSlabs(gstr1.cdnur) },
+  {
+    section: "HSN",
+    description: "HSN/SAC summary",
+    count: gstr1.hsnB2b.length + gstr1.hsnB2c.length,
+    ...sumTaxBreakup([...gstr1.hsnB2b, ...gstr1.hsnB2c]),
+  },
+];
+
+// The offline tool numbers rate-wise item rows as rate x 100 + 1
+const toItemRows = (slabs: TaxSlab[]) =>
+  slabs.map((slab) => ({
+    num: Math.round(slab.rate * 100) + 1,
+    itm_det: {
+      txval: slab.taxableValue,
+      rt: slab.rate,
+      iamt: slab.igstAmount,
+      camt: slab.cgstAmount,
+      samt: slab.sgstAmount,
+      csamt: 0,
+    },
+  }));
+
+const toReturnDate = (date: string) => date.slice(0, 10).split("-").reverse().join("-");
+
+const groupByGstin = (documents: Gstr1Document[]) => {
+  const groups = new Map<string, Gstr1Document[]>();
+  documents.forEach((document) => groups.set(document.gstin, [...(groups.get(document.gstin) || []), document]));
+  return Array.from(groups);
+};
+
+const toHsnRows = (rows: Gstr1HsnRow[]) =>
+  rows.map((row, index) => ({
+    num: index + 1,
+    hsn_sc: row.hsnSacCode,
+    uqc: row.uqc,
+    qty: row.quantity,
+    rt: row.rate,
+    txval: row.taxableValue,
+    iamt: row.igstAmount,
+    camt: row.cgstAmount,
+    samt: row.sgstAmount,
+    csamt: 0,
+  }));
+
+// JSON for the GST offline tool's import, one key per section that has documents
+export const toGstr1Json = (gstr1: Gstr1Return) => ({
+  gstin: gstr1.gstin,
+  fp: toFilingPeriod(gstr1.period),
+  ...(gstr1.b2b.length > 0 && {
+    b2b: groupByGstin(gstr1.b2b).map(([ctin, documents]) => ({
+      ctin,
+      inv: documents.map((document) => ({
+        inum: document.number,
+        idt: toReturnDate(document.date),
+        val: document.value,
+        pos: document.placeOfSupply,
+        rchrg: "N",
+        inv_typ: "R",
+        itms: toItemRows(document.slabs),
+      })),
+    })),
+  }),
+  ...(gstr1.b2cl.length > 0 && {
+    b2cl: Array.from(new Set(gstr1.b2cl.map((document) => document.placeOfSupply))).map((pos) => ({
+      pos,
+      inv: gstr1.b2cl
+        .filter((document) => document.placeOfSupply === pos)
+        .map((document) => ({
+          inum: document.number,
+          idt: toReturnDate(document.date),
+          val: document.value,
+          itms: toItemRows(document.slabs),
+        })),
+    })),
+  }),
+  ...(gstr1.b2cs.length > 0 && {
+    b2cs: gstr1.b2cs.map((row) => ({
+      sply_ty: row.supplyType === "intra_state" ? "INTRA" : "INTER",
+      pos: row.placeOfSupply,
+      typ: "OE",
+      rt: row.rate,
+      txval: row.taxableValue,
+      iamt: row.igstAmount,
+      camt: row.cgstAmount,
+      samt: row.sgstAmount,
+      csamt: 0,
+    })),
+  }),
+  ...(gstr1.exp.length > 0 && {
+    exp: [
+      {
+        exp_typ: "WOPAY",
+        inv: gstr1.exp.map((document) => ({
+          inum: document.number,
+          idt: toReturnDate(document.date),
+          val: document.value,
+          itms: document.slabs.map((slab) => ({ txval: slab.taxableValue, rt: slab.rate, iamt: 0, csamt: 0 })),
+        })),
+      },
+    ],
+  }),
+  ...(gstr1.cdnr.length > 0 && {
+    cdnr: groupByGstin(gstr1.cdnr).map(([ctin, documents]) => ({
+      ctin,
+      nt: documents.map((document) => ({
+        ntty: document.noteType,
+        nt_num: document.number,
+        nt_dt: toReturnDate(document.date),
+        val: document.value,
+        pos: document.placeOfSupply,
+        rchrg: "N",
+        inv_typ: "R",
+        itms: toItemRows(document.slabs),
+      })),
+    })),
+  }),
+  ...(gstr1.cdnur.length > 0 && {
+    cdnur: gstr1.cdnur.map((document) => ({
+      typ: document.isExport ? "EXPWOP" : "B2CL",
+      ntty: document.noteType,
+      nt_num: document.number,
+      nt_dt: toReturnDate(document.date),
+      val: document.value,
+      pos: document.placeOfSupply,
+      itms: toItemRows(document.slabs),
+    })),
+  }),
+  ...(gstr1.hsnB2b.length + gstr1.hsnB2c.length > 0 && {
+    hsn: { hsn_b2b: toHsnRows(gstr1.hsnB2b), hsn_b2c: toHsnRows(gstr1.hsnB2c) },
+  }),
+});
+
+// Excel dates and place of supply as the offline tool's template writes them
+const toSheetDate = (date: string) => format(new Date(date), "dd-MMM-yyyy");
+const toSheetPlace = (code: string) => formatPlaceOfSupply(code)?.replace(" - ", "-") || code;
+
+const toSheet = (rows: (string | number)[][]) => XLSX.utils.aoa_to_sheet(rows);
+
+// One sheet per section, with the column headings of the offline tool's Excel template
+export const toGstr1Workbook = (gstr1: Gstr1Return) => {
+  const workbook = XLSX.utils.book_new();
+
+  XLSX.utils.book_append_sheet(
+    workbook,
+    toSheet([
+      ["GSTIN/UIN of Recipient", "Receiver Name", "Invoice Number", "Invoice date", "Invoice Value", "Place Of Supply",
+        "Reverse Charge", "Applicable % of Tax Rate", "Invoice Type", "E-Commerce GSTIN", "Rate", "Taxable Value", "Cess Amount"],
+      ...gstr1.b2b.flatMap((document) =>
+        document.slabs.map((slab) => [
+          document.gstin, document.receiverName, document.number, toSheetDate(document.date), document.value,
+          toSheetPlace(document.placeOfSupply), "N", "", "Regular B2B", "", slab.rate, slab.taxableValue, 0,
+        ])
+      ),
+    ]),
+    "b2b"
+  );
+
+  XLSX.utils.book_append_sheet(
+    workbook,
+    toSheet([
+      ["Invoice Number", "Invoice date", "Invoice Value", "Place Of Supply", "Applicable % of Tax Rate", "Rate",
+        "Taxable Value", "Cess Amount", "E-Commerce GSTIN"],
+      ...gstr1.b2cl.flatMap((document) =>
+        document.slabs.map((slab) => [
+          document.number, toSheetDate(document.date), document.value, toSheetPlace(document.placeOfSupply), "",
+          slab.rate, slab.taxableValue, 0, "",
+        ])
+      ),
+    ]),
+    "b2cl"
+  );
+
+  XLSX.utils.book_append_sheet(
+    workbook,
+    toSheet([
+      ["Type", "Place Of Supply", "Applicable % of Tax Rate", "Rate", "Taxable Value", "Cess Amount", "E-Commerce GSTIN"],
+      ...gstr1.b2cs.map((row) => ["OE", toSheetPlace(row.placeOfSupply), "", row.rate, row.taxableValue, 0, ""]),
+    ]),
+    "b2cs"
+  );
+
+  XLSX.utils.book_append_sheet(
+    workbook,
+    toSheet([
+      ["Export Type", "Invoice Number", "Invoice date", "Invoice Value", "Port Code", "Shipping Bill Number",
+        "Shipping Bill Date", "Rate", "Taxable Value", "Cess Amount"],
+      ...gstr1.exp.flatMap((document) =>
+        document.slabs.map((slab) => [
+          "WOPAY", document.number, toSheetDate(document.date), document.value, "", "", "", slab.rate,
+          slab.taxableValue, 0,
+        ])
+      ),
+    ]),
+    "exp"
+  );
+
+  const noteRows = (documents: Gstr1Document[], withRecipient: boolean) =>
+    documents.flatMap((document) =>
+      document.slabs.map((slab) => [
+        ...(withRecipient ? [document.gstin, document.receiverName] : [document.isExport ? "EXPWOP" : "B2CL"]),
+        document.number, toSheetDate(document.date), document.noteType || "", toSheetPlace(document.placeOfSupply),
+        ...(withRecipient ? ["N", "Regular B2B"] : []),
+        document.value, "", slab.rate, slab.taxableValue, 0,
+      ])
+    );
+
+  XLSX.utils.book_append_sheet(
+    workbook,
+    toSheet([
+      ["GSTIN/UIN of Recipient", "Receiver Name", "Note Number", "Note Date", "Note Type", "Place Of Supply",
+        "Reverse Charge", "Note Supply Type", "Note Value", "Applicable % of Tax Rate", "Rate", "Taxable Value", "Cess Amount"],
+      ...noteRows(gstr1.cdnr, true),
+    ]),
+    "cdnr"
+  );
+
+  XLSX.utils.book_append_sheet(
+    workbook,
+    toSheet([
+      ["UR Type", "Note Number", "Note Date", "Note Type", "Place Of Supply", "Note Value", "Applicable % of Tax Rate",
+        "Rate", "Taxable Value", "Cess Amount"],
+      ...noteRows(gstr1.cdnur, false),
+    ]),
+    "cdnur"
+  );
+
+  const hsnSheet = (rows: Gstr1HsnRow[]) =>
+    toSheet([
+      ["HSN", "Description", "UQC", "Total Quantity", "Total Value", "Rate", "Taxable Value", "Integrated Tax Amount",
+        "Central Tax Amount", "State/UT Tax Amount", "Cess Amount"],
+      ...rows.map((row) => [
+        row.hsnSacCode, "", row.uqc, row.quantity, row.totalValue, row.rate, row.taxableValue, row.igstAmount,
+        row.cgstAmount, row.sgstAmount, 0,
+      ]),
+    ]);
+  XLSX.utils.book_append_sheet(workbook, hsnSheet(gstr1.hsnB2b), "hsn(b2b)");
+  XLSX.utils.book_append_sheet(workbook, hsnSheet(gstr1.hsnB2c), "hsn(b2c)");
+
+  return workbook;
+};
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { Gstr3bSource, buildGstr3b } from "./gstr3b";
+import { CREDIT_NOTE } from "./notes";
+
+interface Line {
+  amount: number;
+  gstRate: number;
+}
+
+// Tax on each line at its rate, split in CGST and SGST within the state and IGST across states
+const invoice = (lines: Line[], interState: boolean, overrides: Partial<Gstr3bSource> = {}): Gstr3bSource => {
+  const tax = lines.reduce((sum, line) => sum + Math.round(line.amount * line.gstRate) / 100, 0);
+  return {
+    id: "INV/0001",
+    invoice_number: "INV/0001",
+    invoice_type: "Tax Invoice",
+    status: "sent",
+    place_of_supply: interState ? "27" : "29",
+    subtotal: lines.reduce((sum, line) => sum + line.amount, 0),
+    igst_amount: interState ? tax : 0,
+    cgst_amount: interState ? 0 : tax / 2,
+    sgst_amount: interState ? 0 : tax / 2,
+    items: lines.map((line) => ({ hsnSacCode: "7326", quantity: 1, ...line })),
+    clients: { gst_number: null },
+    ...overrides,
+  };
+};
+
+const creditNote = (lines: Line[], interState: boolean) =>
+  invoice(lines, interState, { id: "CN/0001", invoice_number: "CN/0001", invoice_type: CREDIT_NOTE });
+
+const build = (invoices: Gstr3bSource[]) => buildGstr3b("29ABCPE1234F1Z5", "2026-10", invoices);
+
+const getRow = (invoices: Gstr3bSource[], label: string) =>
+  build(invoices).outwardSupplies.find((row) => row.label === label);
+
+describe("buildGstr3b", () => {
+  it("reports taxable supplies with their tax in 3.1 (a)", () => {
+    expect(getRow([invoice([{ amount: 1000, gstRate: 18 }], false)], "(a)")).toMatchObject({
+      taxableValue: 1000,
+      igstAmount: 0,
+      cgstAmount: 90,
+      sgstAmount: 90,
+    });
+  });
+
+  it("nets credit notes against the period's supplies", () => {
+    const invoices = [invoice([{ amount: 1000, gstRate: 18 }], false), creditNote([{ amount: 100, gstRate: 18 }], false)];
+
+    expect(build(invoices).documentCount).toBe(2);
+    expect(getRow(invoices, "(a)")).toMatchObject({ taxableValue: 900, cgstAmount: 81, sgstAmount: 81 });
+  });
+
+  it("reports lines at 0% as nil rated in 3.1 (c), net of credit notes", () => {
+    const invoices = [
+      invoice(
+        [
+          { amount: 1000, gstRate: 18 },
+          { amount: 500, gstRate: 0 },
+        ],
+        false
+      ),
+      creditNote([{ amount: 200, gstRate: 0 }], false),
+    ];
+
+    expect(getRow(invoices, "(a)")).toMatchObject({ taxableValue: 1000, cgstAmount: 90, sgstAmount: 90 });
+    expect(getRow(invoices, "(c)")).toMatchObject({ taxableValue: 300, cgstAmount: 0, sgstAmount: 0 });
+  });
+
+  it("reports exports under LUT as zero rated in rupees", () => {
+    const invoices = [
+      invoice([{ amount: 100, gstRate: 18 }], true, {
+        igst_amount: 0,
+        is_export: true,
+        place_of_supply: "96",
+        currency: "USD",
+        exchange_rate: 83.5,
+      }),
+    ];
+
+    expect(getRow(invoices, "(a)")?.taxableValue).toBe(0);
+    expect(getRow(invoices, "(b)")).toMatchObject({ taxableValue: 8350, igstAmount: 0 });
+  });
+
+  it("lists inter-state supplies to unregistered buyers in 3.2 by place of supply", () => {
+    const report = build([
+      invoice([{ amount: 1000, gstRate: 18 }], true),
+      invoice([{ amount: 500, gstRate: 18 }], true, { id: "INV/0002", invoice_number: "INV/0002", place_of_supply: "07" }),
+      invoice([{ amount: 800, gstRate: 18 }], true, { id: "INV/0003", invoice_number: "INV/0003", clients: { gst_number: "27AAACK1234A1ZX" } }),
+    ]);
+
+    expect(report.unregisteredInterState).toEqual([
+      { placeOfSupply: "07", taxableValue: 500, igstAmount: 90 },
+      { placeOfSupply: "27", taxableValue: 1000, igstAmount: 180 },
+    ]);
+  });
+
+  it("leaves out drafts and lists documents of an unknown type as skipped", () => {
+    const report = build([
+      invoice([{ amount: 1000, gstRate: 18 }], false, { status: "draft" }),
+      invoice([{ amount: 1000, gstRate: 18 }], false, { id: "INV/0002", invoice_number: "INV/0002", invoice_type: "Invoice" }),
+    ]);
+
+    expect(report.documentCount).toBe(0);
+    expect(report.skipped).toEqual([{ invoiceId: "INV/0002", reference: "INV/0002", invoiceType: "Invoice" }]);
+  });
+});
@@ -0,0 +1,258 @@
+import jsPDF from "jspdf";
+import * as XLSX from "xlsx";
+import { format, parseISO } from "date-fns";
+import { TaxBreakup, formatPlaceOfSupply, getInvoiceSupplyType, getInvoiceTaxSlabs, sumTaxBreakup } from "./gst";
+import { hasUnknownDocumentType, isReturnDocument, toFilingPeriod } from "./gstr1";
+import { sumMoney } from "./money";
+import { toInr } from "./currency";
+import { getDocumentSign } from "./notes";
+
+// Outward tax liability for GSTR-3B tables 3.1 and 3.2, from the tax stored on the period's
+// tax invoices and notes. Credit notes reduce the liability of the period they are issued in.
+// Amounts are in rupees, converting exports billed in another currency at their exchange rate.
+// Documents of a type the app does not know are left out and listed for the filer to check.
+
+export interface Gstr3bSource {
+  id: string;
+  invoice_number: string;
+  invoice_type: string;
+  status: string | null;
+  place_of_supply?: string | null;
+  subtotal: number;
+  igst_rate?: number | null;
+  igst_amount?: number | null;
+  sgst_rate?: number | null;
+  sgst_amount?: number | null;
+  cgst_rate?: number | null;
+  cgst_amount?: number | null;
+  discount_amount?: number | null;
+  is_export?: boolean | null;
+  currency?: string | null;
+  exchange_rate?: number | null;
+  items: unknown;
+  clients?: { gst_number?: string | null } | null;
+}
+
+export interface Gstr3bRow extends TaxBreakup {
+  label: string;
+  nature: string;
+  cessAmount: number;
+}
+
+export interface Gstr3bPlaceRow {
+  placeOfSupply: string;
+  taxableValue: number;
+  igstAmount: number;
+}
+
+export interface Gstr3bSkippedDocument {
+  invoiceId: string;
+  reference: string;
+  invoiceType: string;
+}
+
+export interface Gstr3bReport {
+  gstin: string;
+  period: string;
+  documentCount: number;
+  skipped: Gstr3bSkippedDocument[];
+  outwardSupplies: Gstr3bRow[];
+  unregisteredInterState: Gstr3bPlaceRow[];
+}
+
+const EMPTY_BREAKUP: TaxBreakup = { taxableValue: 0, igstAmount: 0, cgstAmount: 0, sgstAmount: 0 };
+
+const toRow = (label: string, nature: string, breakup: TaxBreakup = EMPTY_BREAKUP): Gstr3bRow => ({
+  label,
+  nature,
+  ...breakup,
+  cessAmount: 0,
+});
+
+export const buildGstr3b = (gstin: string, period: string, invoices: Gstr3bSource[]): Gstr3bReport => {
+  const documents = invoices.filter(isReturnDocument);
+  const taxable: TaxBreakup[] = [];
+  const zeroRated: number[] = [];
+  const nilRated: number[] = [];
+  const byPlace = new Map<string, Gstr3bPlaceRow>();
+
+  documents.forEach((invoice) => {
+    const sign = getDocumentSign(invoice.invoice_type);
+    // Exports under LUT are zero rated as a whole, with no tax to pay
+    if (invoice.is_export) {
+      zeroRated.push(sign * toInr(invoice.subtotal, invoice));
+      return;
+    }
+
+    // Lines at 0% are nil rated supplies and reported apart from the taxable ones
+    const nilRatedValue = sumMoney(
+      getInvoiceTaxSlabs(invoice)
+        .filter((slab) => slab.rate === 0)
+        .map((slab) => slab.taxableValue)
+    );
+    const breakup = {
+      taxableValue: sign * sumMoney([invoice.subtotal, -nilRatedValue]),
+      igstAmount: sign * Number(invoice.igst_amount || 0),
+      cgstAmount: sign * Number(invoice.cgst_amount || 0),
+      sgstAmount: sign * Number(invoice.sgst_amount || 0),
+    };
+    taxable.push(breakup);
+    nilRated.push(sign * nilRatedValue);
+
+    if (!invoice.clients?.gst_number?.trim() && getInvoiceSupplyType(invoice) === "inter_state") {
+      const placeOfSupply = invoice.place_of_supply || "";
+      const row = byPlace.get(placeOfSupply) || { placeOfSupply, taxableValue: 0, igstAmount: 0 };
+      byPlace.set(placeOfSupply, {
+        placeOfSupply,
+        taxableValue: sumMoney([row.taxableValue, breakup.taxableValue]),
+        igstAmount: sumMoney([row.igstAmount, breakup.igstAmount]),
+      });
+    }
+  });
+
+  // The app issues no non-GST or reverse charge documents, so those rows stay at zero for
+  // the filer to complete from other records
+  return {
+    gstin: gstin.trim().toUpperCase(),
+    period,
+    documentCount: documents.length,
+    skipped: invoices.filter(hasUnknownDocumentType).map((invoice) => ({
+      invoiceId: invoice.id,
+      reference: invoice.invoice_number,
+      invoiceType: invoice.invoice_type,
+    })),
+    outwardSupplies: [
+      toRow("(a)", "Outward taxable supplies (other than zero rated, nil rated and exempted)", sumTaxBreakup(taxable)),
+      toRow("(b)", "Outward taxable supplies (zero rated)", { ...EMPTY_BREAKUP, taxableValue: sumMoney(zeroRated) }),
+      toRow("(c)", "Other outward supplies (nil rated, exempted)", { ...EMPTY_BREAKUP, taxableValue: sumMoney(nilRated) }),
+      toRow("(d)", "Inward supplies (liable to reverse charge)"),
+      toRow("(e)", "Non-GST outward supplies"),
+    ],
+    unregisteredInterState: Array.from(byPlace.values()).sort((a, b) => a.placeOfSupply.localeCompare(b.placeOfSupply)),
+  };
+};
+
+export const getGstr3bTotal = (report: Gstr3bReport) => sumTaxBreakup(report.outwardSupplies);
+
+export const getGstr3bFileName = (report: Gstr3bReport) => `GSTR3B_${report.gstin}_${toFilingPeriod(report.period)}`;
+
+const OUTWARD_HEADERS = ["", "Nature of Supplies", "Total Taxable Value", "Integrated Tax", "Central Tax", "State/UT Tax", "Cess"];
+const PLACE_HEADERS = ["Place of Supply (State/UT)", "Total Taxable Value", "Amount of Integrated Tax"];
+
+const toOutwardCells = (row: Gstr3bRow) => [
+  row.label,
+  row.nature,
+  row.taxableValue,
+  row.igstAmount,
+  row.cgstAmount,
+  row.sgstAmount,
+  row.cessAmount,
+];
+
+const toPlaceCells = (row: Gstr3bPlaceRow) => [
+  formatPlaceOfSupply(row.placeOfSupply) || row.placeOfSupply || "Not set",
+  row.taxableValue,
+  row.igstAmount,
+];
+
+const formatPeriod = (period: string) => format(parseISO(`${period}-01`), "MMMM yyyy");
+
+export const toGstr3bWorkbook = (report: Gstr3bReport, companyName: string) => {
+  const workbook = XLSX.utils.book_new();
+  const heading = [[`GSTR-3B ${formatPeriod(report.period)}`], [companyName, report.gstin], []];
+
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.aoa_to_sheet([
+      ...heading,
+      ["3.1 Details of Outward Supplies and inward supplies liable to reverse charge"],
+      OUTWARD_HEADERS,
+      ...report.outwardSupplies.map(toOutwardCells),
+    ]),
+    "3.1"
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.aoa_to_sheet([
+      ...heading,
+      ["3.2 Inter-State supplies made to unregistered persons"],
+      PLACE_HEADERS,
+      ...report.unregisteredInterState.map(toPlaceCells),
+    ]),
+    "3.2"
+  );
+
+  return workbook;
+};
+
+// The standard fonts have no rupee sign, so amounts are plain figures in INR
+const formatFigure = (amount: number) =>
+  amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const generateGstr3bPDF = (report: Gstr3bReport, companyName: string) => {
+  const doc = new jsPDF({ orientation: "landscape" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 15;
+  let yPos = 20;
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(16);
+  doc.text(`GSTR-3B ${formatPeriod(report.period)}`, margin, yPos);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  yPos += 7;
+  doc.text(`${companyName}    GSTIN ${report.gstin}`, margin, yPos);
+  doc.text("Amounts in INR", pageWidth - margin, yPos, { align: "right" });
+  yPos += 10;
+
+  // Widths in mm. Text wraps within its cell; figures and their headings are right aligned.
+  const drawTable = (title: string, headers: string[], widths: number[], rows: (string | number)[][]) => {
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(11);
+    doc.text(title, margin, yPos);
+    yPos += 4;
+
+    doc.setFontSize(9);
+    [headers, ...rows].forEach((cells, rowIndex) => {
+      const header = rowIndex === 0;
+      doc.setFont("helvetica", header ? "bold" : "normal");
+      const lines = cells.map((cell, index) =>
+        typeof cell === "number" ? [formatFigure(cell)] : (doc.splitTextToSize(String(cell), widths[index] - 4) as string[])
+      );
+      const height = Math.max(...lines.map((cellLines) => cellLines.length)) * 4.5 + 3;
+
+      let x = margin;
+      cells.forEach((cell, index) => {
+        if (header) {
+          doc.setFillColor(240, 240, 240);
+          doc.rect(x, yPos, widths[index], height, "FD");
+        } else {
+          doc.rect(x, yPos, widths[index], height);
+        }
+        const alignRight = typeof (header ? rows[0]?.[index] : cell) === "number";
+        doc.text(lines[index], alignRight ? x + widths[index] - 2 : x + 2, yPos + 5, {
+          align: alignRight ? "right" : "left",
+        });
+        x += widths[index];
+      });
+      yPos += height;
+    });
+    yPos += 10;
+  };
+
+  drawTable(
+    "3.1 Details of Outward Supplies and inward supplies liable to reverse charge",
+    OUTWARD_HEADERS,
+    [12, 93, 35, 31, 31, 31, 34],
+    report.outwardSupplies.map(toOutwardCells)
+  );
+  drawTable(
+    "3.2 Inter-State supplies made to unregistered persons",
+    PLACE_HEADERS,
+    [105, 80, 82],
+    report.unregisteredInterState.length > 0 ? report.unregisteredInterState.map(toPlaceCells) : [["None", 0, 0]]
+  );
+
+  doc.save(`${getGstr3bFileName(report)}.pdf`);
+  return doc;
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from "vitest";
+import { InvoiceData, buildInvoiceDocument } from "./invoiceDocument";
+import { DEFAULT_TEMPLATE } from "./invoiceTemplates";
+import { CREDIT_NOTE } from "./notes";
+
+// The document model is pure; the client is only needed by the loaders next to it
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const company: InvoiceData["companies"] = {
+  name: "Acme Traders Pvt Ltd",
+  address: "12 MG Road, Bengaluru, Karnataka 560001",
+  phone: "9876543210",
+  email: "accounts@acme.example",
+  gst_number: "29ABCPE1234F1Z5",
+  pan_number: "ABCPE1234F",
+  bank_name: "State Bank of India",
+  account_number: "12345678901",
+  ifsc_code: "SBIN0001234",
+  branch: "MG Road",
+};
+
+const client: InvoiceData["clients"] = {
+  name: "Ravi Kumar",
+  company_name: "Kumar Industries",
+  address: "4 Park Street, Kolkata, West Bengal 700016",
+  gst_number: "19AAACK1234A1Z3",
+};
+
+const items: InvoiceData["items"] = [
+  { description: "Steel brackets", hsnSacCode: "7326", quantity: 2, rate: 500, gstRate: 18, unit: "NOS", amount: 1000 },
+  { description: "Installation", hsnSacCode: "995461", quantity: 1, rate: 500, gstRate: 5, amount: 500 },
+];
+
+const intraStateInvoice: InvoiceData = {
+  invoice_number: "INV/2026-27/0001",
+  invoice_date: "2026-10-18",
+  due_date: "2026-11-17",
+  invoice_type: "Tax Invoice",
+  place_of_supply: "29",
+  subtotal: 1500,
+  cgst_amount: 102.5,
+  sgst_amount: 102.5,
+  total_amount: 1705,
+  items,
+  notes: "Thank you for your business",
+  companies: company,
+  clients: client,
+  signatory: { name: "Anita Rao", designation: "Director" },
+};
+
+const interStateInvoice: InvoiceData = {
+  ...intraStateInvoice,
+  place_of_supply: "19",
+  cgst_amount: 0,
+  sgst_amount: 0,
+  igst_amount: 205,
+};
+
+const creditNote: InvoiceData = {
+  invoice_number: "CN/2026-27/0001",
+  invoice_date: "2026-10-25",
+  invoice_type: CREDIT_NOTE,
+  place_of_supply: "29",
+  subtotal: 200,
+  cgst_amount: 18,
+  sgst_amount: 18,
+  total_amount: 236,
+  items: [{ description: "Steel brackets returned", hsnSacCode: "7326", quantity: 2, rate: 100, gstRate: 18, amount: 200 }],
+  note_reason: "Damaged in transit",
+  original_invoice: { invoice_number: "INV/2026-27/0001", invoice_date: "2026-10-18" },
+  companies: company,
+  clients: client,
+};
+
+const build = (invoice: InvoiceData) => buildInvoiceDocument(invoice, DEFAULT_TEMPLATE, { logo: null, signature: null });
+
+describe("buildInvoiceDocument", () => {
+  it("lays out an intra-state tax invoice with CGST and SGST", () => {
+    expect(build(intraStateInvoice)).toMatchSnapshot();
+  });
+
+  it("lays out an inter-state tax invoice with IGST", () => {
+    expect(build(interStateInvoice)).toMatchSnapshot();
+  });
+
+  it("lays out a credit note against its original invoice", () => {
+    expect(build(creditNote)).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,361 @@
+import { format, parseISO } from "date-fns";
+import { formatPlaceOfSupply, getInvoiceHsnSummary, getInvoiceTaxLines, getItemGstRate } from "./gst";
+import { DiscountType, formatDiscount, getItemDiscount, getItemDiscountAmount, toDiscount } from "./discounts";
+import { getBankingDetails } from "./companyProfile";
+import { amountInWords } from "./amountInWords";
+import { sumMoney } from "./money";
+import { formatCurrency, isForeignCurrency, toInr } from "./currency";
+import { encodeQrCode } from "./qrCode";
+import { ITEM_COLUMNS, InvoiceTemplate, ItemColumn, getDocumentTemplate } from "./invoiceTemplates";
+import { getDocumentSignatory } from "./signatories";
+import { StoredImage, loadLogoImage, loadSignatureImage } from "./storageImages";
+
+interface InvoiceItem {
+  description: string;
+  hsnSacCode?: string;
+  quantity: number;
+  rate: number;
+  gstRate?: number;
+  unit?: string;
+  discountType?: DiscountType;
+  discount?: number;
+  amount: number;
+}
+
+export interface InvoiceData {
+  invoice_number: string;
+  invoice_date: string;
+  due_date?: string | null;
+  valid_until?: string | null;
+  invoice_type?: string;
+  place_of_supply?: string | null;
+  subtotal: number;
+  gst_rate?: number | null;
+  gst_amount?: number | null;
+  igst_rate?: number | null;
+  igst_amount?: number | null;
+  sgst_rate?: number | null;
+  sgst_amount?: number | null;
+  cgst_rate?: number | null;
+  cgst_amount?: number | null;
+  discount_type?: string | null;
+  discount_value?: number | null;
+  discount_amount?: number | null;
+  round_off?: number | null;
+  total_amount: number;
+  items: InvoiceItem[];
+  notes?: string | null;
+  note_reason?: string | null;
+  irn?: string | null;
+  irn_ack_number?: string | null;
+  irn_ack_date?: string | null;
+  irn_signed_qr?: string | null;
+  is_export?: boolean | null;
+  currency?: string | null;
+  exchange_rate?: number | null;
+  export_port?: string | null;
+  export_country?: string | null;
+  original_invoice?: {
+    invoice_number: string;
+    invoice_date: string;
+  } | null;
+  companies?: {
+    name: string;
+    address?: string | null;
+    phone?: string | null;
+    email?: string | null;
+    gst_number?: string | null;
+    pan_number?: string | null;
+    bank_name?: string | null;
+    account_number?: string | null;
+    ifsc_code?: string | null;
+    branch?: string | null;
+    logo_url?: string | null;
+    lut_number?: string | null;
+  } | null;
+  clients?: {
+    name: string;
+    company_name?: string | null;
+    address?: string | null;
+    phone?: string | null;
+    email?: string | null;
+    gst_number?: string | null;
+    pan_number?: string | null;
+    cin_number?: string | null;
+  } | null;
+  signatory?: {
+    name: string;
+    designation?: string | null;
+    signature_url?: string | null;
+  } | null;
+}
+
+export interface DocumentField {
+  label: string;
+  value: string;
+}
+
+export interface DocumentParty {
+  name: string;
+  lines: string[];
+}
+
+export interface DocumentColumn {
+  label: string;
+  align: "left" | "right";
+  // Share of the table width; 0 takes whatever the other columns leave
+  width: number;
+}
+
+export interface DocumentTable {
+  columns: DocumentColumn[];
+  rows: string[][];
+}
+
+// Everything an invoice shows, already worded and formatted. The PDF, image and on-screen
+// renderers only lay this out, so all three print the same content.
+export interface InvoiceDocument {
+  template: InvoiceTemplate;
+  fileName: string;
+  currency: string;
+  logo: StoredImage | null;
+  companyName: string;
+  title: string;
+  details: DocumentField[];
+  // Modules of the signed e-invoice QR code, once the invoice is registered
+  qrCode: boolean[][] | null;
+  from: DocumentParty;
+  to: DocumentParty | null;
+  // Row amounts alongside the worded rows, for subtotals carried across PDF pages
+  items: DocumentTable & { amounts: number[] };
+  totals: DocumentField[];
+  total: DocumentField;
+  amountInWords: string;
+  // The total again in rupees, for invoices billed in a foreign currency
+  inrTotal: (DocumentField & { amountInWords: string }) | null;
+  // The zero rating statement printed on exports
+  declaration: string;
+  hsnSummary: DocumentTable | null;
+  bank: DocumentField[];
+  notes: string;
+  terms: string;
+  signature: {
+    forCompany: string;
+    image: StoredImage | null;
+    name: string | null;
+    designation: string;
+  };
+  footer: string;
+}
+
+// In the invoice's currency, always to the hundredth
+export const formatMoney = (amount: number, currency?: string | null) => formatCurrency(amount, currency);
+
+// parseISO reads a plain date as local midnight; new Date would read it as UTC midnight and
+// show the day before west of Greenwich
+export const formatDocumentDate = (date: string) => format(parseISO(date), "dd/MM/yyyy");
+
+// Not a template option: shown whenever a line carries a discount, since the amounts
+// would not add up without it
+const DISCOUNT_COLUMN = { value: "discount", label: "Discount", width: 0.12 } as const;
+
+type DocumentItemColumn = ItemColumn | typeof DISCOUNT_COLUMN.value;
+
+const LEFT_ALIGNED_COLUMNS: DocumentItemColumn[] = ["description", "hsn"];
+
+const getCellValue = (item: InvoiceItem, column: DocumentItemColumn, invoice: InvoiceData) => {
+  const money = (amount: number) => formatMoney(amount, invoice.currency);
+  switch (column) {
+    case "description":
+      return item.description;
+    case "hsn":
+      return item.hsnSacCode || "-";
+    case "quantity":
+      return item.unit ? `${Number(item.quantity)} ${item.unit}` : Number(item.quantity).toString();
+    case "gst_rate":
+      return `${getItemGstRate(item, invoice)}%`;
+    case "rate":
+      return money(item.rate);
+    case "discount":
+      return getItemDiscountAmount(item) > 0 ? formatDiscount(getItemDiscount(item), money) : "-";
+    case "amount":
+      return money(item.amount);
+  }
+};
+
+const compact = (lines: (string | null | undefined | false)[]) => lines.filter((line): line is string => !!line);
+
+// Pure, so the same invoice always produces the same document
+export const buildInvoiceDocument = (
+  invoice: InvoiceData,
+  template: InvoiceTemplate,
+  images: { logo: StoredImage | null; signature: StoredImage | null }
+): InvoiceDocument => {
+  const isNote = !!invoice.original_invoice;
+  const isQuotation = invoice.invoice_type === "Quotation";
+  const documentLabel = isNote ? "Note" : isQuotation ? "Quotation" : "Invoice";
+  const company = invoice.companies;
+  const client = invoice.clients;
+  const currency = invoice.currency || "INR";
+  const money = (amount: number) => formatMoney(amount, currency);
+
+  const details: DocumentField[] = [
+    { label: `${documentLabel} No`, value: invoice.invoice_number },
+    { label: `${documentLabel} Date`, value: formatDocumentDate(invoice.invoice_date) },
+  ];
+  if (invoice.due_date) details.push({ label: "Due Date", value: formatDocumentDate(invoice.due_date) });
+  if (invoice.valid_until) details.push({ label: "Valid Until", value: formatDocumentDate(invoice.valid_until) });
+  // Credit and debit notes quote the invoice they adjust
+  if (invoice.original_invoice) {
+    details.push({ label: "Original Invoice No", value: invoice.original_invoice.invoice_number });
+    details.push({ label: "Original Invoice Date", value: formatDocumentDate(invoice.original_invoice.invoice_date) });
+  }
+  if (invoice.note_reason) details.push({ label: "Reason", value: invoice.note_reason });
+  const placeOfSupply = formatPlaceOfSupply(invoice.place_of_supply);
+  if (placeOfSupply) details.push({ label: "Place of Supply", value: placeOfSupply });
+  if (invoice.is_export) {
+    if (invoice.export_port) details.push({ label: "Port of Destination", value: invoice.export_port });
+    if (invoice.export_country) details.push({ label: "Country of Destination", value: invoice.export_country });
+  }
+  if (invoice.irn) details.push({ label: "IRN", value: invoice.irn });
+  if (invoice.irn_ack_number) details.push({ label: "Ack No", value: invoice.irn_ack_number });
+  if (invoice.irn_ack_date) details.push({ label: "Ack Date", value: formatDocumentDate(invoice.irn_ack_date) });
+
+  const items = invoice.items || [];
+  // The discount column goes just before the amount it was taken off
+  const itemColumns: { value: DocumentItemColumn; label: string; width: number }[] = ITEM_COLUMNS.filter(
+    (column) => template.columns.includes(column.value)
+  );
+  if (items.some((item) => getItemDiscountAmount(item) > 0)) {
+    const amountIndex = itemColumns.findIndex((column) => column.value === "amount");
+    itemColumns.splice(amountIndex === -1 ? itemColumns.length : amountIndex, 0, DISCOUNT_COLUMN);
+  }
+  const hsnSummary = getInvoiceHsnSummary(invoice);
+
+  // The stored subtotal is the taxable value, so with an invoice discount the lines'
+  // own total is shown above it
+  const discount = toDiscount(invoice);
+  const discountAmount = Number(invoice.discount_amount || 0);
+  const subtotalLines: DocumentField[] =
+    discountAmount > 0
+      ? [
+          { label: "Subtotal", value: money(sumMoney([invoice.subtotal, discountAmount])) },
+          {
+            label: discount.type === "percent" ? `Discount @ ${formatDiscount(discount, money)}` : "Discount",
+            value: money(-discountAmount),
+          },
+          { label: "Taxable Value", value: money(invoice.subtotal) },
+        ]
+      : [{ label: "Subtotal", value: money(invoice.subtotal) }];
+
+  return {
+    template,
+    fileName: `${isQuotation ? "Quotation" : "Invoice"}-${invoice.invoice_number}`,
+    currency,
+    logo: images.logo,
+    companyName: company?.name || "",
+    title: (invoice.invoice_type || "Tax Invoice").toUpperCase(),
+    details,
+    qrCode: invoice.irn_signed_qr ? encodeQrCode(invoice.irn_signed_qr) : null,
+    from: {
+      name: company?.name || "",
+      lines: compact([
+        company?.address,
+        company?.phone && `Phone: ${company.phone}`,
+        company?.email && `Email: ${company.email}`,
+        company?.pan_number && `PAN: ${company.pan_number}`,
+        company?.gst_number && `GST: ${company.gst_number}`,
+      ]),
+    },
+    to: client
+      ? {
+          name: client.name,
+          lines: compact([
+            client.company_name,
+            client.address,
+            client.phone && `Phone: ${client.phone}`,
+            client.email && `Email: ${client.email}`,
+            client.gst_number && `GST: ${client.gst_number}`,
+            client.pan_number && `PAN: ${client.pan_number}`,
+            client.cin_number && `CIN: ${client.cin_number}`,
+          ]),
+        }
+      : null,
+    items: {
+      columns: itemColumns.map((column) => ({
+        label: column.label,
+        align: LEFT_ALIGNED_COLUMNS.includes(column.value) ? "left" : "right",
+        width: column.width,
+      })),
+      rows: items.map((item) => itemColumns.map((column) => getCellValue(item, column.value, invoice))),
+      amounts: items.map((item) => Number(item.amount)),
+    },
+    totals: [
+      ...subtotalLines,
+      ...getInvoiceTaxLines(invoice).map((line) => ({ label: line.label, value: money(line.amount) })),
+      ...(Number(invoice.round_off || 0) !== 0 ? [{ label: "Round Off", value: money(Number(invoice.round_off)) }] : []),
+    ],
+    total: { label: "Total", value: money(invoice.total_amount) },
+    amountInWords: amountInWords(invoice.total_amount, currency),
+    inrTotal: isForeignCurrency(currency)
+      ? {
+          label: `Total in INR (1 ${currency} = ₹${Number(invoice.exchange_rate)})`,
+          value: formatMoney(toInr(invoice.total_amount, invoice)),
+          amountInWords: amountInWords(toInr(invoice.total_amount, invoice)),
+        }
+      : null,
+    declaration: invoice.is_export
+      ? `Supply meant for export under LUT without payment of IGST${company?.lut_number ? ` (LUT No. ${company.lut_number})` : ""}`
+      : "",
+    hsnSummary:
+      hsnSummary.length > 0
+        ? {
+            columns: [
+              { label: "HSN/SAC", align: "left", width: 0 },
+              { label: "Taxable Value", align: "right", width: 0.2 },
+              { label: "Rate", align: "right", width: 0.1 },
+              { label: "IGST", align: "right", width: 0.16 },
+              { label: "CGST", align: "right", width: 0.16 },
+              { label: "SGST", align: "right", width: 0.16 },
+            ],
+            rows: hsnSummary.map((row) => [
+              row.hsnSacCode,
+              money(row.taxableValue),
+              `${row.rate}%`,
+              money(row.igstAmount),
+              money(row.cgstAmount),
+              money(row.sgstAmount),
+            ]),
+          }
+        : null,
+    bank: getBankingDetails(company),
+    notes: invoice.notes || "",
+    terms: template.terms,
+    signature: {
+      forCompany: `For ${company?.name || ""}`,
+      image: images.signature,
+      name: invoice.signatory?.name || null,
+      designation: invoice.signatory?.designation || "Authorized Signatory",
+    },
+    footer: template.footer,
+  };
+};
+
+// Looks up the signatory, template and images the stored invoice points at. Quotations
+// have neither a signatory nor a template of their own and get the company defaults.
+export const loadInvoiceDocument = async (
+  invoice: InvoiceData & { company_id: string; signatory_id?: string | null; template_id?: string | null }
+) => {
+  const [signatory, template] = await Promise.all([
+    invoice.signatory === undefined
+      ? getDocumentSignatory(invoice.company_id, invoice.signatory_id)
+      : Promise.resolve(invoice.signatory),
+    getDocumentTemplate(invoice.company_id, invoice.template_id),
+  ]);
+  const [logo, signature] = await Promise.all([
+    loadLogoImage(invoice.companies?.logo_url),
+    loadSignatureImage(signatory?.signature_url),
+  ]);
+
+  return buildInvoiceDocument({ ...invoice, signatory }, template, { logo, signature });
+};
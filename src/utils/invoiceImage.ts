@@ -0,0 +1,39 @@
+import { createElement } from "react";
+import { createRoot } from "react-dom/client";
+import { flushSync } from "react-dom";
+import html2canvas from "html2canvas";
+import InvoiceDocumentView from "@/components/InvoiceDocumentView";
+import { InvoiceDocument } from "./invoiceDocument";
+
+// Renders the on-screen layout off-screen at a fixed width and captures it, so the
+// image matches what the invoice page shows
+export const renderInvoiceImage = async (invoiceDocument: InvoiceDocument) => {
+  const container = document.createElement("div");
+  container.style.position = "absolute";
+  container.style.left = "-9999px";
+  container.style.top = "0";
+  container.style.width = "800px";
+  document.body.appendChild(container);
+
+  const root = createRoot(container);
+  try {
+    flushSync(() => root.render(createElement(InvoiceDocumentView, { document: invoiceDocument })));
+
+    const canvas = await html2canvas(container, {
+      scale: 2,
+      backgroundColor: "#ffffff",
+      logging: false,
+    });
+    return canvas.toDataURL("image/jpeg", 0.95);
+  } finally {
+    root.unmount();
+    document.body.removeChild(container);
+  }
+};
+
+export const generateInvoiceImage = async (invoiceDocument: InvoiceDocument) => {
+  const link = document.createElement("a");
+  link.download = `${invoiceDocument.fileName}.jpg`;
+  link.href = await renderInvoiceImage(invoiceDocument);
+  link.click();
+};
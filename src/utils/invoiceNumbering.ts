@@ -0,0 +1,17 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type InvoiceNumberSeries = Tables<"invoice_number_series">;
+
+type SeriesFormat = Pick<InvoiceNumberSeries, "prefix" | "separator" | "padding">;
+
+// Indian financial year (April - March) label, e.g. 2026-10-18 -> "2026-27"
+export const getFinancialYear = (date: Date = new Date()): string => {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+};
+
+// Mirrors public.format_invoice_number so forms can show the pattern before saving
+export const formatInvoiceNumber = (series: SeriesFormat, financialYear: string, sequence: number): string => {
+  const prefix = series.prefix ? `${series.prefix}${series.separator}` : "";
+  return `${prefix}${financialYear}${series.separator}${String(sequence).padStart(series.padding, "0")}`;
+};
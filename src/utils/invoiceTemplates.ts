@@ -0,0 +1,182 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json, Tables } from "@/integrations/supabase/types";
+
+export type InvoiceTemplateRow = Tables<"invoice_templates">;
+
+export const TEMPLATE_SECTIONS = [
+  { value: "header", label: "Header", description: "Logo, company name, title and document details" },
+  { value: "parties", label: "From / To", description: "Supplier and client details" },
+  { value: "items", label: "Line items" },
+  { value: "totals", label: "Totals", description: "Subtotal, tax lines and total" },
+  { value: "gst", label: "HSN/SAC summary" },
+  { value: "bank", label: "Banking details" },
+  { value: "notes", label: "Notes" },
+  { value: "terms", label: "Terms" },
+  { value: "signature", label: "Signature" },
+  { value: "footer", label: "Footer" },
+] as const;
+
+export type TemplateSection = (typeof TEMPLATE_SECTIONS)[number]["value"];
+
+// Widths are shares of the table; the description takes whatever is left
+export const ITEM_COLUMNS = [
+  { value: "description", label: "Description", width: 0 },
+  { value: "hsn", label: "HSN/SAC", width: 0.13 },
+  { value: "quantity", label: "Qty", width: 0.1 },
+  { value: "gst_rate", label: "GST", width: 0.1 },
+  { value: "rate", label: "Rate", width: 0.17 },
+  { value: "amount", label: "Amount", width: 0.17 },
+] as const;
+
+export type ItemColumn = (typeof ITEM_COLUMNS)[number]["value"];
+
+// Every row needs these to make sense
+export const REQUIRED_COLUMNS: ItemColumn[] = ["description", "amount"];
+
+// The standard PDF fonts, available without embedding anything
+export const TEMPLATE_FONTS = [
+  { value: "helvetica", label: "Helvetica" },
+  { value: "times", label: "Times" },
+  { value: "courier", label: "Courier" },
+] as const;
+
+export type TemplateFont = (typeof TEMPLATE_FONTS)[number]["value"];
+
+export interface InvoiceTemplate {
+  sections: TemplateSection[];
+  columns: ItemColumn[];
+  font: TemplateFont;
+  colors: {
+    primary: string;
+    accent: string;
+    text: string;
+  };
+  terms: string;
+  footer: string;
+}
+
+export const DEFAULT_TEMPLATE: InvoiceTemplate = {
+  sections: ["header", "parties", "items", "totals", "gst", "bank", "notes", "terms", "signature", "footer"],
+  columns: ["description", "hsn", "quantity", "gst_rate", "rate", "amount"],
+  font: "helvetica",
+  colors: {
+    primary: "#3b82f6",
+    accent: "#f5f5f5",
+    text: "#000000",
+  },
+  terms: "",
+  footer: "This invoice is electronically generated and does not require a physical signature.",
+};
+
+// Select values for "no template of its own": an invoice then uses its company's template and
+// a company the built-in default. Radix selects cannot hold an empty value.
+export const COMPANY_TEMPLATE = "company";
+export const BUILT_IN_TEMPLATE = "default";
+
+export const toTemplateValue = (templateId: string | null | undefined, fallback: string) => templateId || fallback;
+
+export const fromTemplateValue = (value: string) =>
+  value === COMPANY_TEMPLATE || value === BUILT_IN_TEMPLATE ? null : value;
+
+const isSection = (value: unknown): value is TemplateSection =>
+  TEMPLATE_SECTIONS.some((section) => section.value === value);
+
+const isColumn = (value: unknown): value is ItemColumn => ITEM_COLUMNS.some((column) => column.value === value);
+
+const isColor = (value: unknown): value is string => typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value);
+
+// The first templates listed "company" and "client" separately and always printed the
+// bank, notes and signature blocks, so those are kept where the old layout had them
+const readSections = (value: unknown): TemplateSection[] => {
+  if (!Array.isArray(value)) return DEFAULT_TEMPLATE.sections;
+
+  const legacy = value.includes("company") || value.includes("client");
+  const sections = value
+    .map((section) => (section === "company" || section === "client" ? "parties" : section))
+    .filter(isSection)
+    .filter((section, index, list) => list.indexOf(section) === index);
+
+  if (legacy) {
+    const insertAt = sections.includes("gst") ? sections.indexOf("gst") + 1 : sections.length;
+    const alwaysPrinted = (["bank", "notes", "signature"] as TemplateSection[]).filter(
+      (section) => !sections.includes(section)
+    );
+    sections.splice(insertAt, 0, ...alwaysPrinted);
+  }
+
+  return sections;
+};
+
+// Reads template_data leniently: unknown keys are ignored and anything missing or
+// malformed falls back to the default layout
+export const parseTemplateData = (data: Json | null | undefined): InvoiceTemplate => {
+  const raw = data && typeof data === "object" && !Array.isArray(data) ? data : {};
+  const colors = raw.colors && typeof raw.colors === "object" && !Array.isArray(raw.colors) ? raw.colors : {};
+
+  let sections = readSections(raw.sections);
+  let columns = Array.isArray(raw.columns) ? raw.columns.filter(isColumn) : DEFAULT_TEMPLATE.columns;
+
+  if (raw.show_hsn === false) columns = columns.filter((column) => column !== "hsn");
+  if (raw.gst_enabled === false) {
+    columns = columns.filter((column) => column !== "gst_rate");
+    sections = sections.filter((section) => section !== "gst");
+  }
+
+  return {
+    sections,
+    columns: ITEM_COLUMNS.map((column) => column.value).filter(
+      (column) => columns.includes(column) || REQUIRED_COLUMNS.includes(column)
+    ),
+    font: TEMPLATE_FONTS.find((font) => font.value === raw.font)?.value ?? DEFAULT_TEMPLATE.font,
+    colors: {
+      primary: isColor(colors.primary) ? colors.primary : DEFAULT_TEMPLATE.colors.primary,
+      accent: isColor(colors.accent) ? colors.accent : DEFAULT_TEMPLATE.colors.accent,
+      text: isColor(colors.text) ? colors.text : DEFAULT_TEMPLATE.colors.text,
+    },
+    terms: typeof raw.terms === "string" ? raw.terms : DEFAULT_TEMPLATE.terms,
+    footer: typeof raw.footer === "string" ? raw.footer : DEFAULT_TEMPLATE.footer,
+  };
+};
+
+// show_hsn and gst_enabled are written too so the older readers of template_data agree
+export const toTemplateData = (template: InvoiceTemplate): Json => ({
+  sections: template.sections,
+  columns: template.columns,
+  font: template.font,
+  colors: template.colors,
+  terms: template.terms,
+  footer: template.footer,
+  show_hsn: template.columns.includes("hsn"),
+  gst_enabled: template.columns.includes("gst_rate") || template.sections.includes("gst"),
+  currency: "INR",
+});
+
+export const hexToRgb = (hex: string): [number, number, number] => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16),
+];
+
+// Templates with no owner ship with the app and are shared by everyone
+export const isBuiltInTemplate = (template: Pick<InvoiceTemplateRow, "user_id">) => !template.user_id;
+
+// The template chosen on the document, else the company's, else the built-in default
+export const getDocumentTemplate = async (
+  companyId: string,
+  templateId?: string | null
+): Promise<InvoiceTemplate> => {
+  let id = templateId;
+
+  if (!id) {
+    const { data: company } = await supabase.from("companies").select("template_id").eq("id", companyId).maybeSingle();
+    id = company?.template_id;
+  }
+
+  const query = supabase.from("invoice_templates").select("template_data");
+  const { data, error } = id
+    ? await query.eq("id", id).maybeSingle()
+    : await query.is("user_id", null).eq("is_default", true).limit(1).maybeSingle();
+
+  if (error || !data) return DEFAULT_TEMPLATE;
+  return parseTemplateData(data.template_data);
+};
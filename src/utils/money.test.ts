@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { calculateLineAmount, calculatePercentage, calculateRoundOff, roundMoney, sumMoney, toPaise } from "./money";
+
+describe("toPaise", () => {
+  it("rounds halves away from zero", () => {
+    expect(toPaise(1.005)).toBe(101);
+    expect(toPaise(-1.005)).toBe(-101);
+    expect(toPaise(2.675)).toBe(268);
+  });
+
+  it("reads strings and treats blanks as zero", () => {
+    expect(toPaise("10.50")).toBe(1050);
+    expect(toPaise(null)).toBe(0);
+    expect(toPaise(undefined)).toBe(0);
+  });
+});
+
+describe("roundMoney", () => {
+  it("rounds to the paisa", () => {
+    expect(roundMoney(2.675)).toBe(2.68);
+    expect(roundMoney(10.004)).toBe(10);
+  });
+});
+
+describe("sumMoney", () => {
+  it("adds without floating point noise", () => {
+    expect(sumMoney([0.1, 0.2])).toBe(0.3);
+    expect(sumMoney([1000, 90, 90, -0.01])).toBe(1179.99);
+  });
+
+  it("skips blanks", () => {
+    expect(sumMoney(["10.50", null, undefined, 1])).toBe(11.5);
+  });
+});
+
+describe("calculateLineAmount", () => {
+  it("rounds quantity times rate to the paisa", () => {
+    expect(calculateLineAmount(3, 0.1)).toBe(0.3);
+    expect(calculateLineAmount(7, 10.08)).toBe(70.56);
+    expect(calculateLineAmount(0.333, 10)).toBe(3.33);
+    expect(calculateLineAmount(1.5, 0.01)).toBe(0.02);
+  });
+});
+
+describe("calculatePercentage", () => {
+  it("rounds the tax to the paisa", () => {
+    expect(calculatePercentage(1000, 18)).toBe(180);
+    expect(calculatePercentage(10.08, 18)).toBe(1.81);
+  });
+
+  it("rounds halves away from zero on either side", () => {
+    expect(calculatePercentage(0.25, 18)).toBe(0.05);
+    expect(calculatePercentage(-0.25, 18)).toBe(-0.05);
+  });
+});
+
+describe("calculateRoundOff", () => {
+  it("takes the total to the nearest rupee", () => {
+    expect(calculateRoundOff(1704.49)).toBe(-0.49);
+    expect(calculateRoundOff(1704.51)).toBe(0.49);
+    expect(calculateRoundOff(1705)).toBe(0);
+  });
+
+  it("rounds a half rupee away from zero", () => {
+    expect(calculateRoundOff(1704.5)).toBe(0.5);
+    expect(calculateRoundOff(-10.5)).toBe(-0.5);
+  });
+});
@@ -0,0 +1,31 @@
+// Money is worked out in integer paise and only turned back into rupees for storing and
+// display, so sums never pick up floating point noise. Rounding rules:
+// - halves round away from zero
+// - a line amount is rounded to the paisa (quantity x rate)
+// - each tax head is rounded to the paisa on the taxable value of its rate slab
+// - the optional round-off takes the total to the nearest rupee
+
+type Amount = number | string | null | undefined;
+
+const roundHalfAwayFromZero = (value: number) => Math.sign(value) * Math.round(Math.abs(value));
+
+// toFixed first so 1.005 is read as 100.5 paise rather than 100.49999...
+export const toPaise = (amount: Amount) => roundHalfAwayFromZero(Number((Number(amount || 0) * 100).toFixed(6)));
+
+export const fromPaise = (paise: number) => paise / 100;
+
+export const roundMoney = (amount: Amount) => fromPaise(toPaise(amount));
+
+export const sumMoney = (amounts: Amount[]) => fromPaise(amounts.reduce<number>((sum, amount) => sum + toPaise(amount), 0));
+
+export const calculateLineAmount = (quantity: Amount, rate: Amount) =>
+  fromPaise(roundHalfAwayFromZero(Number(quantity || 0) * toPaise(rate)));
+
+export const calculatePercentage = (amount: Amount, rate: Amount) =>
+  fromPaise(roundHalfAwayFromZero((toPaise(amount) * Number(rate || 0)) / 100));
+
+// What has to be added to reach the nearest whole rupee, between -0.50 and +0.50
+export const calculateRoundOff = (amount: Amount) => {
+  const paise = toPaise(amount);
+  return fromPaise(roundHalfAwayFromZero(paise / 100) * 100 - paise);
+};
@@ -0,0 +1,26 @@
+export const TAX_INVOICE = "Tax Invoice";
+export const CREDIT_NOTE = "Credit Note";
+export const DEBIT_NOTE = "Debit Note";
+
+export const NOTE_TYPES = [CREDIT_NOTE, DEBIT_NOTE] as const;
+
+export type DocumentType = "invoice" | "credit_note" | "debit_note" | "quotation";
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  invoice: "Invoices",
+  credit_note: "Credit Notes",
+  debit_note: "Debit Notes",
+  quotation: "Quotations",
+};
+
+export const isNote = (invoiceType?: string | null) =>
+  invoiceType === CREDIT_NOTE || invoiceType === DEBIT_NOTE;
+
+export const getDocumentType = (invoiceType?: string | null): DocumentType => {
+  if (invoiceType === CREDIT_NOTE) return "credit_note";
+  if (invoiceType === DEBIT_NOTE) return "debit_note";
+  return "invoice";
+};
+
+// Credit notes reverse revenue and tax, so they count negative in every total
+export const getDocumentSign = (invoiceType?: string | null) => (invoiceType === CREDIT_NOTE ? -1 : 1);
@@ -0,0 +1,54 @@
+import { sumMoney } from "./money";
+
+export const PAYMENT_MODES = [
+  { value: "neft", label: "NEFT" },
+  { value: "rtgs", label: "RTGS" },
+  { value: "imps", label: "IMPS" },
+  { value: "upi", label: "UPI" },
+  { value: "cheque", label: "Cheque" },
+  { value: "cash", label: "Cash" },
+  { value: "card", label: "Card" },
+  { value: "other", label: "Other" },
+] as const;
+
+export type PaymentMode = (typeof PAYMENT_MODES)[number]["value"];
+
+// paid and partially_paid are set by the database from recorded payments, never by hand
+export const MANUAL_STATUSES = ["draft", "sent", "cancelled"] as const;
+
+export const STATUS_LABELS: Record<string, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  partially_paid: "Partially Paid",
+  paid: "Paid",
+  overdue: "Overdue",
+  cancelled: "Cancelled",
+  converted: "Converted",
+};
+
+export interface PaymentAmounts {
+  amount: number | string;
+  tds_amount?: number | string | null;
+}
+
+interface InvoiceWithPayments {
+  total_amount: number | string;
+  payments?: PaymentAmounts[] | null;
+}
+
+export const getPaymentModeLabel = (mode: string) =>
+  PAYMENT_MODES.find((option) => option.value === mode)?.label ?? mode;
+
+// Money actually received in the bank
+export const getReceivedAmount = (payments: PaymentAmounts[] | null | undefined) =>
+  sumMoney((payments || []).map((payment) => payment.amount));
+
+export const getTdsDeducted = (payments: PaymentAmounts[] | null | undefined) =>
+  sumMoney((payments || []).map((payment) => payment.tds_amount));
+
+// Receipts plus TDS withheld by the client, both reduce what the client still owes
+export const getSettledAmount = (payments: PaymentAmounts[] | null | undefined) =>
+  sumMoney([getReceivedAmount(payments), getTdsDeducted(payments)]);
+
+export const getBalanceDue = (invoice: InvoiceWithPayments) =>
+  Math.max(0, sumMoney([invoice.total_amount, -getSettledAmount(invoice.payments)]));
@@ -0,0 +1,101 @@
+import jsPDF from "jspdf";
+
+export type FontStyle = "normal" | "bold" | "italic";
+
+// The fonts jsPDF embeds for text its standard fonts cannot draw: the rupee sign and
+// anything outside Latin-1. Served from public/fonts and fetched on first use.
+const PDF_FONT_FILES = [
+  { family: "NotoSans", style: "normal", file: "NotoSans-Regular.ttf" },
+  { family: "NotoSans", style: "bold", file: "NotoSans-Bold.ttf" },
+  { family: "NotoSans", style: "italic", file: "NotoSans-Italic.ttf" },
+  { family: "NotoSansDevanagari", style: "normal", file: "NotoSansDevanagari-Regular.ttf" },
+  { family: "NotoSansDevanagari", style: "bold", file: "NotoSansDevanagari-Bold.ttf" },
+] as const;
+
+const UNICODE_FONT = "NotoSans";
+const DEVANAGARI_FONT = "NotoSansDevanagari";
+
+export interface PdfFont {
+  family: string;
+  style: FontStyle;
+  file: string;
+  // Base64 of the TTF, as jsPDF's virtual file system expects
+  data: string;
+}
+
+// The first four bytes of a TrueType or OpenType file. A missing file can come back as the
+// app's index.html with status 200, which must not be embedded as a font.
+const FONT_SIGNATURES = ["00010000", "74727565", "4f54544f"];
+
+const isFontFile = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.slice(0, 4).arrayBuffer());
+  return FONT_SIGNATURES.includes(Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(""));
+};
+
+const readAsBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(",")[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+let fontsPromise: Promise<PdfFont[]> | null = null;
+
+const loadPdfFont = async (font: (typeof PDF_FONT_FILES)[number]): Promise<PdfFont> => {
+  const response = await fetch(`/fonts/${font.file}`);
+  if (!response.ok) throw new Error(`Font ${font.file} could not be loaded`);
+  const blob = await response.blob();
+  if (!(await isFontFile(blob))) throw new Error(`Font ${font.file} is not a font file`);
+  return { ...font, data: await readAsBase64(blob) };
+};
+
+// Loaded once per session. Never fails: fonts that cannot be loaded are left out, so the
+// PDF falls back to the standard fonts, and are tried again next time.
+export const loadPdfFonts = () => {
+  if (!fontsPromise) {
+    fontsPromise = Promise.allSettled(PDF_FONT_FILES.map(loadPdfFont)).then((results) => {
+      const fonts = results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+      const failures = results.flatMap((result) => (result.status === "rejected" ? [result.reason] : []));
+      if (failures.length > 0) {
+        if (import.meta.env.DEV) {
+          console.error("Error loading PDF fonts:", failures);
+        }
+        fontsPromise = null;
+      }
+      return fonts;
+    });
+  }
+  return fontsPromise;
+};
+
+export const registerPdfFonts = (doc: jsPDF, fonts: PdfFont[]) => {
+  fonts.forEach((font) => {
+    doc.addFileToVFS(font.file, font.data);
+    doc.addFont(font.file, font.family, font.style);
+  });
+};
+
+const DEVANAGARI = /[\u0900-\u097F]/;
+
+const isLatin1 = (text: string) => Array.from(text).every((char) => (char.codePointAt(0) ?? 0) <= 0xff);
+
+const hasFont = (fonts: PdfFont[], family: string, style: FontStyle) =>
+  fonts.some((font) => font.family === family && font.style === style);
+
+// The standard fonts only cover Latin-1, so other text is drawn in an embedded font.
+// Devanagari has no italic cut and falls back to upright. Without the embedded font the
+// text stays in the standard one, see toStandardFontText.
+export const getPdfFont = (text: string, font: string, style: FontStyle, fonts: PdfFont[]): [string, FontStyle] => {
+  const devanagariStyle = style === "italic" ? "normal" : style;
+  if (DEVANAGARI.test(text) && hasFont(fonts, DEVANAGARI_FONT, devanagariStyle)) return [DEVANAGARI_FONT, devanagariStyle];
+  if (!isLatin1(text) && hasFont(fonts, UNICODE_FONT, style)) return [UNICODE_FONT, style];
+  return [font, style];
+};
+
+// What a standard font can draw of the text: the rupee sign as "Rs." and anything else
+// outside Latin-1 as "?"
+export const toStandardFontText = (text: string) =>
+  Array.from(text.replace(/₹\s?/g, "Rs. "))
+    .map((char) => ((char.codePointAt(0) ?? 0) <= 0xff ? char : "?"))
+    .join("");
@@ -1,456 +1,569 @@
 import jsPDF from 'jspdf';
+import { fitImage } from './storageImages';
+import { TemplateSection, hexToRgb } from './invoiceTemplates';
+import { DocumentTable, InvoiceDocument, formatMoney } from './invoiceDocument';
+import { FontStyle, PdfFont, getPdfFont, loadPdfFonts, registerPdfFonts, toStandardFontText } from './pdfFonts';
 
-interface InvoiceItem {
-  description: string;
-  hsnSacCode?: string;
-  quantity: number;
-  rate: number;
-  amount: number;
-}
-
-interface InvoiceData {
-  invoice_number: string;
-  invoice_date: string;
-  due_date?: string;
-  invoice_type?: string;
-  subtotal: number;
-  gst_rate?: number;
-  gst_amount?: number;
-  igst_rate?: number;
-  igst_amount?: number;
-  sgst_rate?: number;
-  sgst_amount?: number;
-  cgst_rate?: number;
-  cgst_amount?: number;
-  total_amount: number;
-  items: InvoiceItem[];
-  notes?: string;
-  companies?: {
-    name: string;
-    address?: string;
-    phone?: string;
-    email?: string;
-    gst_number?: string;
-    pan_number?: string;
-    bank_name?: string;
-    account_number?: string;
-    ifsc_code?: string;
-    branch?: string;
-  };
-  clients?: {
-    name: string;
-    company_name?: string;
-    address?: string;
-    phone?: string;
-    email?: string;
-    gst_number?: string;
-    pan_number?: string;
-    cin_number?: string;
-  };
-}
+type SectionRenderer = () => void;
 
-export const generateInvoicePDF = (invoice: InvoiceData) => {
+// Lays the invoice document out section by section in the order the template lists them;
+// sections the template leaves out are not drawn at all
+export const renderInvoicePDF = (invoiceDocument: InvoiceDocument, fonts: PdfFont[]) => {
+  const { template } = invoiceDocument;
   const doc = new jsPDF();
-  
+  registerPdfFonts(doc, fonts);
+
   // Page dimensions
   const pageWidth = doc.internal.pageSize.getWidth();
   const pageHeight = doc.internal.pageSize.getHeight();
   const margin = 20;
-  
-  // Company details (use dynamic data from invoice or fallback to defaults)
-  const companyDetails = {
-    name: invoice.companies?.name || "THINKLYTICS AI CONSULTING LLP",
-    address: invoice.companies?.address || "B-12, East Baldev Park, Krishna Nagar, Delhi-110051",
-    bankName: invoice.companies?.bank_name || "IDFC FIRST BANK",
-    accountNumber: invoice.companies?.account_number || "79999858727",
-    ifsc: invoice.companies?.ifsc_code || "IDFB0020138",
-    branch: invoice.companies?.branch || "Mayur Vihar",
-    pan: invoice.companies?.pan_number || "AAYFT2120L",
-    gst: invoice.companies?.gst_number || "",
-    phone: invoice.companies?.phone || "+91-9999858727",
-    email: invoice.companies?.email || "thinklyticsaiconsulting@gmail.com"
-  };
-  
-  let yPos = 30;
-  
-  // Company name above INVOICE title
-  doc.setFontSize(16);
-  doc.setFont('helvetica', 'bold');
-  doc.setTextColor(59, 130, 246); // Primary blue color
-  const companyNameTitle = companyDetails.name;
-  const companyNameWidth = doc.getTextWidth(companyNameTitle);
-  doc.text(companyNameTitle, (pageWidth - companyNameWidth) / 2, yPos);
-  
-  yPos += 15;
-  
-  // Header - INVOICE title centered
-  doc.setFontSize(28);
-  doc.setFont('helvetica', 'bold');
-  doc.setTextColor(0, 0, 0);
-  const invoiceTitle = (invoice.invoice_type || 'Tax Invoice').toUpperCase();
-  const titleWidth = doc.getTextWidth(invoiceTitle);
-  doc.text(invoiceTitle, (pageWidth - titleWidth) / 2, yPos);
-  
-  // Invoice number and date on the left below title
-  yPos += 15;
-  doc.setFontSize(11);
-  doc.setFont('helvetica', 'normal');
-  doc.setTextColor(128, 128, 128);
-  doc.text('Invoice No:', margin, yPos);
-  doc.setTextColor(0, 0, 0);
-  doc.setFont('helvetica', 'bold');
-  doc.text(invoice.invoice_number, margin + 28, yPos);
-  
-  yPos += 8;
-  doc.setFont('helvetica', 'normal');
-  doc.setTextColor(128, 128, 128);
-  doc.text('Invoice Date:', margin, yPos);
-  doc.setTextColor(0, 0, 0);
-  doc.setFont('helvetica', 'bold');
-  doc.text(new Date(invoice.invoice_date).toLocaleDateString('en-GB'), margin + 32, yPos);
-  
-  yPos += 15;
-  
-  // From and To sections side by side
-  doc.setFontSize(14);
-  doc.setFont('helvetica', 'bold');
-  doc.setTextColor(0, 0, 0);
-  doc.text('From:', margin, yPos);
-  doc.text('To:', pageWidth / 2 + 10, yPos);
-  
-  yPos += 10;
-  
-  // From section (Company details) - left side
+  // Content stops here, leaving room for the page number
+  const contentBottom = pageHeight - 25;
   const leftColumnX = margin;
   const rightColumnX = pageWidth / 2 + 10;
   const maxColumnWidth = (pageWidth / 2) - 30;
-  
-  doc.setFontSize(11);
-  doc.setFont('helvetica', 'bold');
-  doc.text(companyDetails.name, leftColumnX, yPos);
-  
-  yPos += 8;
-  doc.setFont('helvetica', 'normal');
-  
-  // Split company address into lines with proper width
-  const fromAddressLines = doc.splitTextToSize(companyDetails.address, maxColumnWidth);
-  fromAddressLines.forEach((line: string) => {
-    doc.text(line, leftColumnX, yPos);
-    yPos += 6;
-  });
-  
-  if (companyDetails.phone) {
-    doc.text(`Phone: ${companyDetails.phone}`, leftColumnX, yPos);
-    yPos += 6;
-  }
-  
-  if (companyDetails.email) {
-    const emailLines = doc.splitTextToSize(`Email: ${companyDetails.email}`, maxColumnWidth);
-    emailLines.forEach((line: string) => {
-      doc.text(line, leftColumnX, yPos);
-      yPos += 6;
+  const tableWidth = pageWidth - 2 * margin;
+
+  // Template styling
+  const font = template.font;
+  const primaryColor = hexToRgb(template.colors.primary);
+  const accentColor = hexToRgb(template.colors.accent);
+  const textColor = hexToRgb(template.colors.text);
+  const setMutedColor = () => doc.setTextColor(128, 128, 128);
+
+  // Text goes through write and wrap, which switch to an embedded font for the rupee
+  // sign and other scripts the template font cannot draw, when that font could be loaded
+  let fontStyle: FontStyle = 'normal';
+  const setStyle = (style: FontStyle) => {
+    fontStyle = style;
+    doc.setFont(font, style);
+  };
+  const selectFontFor = (text: string) => {
+    const [family, style] = getPdfFont(text, font, fontStyle, fonts);
+    doc.setFont(family, style);
+    return family === font ? toStandardFontText(text) : text;
+  };
+  const write = (text: string, x: number, y: number, options?: { align?: 'left' | 'center' | 'right' }) => {
+    doc.text(selectFontFor(text), x, y, options);
+  };
+  const wrap = (text: string, width: number): string[] => doc.splitTextToSize(selectFontFor(text), width);
+
+  let yPos = 20;
+
+  // Starts a new page when a block of the given height would run into the page footer
+  const ensureSpace = (height: number) => {
+    if (yPos + height <= contentBottom) return false;
+    doc.addPage();
+    yPos = margin;
+    return true;
+  };
+
+  // Dark modules are drawn as filled runs along each row, inside the quiet zone the
+  // standard asks for
+  const drawQrCode = (modules: boolean[][], x: number, y: number, size: number) => {
+    const moduleSize = size / (modules.length + 8);
+    doc.setFillColor(0, 0, 0);
+    modules.forEach((row, rowIndex) => {
+      let runStart = -1;
+      [...row, false].forEach((dark, column) => {
+        if (dark && runStart < 0) runStart = column;
+        if (!dark && runStart >= 0) {
+          doc.rect(
+            x + (runStart + 4) * moduleSize,
+            y + (rowIndex + 4) * moduleSize,
+            (column - runStart) * moduleSize,
+            moduleSize,
+            'F'
+          );
+          runStart = -1;
+        }
+      });
     });
-  }
-  
-  if (companyDetails.pan) {
-    doc.text(`PAN: ${companyDetails.pan}`, leftColumnX, yPos);
-    yPos += 6;
-  }
-  
-  if (companyDetails.gst) {
-    doc.text(`GST: ${companyDetails.gst}`, leftColumnX, yPos);
-    yPos += 6;
-  }
-  
-  // To section (Client details) - right side
-  let clientYPos = 85;
-  doc.setFontSize(11);
-  doc.setFont('helvetica', 'bold');
-  
-  if (invoice.clients) {
-    const clientName = invoice.clients.name;
-    doc.text(clientName, rightColumnX, clientYPos);
-    
-    clientYPos += 8;
-    doc.setFont('helvetica', 'normal');
-    
-    if (invoice.clients.company_name) {
-      doc.text(invoice.clients.company_name, rightColumnX, clientYPos);
-      clientYPos += 6;
+  };
+
+  const header: SectionRenderer = () => {
+    yPos = 30;
+
+    // Logo centred in a fixed header box, pushing the rest of the page down
+    const { logo } = invoiceDocument;
+    if (logo) {
+      const { width, height } = fitImage(logo, 60, 22);
+      doc.addImage(logo.dataUrl, logo.format, (pageWidth - width) / 2, 12, width, height);
+      yPos = 12 + height + 10;
     }
-    
-    if (invoice.clients.address) {
-      const toAddressLines = doc.splitTextToSize(invoice.clients.address, maxColumnWidth);
-      toAddressLines.forEach((line: string) => {
-        doc.text(line, rightColumnX, clientYPos);
-        clientYPos += 6;
+
+    // Company name above INVOICE title
+    doc.setFontSize(16);
+    setStyle('bold');
+    doc.setTextColor(...primaryColor);
+    write(invoiceDocument.companyName, pageWidth / 2, yPos, { align: 'center' });
+
+    yPos += 15;
+
+    // Header - INVOICE title centered
+    doc.setFontSize(28);
+    doc.setTextColor(...textColor);
+    write(invoiceDocument.title, pageWidth / 2, yPos, { align: 'center' });
+
+    // Invoice number, dates and references on the left below the title, with the
+    // e-invoice QR code beside them on the right
+    yPos += 7;
+    const { qrCode } = invoiceDocument;
+    const qrSize = 35;
+    const qrX = pageWidth - margin - qrSize;
+    const qrTop = yPos + 3;
+    if (qrCode) drawQrCode(qrCode, qrX, qrTop, qrSize);
+
+    doc.setFontSize(11);
+    const valueX = margin + 45;
+    const valueWidth = (qrCode ? qrX - 5 : pageWidth - margin) - valueX;
+    invoiceDocument.details.forEach(({ label, value }) => {
+      yPos += 8;
+      setStyle('normal');
+      setMutedColor();
+      write(`${label}:`, margin, yPos);
+      setStyle('bold');
+      doc.setTextColor(...textColor);
+      const valueLines = wrap(value, valueWidth);
+      valueLines.forEach((line: string, index: number) => {
+        if (index > 0) yPos += 6;
+        write(line, valueX, yPos);
       });
-    }
-    
-    if (invoice.clients.phone) {
-      doc.text(`Phone: ${invoice.clients.phone}`, rightColumnX, clientYPos);
-      clientYPos += 6;
-    }
-    
-    if (invoice.clients.email) {
-      const emailLines = doc.splitTextToSize(`Email: ${invoice.clients.email}`, maxColumnWidth);
-      emailLines.forEach((line: string) => {
-        doc.text(line, rightColumnX, clientYPos);
-        clientYPos += 6;
+    });
+    if (qrCode) yPos = Math.max(yPos, qrTop + qrSize);
+
+    yPos += 15;
+  };
+
+  const parties: SectionRenderer = () => {
+    // Both addresses move to the next page together rather than splitting
+    setStyle('normal');
+    const wrappedLines = (lines: string[]) =>
+      lines.flatMap((text) => wrap(text, maxColumnWidth));
+    const fromLines = wrappedLines(invoiceDocument.from.lines);
+    const toLines = invoiceDocument.to ? wrappedLines(invoiceDocument.to.lines) : [];
+    ensureSpace(18 + Math.max(fromLines.length, toLines.length) * 6);
+
+    // From and To sections side by side
+    doc.setFontSize(14);
+    setStyle('bold');
+    doc.setTextColor(...textColor);
+    write('From:', leftColumnX, yPos);
+    write('To:', rightColumnX, yPos);
+
+    yPos += 10;
+    const partiesStartY = yPos;
+
+    const writeParty = (name: string, lines: string[], x: number) => {
+      let partyY = partiesStartY;
+      doc.setFontSize(11);
+      setStyle('bold');
+      write(name, x, partyY);
+      partyY += 8;
+
+      setStyle('normal');
+      lines.forEach((line) => {
+        write(line, x, partyY);
+        partyY += 6;
       });
-    }
-    
-    if (invoice.clients.gst_number) {
-      doc.text(`GST: ${invoice.clients.gst_number}`, rightColumnX, clientYPos);
-      clientYPos += 6;
-    }
-    
-    if (invoice.clients.pan_number) {
-      doc.text(`PAN: ${invoice.clients.pan_number}`, rightColumnX, clientYPos);
-      clientYPos += 6;
-    }
-    
-    if (invoice.clients.cin_number) {
-      doc.text(`CIN: ${invoice.clients.cin_number}`, rightColumnX, clientYPos);
-    }
-  }
-  
-  // Continue after From/To sections
-  yPos = Math.max(yPos, clientYPos) + 15;
-  
-  // Items table with proper column widths
-  const tableStartY = yPos;
-  const tableWidth = pageWidth - 2 * margin;
-  
-  // Column widths for proper alignment (with HSN/SAC column)
-  const descriptionWidth = tableWidth * 0.38;  // 38% for description
-  const hsnSacWidth = tableWidth * 0.15;       // 15% for HSN/SAC
-  const quantityWidth = tableWidth * 0.12;     // 12% for quantity  
-  const rateWidth = tableWidth * 0.175;        // 17.5% for rate
-  const amountWidth = tableWidth * 0.175;      // 17.5% for amount
-  
-  const descriptionX = margin + 5;
-  const hsnSacX = margin + descriptionWidth;
-  const quantityX = hsnSacX + hsnSacWidth;
-  const rateX = quantityX + quantityWidth;
-  const amountX = rateX + rateWidth;
-  
-  // Table header
-  doc.setFillColor(245, 245, 245);
-  doc.rect(margin, yPos, tableWidth, 12, 'F');
-  
-  doc.setFontSize(10);
-  doc.setFont('helvetica', 'bold');
-  doc.setTextColor(0, 0, 0);
-  doc.text('Description', descriptionX, yPos + 8);
-  doc.text('HSN/SAC', hsnSacX + 3, yPos + 8);
-  doc.text('Qty', quantityX + 5, yPos + 8);
-  doc.text('Rate', rateX + 5, yPos + 8);
-  doc.text('Amount', amountX + 5, yPos + 8);
-  
-  yPos += 12;
-  
-  // Table rows
-  doc.setFont('helvetica', 'normal');
-  doc.setFontSize(10);
-  
-  if (invoice.items && Array.isArray(invoice.items)) {
-    invoice.items.forEach((item, index) => {
-      // Description with proper width - split into lines first
-      const descLines = doc.splitTextToSize(item.description, descriptionWidth - 10);
-      const lineCount = Math.min(descLines.length, 2); // Maximum 2 lines
-      const rowHeight = lineCount > 1 ? 25 : 15; // Taller row for multiple lines
-      
+      return partyY;
+    };
+
+    const fromY = writeParty(invoiceDocument.from.name, fromLines, leftColumnX);
+    const toY = invoiceDocument.to ? writeParty(invoiceDocument.to.name, toLines, rightColumnX) : partiesStartY;
+
+    // Continue after From/To sections
+    yPos = Math.max(fromY, toY) + 15;
+  };
+
+  // Column positions across the full table width; the zero-width column takes the rest
+  const layoutColumns = (table: DocumentTable) => {
+    const fixedWidth = table.columns.reduce((sum, column) => sum + tableWidth * column.width, 0);
+    let columnX = margin;
+    return table.columns.map((column) => {
+      const width = column.width === 0 ? tableWidth - fixedWidth : tableWidth * column.width;
+      const cell = {
+        ...column,
+        width,
+        x: column.align === 'right' ? columnX + width - 3 : columnX + 5,
+      };
+      columnX += width;
+      return cell;
+    });
+  };
+
+  const tableHeader = (layout: ReturnType<typeof layoutColumns>, height: number, fontSize: number) => {
+    doc.setFillColor(...accentColor);
+    doc.rect(margin, yPos, tableWidth, height, 'F');
+
+    doc.setFontSize(fontSize);
+    setStyle('bold');
+    doc.setTextColor(...textColor);
+    layout.forEach((column) => write(column.label, column.x, yPos + height - 4, { align: column.align }));
+
+    yPos += height;
+  };
+
+  const items: SectionRenderer = () => {
+    const table = invoiceDocument.items;
+    const layout = layoutColumns(table);
+    const headerHeight = 12;
+    const carryHeight = 10;
+    const lineHeight = 5;
+    const rowPadding = 10;
+    // Rows stop short of the bottom so the carried-forward line always fits under them
+    const rowsBottom = contentBottom - carryHeight;
+    const linesPerPage = Math.floor((rowsBottom - margin - headerHeight - carryHeight - rowPadding) / lineHeight);
+
+    let carried = 0;
+    let rowsDrawn = 0;
+
+    // Running subtotal in the amount column, which is always the last
+    const carryRow = (label: string) => {
+      doc.setDrawColor(230, 230, 230);
+      doc.rect(margin, yPos, tableWidth, carryHeight);
+      doc.setFontSize(10);
+      setStyle('bold');
+      doc.setTextColor(...textColor);
+      write(label, layout[0].x, yPos + 7);
+      const amountColumn = layout[layout.length - 1];
+      write(formatMoney(carried, invoiceDocument.currency), amountColumn.x, yPos + 7, { align: amountColumn.align });
+      yPos += carryHeight;
+    };
+
+    const breakPage = () => {
+      if (rowsDrawn > 0) carryRow('Carried forward');
+      doc.addPage();
+      yPos = margin;
+      tableHeader(layout, headerHeight, 10);
+      if (rowsDrawn > 0) carryRow('Brought forward');
+    };
+
+    const drawRow = (cellLines: string[][], index: number) => {
+      const lineCount = Math.max(1, ...cellLines.map((lines) => lines.length));
+      const rowHeight = lineCount * lineHeight + rowPadding;
+
       // Row background
       if (index % 2 === 0) {
         doc.setFillColor(250, 250, 250);
         doc.rect(margin, yPos, tableWidth, rowHeight, 'F');
       }
-      
+
       // Row border
       doc.setDrawColor(230, 230, 230);
       doc.rect(margin, yPos, tableWidth, rowHeight);
-      
-      doc.setTextColor(0, 0, 0);
-      
-      // Description - print up to 2 lines
-      descLines.slice(0, 2).forEach((line, lineIndex) => {
-        doc.text(line, descriptionX, yPos + 8 + (lineIndex * 6));
+
+      doc.setFontSize(10);
+      setStyle('normal');
+      doc.setTextColor(...textColor);
+
+      // Wrapped cells start at the top, single lines are centred vertically
+      layout.forEach((column, columnIndex) => {
+        const lines = cellLines[columnIndex];
+        const firstLineY = lineCount > 1 ? yPos + 8 : yPos + (rowHeight / 2) + 2;
+        lines.forEach((line, lineIndex) => {
+          write(line, column.x, firstLineY + (lineIndex * lineHeight), { align: column.align });
+        });
       });
-      
-      // HSN/SAC, Quantity, Rate, Amount - center them vertically in the row
-      const verticalCenter = yPos + (rowHeight / 2) + 2;
-      doc.text(item.hsnSacCode || '-', hsnSacX + 3, verticalCenter);
-      doc.text(item.quantity.toString(), quantityX + 10, verticalCenter);
-      doc.text(`Rs${item.rate.toLocaleString('en-IN')}`, rateX + 5, verticalCenter);
-      doc.text(`Rs${item.amount.toLocaleString('en-IN')}`, amountX + 5, verticalCenter);
-      
+
       yPos += rowHeight;
+    };
+
+    ensureSpace(headerHeight + lineHeight + rowPadding + carryHeight);
+    tableHeader(layout, headerHeight, 10);
+
+    table.rows.forEach((row, index) => {
+      // Cells wrap in full; nothing is cut short
+      setStyle('normal');
+      let pending: string[][] | null = row.map(
+        (value, columnIndex) => wrap(value, layout[columnIndex].width - 8)
+      );
+      let counted = false;
+
+      while (pending) {
+        const lineCount = Math.max(1, ...pending.map((lines) => lines.length));
+        const linesLeft = Math.floor((rowsBottom - yPos - rowPadding) / lineHeight);
+
+        // A row moves to the next page whole, unless it is taller than a page and
+        // continues there instead
+        if (lineCount > linesLeft && (lineCount <= linesPerPage || linesLeft < 1)) {
+          breakPage();
+          continue;
+        }
+
+        const shown = Math.min(lineCount, linesLeft);
+        drawRow(pending.map((lines) => lines.slice(0, shown)), index);
+        // The amount prints on the row's first part, so it counts from there
+        if (!counted) {
+          carried += table.amounts[index] || 0;
+          rowsDrawn += 1;
+          counted = true;
+        }
+        const rest = pending.map((lines) => lines.slice(shown));
+        pending = rest.some((lines) => lines.length > 0) ? rest : null;
+      }
     });
-  }
-  
-  yPos += 15;
-  
-  // Totals section (right aligned with proper spacing)
-  const totalsStartX = pageWidth - 80;
-  const totalsValueX = pageWidth - 20;
-  
-  doc.setFontSize(11);
-  doc.setFont('helvetica', 'normal');
-  
-  // Subtotal
-  doc.text('Subtotal:', totalsStartX, yPos);
-  doc.text(`Rs${invoice.subtotal.toLocaleString('en-IN')}`, totalsValueX, yPos, { align: 'right' });
-  
-  // Show IGST if present
-  if (invoice.igst_amount && invoice.igst_amount > 0) {
-    yPos += 10;
-    doc.text(`IGST @ ${invoice.igst_rate}%:`, totalsStartX, yPos);
-    doc.text(`Rs${invoice.igst_amount.toLocaleString('en-IN')}`, totalsValueX, yPos, { align: 'right' });
-  }
-  
-  // Show SGST if present
-  if (invoice.sgst_amount && invoice.sgst_amount > 0) {
-    yPos += 10;
-    doc.text(`SGST @ ${invoice.sgst_rate}%:`, totalsStartX, yPos);
-    doc.text(`Rs${invoice.sgst_amount.toLocaleString('en-IN')}`, totalsValueX, yPos, { align: 'right' });
-  }
-  
-  // Show CGST if present
-  if (invoice.cgst_amount && invoice.cgst_amount > 0) {
+
+    yPos += 15;
+  };
+
+  const totals: SectionRenderer = () => {
+    // Totals section (right aligned with proper spacing)
+    const totalsStartX = pageWidth - 80;
+    const totalsValueX = pageWidth - 20;
+    doc.setFontSize(10);
+    setStyle('bold');
+    const { inrTotal, declaration } = invoiceDocument;
+    const wordsLines = [
+      ...wrap(`Amount in words: ${invoiceDocument.amountInWords}`, tableWidth),
+      ...(inrTotal ? wrap(`In rupees: ${inrTotal.amountInWords}`, tableWidth) : []),
+    ];
+    setStyle('normal');
+    const declarationLines = declaration ? wrap(declaration, tableWidth) : [];
+    ensureSpace(
+      invoiceDocument.totals.length * 10 + 25 + (inrTotal ? 8 : 0) + (wordsLines.length + declarationLines.length) * 6
+    );
+
+    doc.setFontSize(11);
+    setStyle('normal');
+    doc.setTextColor(...textColor);
+
+    // Subtotal, then one line per tax head and rate slab
+    invoiceDocument.totals.forEach((line, index) => {
+      if (index > 0) yPos += 10;
+      write(`${line.label}:`, totalsStartX, yPos);
+      write(line.value, totalsValueX, yPos, { align: 'right' });
+    });
+
+    // Total
+    yPos += 15;
+    setStyle('bold');
+    doc.setFontSize(14);
+    doc.setTextColor(...primaryColor);
+    write(`${invoiceDocument.total.label}:`, totalsStartX, yPos);
+    write(invoiceDocument.total.value, totalsValueX, yPos, { align: 'right' });
+
+    // Foreign currency invoices restate the total in rupees
+    if (inrTotal) {
+      yPos += 8;
+      doc.setFontSize(10);
+      setStyle('normal');
+      doc.setTextColor(...textColor);
+      write(`${inrTotal.label}: ${inrTotal.value}`, totalsValueX, yPos, { align: 'right' });
+    }
+
+    // The total in words, as GST invoices conventionally state it
     yPos += 10;
-    doc.text(`CGST @ ${invoice.cgst_rate}%:`, totalsStartX, yPos);
-    doc.text(`Rs${invoice.cgst_amount.toLocaleString('en-IN')}`, totalsValueX, yPos, { align: 'right' });
-  }
-  
-  // Total
-  yPos += 15;
-  doc.setFont('helvetica', 'bold');
-  doc.setFontSize(14);
-  doc.text('Total:', totalsStartX, yPos);
-  doc.text(`Rs${invoice.total_amount.toLocaleString('en-IN')}`, totalsValueX, yPos, { align: 'right' });
-  
-  yPos += 20;
-  
-  // Banking Details - exactly matching the view layout
-  doc.setFontSize(14);
-  doc.setFont('helvetica', 'bold');
-  doc.setTextColor(0, 0, 0);
-  doc.text('Banking Details:', leftColumnX, yPos);
-  
-  yPos += 15;
-  
-  // Create exact 2x3 grid structure like in the view with better spacing
-  const bankingStartY = yPos;
-  const rowHeight = 22; // Reduced height
-  const leftColWidth = 85; // Reduced width
-  const rightColX = leftColumnX + leftColWidth + 25; // Reduced gap
-  const maxTextWidth = 80; // Maximum width for text wrapping
-  
-  // Background rectangle
-  doc.setFillColor(245, 245, 245);
-  doc.rect(leftColumnX, bankingStartY, pageWidth - 2 * margin, rowHeight * 3, 'F');
-  
-  // Row 1: Bank Name | Account Name  
-  doc.setFontSize(9);
-  doc.setFont('helvetica', 'normal');
-  doc.setTextColor(128, 128, 128);
-  doc.text('Bank Name', leftColumnX + 5, bankingStartY + 8);
-  doc.text('Account Name', rightColX, bankingStartY + 8);
-  
-  doc.setFontSize(9); // Reduced font size
-  doc.setFont('helvetica', 'bold');
-  doc.setTextColor(0, 0, 0);
-  doc.text(companyDetails.bankName, leftColumnX + 5, bankingStartY + 16);
-  
-  // Split long account name into multiple lines if needed
-  const accountNameLines = doc.splitTextToSize(companyDetails.name, maxTextWidth);
-  let accountNameY = bankingStartY + 16;
-  accountNameLines.forEach((line: string, index: number) => {
-    doc.text(line, rightColX, accountNameY);
-    if (index === 0) accountNameY += 8; // Only add spacing after first line
-  });
-  
-  // Row 2: Account Number | IFSC Code
-  doc.setFontSize(9);
-  doc.setFont('helvetica', 'normal');
-  doc.setTextColor(128, 128, 128);
-  doc.text('Account Number', leftColumnX + 5, bankingStartY + rowHeight + 8);
-  doc.text('IFSC Code', rightColX, bankingStartY + rowHeight + 8);
-  
-  doc.setFontSize(9);
-  doc.setFont('helvetica', 'bold');
-  doc.setTextColor(0, 0, 0);
-  doc.text(companyDetails.accountNumber, leftColumnX + 5, bankingStartY + rowHeight + 16);
-  doc.text(companyDetails.ifsc, rightColX, bankingStartY + rowHeight + 16);
-  
-  // Row 3: Branch | PAN Number
-  doc.setFontSize(9);
-  doc.setFont('helvetica', 'normal');
-  doc.setTextColor(128, 128, 128);
-  doc.text('Branch', leftColumnX + 5, bankingStartY + (rowHeight * 2) + 8);
-  doc.text('PAN Number', rightColX, bankingStartY + (rowHeight * 2) + 8);
-  
-  doc.setFontSize(9);
-  doc.setFont('helvetica', 'bold');
-  doc.setTextColor(0, 0, 0);
-  doc.text(companyDetails.branch, leftColumnX + 5, bankingStartY + (rowHeight * 2) + 16);
-  doc.text(companyDetails.pan, rightColX, bankingStartY + (rowHeight * 2) + 16);
-  
-  yPos = bankingStartY + (rowHeight * 3) + 10;
-  
-  // Notes and Signature section side by side
-  const notesSignatureY = yPos + 10;
-  
-  // Notes on the left
-  if (invoice.notes) {
-    let notesY = notesSignatureY;
+    doc.setFontSize(10);
+    setStyle('bold');
+    doc.setTextColor(...textColor);
+    wordsLines.forEach((line) => {
+      write(line, leftColumnX, yPos);
+      yPos += 6;
+    });
+
+    setStyle('normal');
+    declarationLines.forEach((line) => {
+      write(line, leftColumnX, yPos);
+      yPos += 6;
+    });
+
+    yPos += 14;
+  };
+
+  const gst: SectionRenderer = () => {
+    // HSN/SAC-wise tax summary
+    const { hsnSummary } = invoiceDocument;
+    if (!hsnSummary) return;
+
+    const layout = layoutColumns(hsnSummary);
+
+    ensureSpace(26);
+    doc.setFontSize(12);
+    setStyle('bold');
+    doc.setTextColor(...textColor);
+    write('HSN/SAC Summary:', leftColumnX, yPos);
+
+    yPos += 6;
+    tableHeader(layout, 10, 9);
+
+    hsnSummary.rows.forEach((row) => {
+      // The column headings repeat at the top of a continuation page
+      if (ensureSpace(10)) tableHeader(layout, 10, 9);
+      doc.setFontSize(9);
+      setStyle('normal');
+      doc.setTextColor(...textColor);
+      doc.setDrawColor(230, 230, 230);
+      doc.rect(margin, yPos, tableWidth, 10);
+      row.forEach((value, index) => {
+        write(value, layout[index].x, yPos + 7, { align: layout[index].align });
+      });
+      yPos += 10;
+    });
+
+    yPos += 15;
+  };
+
+  const bank: SectionRenderer = () => {
+    // Banking Details - two columns, only the fields the company has filled in
+    const bankingDetails = invoiceDocument.bank;
+    if (bankingDetails.length === 0) return;
+
+    const rowHeight = 22;
+    const rowCount = Math.ceil(bankingDetails.length / 2);
+    ensureSpace(15 + rowHeight * rowCount);
+
+    doc.setFontSize(14);
+    setStyle('bold');
+    doc.setTextColor(...textColor);
+    write('Banking Details:', leftColumnX, yPos);
+
+    yPos += 15;
+
+    const bankingStartY = yPos;
+    const leftColWidth = 85;
+    const rightColX = leftColumnX + leftColWidth + 25;
+    const maxTextWidth = 80; // Maximum width for text wrapping
+
+    // Background rectangle
+    doc.setFillColor(...accentColor);
+    doc.rect(leftColumnX, bankingStartY, tableWidth, rowHeight * rowCount, 'F');
+
+    bankingDetails.forEach(({ label, value }, index) => {
+      const cellX = index % 2 === 0 ? leftColumnX + 5 : rightColX;
+      const cellY = bankingStartY + rowHeight * Math.floor(index / 2);
+
+      doc.setFontSize(9);
+      setStyle('normal');
+      setMutedColor();
+      write(label, cellX, cellY + 8);
+
+      setStyle('bold');
+      doc.setTextColor(...textColor);
+      // Long values such as the account name wrap onto a second line
+      const valueLines = wrap(value, maxTextWidth).slice(0, 2);
+      valueLines.forEach((line: string, lineIndex: number) => {
+        write(line, cellX, cellY + 16 + lineIndex * 5);
+      });
+    });
+
+    yPos = bankingStartY + (rowHeight * rowCount) + 15;
+  };
+
+  const textBlock = (title: string, text: string) => {
+    if (!text.trim()) return;
+
+    ensureSpace(14);
     doc.setFontSize(12);
-    doc.setFont('helvetica', 'bold');
-    doc.setTextColor(0, 0, 0);
-    doc.text('Notes:', leftColumnX, notesY);
-    
-    notesY += 10;
-    doc.setFont('helvetica', 'normal');
+    setStyle('bold');
+    doc.setTextColor(...textColor);
+    write(title, leftColumnX, yPos);
+
+    yPos += 8;
+    doc.setFontSize(10);
+    setStyle('normal');
     doc.setTextColor(64, 64, 64);
-    const noteLines = doc.splitTextToSize(invoice.notes, maxColumnWidth);
-    noteLines.forEach((line: string) => {
-      doc.text(line, leftColumnX, notesY);
-      notesY += 6;
+    const lines = wrap(text, tableWidth);
+    lines.forEach((line: string) => {
+      ensureSpace(6);
+      write(line, leftColumnX, yPos);
+      yPos += 6;
     });
-    yPos = Math.max(yPos, notesY);
+
+    yPos += 8;
+  };
+
+  const notes: SectionRenderer = () => textBlock('Notes:', invoiceDocument.notes);
+
+  const terms: SectionRenderer = () => textBlock('Terms & Conditions:', invoiceDocument.terms);
+
+  const signature: SectionRenderer = () => {
+    // Signature block on the right
+    const { signature: signatureBlock } = invoiceDocument;
+    const sigRightX = pageWidth - margin;
+    const imageHeight = signatureBlock.image ? fitImage(signatureBlock.image, 50, 18).height + 8 : 20;
+    ensureSpace(5 + imageHeight + (signatureBlock.name ? 6 : 0) + 2);
+    yPos += 5;
+    doc.setFontSize(9);
+    setStyle('normal');
+    setMutedColor();
+    write(signatureBlock.forCompany, sigRightX, yPos, { align: 'right' });
+
+    if (signatureBlock.image) {
+      const { width, height } = fitImage(signatureBlock.image, 50, 18);
+      doc.addImage(signatureBlock.image.dataUrl, signatureBlock.image.format, sigRightX - width, yPos + 3, width, height);
+      yPos += height + 8;
+    } else {
+      yPos += 20;
+    }
+
+    if (signatureBlock.name) {
+      doc.setFontSize(11);
+      setStyle('bold');
+      doc.setTextColor(...textColor);
+      write(signatureBlock.name, sigRightX, yPos, { align: 'right' });
+      yPos += 6;
+    }
+
+    doc.setFontSize(9);
+    setStyle('normal');
+    setMutedColor();
+    write(signatureBlock.designation, sigRightX, yPos, { align: 'right' });
+
+    yPos += 15;
+  };
+
+  const footer: SectionRenderer = () => {
+    if (!invoiceDocument.footer.trim()) return;
+
+    doc.setFontSize(9);
+    const footerLines = wrap(invoiceDocument.footer, tableWidth);
+    ensureSpace(10 + footerLines.length * 5);
+
+    yPos += 10;
+    setStyle('italic');
+    setMutedColor();
+    footerLines.forEach((line: string) => {
+      write(line, pageWidth / 2, yPos, { align: 'center' });
+      yPos += 5;
+    });
+  };
+
+  const sections: Record<TemplateSection, SectionRenderer> = {
+    header,
+    parties,
+    items,
+    totals,
+    gst,
+    bank,
+    notes,
+    terms,
+    signature,
+    footer,
+  };
+
+  template.sections.forEach((section) => sections[section]());
+
+  // Page numbers go on last, once the page count is known
+  const pageCount = doc.getNumberOfPages();
+  const [reference] = invoiceDocument.details;
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    setStyle('normal');
+    setMutedColor();
+    if (pageCount > 1 && reference) write(`${reference.label} ${reference.value}`, margin, pageHeight - 10);
+    write(`Page ${page} of ${pageCount}`, pageWidth - margin, pageHeight - 10, { align: 'right' });
   }
-  
-  // Signature on the right
-  let sigY = notesSignatureY;
-  doc.setFontSize(9);
-  doc.setFont('helvetica', 'normal');
-  doc.setTextColor(128, 128, 128);
-  const sigLabelText = 'Authorized Signatory';
-  const sigLabelWidth = doc.getTextWidth(sigLabelText);
-  doc.text(sigLabelText, pageWidth - margin - sigLabelWidth, sigY);
-  
-  sigY += 20;
-  doc.setFontSize(18);
-  doc.setFont('helvetica', 'bolditalic');
-  doc.setTextColor(0, 0, 0);
-  const signatureName = 'Divij Bajaj';
-  const sigNameWidth = doc.getTextWidth(signatureName);
-  doc.text(signatureName, pageWidth - margin - sigNameWidth, sigY);
-  
-  yPos = Math.max(yPos, sigY) + 10;
-  
-  // Electronic signature disclaimer
-  yPos += 15;
-  doc.setFontSize(9);
-  doc.setFont('helvetica', 'italic');
-  doc.setTextColor(128, 128, 128);
-  const disclaimerText = "This invoice is electronically generated and does not require a physical signature.";
-  const disclaimerWidth = doc.getTextWidth(disclaimerText);
-  doc.text(disclaimerText, (pageWidth - disclaimerWidth) / 2, yPos);
-  
+
+  return doc;
+};
+
+export const generateInvoicePDF = async (invoiceDocument: InvoiceDocument) => {
+  const doc = renderInvoicePDF(invoiceDocument, await loadPdfFonts());
+
   // Download the PDF
-  doc.save(`Invoice-${invoice.invoice_number}.pdf`);
-  
+  doc.save(`${invoiceDocument.fileName}.pdf`);
+
   return doc;
-};
\ No newline at end of file
+};
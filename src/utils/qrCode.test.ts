@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { encodeQrCode } from "./qrCode";
+
+// The 7 x 7 finder pattern: a dark ring, a light ring and a dark 3 x 3 centre
+const FINDER = [
+  "#######",
+  "#.....#",
+  "#.###.#",
+  "#.###.#",
+  "#.###.#",
+  "#.....#",
+  "#######",
+];
+
+const readSquare = (modules: boolean[][], top: number, left: number) =>
+  FINDER.map((_, y) => FINDER.map((_, x) => (modules[top + y][left + x] ? "#" : ".")).join(""));
+
+describe("encodeQrCode", () => {
+  it("uses a version 1 symbol for short text", () => {
+    const modules = encodeQrCode("IRN");
+    expect(modules).toHaveLength(21);
+    modules.forEach((row) => expect(row).toHaveLength(21));
+  });
+
+  it("grows to hold a signed e-invoice QR", () => {
+    const modules = encodeQrCode(`eyJhbGciOiJSUzI1NiJ9.${"a".repeat(900)}.signature`);
+    expect(modules.length).toBeGreaterThan(21);
+    expect((modules.length - 17) % 4).toBe(0);
+  });
+
+  it("places finder patterns in every corner but the bottom right, row by row", () => {
+    const modules = encodeQrCode("INV/2026-27/0001");
+    const last = modules.length - 7;
+    expect(readSquare(modules, 0, 0)).toEqual(FINDER);
+    expect(readSquare(modules, 0, last)).toEqual(FINDER);
+    expect(readSquare(modules, last, 0)).toEqual(FINDER);
+    expect(readSquare(modules, last, last)).not.toEqual(FINDER);
+  });
+});
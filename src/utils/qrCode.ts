@@ -0,0 +1,11 @@
+import { create } from "qrcode";
+
+// QR code for the signed e-invoice QR, which has to be printed on the invoice. Encoded at
+// error correction level M in the smallest version that holds the text. Returns the module
+// matrix, true for dark, row by row.
+export const encodeQrCode = (text: string): boolean[][] => {
+  const { modules } = create(text, { errorCorrectionLevel: "M" });
+  return Array.from({ length: modules.size }, (_, y) =>
+    Array.from({ length: modules.size }, (_, x) => modules.get(y, x) === 1)
+  );
+};
@@ -0,0 +1,36 @@
+import { Tables } from "@/integrations/supabase/types";
+
+export type Quotation = Tables<"quotations">;
+
+export const QUOTATION = "Quotation";
+
+export const QUOTATION_STATUSES = [
+  { value: "draft", label: "Draft" },
+  { value: "sent", label: "Sent" },
+  { value: "accepted", label: "Accepted" },
+  { value: "rejected", label: "Rejected" },
+  { value: "expired", label: "Expired" },
+] as const;
+
+export type QuotationStatus = (typeof QUOTATION_STATUSES)[number]["value"];
+
+// Quotes can be set to these by hand; expiry follows from the validity date
+export const MANUAL_QUOTATION_STATUSES: QuotationStatus[] = ["draft", "sent", "accepted", "rejected"];
+
+export const getQuotationStatusLabel = (status: string) =>
+  QUOTATION_STATUSES.find((option) => option.value === status)?.label ?? status;
+
+export const DEFAULT_VALIDITY_DAYS = 30;
+
+type ValidityDetails = Pick<Quotation, "status" | "valid_until">;
+
+// The nightly job marks open quotes expired; until it runs the validity date decides
+export const getQuotationStatus = (quotation: ValidityDetails, today = new Date().toISOString().split("T")[0]) =>
+  (quotation.status === "draft" || quotation.status === "sent") && quotation.valid_until < today
+    ? "expired"
+    : quotation.status;
+
+type ConversionDetails = ValidityDetails & Pick<Quotation, "invoice_id">;
+
+export const canInvoiceQuotation = (quotation: ConversionDetails) =>
+  getQuotationStatus(quotation) === "accepted" && !quotation.invoice_id;
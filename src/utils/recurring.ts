@@ -0,0 +1,44 @@
+import { addMonths, format } from "date-fns";
+import { Tables } from "@/integrations/supabase/types";
+
+export type RecurringInvoiceProfile = Tables<"recurring_invoice_profiles">;
+export type RecurringInvoiceRun = Tables<"recurring_invoice_runs">;
+
+export const FREQUENCIES = [
+  { value: "monthly", label: "Monthly", months: 1 },
+  { value: "quarterly", label: "Quarterly", months: 3 },
+  { value: "yearly", label: "Yearly", months: 12 },
+] as const;
+
+export type Frequency = (typeof FREQUENCIES)[number]["value"];
+
+export const getFrequencyLabel = (frequency: string) =>
+  FREQUENCIES.find((option) => option.value === frequency)?.label ?? frequency;
+
+const toDate = (value: string) => new Date(`${value}T00:00:00`);
+
+// Same rule as recurring_run_date() in the database: counted from the start date so
+// month ends do not drift
+export const getRunDate = (startDate: string, frequency: string, runIndex: number) => {
+  const months = FREQUENCIES.find((option) => option.value === frequency)?.months ?? 1;
+  return format(addMonths(toDate(startDate), months * runIndex), "yyyy-MM-dd");
+};
+
+type ScheduleDetails = Pick<
+  RecurringInvoiceProfile,
+  "start_date" | "frequency" | "end_date" | "occurrences" | "generated_count" | "is_active"
+>;
+
+// Dates the scheduler will issue next, stopping at the end date or occurrence count
+export const getUpcomingRuns = (profile: ScheduleDetails, count = 3) => {
+  if (!profile.is_active) return [];
+
+  const runs: string[] = [];
+  for (let index = profile.generated_count; runs.length < count; index++) {
+    if (profile.occurrences && index >= profile.occurrences) break;
+    const runDate = getRunDate(profile.start_date, profile.frequency, index);
+    if (profile.end_date && runDate > profile.end_date) break;
+    runs.push(runDate);
+  }
+  return runs;
+};
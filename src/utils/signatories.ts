@@ -0,0 +1,28 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+
+export type Signatory = Tables<"company_signatories">;
+
+export type SignatoryDetails = Pick<Signatory, "name" | "designation" | "signature_url">;
+
+// Select value for "use the company default"; Radix selects cannot hold an empty value
+export const DEFAULT_SIGNATORY = "default";
+
+export const toSignatoryValue = (signatoryId?: string | null) => signatoryId || DEFAULT_SIGNATORY;
+
+export const fromSignatoryValue = (value: string) => (value === DEFAULT_SIGNATORY ? null : value);
+
+// The signatory chosen on the document, or the company default when none was picked
+export const getDocumentSignatory = async (
+  companyId: string,
+  signatoryId?: string | null
+): Promise<SignatoryDetails | null> => {
+  const query = supabase.from("company_signatories").select("name, designation, signature_url");
+
+  const { data, error } = signatoryId
+    ? await query.eq("id", signatoryId).maybeSingle()
+    : await query.eq("company_id", companyId).eq("is_default", true).maybeSingle();
+
+  if (error) return null;
+  return data;
+};
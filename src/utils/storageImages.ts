@@ -0,0 +1,112 @@
+import { supabase } from "@/integrations/supabase/client";
+
+const LOGO_BUCKET = "company-logos";
+const SIGNATURE_BUCKET = "company-signatures";
+
+export interface StoredImage {
+  dataUrl: string;
+  format: "PNG" | "JPEG";
+  width: number;
+  height: number;
+}
+
+// Images are stored as "<user id>/<file>" so the storage policies can scope them to
+// their owner; older logo rows may still hold the full storage URL
+const getStoragePath = (bucket: string, url: string) => {
+  const marker = `/${bucket}/`;
+  const index = url.indexOf(marker);
+  const path = index === -1 ? url : url.slice(index + marker.length);
+  return decodeURIComponent(path.split("?")[0]);
+};
+
+const getSignedImageUrl = async (bucket: string, url: string | null | undefined, expiresIn = 3600) => {
+  if (!url) return null;
+
+  try {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .createSignedUrl(getStoragePath(bucket, url), expiresIn);
+
+    if (error) return null;
+    return data?.signedUrl || null;
+  } catch {
+    return null;
+  }
+};
+
+const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Image could not be decoded"));
+    image.src = src;
+  });
+
+// Downloads the image as a data URL so it can be embedded in PDFs and captured by
+// html2canvas without tainting the canvas. jsPDF only takes PNG and JPEG, other
+// formats are redrawn as PNG. Returns null when there is no usable image.
+const loadStorageImage = async (bucket: string, url: string | null | undefined): Promise<StoredImage | null> => {
+  const signedUrl = await getSignedImageUrl(bucket, url);
+  if (!signedUrl) return null;
+
+  try {
+    const response = await fetch(signedUrl);
+    if (!response.ok) return null;
+
+    const blob = await response.blob();
+    const dataUrl = await readAsDataUrl(blob);
+    const image = await loadImage(dataUrl);
+    const width = image.naturalWidth || 300;
+    const height = image.naturalHeight || 150;
+
+    if (blob.type === "image/png" || blob.type === "image/jpeg") {
+      return { dataUrl, format: blob.type === "image/png" ? "PNG" : "JPEG", width, height };
+    }
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext("2d");
+    if (!context) return null;
+    context.drawImage(image, 0, 0, width, height);
+    return { dataUrl: canvas.toDataURL("image/png"), format: "PNG", width, height };
+  } catch {
+    return null;
+  }
+};
+
+// Uploads into the owner's folder and returns the storage path to keep on the row
+const uploadStorageImage = async (bucket: string, userId: string, file: File) => {
+  const fileExt = file.name.split(".").pop();
+  const fileName = `${userId}/${Date.now()}.${fileExt}`;
+
+  const { error } = await supabase.storage.from(bucket).upload(fileName, file);
+  return error ? null : fileName;
+};
+
+export const getSignedLogoUrl = (logoUrl: string | null | undefined) => getSignedImageUrl(LOGO_BUCKET, logoUrl);
+
+export const loadLogoImage = (logoUrl: string | null | undefined) => loadStorageImage(LOGO_BUCKET, logoUrl);
+
+export const getSignedSignatureUrl = (signatureUrl: string | null | undefined) =>
+  getSignedImageUrl(SIGNATURE_BUCKET, signatureUrl);
+
+export const loadSignatureImage = (signatureUrl: string | null | undefined) =>
+  loadStorageImage(SIGNATURE_BUCKET, signatureUrl);
+
+export const uploadSignatureImage = (userId: string, file: File) =>
+  uploadStorageImage(SIGNATURE_BUCKET, userId, file);
+
+// Largest size that fits the box without distorting the image
+export const fitImage = (image: Pick<StoredImage, "width" | "height">, maxWidth: number, maxHeight: number) => {
+  const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+  return { width: image.width * scale, height: image.height * scale };
+};
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import {
+  getGstinCheckCharacter,
+  getPanFromGstin,
+  getTaxIdProblems,
+  isValidGstin,
+  normalizeTaxIds,
+  validateCin,
+  validateGstin,
+  validatePan,
+  validatePanAgainstGstin,
+} from "./taxIds";
+
+// Published GSTINs, so the check characters are not worked out by the code under test
+const GSTIN = "27AAPFU0939F1ZV";
+const OTHER_GSTIN = "29AAGCB7383J1Z4";
+
+describe("getGstinCheckCharacter", () => {
+  it("works out the mod 36 check character", () => {
+    expect(getGstinCheckCharacter(GSTIN)).toBe("V");
+    expect(getGstinCheckCharacter(OTHER_GSTIN)).toBe("4");
+  });
+});
+
+describe("validateGstin", () => {
+  it("accepts a valid GSTIN however it was typed", () => {
+    expect(validateGstin(GSTIN)).toBeNull();
+    expect(validateGstin(" 27aapfu0939f1zv ")).toBeNull();
+    expect(isValidGstin(OTHER_GSTIN)).toBe(true);
+  });
+
+  it("leaves a blank GSTIN to the required check", () => {
+    expect(validateGstin("")).toBeNull();
+    expect(isValidGstin("")).toBe(false);
+  });
+
+  it("catches a typo through the check character", () => {
+    expect(validateGstin("27AAPFU0939F1ZW")).toBe("The GSTIN check digit does not match; look for a typo");
+    expect(validateGstin("27AAPFU0938F1ZV")).toBe("The GSTIN check digit does not match; look for a typo");
+  });
+
+  it("names the part of the GSTIN that is wrong", () => {
+    expect(validateGstin("27AAPFU0939F1Z")).toBe("GSTIN must be 15 characters");
+    expect(validateGstin("40AAPFU0939F1ZV")).toBe('GSTIN starts with "40", which is not a state code');
+    expect(validateGstin("96AAPFU0939F1ZV")).toBe('GSTIN starts with "96", which is not a state code');
+    expect(validateGstin("27AAPXU0939F1ZV")).toBe("Characters 3 to 12 of the GSTIN must be the holder's PAN");
+    expect(validateGstin("27AAPFU0939F0ZV")).toBe("The 13th character of the GSTIN must be 1-9 or A-Z");
+    expect(validateGstin("27AAPFU0939F1YV")).toBe("The 14th character of the GSTIN must be Z");
+  });
+});
+
+describe("validatePan", () => {
+  it("accepts a PAN with a known holder type", () => {
+    expect(validatePan("AAPFU0939F")).toBeNull();
+    expect(validatePan("abcpe1234f")).toBeNull();
+  });
+
+  it("rejects a malformed PAN", () => {
+    expect(validatePan("AAPFU0939")).toBe("PAN must be 10 characters");
+    expect(validatePan("AAPXU0939F")).toBe("PAN must be five letters, four digits and a letter, like ABCPE1234F");
+  });
+});
+
+describe("validateCin", () => {
+  it("checks the CIN's shape", () => {
+    expect(validateCin("U72200KA2015PTC123456")).toBeNull();
+    expect(validateCin("X72200KA2015PTC123456")).toBe("CIN must look like U72200KA2015PTC123456");
+  });
+});
+
+describe("validatePanAgainstGstin", () => {
+  it("takes the PAN from a valid GSTIN", () => {
+    expect(getPanFromGstin(GSTIN)).toBe("AAPFU0939F");
+    expect(getPanFromGstin("27AAPFU0939F1ZW")).toBeNull();
+  });
+
+  it("accepts the PAN in the GSTIN", () => {
+    expect(validatePanAgainstGstin("aapfu0939f", GSTIN)).toBeNull();
+  });
+
+  it("rejects a different PAN", () => {
+    expect(validatePanAgainstGstin("AAGCB7383J", GSTIN)).toBe("PAN does not match the one in the GSTIN (AAPFU0939F)");
+  });
+
+  it("has nothing to compare without both", () => {
+    expect(validatePanAgainstGstin("", GSTIN)).toBeNull();
+    expect(validatePanAgainstGstin("AAGCB7383J", "")).toBeNull();
+    expect(validatePanAgainstGstin("AAGCB7383J", "27AAPFU0939F1ZW")).toBeNull();
+  });
+});
+
+describe("getTaxIdProblems", () => {
+  it("lists every problem with a record", () => {
+    expect(getTaxIdProblems({ gst_number: GSTIN, pan_number: "AAGCB7383J", cin_number: "U722" })).toEqual([
+      "PAN does not match the one in the GSTIN (AAPFU0939F)",
+      "CIN must be 21 characters",
+    ]);
+    expect(getTaxIdProblems({ gst_number: GSTIN, pan_number: null, cin_number: null })).toEqual([]);
+  });
+});
+
+describe("normalizeTaxIds", () => {
+  it("fills in a blank PAN from the GSTIN", () => {
+    expect(normalizeTaxIds({ gst_number: " 27aapfu0939f1zv", pan_number: "" })).toEqual({
+      gst_number: GSTIN,
+      pan_number: "AAPFU0939F",
+    });
+  });
+
+  it("saves blank identifiers as null", () => {
+    expect(normalizeTaxIds({ gst_number: "", pan_number: "  ", cin_number: "" })).toEqual({
+      gst_number: null,
+      pan_number: null,
+      cin_number: null,
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { EXPORT_PLACE_OF_SUPPLY, getStateName } from "./gst";
+
+// Offline format checks for the tax identifiers on companies and clients. Each validator
+// returns null when the value is fine, otherwise a message for the form field.
+
+const PAN_PATTERN = /^[A-Z]{3}[ABCEFGHJLPT][A-Z]\d{4}[A-Z]$/;
+const CIN_PATTERN = /^[LU]\d{5}[A-Z]{2}\d{4}[A-Z]{3}\d{6}$/;
+const GSTIN_CHARACTERS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+// Identifiers are upper case without spaces, however they were typed
+export const normalizeTaxId = (value?: string | null) => (value || "").replace(/\s+/g, "").toUpperCase();
+
+// The 15th character of a GSTIN: each of the first 14 characters is read in base 36 and
+// weighted 1 and 2 alternately; the digits of each product (in base 36) are summed and
+// the check character brings the sum up to a multiple of 36
+export const getGstinCheckCharacter = (gstin: string) => {
+  const sum = Array.from(gstin.slice(0, 14)).reduce((total, character, index) => {
+    const product = GSTIN_CHARACTERS.indexOf(character) * (index % 2 === 0 ? 1 : 2);
+    return total + Math.floor(product / 36) + (product % 36);
+  }, 0);
+  return GSTIN_CHARACTERS[(36 - (sum % 36)) % 36];
+};
+
+export const validatePan = (value?: string | null): string | null => {
+  const pan = normalizeTaxId(value);
+  if (!pan) return null;
+  if (pan.length !== 10) return "PAN must be 10 characters";
+  if (!PAN_PATTERN.test(pan)) return "PAN must be five letters, four digits and a letter, like ABCPE1234F";
+  return null;
+};
+
+export const validateGstin = (value?: string | null): string | null => {
+  const gstin = normalizeTaxId(value);
+  if (!gstin) return null;
+  if (gstin.length !== 15) return "GSTIN must be 15 characters";
+  if (!getStateName(gstin.slice(0, 2)) || gstin.startsWith(EXPORT_PLACE_OF_SUPPLY)) return `GSTIN starts with "${gstin.slice(0, 2)}", which is not a state code`;
+  if (validatePan(gstin.slice(2, 12))) return "Characters 3 to 12 of the GSTIN must be the holder's PAN";
+  if (!/^[1-9A-Z]$/.test(gstin[12])) return "The 13th character of the GSTIN must be 1-9 or A-Z";
+  if (gstin[13] !== "Z") return "The 14th character of the GSTIN must be Z";
+  if (gstin[14] !== getGstinCheckCharacter(gstin)) return "The GSTIN check digit does not match; look for a typo";
+  return null;
+};
+
+export const isValidGstin = (value?: string | null) => !!normalizeTaxId(value) && !validateGstin(value);
+
+export const validateCin = (value?: string | null): string | null => {
+  const cin = normalizeTaxId(value);
+  if (!cin) return null;
+  if (cin.length !== 21) return "CIN must be 21 characters";
+  if (!CIN_PATTERN.test(cin)) return "CIN must look like U72200KA2015PTC123456";
+  return null;
+};
+
+// The PAN is embedded in the GSTIN, so a valid GSTIN gives it away
+export const getPanFromGstin = (gstin?: string | null) =>
+  isValidGstin(gstin) ? normalizeTaxId(gstin).slice(2, 12) : null;
+
+export const validatePanAgainstGstin = (pan?: string | null, gstin?: string | null): string | null => {
+  const gstinPan = getPanFromGstin(gstin);
+  return gstinPan && normalizeTaxId(pan) && normalizeTaxId(pan) !== gstinPan
+    ? `PAN does not match the one in the GSTIN (${gstinPan})`
+    : null;
+};
+
+interface TaxIdRecord {
+  gst_number?: string | null;
+  pan_number?: string | null;
+  cin_number?: string | null;
+}
+
+// Every problem with a saved record's identifiers, for listing records to clean up
+export const getTaxIdProblems = (record: TaxIdRecord): string[] =>
+  [
+    validateGstin(record.gst_number),
+    validatePan(record.pan_number) || validatePanAgainstGstin(record.pan_number, record.gst_number),
+    validateCin(record.cin_number),
+  ].filter((problem): problem is string => !!problem);
+
+type NormalizedTaxIds<T> = Omit<T, keyof TaxIdRecord> & {
+  gst_number: string | null;
+  pan_number: string | null;
+  cin_number?: string | null;
+};
+
+// What gets saved: normalized, with the PAN filled in from the GSTIN when left blank and
+// null for an identifier the record does not have
+export const normalizeTaxIds = <T extends TaxIdRecord>(record: T): NormalizedTaxIds<T> => ({
+  ...record,
+  gst_number: normalizeTaxId(record.gst_number) || null,
+  pan_number: normalizeTaxId(record.pan_number) || getPanFromGstin(record.gst_number) || null,
+  ...(record.cin_number !== undefined && { cin_number: normalizeTaxId(record.cin_number) || null }),
+});
@@ -0,0 +1,35 @@
+import { calculatePercentage } from "./money";
+
+// Income Tax Act sections our clients deduct TDS under, with the rates that apply to each
+export const TDS_SECTIONS = [
+  { code: "194J", label: "194J - Professional / technical services", rates: [10, 2] },
+  { code: "194C", label: "194C - Contractors", rates: [1, 2] },
+  { code: "194H", label: "194H - Commission or brokerage", rates: [2] },
+  { code: "194I", label: "194I - Rent", rates: [10, 2] },
+] as const;
+
+// Select value for clients that do not deduct TDS; stored as a null section and 0% rate
+export const NO_TDS = "none";
+
+interface TdsDetails {
+  subtotal: number | string;
+  tds_section?: string | null;
+  tds_rate?: number | string | null;
+}
+
+export const getTdsRates = (section: string): number[] => {
+  const match = TDS_SECTIONS.find((option) => option.code === section);
+  return match ? [...match.rates] : [0];
+};
+
+// TDS is deducted on the value before GST
+export const calculateTds = (invoice: TdsDetails) => calculatePercentage(invoice.subtotal, invoice.tds_rate);
+
+export const formatTdsSection = (invoice: Omit<TdsDetails, "subtotal">) =>
+  invoice.tds_section && Number(invoice.tds_rate) > 0
+    ? `${invoice.tds_section} @ ${Number(invoice.tds_rate)}%`
+    : "No TDS";
+
+export const toTdsSectionValue = (section?: string | null) => section || NO_TDS;
+
+export const fromTdsSectionValue = (value: string) => (value === NO_TDS ? null : value);
@@ -0,0 +1,4 @@
+-- Place of supply drives the automatic IGST vs CGST+SGST split; tax_override flags manually entered rates
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS place_of_supply text,
+ADD COLUMN IF NOT EXISTS tax_override boolean NOT NULL DEFAULT false;
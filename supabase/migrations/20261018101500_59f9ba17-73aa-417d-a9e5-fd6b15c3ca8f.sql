@@ -0,0 +1,197 @@
+-- Per-company invoice numbering series that restart every Indian financial year (April - March)
+CREATE TABLE public.invoice_number_series (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  prefix TEXT NOT NULL DEFAULT '',
+  separator TEXT NOT NULL DEFAULT '/',
+  padding INTEGER NOT NULL DEFAULT 4 CHECK (padding BETWEEN 1 AND 10),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX invoice_number_series_one_default_per_company
+ON public.invoice_number_series (company_id) WHERE is_default;
+
+-- Last number issued per series and financial year. Only written by the allocation trigger.
+CREATE TABLE public.invoice_number_counters (
+  series_id UUID NOT NULL REFERENCES public.invoice_number_series(id) ON DELETE CASCADE,
+  financial_year TEXT NOT NULL,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (series_id, financial_year)
+);
+
+ALTER TABLE public.invoice_number_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_number_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own numbering series"
+ON public.invoice_number_series FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own numbering series"
+ON public.invoice_number_series FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.companies c WHERE c.id = company_id AND c.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own numbering series"
+ON public.invoice_number_series FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own numbering series"
+ON public.invoice_number_series FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own numbering counters"
+ON public.invoice_number_counters FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.invoice_number_series s
+  WHERE s.id = series_id AND s.user_id = auth.uid()
+));
+
+CREATE TRIGGER update_invoice_number_series_updated_at
+BEFORE UPDATE ON public.invoice_number_series
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Financial year label for a date, e.g. 2026-10-18 -> '2026-27'
+CREATE OR REPLACE FUNCTION public.financial_year_label(for_date date)
+ RETURNS text
+ LANGUAGE sql
+ IMMUTABLE
+ SET search_path TO 'public'
+AS $function$
+  SELECT start_year::text || '-' || LPAD(((start_year + 1) % 100)::text, 2, '0')
+  FROM (
+    SELECT CASE
+      WHEN EXTRACT(MONTH FROM for_date) >= 4 THEN EXTRACT(YEAR FROM for_date)::int
+      ELSE EXTRACT(YEAR FROM for_date)::int - 1
+    END AS start_year
+  ) fy;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.format_invoice_number(series public.invoice_number_series, financial_year text, seq integer)
+ RETURNS text
+ LANGUAGE sql
+ IMMUTABLE
+ SET search_path TO 'public'
+AS $function$
+  SELECT CASE WHEN series.prefix = '' THEN '' ELSE series.prefix || series.separator END
+    || financial_year || series.separator || LPAD(seq::text, series.padding, '0');
+$function$;
+
+-- Issues the next number inside the inserting transaction. The counter row lock serialises
+-- concurrent inserts and a rolled back insert also rolls back the counter, so no gaps appear.
+CREATE OR REPLACE FUNCTION public.assign_invoice_number()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+    series public.invoice_number_series;
+    fy TEXT;
+    next_number INTEGER;
+BEGIN
+    IF NEW.series_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO series
+    FROM invoice_number_series
+    WHERE id = NEW.series_id
+    AND company_id = NEW.company_id
+    AND user_id = NEW.user_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Numbering series % does not belong to this company', NEW.series_id;
+    END IF;
+
+    fy := financial_year_label(NEW.invoice_date);
+
+    INSERT INTO invoice_number_counters (series_id, financial_year, last_number)
+    VALUES (series.id, fy, 1)
+    ON CONFLICT (series_id, financial_year)
+    DO UPDATE SET last_number = invoice_number_counters.last_number + 1
+    RETURNING last_number INTO next_number;
+
+    NEW.invoice_number := format_invoice_number(series, fy, next_number);
+    RETURN NEW;
+END;
+$function$;
+
+-- Read-only look ahead for the create form; the real number is only fixed on insert
+CREATE OR REPLACE FUNCTION public.preview_next_invoice_number(series_uuid uuid, for_date date DEFAULT CURRENT_DATE)
+ RETURNS text
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+    series public.invoice_number_series;
+    fy TEXT;
+    last_issued INTEGER;
+BEGIN
+    SELECT * INTO series
+    FROM invoice_number_series
+    WHERE id = series_uuid
+    AND user_id = auth.uid();
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    fy := financial_year_label(for_date);
+
+    SELECT last_number INTO last_issued
+    FROM invoice_number_counters
+    WHERE series_id = series.id
+    AND financial_year = fy;
+
+    RETURN format_invoice_number(series, fy, COALESCE(last_issued, 0) + 1);
+END;
+$function$;
+
+ALTER TABLE public.invoices
+ADD COLUMN series_id UUID REFERENCES public.invoice_number_series(id) ON DELETE SET NULL;
+
+CREATE TRIGGER assign_invoice_number_before_insert
+BEFORE INSERT ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_invoice_number();
+
+-- Numbers are unique per issuing company, not per login
+ALTER TABLE public.invoices DROP CONSTRAINT IF EXISTS invoices_user_id_invoice_number_key;
+ALTER TABLE public.invoices ADD CONSTRAINT invoices_company_id_invoice_number_key UNIQUE (company_id, invoice_number);
+
+-- Every company starts with a default series
+CREATE OR REPLACE FUNCTION public.create_default_invoice_series()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+    INSERT INTO invoice_number_series (user_id, company_id, name, prefix, is_default)
+    VALUES (NEW.user_id, NEW.id, 'Tax Invoice', 'INV', true);
+    RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER create_default_invoice_series_after_insert
+AFTER INSERT ON public.companies
+FOR EACH ROW
+EXECUTE FUNCTION public.create_default_invoice_series();
+
+INSERT INTO public.invoice_number_series (user_id, company_id, name, prefix, is_default)
+SELECT user_id, id, 'Tax Invoice', 'INV', true
+FROM public.companies;
+
+REVOKE EXECUTE ON FUNCTION public.assign_invoice_number() FROM anon, authenticated, PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.create_default_invoice_series() FROM anon, authenticated, PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.preview_next_invoice_number(uuid, date) FROM anon, PUBLIC;
+GRANT EXECUTE ON FUNCTION public.preview_next_invoice_number(uuid, date) TO authenticated;
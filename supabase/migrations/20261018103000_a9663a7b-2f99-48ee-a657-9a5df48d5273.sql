@@ -0,0 +1,127 @@
+-- Payments received against an invoice; balance due and paid status are derived from these rows
+CREATE TABLE public.payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  payment_date DATE NOT NULL,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount >= 0),
+  tds_amount DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (tds_amount >= 0),
+  mode TEXT NOT NULL DEFAULT 'neft' CHECK (mode IN ('neft', 'rtgs', 'imps', 'upi', 'cheque', 'cash', 'card', 'other')),
+  reference TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (amount + tds_amount > 0)
+);
+
+CREATE INDEX payments_invoice_id_idx ON public.payments (invoice_id);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own payments"
+ON public.payments FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own payments"
+ON public.payments FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.invoices i WHERE i.id = invoice_id AND i.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own payments"
+ON public.payments FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own payments"
+ON public.payments FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_payments_updated_at
+BEFORE UPDATE ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.invoices DROP CONSTRAINT IF EXISTS invoices_status_check;
+ALTER TABLE public.invoices ADD CONSTRAINT invoices_status_check CHECK (status = ANY (ARRAY['draft'::text, 'sent'::text, 'partially_paid'::text, 'paid'::text, 'overdue'::text, 'cancelled'::text]));
+
+-- TDS deducted by the client counts towards settling the invoice just like cash received
+CREATE OR REPLACE FUNCTION public.derive_payment_status(current_status text, total_amount numeric, settled_amount numeric)
+ RETURNS text
+ LANGUAGE sql
+ IMMUTABLE
+ SET search_path TO 'public'
+AS $function$
+  SELECT CASE
+    WHEN current_status = 'cancelled' THEN current_status
+    WHEN settled_amount > 0 AND settled_amount >= total_amount THEN 'paid'
+    WHEN settled_amount > 0 THEN 'partially_paid'
+    WHEN current_status IN ('paid', 'partially_paid') THEN 'sent'
+    ELSE current_status
+  END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.invoice_settled_amount(invoice_uuid uuid)
+ RETURNS numeric
+ LANGUAGE sql
+ STABLE
+ SET search_path TO 'public'
+AS $function$
+  SELECT COALESCE(SUM(amount + tds_amount), 0) FROM payments WHERE invoice_id = invoice_uuid;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.sync_invoice_payment_status()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+    affected_invoice UUID;
+BEGIN
+    affected_invoice := CASE WHEN TG_OP = 'DELETE' THEN OLD.invoice_id ELSE NEW.invoice_id END;
+
+    UPDATE invoices
+    SET status = derive_payment_status(status, total_amount, invoice_settled_amount(id))
+    WHERE id = affected_invoice;
+
+    IF TG_OP = 'UPDATE' AND OLD.invoice_id <> NEW.invoice_id THEN
+        UPDATE invoices
+        SET status = derive_payment_status(status, total_amount, invoice_settled_amount(id))
+        WHERE id = OLD.invoice_id;
+    END IF;
+
+    RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER sync_invoice_payment_status_after_change
+AFTER INSERT OR UPDATE OR DELETE ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_invoice_payment_status();
+
+-- Editing the total or picking a status by hand cannot contradict the recorded payments
+CREATE OR REPLACE FUNCTION public.apply_invoice_payment_status()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+    NEW.status := derive_payment_status(NEW.status, NEW.total_amount, invoice_settled_amount(NEW.id));
+    RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER apply_invoice_payment_status_before_update
+BEFORE UPDATE OF status, total_amount ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_invoice_payment_status();
+
+-- Invoices marked paid by hand before payments existed get one payment for the full amount
+INSERT INTO public.payments (user_id, invoice_id, payment_date, amount, mode, notes)
+SELECT user_id, id, updated_at::date, total_amount, 'other', 'Recorded before payment tracking'
+FROM public.invoices
+WHERE status = 'paid' AND total_amount > 0;
+
+REVOKE EXECUTE ON FUNCTION public.sync_invoice_payment_status() FROM anon, authenticated, PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.apply_invoice_payment_status() FROM anon, authenticated, PUBLIC;
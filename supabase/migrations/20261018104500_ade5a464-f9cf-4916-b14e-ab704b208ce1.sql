@@ -0,0 +1,12 @@
+-- TDS the client deducts under the Income Tax Act, as a default per client and recorded on each invoice
+ALTER TABLE public.clients
+ADD COLUMN tds_section TEXT,
+ADD COLUMN tds_rate DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (tds_rate >= 0 AND tds_rate <= 100);
+
+ALTER TABLE public.invoices
+ADD COLUMN tds_section TEXT,
+ADD COLUMN tds_rate DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (tds_rate >= 0 AND tds_rate <= 100);
+
+-- Everything so far was reported as 194J at a flat 10%, keep those figures unchanged
+UPDATE public.clients SET tds_section = '194J', tds_rate = 10;
+UPDATE public.invoices SET tds_section = '194J', tds_rate = 10;
@@ -0,0 +1,39 @@
+-- Credit and debit notes are stored as invoices that point back at the invoice they adjust
+ALTER TABLE public.invoices
+ADD COLUMN original_invoice_id UUID REFERENCES public.invoices(id) ON DELETE RESTRICT,
+ADD COLUMN note_reason TEXT;
+
+ALTER TABLE public.invoices ADD CONSTRAINT invoices_note_original_check CHECK (
+  (invoice_type IN ('Credit Note', 'Debit Note')) = (original_invoice_id IS NOT NULL)
+);
+
+CREATE INDEX invoices_original_invoice_id_idx ON public.invoices (original_invoice_id);
+
+-- Notes are numbered separately from invoices
+ALTER TABLE public.invoice_number_series
+ADD COLUMN document_type TEXT NOT NULL DEFAULT 'invoice' CHECK (document_type IN ('invoice', 'credit_note', 'debit_note'));
+
+DROP INDEX IF EXISTS public.invoice_number_series_one_default_per_company;
+CREATE UNIQUE INDEX invoice_number_series_one_default_per_company
+ON public.invoice_number_series (company_id, document_type) WHERE is_default;
+
+CREATE OR REPLACE FUNCTION public.create_default_invoice_series()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+    INSERT INTO invoice_number_series (user_id, company_id, name, prefix, document_type, is_default)
+    VALUES
+        (NEW.user_id, NEW.id, 'Tax Invoice', 'INV', 'invoice', true),
+        (NEW.user_id, NEW.id, 'Credit Note', 'CN', 'credit_note', true),
+        (NEW.user_id, NEW.id, 'Debit Note', 'DN', 'debit_note', true);
+    RETURN NEW;
+END;
+$function$;
+
+INSERT INTO public.invoice_number_series (user_id, company_id, name, prefix, document_type, is_default)
+SELECT c.user_id, c.id, t.name, t.prefix, t.document_type, true
+FROM public.companies c
+CROSS JOIN (VALUES ('Credit Note', 'CN', 'credit_note'), ('Debit Note', 'DN', 'debit_note')) AS t(name, prefix, document_type);
@@ -0,0 +1,192 @@
+-- Recurring invoice profiles hold a template invoice that is issued again on every due date
+CREATE TABLE public.recurring_invoice_profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  series_id UUID NOT NULL REFERENCES public.invoice_number_series(id) ON DELETE RESTRICT,
+  name TEXT NOT NULL,
+  invoice_type TEXT NOT NULL DEFAULT 'Tax Invoice',
+  frequency TEXT NOT NULL DEFAULT 'monthly' CHECK (frequency IN ('monthly', 'quarterly', 'yearly')),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  occurrences INTEGER CHECK (occurrences > 0),
+  due_days INTEGER CHECK (due_days >= 0),
+  invoice_status TEXT NOT NULL DEFAULT 'draft' CHECK (invoice_status IN ('draft', 'sent')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  next_run_date DATE NOT NULL,
+  generated_count INTEGER NOT NULL DEFAULT 0,
+  -- Template invoice, amounts are worked out by the app when the profile is saved
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  subtotal DECIMAL(12,2) NOT NULL DEFAULT 0,
+  gst_rate DECIMAL(5,2),
+  gst_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  igst_rate DECIMAL(5,2),
+  igst_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  cgst_rate DECIMAL(5,2),
+  cgst_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  sgst_rate DECIMAL(5,2),
+  sgst_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  total_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  place_of_supply TEXT,
+  tax_override BOOLEAN NOT NULL DEFAULT false,
+  tds_section TEXT,
+  tds_rate NUMERIC(5,2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX recurring_invoice_profiles_next_run_idx ON public.recurring_invoice_profiles (next_run_date) WHERE is_active;
+
+-- One row per scheduled date, generated or failed
+CREATE TABLE public.recurring_invoice_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES public.recurring_invoice_profiles(id) ON DELETE CASCADE,
+  run_date DATE NOT NULL,
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL,
+  status TEXT NOT NULL CHECK (status IN ('generated', 'failed')),
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (profile_id, run_date)
+);
+
+ALTER TABLE public.recurring_invoice_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_invoice_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own recurring invoice profiles"
+ON public.recurring_invoice_profiles FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own recurring invoice profiles"
+ON public.recurring_invoice_profiles FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.companies c WHERE c.id = company_id AND c.user_id = auth.uid())
+  AND EXISTS (SELECT 1 FROM public.clients c WHERE c.id = client_id AND c.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own recurring invoice profiles"
+ON public.recurring_invoice_profiles FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own recurring invoice profiles"
+ON public.recurring_invoice_profiles FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Runs are only written by the generator
+CREATE POLICY "Users can view their own recurring invoice runs"
+ON public.recurring_invoice_runs FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_recurring_invoice_profiles_updated_at
+BEFORE UPDATE ON public.recurring_invoice_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Due dates are counted from the start date so month ends do not drift (31 Jan, 28 Feb, 31 Mar)
+CREATE OR REPLACE FUNCTION public.recurring_run_date(start_date date, frequency text, run_index integer)
+ RETURNS date
+ LANGUAGE sql
+ IMMUTABLE
+ SET search_path TO 'public'
+AS $function$
+  SELECT (start_date + run_index * CASE frequency
+    WHEN 'quarterly' THEN interval '3 months'
+    WHEN 'yearly' THEN interval '1 year'
+    ELSE interval '1 month'
+  END)::date;
+$function$;
+
+-- Issues every invoice that has fallen due up to run_date, catching up on missed dates.
+-- Called by the nightly cron job for all users, or by a signed in user for their own profiles.
+CREATE OR REPLACE FUNCTION public.generate_recurring_invoices(run_date date DEFAULT CURRENT_DATE)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+    profile public.recurring_invoice_profiles;
+    new_invoice_id UUID;
+    generated INTEGER := 0;
+BEGIN
+    IF auth.uid() IS NOT NULL AND run_date > CURRENT_DATE THEN
+        RAISE EXCEPTION 'Invoices cannot be generated ahead of their date';
+    END IF;
+
+    FOR profile IN
+        SELECT *
+        FROM recurring_invoice_profiles
+        WHERE is_active
+        AND next_run_date <= run_date
+        AND (auth.uid() IS NULL OR user_id = auth.uid())
+        ORDER BY next_run_date
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        WHILE profile.is_active AND profile.next_run_date <= run_date LOOP
+            BEGIN
+                -- The invoice number is assigned by the numbering trigger
+                INSERT INTO invoices (
+                    user_id, company_id, client_id, invoice_number, series_id, invoice_date, due_date,
+                    invoice_type, status, subtotal, gst_rate, gst_amount, igst_rate, igst_amount,
+                    cgst_rate, cgst_amount, sgst_rate, sgst_amount, total_amount, place_of_supply,
+                    tax_override, tds_section, tds_rate, items, notes
+                )
+                VALUES (
+                    profile.user_id, profile.company_id, profile.client_id, '', profile.series_id,
+                    profile.next_run_date, profile.next_run_date + profile.due_days,
+                    profile.invoice_type, profile.invoice_status, profile.subtotal, profile.gst_rate,
+                    profile.gst_amount, profile.igst_rate, profile.igst_amount, profile.cgst_rate,
+                    profile.cgst_amount, profile.sgst_rate, profile.sgst_amount, profile.total_amount,
+                    profile.place_of_supply, profile.tax_override, profile.tds_section, profile.tds_rate,
+                    profile.items, profile.notes
+                )
+                RETURNING id INTO new_invoice_id;
+
+                INSERT INTO recurring_invoice_runs (user_id, profile_id, run_date, invoice_id, status)
+                VALUES (profile.user_id, profile.id, profile.next_run_date, new_invoice_id, 'generated')
+                ON CONFLICT (profile_id, run_date)
+                DO UPDATE SET invoice_id = EXCLUDED.invoice_id, status = 'generated', error = NULL;
+            EXCEPTION WHEN OTHERS THEN
+                -- Leave the profile on this date so the next run retries it
+                INSERT INTO recurring_invoice_runs (user_id, profile_id, run_date, status, error)
+                VALUES (profile.user_id, profile.id, profile.next_run_date, 'failed', SQLERRM)
+                ON CONFLICT (profile_id, run_date)
+                DO UPDATE SET status = 'failed', error = EXCLUDED.error;
+                EXIT;
+            END;
+
+            generated := generated + 1;
+            profile.generated_count := profile.generated_count + 1;
+            profile.next_run_date := recurring_run_date(profile.start_date, profile.frequency, profile.generated_count);
+            profile.is_active := NOT (
+                (profile.occurrences IS NOT NULL AND profile.generated_count >= profile.occurrences)
+                OR (profile.end_date IS NOT NULL AND profile.next_run_date > profile.end_date)
+            );
+        END LOOP;
+
+        UPDATE recurring_invoice_profiles
+        SET generated_count = profile.generated_count,
+            next_run_date = profile.next_run_date,
+            is_active = profile.is_active
+        WHERE id = profile.id;
+    END LOOP;
+
+    RETURN generated;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_recurring_invoices(date) FROM anon, PUBLIC;
+GRANT EXECUTE ON FUNCTION public.generate_recurring_invoices(date) TO authenticated;
+
+-- Nightly run, 00:30 IST
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'generate-recurring-invoices',
+  '0 19 * * *',
+  $$SELECT public.generate_recurring_invoices((now() AT TIME ZONE 'Asia/Kolkata')::date)$$
+);
@@ -0,0 +1,250 @@
+-- Quotations are pre-sale documents, kept apart from invoices so they never reach the ledger or returns
+ALTER TABLE public.invoice_number_series DROP CONSTRAINT IF EXISTS invoice_number_series_document_type_check;
+ALTER TABLE public.invoice_number_series ADD CONSTRAINT invoice_number_series_document_type_check
+CHECK (document_type IN ('invoice', 'credit_note', 'debit_note', 'quotation'));
+
+CREATE TABLE public.quotations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  series_id UUID REFERENCES public.invoice_number_series(id) ON DELETE SET NULL,
+  quotation_number TEXT NOT NULL,
+  quotation_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  valid_until DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'accepted', 'rejected', 'expired')),
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  subtotal DECIMAL(12,2) NOT NULL DEFAULT 0,
+  gst_rate DECIMAL(5,2),
+  gst_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  igst_rate DECIMAL(5,2),
+  igst_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  cgst_rate DECIMAL(5,2),
+  cgst_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  sgst_rate DECIMAL(5,2),
+  sgst_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  total_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  place_of_supply TEXT,
+  tax_override BOOLEAN NOT NULL DEFAULT false,
+  notes TEXT,
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (company_id, quotation_number),
+  CHECK (valid_until >= quotation_date)
+);
+
+-- The invoice an accepted quotation was billed through
+ALTER TABLE public.invoices
+ADD COLUMN quotation_id UUID REFERENCES public.quotations(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX invoices_quotation_id_key ON public.invoices (quotation_id);
+
+ALTER TABLE public.quotations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own quotations"
+ON public.quotations FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own quotations"
+ON public.quotations FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.companies c WHERE c.id = company_id AND c.user_id = auth.uid())
+  AND EXISTS (SELECT 1 FROM public.clients c WHERE c.id = client_id AND c.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own quotations"
+ON public.quotations FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own quotations"
+ON public.quotations FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_quotations_updated_at
+BEFORE UPDATE ON public.quotations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Allocates the next number of a series for a document date; shared by invoices and quotations
+CREATE OR REPLACE FUNCTION public.allocate_series_number(series_uuid uuid, company_uuid uuid, owner_uuid uuid, for_date date)
+ RETURNS text
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+    series public.invoice_number_series;
+    fy TEXT;
+    next_number INTEGER;
+BEGIN
+    SELECT * INTO series
+    FROM invoice_number_series
+    WHERE id = series_uuid
+    AND company_id = company_uuid
+    AND user_id = owner_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Numbering series % does not belong to this company', series_uuid;
+    END IF;
+
+    fy := financial_year_label(for_date);
+
+    INSERT INTO invoice_number_counters (series_id, financial_year, last_number)
+    VALUES (series.id, fy, 1)
+    ON CONFLICT (series_id, financial_year)
+    DO UPDATE SET last_number = invoice_number_counters.last_number + 1
+    RETURNING last_number INTO next_number;
+
+    RETURN format_invoice_number(series, fy, next_number);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.assign_invoice_number()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+    IF NEW.series_id IS NOT NULL THEN
+        NEW.invoice_number := allocate_series_number(NEW.series_id, NEW.company_id, NEW.user_id, NEW.invoice_date);
+    END IF;
+    RETURN NEW;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.assign_quotation_number()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+    IF NEW.series_id IS NOT NULL THEN
+        NEW.quotation_number := allocate_series_number(NEW.series_id, NEW.company_id, NEW.user_id, NEW.quotation_date);
+    END IF;
+    RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER assign_quotation_number_before_insert
+BEFORE INSERT ON public.quotations
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_quotation_number();
+
+CREATE OR REPLACE FUNCTION public.create_default_invoice_series()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+    INSERT INTO invoice_number_series (user_id, company_id, name, prefix, document_type, is_default)
+    VALUES
+        (NEW.user_id, NEW.id, 'Tax Invoice', 'INV', 'invoice', true),
+        (NEW.user_id, NEW.id, 'Credit Note', 'CN', 'credit_note', true),
+        (NEW.user_id, NEW.id, 'Debit Note', 'DN', 'debit_note', true),
+        (NEW.user_id, NEW.id, 'Quotation', 'QT', 'quotation', true);
+    RETURN NEW;
+END;
+$function$;
+
+INSERT INTO public.invoice_number_series (user_id, company_id, name, prefix, document_type, is_default)
+SELECT user_id, id, 'Quotation', 'QT', 'quotation', true
+FROM public.companies;
+
+-- Bills an accepted quotation as a tax invoice, at most once
+CREATE OR REPLACE FUNCTION public.convert_quotation_to_invoice(quotation_uuid uuid, series_uuid uuid DEFAULT NULL, for_date date DEFAULT CURRENT_DATE)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+    quote public.quotations;
+    target_series UUID;
+    new_invoice_id UUID;
+BEGIN
+    SELECT * INTO quote
+    FROM quotations
+    WHERE id = quotation_uuid
+    AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Quotation % not found', quotation_uuid;
+    END IF;
+
+    IF quote.status <> 'accepted' THEN
+        RAISE EXCEPTION 'Only accepted quotations can be invoiced';
+    END IF;
+
+    IF quote.invoice_id IS NOT NULL THEN
+        RAISE EXCEPTION 'Quotation % has already been invoiced', quote.quotation_number;
+    END IF;
+
+    SELECT id INTO target_series
+    FROM invoice_number_series
+    WHERE company_id = quote.company_id
+    AND user_id = quote.user_id
+    AND document_type = 'invoice'
+    AND (id = series_uuid OR (series_uuid IS NULL AND is_default));
+
+    IF target_series IS NULL THEN
+        RAISE EXCEPTION 'No invoice numbering series found for this company';
+    END IF;
+
+    -- TDS follows the client's usual deduction, the invoice number comes from the numbering trigger
+    INSERT INTO invoices (
+        user_id, company_id, client_id, invoice_number, series_id, invoice_date, invoice_type, status,
+        subtotal, gst_rate, gst_amount, igst_rate, igst_amount, cgst_rate, cgst_amount, sgst_rate, sgst_amount,
+        total_amount, place_of_supply, tax_override, tds_section, tds_rate, items, notes, quotation_id
+    )
+    SELECT
+        quote.user_id, quote.company_id, quote.client_id, '', target_series, for_date, 'Tax Invoice', 'draft',
+        quote.subtotal, quote.gst_rate, quote.gst_amount, quote.igst_rate, quote.igst_amount,
+        quote.cgst_rate, quote.cgst_amount, quote.sgst_rate, quote.sgst_amount,
+        quote.total_amount, quote.place_of_supply, quote.tax_override, c.tds_section, c.tds_rate,
+        quote.items, quote.notes, quote.id
+    FROM clients c
+    WHERE c.id = quote.client_id
+    RETURNING id INTO new_invoice_id;
+
+    UPDATE quotations
+    SET invoice_id = new_invoice_id
+    WHERE id = quote.id;
+
+    RETURN new_invoice_id;
+END;
+$function$;
+
+-- Open quotations lapse once their validity date has passed
+CREATE OR REPLACE FUNCTION public.expire_quotations()
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+    expired INTEGER;
+BEGIN
+    UPDATE quotations
+    SET status = 'expired'
+    WHERE status IN ('draft', 'sent')
+    AND valid_until < (now() AT TIME ZONE 'Asia/Kolkata')::date;
+
+    GET DIAGNOSTICS expired = ROW_COUNT;
+    RETURN expired;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.allocate_series_number(uuid, uuid, uuid, date) FROM anon, authenticated, PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.assign_quotation_number() FROM anon, authenticated, PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.expire_quotations() FROM anon, authenticated, PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.convert_quotation_to_invoice(uuid, uuid, date) FROM anon, PUBLIC;
+GRANT EXECUTE ON FUNCTION public.convert_quotation_to_invoice(uuid, uuid, date) TO authenticated;
+
+-- Nightly, just after midnight IST
+SELECT cron.schedule('expire-quotations', '35 18 * * *', $$SELECT public.expire_quotations()$$);
@@ -0,0 +1,76 @@
+-- Authorised signatories per company, printed in the signature block of invoices
+CREATE TABLE public.company_signatories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  designation TEXT,
+  signature_url TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX company_signatories_one_default_per_company
+ON public.company_signatories (company_id) WHERE is_default;
+
+ALTER TABLE public.company_signatories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own company signatories"
+ON public.company_signatories FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own company signatories"
+ON public.company_signatories FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.companies c WHERE c.id = company_id AND c.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own company signatories"
+ON public.company_signatories FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own company signatories"
+ON public.company_signatories FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_company_signatories_updated_at
+BEFORE UPDATE ON public.company_signatories
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Invoices without a signatory print the company's default one
+ALTER TABLE public.invoices
+ADD COLUMN signatory_id UUID REFERENCES public.company_signatories(id) ON DELETE SET NULL;
+
+-- Signature images and stamps, private and scoped to the owner's folder like logos
+INSERT INTO storage.buckets (id, name, public) VALUES ('company-signatures', 'company-signatures', false);
+
+CREATE POLICY "Users can view their own signatures"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'company-signatures'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Users can upload their own signatures"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'company-signatures'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Users can update their own signatures"
+ON storage.objects FOR UPDATE
+USING (
+  bucket_id = 'company-signatures'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Users can delete their own signatures"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'company-signatures'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
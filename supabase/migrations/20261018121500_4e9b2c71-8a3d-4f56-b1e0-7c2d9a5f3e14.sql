@@ -0,0 +1,24 @@
+-- Templates shipped with the app have no owner; everyone can read them but only
+-- their own templates can be changed
+CREATE POLICY "Users can view built-in templates"
+ON public.invoice_templates FOR SELECT
+USING (user_id IS NULL);
+
+-- Template used for a company's documents unless an invoice picks another
+ALTER TABLE public.companies
+ADD COLUMN template_id UUID REFERENCES public.invoice_templates(id) ON DELETE SET NULL;
+
+-- Deleting a template sends its invoices back to the company template
+ALTER TABLE public.invoices DROP CONSTRAINT invoices_template_id_fkey;
+ALTER TABLE public.invoices
+ADD CONSTRAINT invoices_template_id_fkey
+FOREIGN KEY (template_id) REFERENCES public.invoice_templates(id) ON DELETE SET NULL;
+
+-- Bring the sample templates up to the full template_data layout
+UPDATE public.invoice_templates
+SET template_data = template_data || '{"sections": ["header", "parties", "items", "totals", "gst", "bank", "notes", "signature", "footer"], "columns": ["description", "hsn", "quantity", "gst_rate", "rate", "amount"]}'::jsonb
+WHERE user_id IS NULL AND name IN ('Basic Indian Invoice', 'Product Sales');
+
+UPDATE public.invoice_templates
+SET template_data = template_data || '{"sections": ["header", "parties", "items", "totals", "gst", "bank", "notes", "terms", "signature", "footer"], "columns": ["description", "hsn", "quantity", "gst_rate", "rate", "amount"]}'::jsonb
+WHERE user_id IS NULL AND name = 'Professional Services';
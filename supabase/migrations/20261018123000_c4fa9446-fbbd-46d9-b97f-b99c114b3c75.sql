@@ -0,0 +1,231 @@
+-- Tax amounts were saved with the browser's floating point noise; keep every amount to the paisa
+UPDATE public.invoices
+SET igst_amount = round(igst_amount, 2),
+    sgst_amount = round(sgst_amount, 2),
+    cgst_amount = round(cgst_amount, 2);
+
+ALTER TABLE public.invoices
+ALTER COLUMN igst_amount TYPE DECIMAL(12,2),
+ALTER COLUMN sgst_amount TYPE DECIMAL(12,2),
+ALTER COLUMN cgst_amount TYPE DECIMAL(12,2);
+
+-- Adjustment taking the total to the nearest rupee when the document is rounded off,
+-- so total_amount = subtotal + tax + round_off
+ALTER TABLE public.invoices ADD COLUMN round_off DECIMAL(12,2) NOT NULL DEFAULT 0;
+ALTER TABLE public.quotations ADD COLUMN round_off DECIMAL(12,2) NOT NULL DEFAULT 0;
+ALTER TABLE public.recurring_invoice_profiles ADD COLUMN round_off DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- Creates the tax invoice and marks the source converted in one transaction, so a document
+-- can never be billed twice. Without a series the company's default invoice series is used.
+CREATE OR REPLACE FUNCTION public.convert_to_tax_invoice(source_uuid uuid, series_uuid uuid DEFAULT NULL, for_date date DEFAULT CURRENT_DATE)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+    source public.invoices;
+    target_series UUID;
+    new_invoice_id UUID;
+BEGIN
+    SELECT * INTO source
+    FROM invoices
+    WHERE id = source_uuid
+    AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invoice % not found', source_uuid;
+    END IF;
+
+    IF source.invoice_type NOT IN ('Proforma Invoice', 'Purchase Order') THEN
+        RAISE EXCEPTION 'Only proforma invoices and purchase orders can be converted';
+    END IF;
+
+    IF source.converted_to_id IS NOT NULL OR source.status = 'converted' THEN
+        RAISE EXCEPTION 'Invoice % has already been converted', source.invoice_number;
+    END IF;
+
+    IF source.status = 'cancelled' THEN
+        RAISE EXCEPTION 'Invoice % is cancelled', source.invoice_number;
+    END IF;
+
+    SELECT id INTO target_series
+    FROM invoice_number_series
+    WHERE company_id = source.company_id
+    AND user_id = source.user_id
+    AND document_type = 'invoice'
+    AND (id = series_uuid OR (series_uuid IS NULL AND is_default));
+
+    IF target_series IS NULL THEN
+        RAISE EXCEPTION 'No invoice numbering series found for this company';
+    END IF;
+
+    -- The invoice number is assigned by the numbering trigger
+    INSERT INTO invoices (
+        user_id, company_id, client_id, invoice_number, series_id, invoice_date, invoice_type, status,
+        subtotal, gst_rate, gst_amount, igst_rate, igst_amount, cgst_rate, cgst_amount, sgst_rate, sgst_amount,
+        round_off, total_amount, place_of_supply, tax_override, tds_section, tds_rate, items, notes, template_id,
+        converted_from_id
+    )
+    VALUES (
+        source.user_id, source.company_id, source.client_id, '', target_series, for_date, 'Tax Invoice', 'draft',
+        source.subtotal, source.gst_rate, source.gst_amount, source.igst_rate, source.igst_amount,
+        source.cgst_rate, source.cgst_amount, source.sgst_rate, source.sgst_amount,
+        source.round_off, source.total_amount, source.place_of_supply, source.tax_override, source.tds_section, source.tds_rate,
+        source.items, source.notes, source.template_id,
+        source.id
+    )
+    RETURNING id INTO new_invoice_id;
+
+    UPDATE invoices
+    SET status = 'converted', converted_to_id = new_invoice_id
+    WHERE id = source.id;
+
+    RETURN new_invoice_id;
+END;
+$function$;
+
+-- Issues every invoice that has fallen due up to run_date, catching up on missed dates.
+-- Called by the nightly cron job for all users, or by a signed in user for their own profiles.
+CREATE OR REPLACE FUNCTION public.generate_recurring_invoices(run_date date DEFAULT CURRENT_DATE)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+    profile public.recurring_invoice_profiles;
+    new_invoice_id UUID;
+    generated INTEGER := 0;
+BEGIN
+    IF auth.uid() IS NOT NULL AND run_date > CURRENT_DATE THEN
+        RAISE EXCEPTION 'Invoices cannot be generated ahead of their date';
+    END IF;
+
+    FOR profile IN
+        SELECT *
+        FROM recurring_invoice_profiles
+        WHERE is_active
+        AND next_run_date <= run_date
+        AND (auth.uid() IS NULL OR user_id = auth.uid())
+        ORDER BY next_run_date
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        WHILE profile.is_active AND profile.next_run_date <= run_date LOOP
+            BEGIN
+                -- The invoice number is assigned by the numbering trigger
+                INSERT INTO invoices (
+                    user_id, company_id, client_id, invoice_number, series_id, invoice_date, due_date,
+                    invoice_type, status, subtotal, gst_rate, gst_amount, igst_rate, igst_amount,
+                    cgst_rate, cgst_amount, sgst_rate, sgst_amount, round_off, total_amount, place_of_supply,
+                    tax_override, tds_section, tds_rate, items, notes
+                )
+                VALUES (
+                    profile.user_id, profile.company_id, profile.client_id, '', profile.series_id,
+                    profile.next_run_date, profile.next_run_date + profile.due_days,
+                    profile.invoice_type, profile.invoice_status, profile.subtotal, profile.gst_rate,
+                    profile.gst_amount, profile.igst_rate, profile.igst_amount, profile.cgst_rate,
+                    profile.cgst_amount, profile.sgst_rate, profile.sgst_amount, profile.round_off, profile.total_amount,
+                    profile.place_of_supply, profile.tax_override, profile.tds_section, profile.tds_rate,
+                    profile.items, profile.notes
+                )
+                RETURNING id INTO new_invoice_id;
+
+                INSERT INTO recurring_invoice_runs (user_id, profile_id, run_date, invoice_id, status)
+                VALUES (profile.user_id, profile.id, profile.next_run_date, new_invoice_id, 'generated')
+                ON CONFLICT (profile_id, run_date)
+                DO UPDATE SET invoice_id = EXCLUDED.invoice_id, status = 'generated', error = NULL;
+            EXCEPTION WHEN OTHERS THEN
+                -- Leave the profile on this date so the next run retries it
+                INSERT INTO recurring_invoice_runs (user_id, profile_id, run_date, status, error)
+                VALUES (profile.user_id, profile.id, profile.next_run_date, 'failed', SQLERRM)
+                ON CONFLICT (profile_id, run_date)
+                DO UPDATE SET status = 'failed', error = EXCLUDED.error;
+                EXIT;
+            END;
+
+            generated := generated + 1;
+            profile.generated_count := profile.generated_count + 1;
+            profile.next_run_date := recurring_run_date(profile.start_date, profile.frequency, profile.generated_count);
+            profile.is_active := NOT (
+                (profile.occurrences IS NOT NULL AND profile.generated_count >= profile.occurrences)
+                OR (profile.end_date IS NOT NULL AND profile.next_run_date > profile.end_date)
+            );
+        END LOOP;
+
+        UPDATE recurring_invoice_profiles
+        SET generated_count = profile.generated_count,
+            next_run_date = profile.next_run_date,
+            is_active = profile.is_active
+        WHERE id = profile.id;
+    END LOOP;
+
+    RETURN generated;
+END;
+$function$;
+
+-- Bills an accepted quotation as a tax invoice, at most once
+CREATE OR REPLACE FUNCTION public.convert_quotation_to_invoice(quotation_uuid uuid, series_uuid uuid DEFAULT NULL, for_date date DEFAULT CURRENT_DATE)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+    quote public.quotations;
+    target_series UUID;
+    new_invoice_id UUID;
+BEGIN
+    SELECT * INTO quote
+    FROM quotations
+    WHERE id = quotation_uuid
+    AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Quotation % not found', quotation_uuid;
+    END IF;
+
+    IF quote.status <> 'accepted' THEN
+        RAISE EXCEPTION 'Only accepted quotations can be invoiced';
+    END IF;
+
+    IF quote.invoice_id IS NOT NULL THEN
+        RAISE EXCEPTION 'Quotation % has already been invoiced', quote.quotation_number;
+    END IF;
+
+    SELECT id INTO target_series
+    FROM invoice_number_series
+    WHERE company_id = quote.company_id
+    AND user_id = quote.user_id
+    AND document_type = 'invoice'
+    AND (id = series_uuid OR (series_uuid IS NULL AND is_default));
+
+    IF target_series IS NULL THEN
+        RAISE EXCEPTION 'No invoice numbering series found for this company';
+    END IF;
+
+    -- TDS follows the client's usual deduction, the invoice number comes from the numbering trigger
+    INSERT INTO invoices (
+        user_id, company_id, client_id, invoice_number, series_id, invoice_date, invoice_type, status,
+        subtotal, gst_rate, gst_amount, igst_rate, igst_amount, cgst_rate, cgst_amount, sgst_rate, sgst_amount,
+        round_off, total_amount, place_of_supply, tax_override, tds_section, tds_rate, items, notes, quotation_id
+    )
+    SELECT
+        quote.user_id, quote.company_id, quote.client_id, '', target_series, for_date, 'Tax Invoice', 'draft',
+        quote.subtotal, quote.gst_rate, quote.gst_amount, quote.igst_rate, quote.igst_amount,
+        quote.cgst_rate, quote.cgst_amount, quote.sgst_rate, quote.sgst_amount,
+        quote.round_off, quote.total_amount, quote.place_of_supply, quote.tax_override, c.tds_section, c.tds_rate,
+        quote.items, quote.notes, quote.id
+    FROM clients c
+    WHERE c.id = quote.client_id
+    RETURNING id INTO new_invoice_id;
+
+    UPDATE quotations
+    SET invoice_id = new_invoice_id
+    WHERE id = quote.id;
+
+    RETURN new_invoice_id;
+END;
+$function$;
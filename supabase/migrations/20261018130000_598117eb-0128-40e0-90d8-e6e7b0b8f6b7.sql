@@ -0,0 +1,43 @@
+-- Products and services a company bills, picked from the item editor to fill a line.
+-- unit is the GST unit quantity code (UQC) printed with the quantity.
+CREATE TABLE public.catalog_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  hsn_sac_code TEXT,
+  unit TEXT NOT NULL DEFAULT 'NOS',
+  rate DECIMAL(12,2) NOT NULL DEFAULT 0,
+  gst_rate DECIMAL(5,2) NOT NULL DEFAULT 18,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- CSV imports update an item of the same name rather than adding a second one
+  CONSTRAINT catalog_items_company_name_key UNIQUE (company_id, name)
+);
+
+ALTER TABLE public.catalog_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own catalog items"
+ON public.catalog_items FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own catalog items"
+ON public.catalog_items FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.companies c WHERE c.id = company_id AND c.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own catalog items"
+ON public.catalog_items FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own catalog items"
+ON public.catalog_items FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_catalog_items_updated_at
+BEFORE UPDATE ON public.catalog_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,10 @@
+-- Registration of an invoice on the e-invoice portal (IRP): the invoice reference number,
+-- the acknowledgement and the signed QR code that has to be printed on the invoice
+ALTER TABLE public.invoices
+ADD COLUMN irn TEXT CHECK (irn ~ '^[0-9a-f]{64}$'),
+ADD COLUMN irn_ack_number TEXT,
+ADD COLUMN irn_ack_date TIMESTAMP WITH TIME ZONE,
+ADD COLUMN irn_signed_qr TEXT;
+
+-- An IRN is issued for one document only
+CREATE UNIQUE INDEX invoices_irn_key ON public.invoices (irn) WHERE irn IS NOT NULL;
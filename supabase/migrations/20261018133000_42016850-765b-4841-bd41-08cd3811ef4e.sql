@@ -0,0 +1,89 @@
+-- Letter of Undertaking the company files each financial year to export without paying
+-- IGST. Its number is quoted on every export invoice.
+ALTER TABLE public.companies
+ADD COLUMN lut_number TEXT;
+
+-- Export invoices are zero rated supplies under the LUT: no tax is charged and amounts are
+-- in the currency the client is billed in. exchange_rate converts them to rupees for the
+-- books and the GST returns.
+ALTER TABLE public.invoices
+ADD COLUMN is_export BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN currency TEXT NOT NULL DEFAULT 'INR' CHECK (currency ~ '^[A-Z]{3}$'),
+ADD COLUMN exchange_rate DECIMAL(12,4) NOT NULL DEFAULT 1 CHECK (exchange_rate > 0),
+ADD COLUMN export_port TEXT,
+ADD COLUMN export_country TEXT;
+
+-- Creates the tax invoice and marks the source converted in one transaction, so a document
+-- can never be billed twice. Without a series the company's default invoice series is used.
+CREATE OR REPLACE FUNCTION public.convert_to_tax_invoice(source_uuid uuid, series_uuid uuid DEFAULT NULL, for_date date DEFAULT CURRENT_DATE)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+    source public.invoices;
+    target_series UUID;
+    new_invoice_id UUID;
+BEGIN
+    SELECT * INTO source
+    FROM invoices
+    WHERE id = source_uuid
+    AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invoice % not found', source_uuid;
+    END IF;
+
+    IF source.invoice_type NOT IN ('Proforma Invoice', 'Purchase Order') THEN
+        RAISE EXCEPTION 'Only proforma invoices and purchase orders can be converted';
+    END IF;
+
+    IF source.converted_to_id IS NOT NULL OR source.status = 'converted' THEN
+        RAISE EXCEPTION 'Invoice % has already been converted', source.invoice_number;
+    END IF;
+
+    IF source.status = 'cancelled' THEN
+        RAISE EXCEPTION 'Invoice % is cancelled', source.invoice_number;
+    END IF;
+
+    SELECT id INTO target_series
+    FROM invoice_number_series
+    WHERE company_id = source.company_id
+    AND user_id = source.user_id
+    AND document_type = 'invoice'
+    AND (id = series_uuid OR (series_uuid IS NULL AND is_default));
+
+    IF target_series IS NULL THEN
+        RAISE EXCEPTION 'No invoice numbering series found for this company';
+    END IF;
+
+    -- The invoice number is assigned by the numbering trigger
+    INSERT INTO invoices (
+        user_id, company_id, client_id, invoice_number, series_id, invoice_date, invoice_type, status,
+        subtotal, gst_rate, gst_amount, igst_rate, igst_amount, cgst_rate, cgst_amount, sgst_rate, sgst_amount,
+        discount_type, discount_value, discount_amount,
+        round_off, total_amount, place_of_supply, tax_override, tds_section, tds_rate, items, notes, template_id,
+        is_export, currency, exchange_rate, export_port, export_country,
+        converted_from_id
+    )
+    VALUES (
+        source.user_id, source.company_id, source.client_id, '', target_series, for_date, 'Tax Invoice', 'draft',
+        source.subtotal, source.gst_rate, source.gst_amount, source.igst_rate, source.igst_amount,
+        source.cgst_rate, source.cgst_amount, source.sgst_rate, source.sgst_amount,
+        source.discount_type, source.discount_value, source.discount_amount,
+        source.round_off, source.total_amount, source.place_of_supply, source.tax_override, source.tds_section, source.tds_rate,
+        source.items, source.notes, source.template_id,
+        source.is_export, source.currency, source.exchange_rate, source.export_port, source.export_country,
+        source.id
+    )
+    RETURNING id INTO new_invoice_id;
+
+    UPDATE invoices
+    SET status = 'converted', converted_to_id = new_invoice_id
+    WHERE id = source.id;
+
+    RETURN new_invoice_id;
+END;
+$function$;
@@ -0,0 +1,8 @@
+-- The invoice type column used to default to 'Invoice', which is not one of the types the
+-- app offers. Those rows are tax invoices and are reported as such in the GST returns.
+UPDATE public.invoices
+SET invoice_type = 'Tax Invoice'
+WHERE invoice_type = 'Invoice';
+
+ALTER TABLE public.invoices
+ALTER COLUMN invoice_type SET DEFAULT 'Tax Invoice';
@@ -0,0 +1,11 @@
+-- Identifiers left blank were saved as empty strings; a missing identifier is NULL
+UPDATE public.clients
+SET gst_number = NULLIF(btrim(gst_number), ''),
+    pan_number = NULLIF(btrim(pan_number), ''),
+    cin_number = NULLIF(btrim(cin_number), '')
+WHERE btrim(gst_number) = '' OR btrim(pan_number) = '' OR btrim(cin_number) = '';
+
+UPDATE public.companies
+SET gst_number = NULLIF(btrim(gst_number), ''),
+    pan_number = NULLIF(btrim(pan_number), '')
+WHERE btrim(gst_number) = '' OR btrim(pan_number) = '';
@@ -0,0 +1,11 @@
+-- An updated payment must still belong to one of the user's own invoices, like a new one;
+-- otherwise it could be pointed at another user's invoice and change its paid status
+DROP POLICY IF EXISTS "Users can update their own payments" ON public.payments;
+
+CREATE POLICY "Users can update their own payments"
+ON public.payments FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.invoices i WHERE i.id = invoice_id AND i.user_id = auth.uid())
+);
@@ -0,0 +1,10 @@
+-- A signatory moved by an update must still belong to one of the user's own companies,
+-- as when it is created
+DROP POLICY IF EXISTS "Users can update their own company signatories" ON public.company_signatories;
+CREATE POLICY "Users can update their own company signatories"
+ON public.company_signatories FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.companies c WHERE c.id = company_id AND c.user_id = auth.uid())
+);
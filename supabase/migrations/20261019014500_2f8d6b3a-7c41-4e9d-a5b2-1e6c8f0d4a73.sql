@@ -0,0 +1,79 @@
+-- A document can only be numbered from a series kept for its own kind, so a credit note
+-- never takes the next invoice number or a quotation a credit note's
+CREATE OR REPLACE FUNCTION public.allocate_series_number(series_uuid uuid, company_uuid uuid, owner_uuid uuid, for_date date, expected_type text)
+ RETURNS text
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+    series public.invoice_number_series;
+    fy TEXT;
+    next_number INTEGER;
+BEGIN
+    SELECT * INTO series
+    FROM invoice_number_series
+    WHERE id = series_uuid
+    AND company_id = company_uuid
+    AND user_id = owner_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Numbering series % does not belong to this company', series_uuid;
+    END IF;
+
+    IF series.document_type <> expected_type THEN
+        RAISE EXCEPTION 'Numbering series % is for % documents, not %', series.name, series.document_type, expected_type;
+    END IF;
+
+    fy := financial_year_label(for_date);
+
+    INSERT INTO invoice_number_counters (series_id, financial_year, last_number)
+    VALUES (series.id, fy, 1)
+    ON CONFLICT (series_id, financial_year)
+    DO UPDATE SET last_number = invoice_number_counters.last_number + 1
+    RETURNING last_number INTO next_number;
+
+    RETURN format_invoice_number(series, fy, next_number);
+END;
+$function$;
+
+-- Credit and debit notes have series of their own; every other invoice type is numbered
+-- from an invoice series
+CREATE OR REPLACE FUNCTION public.assign_invoice_number()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+    IF NEW.series_id IS NOT NULL THEN
+        NEW.invoice_number := allocate_series_number(
+            NEW.series_id, NEW.company_id, NEW.user_id, NEW.invoice_date,
+            CASE NEW.invoice_type
+                WHEN 'Credit Note' THEN 'credit_note'
+                WHEN 'Debit Note' THEN 'debit_note'
+                ELSE 'invoice'
+            END
+        );
+    END IF;
+    RETURN NEW;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.assign_quotation_number()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+    IF NEW.series_id IS NOT NULL THEN
+        NEW.quotation_number := allocate_series_number(NEW.series_id, NEW.company_id, NEW.user_id, NEW.quotation_date, 'quotation');
+    END IF;
+    RETURN NEW;
+END;
+$function$;
+
+DROP FUNCTION public.allocate_series_number(uuid, uuid, uuid, date);
+
+REVOKE EXECUTE ON FUNCTION public.allocate_series_number(uuid, uuid, uuid, date, text) FROM anon, authenticated, PUBLIC;
@@ -0,0 +1,92 @@
+-- A profile moved by an update must still point at the user's own company and client, as
+-- when it is created
+DROP POLICY IF EXISTS "Users can update their own recurring invoice profiles" ON public.recurring_invoice_profiles;
+CREATE POLICY "Users can update their own recurring invoice profiles"
+ON public.recurring_invoice_profiles FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.companies c WHERE c.id = company_id AND c.user_id = auth.uid())
+  AND EXISTS (SELECT 1 FROM public.clients c WHERE c.id = client_id AND c.user_id = auth.uid())
+);
+
+-- Invoices are dated in IST. The database date is UTC, still yesterday until 05:30 IST, so
+-- today's profiles were refused or skipped when run from the app early in the morning
+CREATE OR REPLACE FUNCTION public.generate_recurring_invoices(run_date date DEFAULT (now() AT TIME ZONE 'Asia/Kolkata')::date)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+    profile public.recurring_invoice_profiles;
+    new_invoice_id UUID;
+    generated INTEGER := 0;
+BEGIN
+    IF auth.uid() IS NOT NULL AND run_date > (now() AT TIME ZONE 'Asia/Kolkata')::date THEN
+        RAISE EXCEPTION 'Invoices cannot be generated ahead of their date';
+    END IF;
+
+    FOR profile IN
+        SELECT *
+        FROM recurring_invoice_profiles
+        WHERE is_active
+        AND next_run_date <= run_date
+        AND (auth.uid() IS NULL OR user_id = auth.uid())
+        ORDER BY next_run_date
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        WHILE profile.is_active AND profile.next_run_date <= run_date LOOP
+            BEGIN
+                -- The invoice number is assigned by the numbering trigger
+                INSERT INTO invoices (
+                    user_id, company_id, client_id, invoice_number, series_id, invoice_date, due_date,
+                    invoice_type, status, subtotal, gst_rate, gst_amount, igst_rate, igst_amount,
+                    cgst_rate, cgst_amount, sgst_rate, sgst_amount, discount_type, discount_value,
+                    discount_amount, round_off, total_amount, place_of_supply,
+                    tax_override, tds_section, tds_rate, items, notes
+                )
+                VALUES (
+                    profile.user_id, profile.company_id, profile.client_id, '', profile.series_id,
+                    profile.next_run_date, profile.next_run_date + profile.due_days,
+                    profile.invoice_type, profile.invoice_status, profile.subtotal, profile.gst_rate,
+                    profile.gst_amount, profile.igst_rate, profile.igst_amount, profile.cgst_rate,
+                    profile.cgst_amount, profile.sgst_rate, profile.sgst_amount, profile.discount_type,
+                    profile.discount_value, profile.discount_amount, profile.round_off, profile.total_amount,
+                    profile.place_of_supply, profile.tax_override, profile.tds_section, profile.tds_rate,
+                    profile.items, profile.notes
+                )
+                RETURNING id INTO new_invoice_id;
+
+                INSERT INTO recurring_invoice_runs (user_id, profile_id, run_date, invoice_id, status)
+                VALUES (profile.user_id, profile.id, profile.next_run_date, new_invoice_id, 'generated')
+                ON CONFLICT (profile_id, run_date)
+                DO UPDATE SET invoice_id = EXCLUDED.invoice_id, status = 'generated', error = NULL;
+            EXCEPTION WHEN OTHERS THEN
+                -- Leave the profile on this date so the next run retries it
+                INSERT INTO recurring_invoice_runs (user_id, profile_id, run_date, status, error)
+                VALUES (profile.user_id, profile.id, profile.next_run_date, 'failed', SQLERRM)
+                ON CONFLICT (profile_id, run_date)
+                DO UPDATE SET status = 'failed', error = EXCLUDED.error;
+                EXIT;
+            END;
+
+            generated := generated + 1;
+            profile.generated_count := profile.generated_count + 1;
+            profile.next_run_date := recurring_run_date(profile.start_date, profile.frequency, profile.generated_count);
+            profile.is_active := NOT (
+                (profile.occurrences IS NOT NULL AND profile.generated_count >= profile.occurrences)
+                OR (profile.end_date IS NOT NULL AND profile.next_run_date > profile.end_date)
+            );
+        END LOOP;
+
+        UPDATE recurring_invoice_profiles
+        SET generated_count = profile.generated_count,
+            next_run_date = profile.next_run_date,
+            is_active = profile.is_active
+        WHERE id = profile.id;
+    END LOOP;
+
+    RETURN generated;
+END;
+$function$;